@@ -0,0 +1,74 @@
+// Keeps the scoreboard usable without signal: the app shell, its built
+// assets and the current round's data are served from cache when the
+// network can't be reached. Score writes are queued by the app itself.
+
+const CACHE_NAME = "rc-scoreboard-v1";
+const APP_SHELL = ["/", "/manifest.json", "/favicon.svg"];
+
+// Reads a scorer needs to open a match they've already loaded
+const CACHED_API = [
+  /^\/api\/rounds\/\d+$/,
+  /^\/api\/holes$/,
+  /^\/api\/round-handicaps\/\d+$/,
+  /^\/api\/matches\/\d+$/,
+  /^\/api\/scores$/,
+  /^\/api\/best-ball-scores\/\d+$/,
+  /^\/api\/player-scores$/,
+  /^\/api\/match-players$/,
+  /^\/api\/players$/,
+  /^\/api\/teams$/,
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Fresh when online, the last copy when not
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have hashed names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/"));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (CACHED_API.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import Round from "@/pages/Round";
+import Skins from "@/pages/Skins";
 import Match from "@/pages/Match";
 import Teams from "@/pages/Teams";
 import AuthPage from "@/pages/AuthPage";
@@ -18,6 +19,7 @@ import Sportsbook from "@/pages/Sportsbook";
 import Layout from "@/components/Layout";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { TournamentProvider } from "@/hooks/use-tournament";
 import { useState, useEffect, useRef } from "react";
 
 function Router() {
@@ -103,6 +105,9 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/rounds/:id/skins">
+        {(params) => <Skins id={parseInt(params.id)} />}
+      </Route>
       <Route path="/rounds/:id">
         {(params) => <Round id={parseInt(params.id)} />}
       </Route>
@@ -126,12 +131,14 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Layout>
-            <Router />
-          </Layout>
-          <Toaster />
-        </TooltipProvider>
+        <TournamentProvider>
+          <TooltipProvider>
+            <Layout>
+              <Router />
+            </Layout>
+            <Toaster />
+          </TooltipProvider>
+        </TournamentProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import type { BestBallScore, PlayerScore } from "@shared/schema";
+import type { BestBallScore, HoleScore as SavedHoleScore, PlayerScore, StaleScore } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -18,6 +18,44 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/use-auth";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
+import {
+  allowanceFor,
+  calculateHandicapStrokes,
+  calculateNassauState,
+  concedeNassauState,
+  findCountingScore,
+  formatLiveStatus,
+  getMatchFormat,
+  isPlayoffHole,
+  matchStatusThroughHole,
+  matchTeams,
+  netScore,
+  opposingTeam,
+  playingHandicaps,
+  scoreHoles,
+  sidePlayingHandicaps,
+  withSideStrokes,
+  FULL_ROUND,
+  NASSAU_LEGS,
+  NO_PLAYOFF,
+  type HandicapAllowance,
+  type HoleRange,
+  type MatchGolfer,
+  type MatchTeams,
+  type PlayerHoleScore,
+  type PlayoffConfig,
+  type TeamHoleScore,
+  type TeamId,
+} from "@shared/scoring";
+import ScoreConflictResolver, { type ScoreConflict } from "@/components/ScoreConflictResolver";
+import { usePendingScores } from "@/hooks/use-pending-scores";
+import {
+  isNetworkError,
+  pendingScoreKey,
+  queueScoreWrite,
+  removePendingScoreWrite,
+} from "@/lib/score-queue";
 import "./BestBallScorecard.css";
 
 // Add styles directly in the component
@@ -98,14 +136,6 @@ const styles = {
     textAlign: 'left',
     paddingLeft: '10px',
   },
-  teamHeaderAviators: {
-    backgroundColor: 'var(--aviator-bg)',
-    color: 'var(--aviator-text)',
-  },
-  teamHeaderProducers: {
-    backgroundColor: 'var(--producer-bg)',
-    color: 'var(--producer-text)',
-  },
   playerName: {
     textAlign: 'left',
     paddingLeft: '10px',
@@ -113,14 +143,6 @@ const styles = {
     overflow: 'hidden',
     textOverflow: 'ellipsis',
   },
-  playerNameAviator: {
-    color: 'var(--aviator-text)',
-    borderLeft: '4px solid var(--aviator-accent)',
-  },
-  playerNameProducer: {
-    color: 'var(--producer-text)',
-    borderLeft: '4px solid var(--producer-accent)',
-  },
   playerHandicap: {
     fontWeight: 500,
   },
@@ -166,42 +188,70 @@ const styles = {
 interface BestBallPlayerScore {
   player: string;
   score: number | null;
-  teamId: string;
+  teamId: TeamId;
   playerId: number;
   handicapStrokes?: number;
   netScore?: number | null;
   isBestBall?: boolean;
+  puttConceded?: boolean;
 }
 
-// Score interface for team totals
-interface HoleScore {
+// A golfer's hole score as it is sent to the server, or queued without signal
+interface BestBallScoreWrite {
+  matchId: number;
+  playerId: number;
   holeNumber: number;
-  aviatorScore: number | null;
-  producerScore: number | null;
+  score: number | null;
+  handicapStrokes: number;
+  netScore: number | null;
+  puttConceded?: boolean;
+  expectedVersion: number;
+}
+
+// Score interface for team totals
+interface HoleScore extends TeamHoleScore {
+  conceded?: boolean;
 }
 
+// Saved hole rows as the shared scoring engine reads them
+const toTeamHoleScore = (s: SavedHoleScore): HoleScore => ({
+  holeNumber: s.holeNumber,
+  scores: s.teamScores,
+  conceded: !!s.conceded,
+  concededBy: s.conceded ? s.concededByTeamId : null,
+});
+
 interface ScorecardProps {
   matchId: number;
   holes: any[];
-  aviatorPlayersList?: any[];
-  producerPlayersList?: any[];
+  /** Players on each side, keyed by team id */
+  teamPlayersList?: Record<TeamId, any[]>;
   participants: any[];
-  scores: HoleScore[];
+  scores: SavedHoleScore[];
   locked?: boolean;
-  isAviators?: boolean;
-  isProducers?: boolean;
   isBestBall?: boolean;
+  /** Round format, used to pick the shared scoring strategy */
+  matchType?: string;
+  /** Holes this match is played over; `holes` should already be filtered to it */
+  holeRange?: HoleRange;
+  /** Sudden-death settings; extra holes in `holes` are numbered from 19 */
+  playoff?: PlayoffConfig;
+  /** Show front/back/overall status for Nassau rounds */
+  isNassau?: boolean;
   matchData?: any;
   roundHandicaps?: any[];
+  /** How course handicaps become strokes in this match; defaults to the format's */
+  handicapAllowance?: HandicapAllowance;
   /** Callback for updating team scores */
   onScoreUpdate?: (
     hole: number,
-    aviatorScore: number | null,
-    producerScore: number | null,
+    teamScores: Record<TeamId, number | null>,
   ) => void;
   /** @deprecated use onScoreUpdate instead */
   onUpdateScores?: (scores: HoleScore[]) => void;
   canEditScores?: boolean;
+  /** Team scores another phone changed first, waiting to be resolved */
+  scoreConflicts?: ScoreConflict[];
 }
 
 /**
@@ -222,22 +272,34 @@ interface ScorecardProps {
 const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
   matchId,
   holes = [],
-  aviatorPlayersList = [], // Now received as prop
-  producerPlayersList = [], // Now received as prop
+  teamPlayersList = {}, // Now received as prop
   participants = [],
   scores = [],
   locked = false,
-  isAviators = false, // This prop seems unused, consider removing if not needed
-  isProducers = false, // This prop seems unused, consider removing if not needed
   isBestBall = false, // Now received as prop
+  matchType,
+  holeRange = FULL_ROUND,
+  playoff = NO_PLAYOFF,
+  isNassau = false,
   matchData = null,
   roundHandicaps = [],
+  handicapAllowance,
   onScoreUpdate,
   onUpdateScores,
   canEditScores = true,
+  scoreConflicts = [],
 }) => {
   const { toast } = useToast();
   const { user: currentUser } = useAuth();
+  const { teamById } = useTeams();
+  const format = getMatchFormat(matchType);
+
+  // The two sides, in the order the match lists them
+  const teams: MatchTeams = matchData
+    ? matchTeams(matchData)
+    : (Object.keys(teamPlayersList).map(Number) as MatchTeams);
+  const playersOf = (teamId: TeamId): any[] => teamPlayersList[teamId] || [];
+  const allPlayers = teams.flatMap(playersOf);
   
   const [playerScores, setPlayerScores] = useState<Map<string, BestBallPlayerScore[]>>(new Map());
   const [playerTotals, setPlayerTotals] = useState<Map<string, number>>(new Map());
@@ -252,14 +314,18 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
   const [handicapValue, setHandicapValue] = useState<number>(0);
   const [playerHandicaps, setPlayerHandicaps] = useState<Map<number, number>>(new Map());
   const [holeArray, setHoleArray] = useState<any[]>([]);
+  const [concessionHole, setConcessionHole] = useState<number | null>(null);
+  const [concedeMatchOpen, setConcedeMatchOpen] = useState(false);
+  const [bestBallConflicts, setBestBallConflicts] = useState<ScoreConflict[]>([]);
+  const { pendingWrite, conflictedWrites } = usePendingScores(matchId);
 
   // Keep local team score state in sync with scores prop
   useEffect(() => {
-    setTeamScores(scores);
+    setTeamScores(scores.map(toTeamHoleScore));
   }, [scores]);
   
   // Load match scores
-  const { data: matchScores, isLoading: scoresLoading } = useQuery<HoleScore[]>({
+  const { data: matchScores, isLoading: scoresLoading } = useQuery<SavedHoleScore[]>({
     queryKey: [`/api/scores?matchId=${matchId}`],
     queryFn: async () => {
       const response = await apiRequest('GET', `/api/scores?matchId=${matchId}`);
@@ -291,31 +357,75 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     enabled: !!matchId,
   });
   
-  // Mutation for saving best ball scores
+  // The version of a golfer's hole score this phone last saw; 0 before it has one
+  const bestBallVersion = (playerId: number, holeNumber: number) =>
+    individualScores?.find((s) => s.playerId === playerId && s.holeNumber === holeNumber)?.version ?? 0;
+
+  // Mutation for saving best ball scores. A score another phone changed
+  // first comes back as a conflict for the golfer to resolve; with no
+  // signal the score is queued to send later.
   const saveScoreMutation = useMutation({
-    mutationFn: async (score: {
-      matchId: number;
-      playerId: number;
-      holeNumber: number;
-      score: number | null;
-      handicapStrokes: number;
-      netScore: number | null;
-    }) => {
-      const response = await fetch('/api/best-ball-scores', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(score),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to save best ball score');
+    networkMode: "always",
+    mutationFn: async (
+      score: BestBallScoreWrite,
+    ): Promise<{ saved?: BestBallScore; conflicts?: StaleScore[]; queued?: boolean }> => {
+      const key = pendingScoreKey("best_ball", score.matchId, score.holeNumber, score.playerId);
+      let response: Response | null;
+      try {
+        response = await apiRequest("POST", "/api/best-ball-scores", score, { on409: "return" });
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueScoreWrite({
+          key,
+          kind: "best_ball",
+          matchId: score.matchId,
+          holeNumber: score.holeNumber,
+          subjectId: score.playerId,
+          score: score.score,
+          method: "POST",
+          url: "/api/best-ball-scores",
+          body: { ...score },
+        });
+        return { queued: true };
       }
-      
-      return response.json();
+      if (!response) throw new Error('No response for best ball score');
+
+      // This edit is newer than anything still queued for the cell
+      await removePendingScoreWrite(key);
+
+      const body = await response.json();
+      return response.status === 409 ? { conflicts: body.conflicts } : { saved: body };
     },
-    onSuccess: () => {
+    onSuccess: ({ saved, conflicts, queued }, score) => {
+      if (queued) return;
+      if (conflicts) {
+        const key = `${score.holeNumber}-${score.playerId}`;
+        const resolved = () => setBestBallConflicts((prev) => prev.filter((c) => c.key !== key));
+        setBestBallConflicts((prev) => [
+          ...prev.filter((c) => c.key !== key),
+          {
+            key,
+            holeNumber: score.holeNumber,
+            label: allPlayers.find((p: any) => p.id === score.playerId)?.name ?? "Player",
+            stale: conflicts[0],
+            yours: score.score,
+            keepYours: () => {
+              resolved();
+              saveScoreMutation.mutate({ ...score, expectedVersion: conflicts[0].version });
+            },
+            keepTheirs: () => {
+              resolved();
+              queryClient.invalidateQueries({ queryKey: [`/api/best-ball-scores/${matchId}`] });
+            },
+          },
+        ]);
+        return;
+      }
+
+      // Take the new version straight away so a quick second edit isn't refused
+      queryClient.setQueryData<BestBallScore[]>([`/api/best-ball-scores/${matchId}`], (prev) =>
+        prev && saved ? [...prev.filter((s) => s.id !== saved.id), saved] : prev,
+      );
       queryClient.invalidateQueries({ queryKey: [`/api/best-ball-scores/${matchId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/player-scores?matchId=${matchId}`] });
     },
@@ -329,16 +439,58 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     },
   });
   
+  // Golfers' scores the offline queue found another phone had changed first
+  const queuedBestBallConflicts = conflictedWrites
+    .filter((write) => write.kind === "best_ball")
+    .map((write): ScoreConflict => ({
+      key: write.key,
+      holeNumber: write.holeNumber,
+      label: allPlayers.find((p: any) => p.id === write.subjectId)?.name ?? "Player",
+      stale: write.conflicts![0],
+      yours: write.score,
+      keepYours: () => {
+        removePendingScoreWrite(write.key);
+        saveScoreMutation.mutate({
+          ...(write.body as unknown as BestBallScoreWrite),
+          expectedVersion: write.conflicts![0].version,
+        });
+      },
+      keepTheirs: () => {
+        removePendingScoreWrite(write.key);
+        queryClient.invalidateQueries({ queryKey: [`/api/best-ball-scores/${matchId}`] });
+      },
+    }));
+
   // Mutation for saving player scores
   const savePlayerScoreMutation = useMutation({
-    mutationFn: (data: {
+    networkMode: "always",
+    mutationFn: async (data: {
       playerId: number;
       matchId: number;
       holeNumber: number;
       score: number;
       tournamentId?: number;
     }) => {
-      return apiRequest("POST", "/api/player-scores", data);
+      const key = pendingScoreKey("player", data.matchId, data.holeNumber, data.playerId);
+      try {
+        const response = await apiRequest("POST", "/api/player-scores", data);
+        await removePendingScoreWrite(key);
+        return response;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueScoreWrite({
+          key,
+          kind: "player",
+          matchId: data.matchId,
+          holeNumber: data.holeNumber,
+          subjectId: data.playerId,
+          score: data.score,
+          method: "POST",
+          url: "/api/player-scores",
+          body: { ...data },
+        });
+        return null;
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/player-scores?matchId=${matchId}`] });
@@ -348,6 +500,49 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     },
   });
 
+  // Concessions are decided on the server and come back with the scores
+  const concedeHoleMutation = useMutation({
+    mutationFn: async (data: { holeNumber: number; concededBy: TeamId | null }) => {
+      const response = await apiRequest("POST", `/api/matches/${matchId}/concede-hole`, data);
+      if (!response) throw new Error('No response for hole concession');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/scores?matchId=${matchId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+      setConcessionHole(null);
+    },
+    onError: (error) => {
+      console.error('Error recording concession:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to record the concession. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const concedeMatchMutation = useMutation({
+    mutationFn: async (concededBy: TeamId) => {
+      const response = await apiRequest("POST", `/api/matches/${matchId}/concede`, { concededBy });
+      if (!response) throw new Error('No response for match concession');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/scores?matchId=${matchId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+      setConcedeMatchOpen(false);
+    },
+    onError: (error) => {
+      console.error('Error conceding match:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to concede the match. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Get player course handicap (from handicaps state or roundHandicaps prop)
   const getPlayerCourseHandicap = useCallback((playerId: number): number => {
     // First check our local state for any temporarily updated handicaps
@@ -360,6 +555,66 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     return playerHandicap?.courseHandicap || 0;
   }, [playerHandicaps, roundHandicaps]);
 
+  // Playing handicaps after the round's allowance, e.g. off the low man
+  const allowance = handicapAllowance ?? allowanceFor(matchType);
+  const matchGolfers = useMemo<MatchGolfer[]>(() => Object.entries(teamPlayersList).flatMap(
+    ([teamId, players]) => players.map((p: any) => ({ playerId: p.id, teamId: Number(teamId), courseHandicap: getPlayerCourseHandicap(p.id) })),
+  ), [teamPlayersList, getPlayerCourseHandicap]);
+  const matchPlayingHandicaps = useMemo(
+    () => playingHandicaps(allowance, matchGolfers),
+    [allowance, matchGolfers],
+  );
+  const sideHandicaps = useMemo(
+    () => sidePlayingHandicaps(allowance, matchGolfers),
+    [allowance, matchGolfers],
+  );
+  const getPlayerPlayingHandicap = useCallback(
+    (playerId: number): number => matchPlayingHandicaps.get(playerId) ?? getPlayerCourseHandicap(playerId),
+    [matchPlayingHandicaps, getPlayerCourseHandicap],
+  );
+
+  // Team-ball formats take the side's strokes off the team score
+  const netTeamScores = useMemo(
+    () => (format.scoreEntry === "team" ? withSideStrokes(teamScores, sideHandicaps, holes, playoff) : teamScores),
+    [format.scoreEntry, teamScores, sideHandicaps, holes, playoff],
+  );
+
+  // Explain where a player's course handicap came from
+  const getPlayerHandicapSource = (playerId: number): string => {
+    if (playerHandicaps.has(playerId)) return "Edited on this scorecard";
+    const playerHandicap = roundHandicaps?.find(h => h.playerId === playerId);
+    if (playerHandicap?.source === "override") return "Set by an admin";
+    if (playerHandicap?.source === "calculated") {
+      return `Index ${playerHandicap.handicapIndex} on ${playerHandicap.teeName ?? "course"} tees (${playerHandicap.courseRating}/${playerHandicap.slopeRating})`;
+    }
+    return "No handicap index";
+  };
+
+  // Shape a local player score the way the shared scoring engine expects it
+  const toHoleScore = (s: BestBallPlayerScore, holeNumber: number): PlayerHoleScore => ({
+    playerId: s.playerId,
+    teamId: s.teamId,
+    holeNumber,
+    score: s.score,
+    handicapStrokes: s.handicapStrokes || 0,
+  });
+
+  // Flag the ball that counts for a side on a hole
+  const markCountingScore = (sideScores: BestBallPlayerScore[], holeNumber: number) => {
+    sideScores.forEach(s => {
+      s.isBestBall = false;
+      s.netScore = netScore(toHoleScore(s, holeNumber));
+    });
+    const counting = findCountingScore(
+      sideScores.map(s => toHoleScore(s, holeNumber)),
+      format.useNet,
+    );
+    const flagged = counting && sideScores.find(s => s.playerId === counting.playerId);
+    if (flagged) {
+      flagged.isBestBall = true;
+    }
+  };
+
   // Load individual scores from best ball table
   useEffect(() => {
     if (!isBestBall || !individualScores || individualScores.length === 0) {
@@ -373,11 +628,11 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
       const newPlayerScores = new Map(prevScores);
       
       individualScores.forEach(score => {
-        const player = [...aviatorPlayersList, ...producerPlayersList].find(p => p.id === score.playerId);
-        
-        if (!player) return;
+        const teamId = teams.find(t => playersOf(t).some(p => p.id === score.playerId));
+        const player = teamId !== undefined ? playersOf(teamId).find(p => p.id === score.playerId) : undefined;
         
-        const teamId = player.teamId === 1 ? "aviator" : "producer";
+        if (!player || teamId === undefined) return;
+
         const playerKey = `${score.holeNumber}-${player.name}`;
         const teamKey = `${score.holeNumber}-${teamId}`;
         
@@ -390,6 +645,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
           handicapStrokes: score.handicapStrokes || 0,
           netScore: score.netScore,
           isBestBall: false, // Will be set in a later step
+          puttConceded: score.puttConceded ?? false,
         };
         
         // Add to player-specific and team collections
@@ -410,93 +666,32 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
       // Calculate best ball scores for all holes
       if (holes && holes.length > 0) {
         holes.forEach(hole => {
-          const holeNumber = hole.number;
-          const aviatorTeamKey = `${holeNumber}-aviator`;
-          const producerTeamKey = `${holeNumber}-producer`;
-          
-          // CALCULATE BEST BALL FOR AVIATORS
-          const aviatorScores = newPlayerScores.get(aviatorTeamKey) || [];
-          if (aviatorScores.length > 0) {
-            // Reset all isBestBall flags initially
-            aviatorScores.forEach(s => { s.isBestBall = false; });
-            
-            // Filter valid scores and find lowest net
-            const validScores = aviatorScores.filter(s => s.score !== null);
-            
-            if (validScores.length > 0) {
-              // Make sure all net scores are calculated
-              validScores.forEach(s => {
-                if (s.netScore === null && s.score !== null) {
-                  s.netScore = Math.max(0, s.score - (s.handicapStrokes || 0));
-                }
-              });
-              
-              // Find lowest net score
-              const lowestNetPlayer = validScores.reduce((lowest, current) => {
-                const lowestNet = lowest.netScore ?? 99;
-                const currentNet = current.netScore ?? 99;
-                return currentNet < lowestNet ? current : lowest;
-              }, validScores[0]);
-              
-              // Mark as best ball
-              if (lowestNetPlayer) {
-                lowestNetPlayer.isBestBall = true;
-              }
-            }
-          }
-          
-          // CALCULATE BEST BALL FOR PRODUCERS
-          const producerScores = newPlayerScores.get(producerTeamKey) || [];
-          if (producerScores.length > 0) {
-            // Reset all isBestBall flags initially
-            producerScores.forEach(s => { s.isBestBall = false; });
-            
-            // Filter valid scores and find lowest net
-            const validScores = producerScores.filter(s => s.score !== null);
-            
-            if (validScores.length > 0) {
-              // Make sure all net scores are calculated
-              validScores.forEach(s => {
-                if (s.netScore === null && s.score !== null) {
-                  s.netScore = Math.max(0, s.score - (s.handicapStrokes || 0));
-                }
-              });
-              
-              // Find lowest net score
-              const lowestNetPlayer = validScores.reduce((lowest, current) => {
-                const lowestNet = lowest.netScore ?? 99;
-                const currentNet = current.netScore ?? 99;
-                return currentNet < lowestNet ? current : lowest;
-              }, validScores[0]);
-              
-              // Mark as best ball
-              if (lowestNetPlayer) {
-                lowestNetPlayer.isBestBall = true;
-              }
-            }
-          }
+          teams.forEach(teamId => {
+            markCountingScore(newPlayerScores.get(`${hole.number}-${teamId}`) || [], hole.number);
+          });
         });
 
-        // Build team score array using lowest net from each team
+        // Team score per hole comes from the shared format strategy
+        const allPlayerHoleScores = holes.flatMap(h => teams
+          .flatMap(teamId => newPlayerScores.get(`${h.number}-${teamId}`) || [])
+          .map(ps => toHoleScore(ps, h.number)));
+        const outcomes = scoreHoles(
+          matchType,
+          teams,
+          scores.map(toTeamHoleScore),
+          allPlayerHoleScores,
+          holeRange,
+          playoff,
+        );
+
         const newTeamScores: HoleScore[] = holes.map(h => {
-          const atk = `${h.number}-aviator`;
-          const ptk = `${h.number}-producer`;
-          const aVals = (newPlayerScores.get(atk) || []).filter(s => s.score !== null);
-          const pVals = (newPlayerScores.get(ptk) || []).filter(s => s.score !== null);
-
-          const bestA = aVals.length
-            ? aVals.reduce((l, c) => (c.netScore! < l.netScore! ? c : l)).netScore
-            : null;
-          const bestP = pVals.length
-            ? pVals.reduce((l, c) => (c.netScore! < l.netScore! ? c : l)).netScore
-            : null;
-
-          const existing = scores.find(s => s.holeNumber === h.number);
+          const outcome = outcomes.find(o => o.holeNumber === h.number);
           return {
             holeNumber: h.number,
-            aviatorScore: bestA ?? existing?.aviatorScore ?? null,
-            producerScore: bestP ?? existing?.producerScore ?? null,
-          } as HoleScore;
+            scores: outcome?.scores ?? {},
+            conceded: !!outcome?.concededBy,
+            concededBy: outcome?.concededBy ?? null,
+          };
         });
 
         setTeamScores(newTeamScores);
@@ -504,13 +699,13 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
 
       return newPlayerScores;
     });
-  }, [individualScores, aviatorPlayersList, producerPlayersList, matchId, holes, getPlayerCourseHandicap]);
+  }, [individualScores, teamPlayersList, matchId, holes, getPlayerCourseHandicap]);
   
   // Handle score changes when a user inputs a new score
   const handlePlayerScoreChange = async (
     holeNumber: number,
     playerName: string,
-    teamId: string,
+    teamId: TeamId,
     value: string,
     target: HTMLInputElement,
   ) => {
@@ -529,9 +724,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     }
     
     // Find player
-    const playerId = teamId === "aviator"
-      ? aviatorPlayersList.find((p: any) => p.name === playerName)?.id
-      : producerPlayersList.find((p: any) => p.name === playerName)?.id;
+    const playerId = playersOf(teamId).find((p: any) => p.name === playerName)?.id;
     
     if (!playerId) {
       console.warn("Could not find player ID for", playerName);
@@ -539,7 +732,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     }
     
     // Get handicap information
-    const courseHandicap = getPlayerCourseHandicap(playerId);
+    const playingHandicap = getPlayerPlayingHandicap(playerId);
     const hole = holes.find(h => h.number === holeNumber);
     if (!hole) {
       console.warn("Could not find hole", holeNumber);
@@ -549,16 +742,9 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     const handicapRank = hole.handicapRank || 0;
     
     // Calculate handicap strokes
-    let handicapStrokes = 0;
-    if (isBestBall && handicapRank > 0 && courseHandicap >= handicapRank) {
-      handicapStrokes = 1;
-      if (handicapRank === 1 && courseHandicap >= 19) {
-        handicapStrokes = 2;
-      }
-    }
-    
-    // Calculate net score
-    const netScore = numValue !== null ? Math.max(0, numValue - handicapStrokes) : null;
+    const handicapStrokes = format.useNet
+      ? calculateHandicapStrokes(playingHandicap, handicapRank)
+      : 0;
     
     // Create player score object
     const playerScoreObj: BestBallPlayerScore = {
@@ -567,8 +753,9 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
       teamId,
       playerId,
       handicapStrokes,
-      netScore
+      puttConceded: playerScores.get(`${holeNumber}-${playerName}`)?.[0]?.puttConceded,
     };
+    playerScoreObj.netScore = netScore(toHoleScore(playerScoreObj, holeNumber));
     
     // Update local state immediately for responsive UI
     setPlayerScores(prevScores => {
@@ -593,50 +780,24 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
 
       // Calculate best ball for this hole only
       if (isBestBall) {
-        // Reset isBestBall flags
-        teamScoreList.forEach(s => { s.isBestBall = false; });
+        markCountingScore(teamScoreList, holeNumber);
 
-        // Filter valid scores
-        const validScores = teamScoreList.filter(s => s.score !== null);
-        
-        if (validScores.length > 0) {
-          // Calculate net scores if needed
-          validScores.forEach(s => {
-            if (s.netScore === null && s.score !== null) {
-              s.netScore = Math.max(0, s.score - (s.handicapStrokes || 0));
-            }
-          });
-          
-          // Find lowest net score
-          const lowestScorePlayer = validScores.reduce((lowest, current) => {
-            const lowestNet = lowest.netScore ?? 99;
-            const currentNet = current.netScore ?? 99;
-            return currentNet < lowestNet ? current : lowest;
-          }, validScores[0]);
-          
-          // Mark best ball
-          if (lowestScorePlayer) {
-            lowestScorePlayer.isBestBall = true;
-          }
-
-          // Update team score for this hole using lowest net
-          const best = validScores.reduce(
-            (l, c) => ((c.netScore ?? 99) < (l.netScore ?? 99) ? c : l),
-            validScores[0],
-          );
+        // Update team score for this hole using the format strategy
+        const [outcome] = scoreHoles(
+          matchType,
+          teams,
+          [],
+          teamScoreList.map(ps => toHoleScore(ps, holeNumber)),
+          holeRange,
+          playoff,
+        );
+        if (outcome) {
           setTeamScores((prev) =>
             prev.map((sc) =>
               sc.holeNumber === holeNumber
                 ? {
                     ...sc,
-                    aviatorScore:
-                      teamId === 'aviator'
-                        ? best.netScore ?? sc.aviatorScore
-                        : sc.aviatorScore,
-                    producerScore:
-                      teamId === 'producer'
-                        ? best.netScore ?? sc.producerScore
-                        : sc.producerScore,
+                    scores: { ...sc.scores, [teamId]: outcome.scores[teamId] ?? sc.scores[teamId] ?? null },
                   }
                 : sc,
             ),
@@ -649,17 +810,18 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     
     // Save score to database
     try {
-      await saveScoreMutation.mutateAsync({
+      const { conflicts } = await saveScoreMutation.mutateAsync({
         matchId,
         playerId,
         holeNumber,
         score: numValue,
         handicapStrokes,
-        netScore
+        netScore: playerScoreObj.netScore ?? null,
+        expectedVersion: bestBallVersion(playerId, holeNumber),
       });
       
       // Also save to player_scores table for redundancy
-      if (numValue !== null) {
+      if (numValue !== null && !conflicts) {
         try {
           await savePlayerScoreMutation.mutate({
             playerId,
@@ -684,10 +846,46 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     }, 100);
   }; 
 
+  // A conceded putt is already counted in the score; the flag records that
+  // the ball wasn't holed out
+  const togglePuttConceded = async (holeNumber: number, playerName: string) => {
+    const current = playerScores.get(`${holeNumber}-${playerName}`)?.[0];
+    if (!current || current.score === null || !canEditScores || locked) return;
+    const updated = { ...current, puttConceded: !current.puttConceded };
+
+    setPlayerScores(prevScores => {
+      const newScores = new Map(prevScores);
+      newScores.set(`${holeNumber}-${playerName}`, [updated]);
+      const teamKey = `${holeNumber}-${current.teamId}`;
+      newScores.set(
+        teamKey,
+        (newScores.get(teamKey) || []).map(s => (s.playerId === current.playerId ? { ...s, puttConceded: updated.puttConceded } : s)),
+      );
+      return newScores;
+    });
+
+    await saveScoreMutation.mutateAsync({
+      matchId,
+      playerId: current.playerId,
+      holeNumber,
+      score: current.score,
+      handicapStrokes: current.handicapStrokes || 0,
+      netScore: current.netScore ?? null,
+      puttConceded: updated.puttConceded,
+      expectedVersion: bestBallVersion(current.playerId, holeNumber),
+    });
+  };
+
+  // Conceded holes are won by the other side and left out of score totals
+  const getHoleConcession = (holeNumber: number): TeamId | null => {
+    const score = teamScores.find((s) => s.holeNumber === holeNumber);
+    return score?.conceded ? score.concededBy ?? null : null;
+  };
+
   // Handle changes to team scores for scramble/shamble formats
   const handleTeamScoreChange = (
     holeNumber: number,
-    teamId: 'aviator' | 'producer',
+    teamId: TeamId,
     value: string,
   ) => {
     if (!canEditScores || locked) return;
@@ -695,19 +893,20 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     const num = value === '' ? null : parseInt(value);
 
     setTeamScores(prev => {
-      const updated = prev.map(s =>
+      // Extra holes have no row until their first score
+      const rows = prev.some(s => s.holeNumber === holeNumber)
+        ? prev
+        : [...prev, { holeNumber, scores: {} }];
+      const updated = rows.map(s =>
         s.holeNumber === holeNumber
-          ? {
-              ...s,
-              aviatorScore: teamId === 'aviator' ? num : s.aviatorScore,
-              producerScore: teamId === 'producer' ? num : s.producerScore,
-            }
+          ? { ...s, scores: { ...s.scores, [teamId]: num } }
           : s,
       );
 
-      const score = updated.find(s => s.holeNumber === holeNumber);
-      if (onScoreUpdate && score) {
-        onScoreUpdate(holeNumber, score.aviatorScore, score.producerScore);
+      // Only the side that changed is sent, so the other side's phone can
+      // enter its score for the hole at the same time
+      if (onScoreUpdate) {
+        onScoreUpdate(holeNumber, { [teamId]: num });
       }
       return updated;
     });
@@ -717,8 +916,13 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
   const getPlayerScoreValue = (
     holeNumber: number,
     playerName: string,
-    teamId: string,
+    teamId: TeamId,
   ): string => {
+    // A score still waiting for signal is the newest there is
+    const playerId = playersOf(teamId).find((p: any) => p.name === playerName)?.id;
+    const pending = playerId !== undefined ? pendingWrite("best_ball", holeNumber, playerId) : undefined;
+    if (pending) return pending.score?.toString() ?? "";
+
     // For individual player scores, check for player-specific key first
     const playerKey = `${holeNumber}-${playerName}`;
     const playerSpecificScores = playerScores.get(playerKey);
@@ -746,7 +950,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
   const isLowestScore = (
     holeNumber: number,
     playerName: string,
-    teamId: string,
+    teamId: TeamId,
   ): boolean => {
     const teamKey = `${holeNumber}-${teamId}`;
     const holeScores = playerScores.get(teamKey) || [];
@@ -772,30 +976,23 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
       return bestBallPlayer.playerId === currentPlayerScoreObj.playerId;
     }
     
-    // Fallback if flag isn't set: sort by net score
-    validScores.forEach(s => {
-      if (s.netScore === null && s.score !== null) {
-        s.netScore = s.score - (s.handicapStrokes || 0);
-      }
-    });
-    
-    const sortedScores = [...validScores].sort((a, b) => {
-      const aNetScore = a.netScore ?? 99;
-      const bNetScore = b.netScore ?? 99;
-      return aNetScore - bNetScore;
-    });
-    
-    // The lowest net score is the best ball
-    const lowestScorePlayer = sortedScores[0];
-    return lowestScorePlayer.playerId === currentPlayerScoreObj.playerId;
+    // Fallback if flag isn't set: ask the shared engine which ball counts
+    const counting = findCountingScore(
+      validScores.map(s => toHoleScore(s, holeNumber)),
+      format.useNet,
+    );
+    return counting?.playerId === currentPlayerScoreObj.playerId;
   };
   
   // Get the team score for a hole
-  const getScoreInputValue = (holeNumber: number, teamId: string): string => {
+  const getScoreInputValue = (holeNumber: number, teamId: TeamId): string => {
+    const pending = pendingWrite("team", holeNumber, teamId);
+    if (pending) return pending.score?.toString() ?? "";
+
     const score = teamScores.find((s) => s.holeNumber === holeNumber);
     if (!score) return "";
 
-    const value = teamId === "aviator" ? score.aviatorScore : score.producerScore;
+    const value = score.scores[teamId] ?? null;
     return value !== null ? value.toString() : "";
   };
   
@@ -810,15 +1007,13 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     const newPlayerBackNineTotals = new Map<string, number>();
     
     // Process both teams
-    const allPlayers = [...aviatorPlayersList, ...producerPlayersList];
-    
     allPlayers.forEach(player => {
       let playerTotal = 0;
       let frontNineTotal = 0;
       let backNineTotal = 0;
       
-      // Calculate score for each hole
-      holes.forEach(hole => {
+      // Calculate score for each hole; extra and conceded holes don't count toward totals
+      holes.filter(hole => !isPlayoffHole(hole.number) && !getHoleConcession(hole.number)).forEach(hole => {
         const playerKey = `${hole.number}-${player.name}`;
         const playerScore = playerScores.get(playerKey)?.[0];
         
@@ -866,7 +1061,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     if (currentBackNine !== prevBackNine) {
       setPlayerBackNineTotals(newPlayerBackNineTotals);
     }
-  }, [playerScores, holes, aviatorPlayersList, producerPlayersList, playerTotals, playerFrontNineTotals, playerBackNineTotals]);
+  }, [playerScores, holes, teamScores, teamPlayersList, playerTotals, playerFrontNineTotals, playerBackNineTotals]);
   
   // Handle handicap edit dialog
   const handleHandicapEdit = (playerId: number, currentHandicap: number) => {
@@ -875,7 +1070,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     setHandicapDialogOpen(true);
   };
   
-  const saveHandicap = () => {
+  const saveHandicap = async () => {
     if (currentHandicapPlayer === null) return;
     
     setPlayerHandicaps(prev => {
@@ -885,6 +1080,24 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     });
     
     setHandicapDialogOpen(false);
+
+    // Admin edits are stored as an override of the calculated course handicap
+    if (currentUser?.isAdmin && matchData?.roundId) {
+      try {
+        await apiRequest("PUT", `/api/players/${currentHandicapPlayer}/course-handicap`, {
+          roundId: matchData.roundId,
+          courseHandicap: handicapValue,
+        });
+        queryClient.invalidateQueries({ queryKey: [`/api/round-handicaps/${matchData.roundId}`] });
+      } catch (error) {
+        console.error("Error saving course handicap override:", error);
+        toast({
+          title: "Error",
+          description: "Failed to save course handicap",
+          variant: "destructive",
+        });
+      }
+    }
     
     // Recalculate scores with new handicap
     if (holes) {
@@ -894,37 +1107,18 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
     }
   };
   
-  // Check if a player should get a stroke on a hole
+  // Strokes a player gets on a hole (negative when a plus handicap gives them back)
   const getHandicapStrokes = (playerId: number, holeNumber: number): number => {
     const hole = holes.find((h) => h.number === holeNumber);
     if (!hole) return 0;
-    
-    const handicapRank = hole.handicapRank || 0;
-    if (handicapRank <= 0) return 0;
-    
-    const courseHandicap = getPlayerCourseHandicap(playerId);
-    if (courseHandicap <= 0) return 0;
-    
-    // Calculate strokes
-    if (courseHandicap >= handicapRank) {
-      let strokes = 1;
-      
-      // Double stroke on #1 handicap hole if handicap is high enough
-      if (handicapRank === 1 && courseHandicap >= 19) {
-        strokes = 2;
-      }
-      
-      return strokes;
-    }
-    
-    return 0;
+    return calculateHandicapStrokes(getPlayerPlayingHandicap(playerId), hole.handicapRank);
   };
   
   // Check if a hole is greyed out (can't be edited)
   const isHoleGreyedOut = (holeNumber: number): boolean => {
     if (locked) return true;
     const completedHoles = teamScores
-      .filter((s) => s.aviatorScore !== null && s.producerScore !== null)
+      .filter((s) => teams.every((t) => (s.scores[t] ?? null) !== null))
       .map((s) => s.holeNumber);
     if (completedHoles.length === 0) return false;
     const maxCompletedHole = Math.max(...completedHoles);
@@ -937,59 +1131,65 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
   };
   
   // Helper for match status text
-  const generateMatchStatus = (holeNumber: number): { text: string; color: string } => {
+  const generateMatchStatus = (
+    holeNumber: number,
+  ): { text: string; color: string; teamId?: TeamId } => {
     // Check if this hole has been played
     const thisHoleScore = teamScores.find((s) => s.holeNumber === holeNumber);
-    if (!thisHoleScore || thisHoleScore.aviatorScore === null || thisHoleScore.producerScore === null) {
+    if (
+      !thisHoleScore ||
+      (!thisHoleScore.conceded && teams.some((t) => (thisHoleScore.scores[t] ?? null) === null))
+    ) {
       return { text: "-", color: "text-gray-400" }; // Hole not completed yet
     }
     
-    // Get completed holes up to this one
-    const completedScores = teamScores
-      .filter(s => s.holeNumber <= holeNumber && s.aviatorScore !== null && s.producerScore !== null)
-      .sort((a, b) => a.holeNumber - b.holeNumber);
-    
-    if (completedScores.length === 0) return { text: "-", color: "text-gray-400" };
-    
-    // Calculate running score
-    let aviatorWins = 0;
-    let producerWins = 0;
-    
-    for (const score of completedScores) {
-      if (score.aviatorScore! < score.producerScore!) {
-        aviatorWins++;
-      } else if (score.producerScore! < score.aviatorScore!) {
-        producerWins++;
-      }
-    }
-    
-    const diff = aviatorWins - producerWins;
-    let text = "AS"; // All Square
-    let color = "text-black";
-
-    if (diff > 0) {
-      text = `${diff} UP`;
-      color = "text-aviator";
-    } else if (diff < 0) {
-      text = `${Math.abs(diff)} UP`;
-      color = "text-producer";
+    // Running status uses the same hole results the server records
+    const running = matchStatusThroughHole(
+      scoreHoles(matchType, teams, netTeamScores, [], holeRange, playoff),
+      teams,
+      holeNumber,
+    );
+    if (!running) return { text: "-", color: "text-gray-400" };
+
+    if (running.leadingTeam !== null) {
+      return { text: `${running.leadAmount} UP`, color: "text-team", teamId: running.leadingTeam };
     }
-    
-    return { text, color };
+    return { text: "AS", color: "text-black" };
   };
 
   // Render the scorecard
   const allHoles = [...holes].sort((a, b) => a.number - b.number);
   const frontNine = [...holes].filter((h) => h.number <= 9).sort((a, b) => a.number - b.number);
-  const backNine = [...holes].filter((h) => h.number > 9).sort((a, b) => a.number - b.number);
+  const backNine = [...holes]
+    .filter((h) => h.number > 9 && !isPlayoffHole(h.number))
+    .sort((a, b) => a.number - b.number);
+
+  // A nine-hole match on the front shows an OUT subtotal instead of IN
+  const frontOnly = backNine.length === 0;
+  const subtotalLabel = frontOnly ? "OUT" : "IN";
+  const subtotalHoles = frontOnly ? frontNine : backNine;
+  const playerSubtotals = frontOnly ? playerFrontNineTotals : playerBackNineTotals;
+  const showNineTabs = frontNine.length > 0 && backNine.length > 0;
 
-  const aviatorTeamTotal = teamScores
-    .filter((s) => s.aviatorScore !== null)
-    .reduce((acc, s) => acc + (s.aviatorScore || 0), 0);
+  // Conceding the match gives the other side every leg still open
+  const nassauState = isNassau ? calculateNassauState(matchType, teams, netTeamScores, [], holeRange, playoff) : null;
+  const nassau = nassauState && matchData?.concededByTeamId
+    ? concedeNassauState(nassauState, opposingTeam(teams, matchData.concededByTeamId))
+    : nassauState;
 
-  const producerTeamTotal = teamScores
-    .filter((s) => s.producerScore !== null)
-    .reduce((acc, s) => acc + (s.producerScore || 0), 0);
+  const teamTotal = (teamId: TeamId) => teamScores
+    .filter((s) => (s.scores[teamId] ?? null) !== null && !isPlayoffHole(s.holeNumber) && !s.conceded)
+    .reduce((acc, s) => acc + (s.scores[teamId] || 0), 0);
+
+  const teamBackNineTotal = (teamId: TeamId) => teamScores
+    .filter(
+      (s) =>
+        s.holeNumber > 9 &&
+        s.holeNumber <= 18 &&
+        (s.scores[teamId] ?? null) !== null &&
+        !s.conceded,
+    )
+    .reduce((acc, s) => acc + (s.scores[teamId] || 0), 0);
 
   // Memoize hole arrays to prevent re-renders if holes prop doesn't change
   const frontNineHoles = useMemo(() => holeArray.slice(0, 9), [holeArray]);
@@ -997,7 +1197,7 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
 
   // Helper to get player score object for a hole
   const getPlayerScoreForHole = (playerId: number, holeNumber: number): BestBallPlayerScore | undefined => {
-    const player = [...aviatorPlayersList, ...producerPlayersList].find(p => p.id === playerId);
+    const player = allPlayers.find(p => p.id === playerId);
     if (!player) return undefined;
     // The key in playerScores map might include player.name. Ensure consistency.
     // For simplicity, let's assume playerScores map is keyed correctly or adapt access.
@@ -1016,10 +1216,16 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
   return (
     <div style={styles.scorecardContainer}>
       <Card>
-        <CardHeader className="pb-1">
+        <CardHeader className="pb-1 flex flex-row items-center justify-between">
           <CardTitle>Match Scorecard</CardTitle>
+          {canEditScores && !locked && matchData?.status !== "completed" && (
+            <Button variant="outline" size="sm" onClick={() => setConcedeMatchOpen(true)}>
+              Concede Match
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
+          <ScoreConflictResolver conflicts={[...scoreConflicts, ...bestBallConflicts, ...queuedBestBallConflicts]} />
           {scoresLoading ? (
             <div className="space-y-2">
               <Skeleton className="h-4 w-full" />
@@ -1028,11 +1234,36 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
             </div>
           ) : (
             <Tabs defaultValue="all">
-              <TabsList className="grid grid-cols-3 w-full mb-4">
-                <TabsTrigger value="all">All Holes</TabsTrigger>
-                <TabsTrigger value="front">Front 9</TabsTrigger>
-                <TabsTrigger value="back">Back 9</TabsTrigger>
-              </TabsList>
+              {showNineTabs && (
+                <TabsList className="grid grid-cols-3 w-full mb-4">
+                  <TabsTrigger value="all">All Holes</TabsTrigger>
+                  <TabsTrigger value="front">Front 9</TabsTrigger>
+                  <TabsTrigger value="back">Back 9</TabsTrigger>
+                </TabsList>
+              )}
+
+              {nassau && (
+                <div className="grid grid-cols-3 gap-2 mb-4 text-center text-sm">
+                  {NASSAU_LEGS.map((leg) => {
+                    const state = nassau.legs[leg];
+                    return (
+                      <div key={leg} className="rounded border p-2">
+                        <div className="text-xs uppercase text-gray-500">{leg}</div>
+                        <div
+                          className={`font-bold ${state.leadingTeam ? "text-team" : ""}`}
+                          style={state.leadingTeam ? teamStyle(teamById(state.leadingTeam)) : undefined}
+                        >
+                          {state.holesPlayed === 0
+                            ? "-"
+                            : state.isComplete
+                              ? state.result
+                              : formatLiveStatus(state.leadAmount, state.dormie)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
 
               <TabsContent value="all" className="overflow-x-auto">
                 <div className="scorecard-wrapper">
@@ -1041,11 +1272,19 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
                       <tr className="border-b border-gray-200">
                         <th className="py-2 px-2 text-left sticky-column bg-gray-100">Hole</th>
                         {allHoles.map((hole) => (
-                          <th key={hole.number} className="py-2 px-2 text-center">
+                          <th
+                            key={hole.number}
+                            className={`py-2 px-2 text-center ${hole.playoffOf ? "bg-yellow-50" : ""} ${canEditScores && !locked ? "cursor-pointer underline decoration-dotted" : ""}`}
+                            title={[
+                              hole.playoffOf ? `Playoff: replays hole ${hole.playoffOf}` : null,
+                              canEditScores && !locked ? "Tap to record a concession" : null,
+                            ].filter(Boolean).join(" - ") || undefined}
+                            onClick={() => canEditScores && !locked && setConcessionHole(hole.number)}
+                          >
                             {hole.number}
                           </th>
                         ))}
-                        <th className="py-2 px-2 text-center bg-gray-100">IN</th>
+                        <th className="py-2 px-2 text-center bg-gray-100">{subtotalLabel}</th>
                         <th className="py-2 px-2 text-center bg-gray-200">TOT</th>
                       </tr>
                       <tr className="border-b border-gray-200">
@@ -1056,12 +1295,12 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
                           </th>
                         ))}
                         <th className="py-2 px-2 text-center bg-gray-100">
-                          {allHoles
-                            .filter((h) => h.number > 9)
-                            .reduce((acc, hole) => acc + hole.par, 0)}
+                          {subtotalHoles.reduce((acc, hole) => acc + hole.par, 0)}
                         </th>
                         <th className="py-2 px-2 text-center bg-gray-200">
-                          {allHoles.reduce((acc, hole) => acc + hole.par, 0)}
+                          {allHoles
+                            .filter((hole) => !isPlayoffHole(hole.number))
+                            .reduce((acc, hole) => acc + hole.par, 0)}
                         </th>
                       </tr>
                       <tr className="border-b border-gray-200">
@@ -1076,287 +1315,153 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
                       </tr>
                     </thead>
                     <tbody>
-                      {/* Aviator Players */}
-                      {isBestBall && aviatorPlayersList.length > 0 && (
-                        <>
-                          {aviatorPlayersList.map((player) => (
-                            <tr
-                              key={player.id}
-                              className="border-b border-gray-200 hover:bg-gray-50"
-                            >
-                              <td className="py-2 px-2 sticky-column bg-gray-50">
-                                <div className="flex justify-between items-center">
-                                  <div className="text-xs font-medium text-black leading-tight">
-                                    <div className="font-semibold">{player.name}</div>
-                                    <div className="text-blue-600">
-                                      HCP: {getPlayerCourseHandicap(player.id)}
-                                    </div>
-                                  </div>
-                                  {canEditScores && (
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      className="h-6 p-1 ml-1 text-xs"
-                                      onClick={() => handleHandicapEdit(player.id, getPlayerCourseHandicap(player.id))}
-                                    >
-                                      Edit
-                                    </Button>
-                                  )}
-                                </div>
-                              </td>
-                              {/* Aviator Player Scores */}
-                              {allHoles.map((hole) => {
-                                const isLowest = isLowestScore(
-                                  hole.number,
-                                  player.name,
-                                  "aviator",
-                                );
-                                // console.log(`[EnhancedMatchScorecard] Rendering Aviator Player Input for hole ${hole.number}, player ${player.name}: locked=${locked}, canEditScores=${canEditScores}, isBestBall=${isBestBall}, isHoleGreyedOut=${isHoleGreyedOut(hole.number)}`);
-                                return (
-                                  <td key={hole.number} className="py-2 px-2 text-center scorecard-cell">
-                                    <div className="relative">
-                                      {/* Handicap Strokes Indicators */}
-                                      {(() => {
-                                        const handicapStrokes = playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes;
-                                        return handicapStrokes && handicapStrokes > 0 ? (
-                                          <div className="handicap-strokes">
-                                            {Array.from({ length: handicapStrokes }).map((_, i) => (
-                                              <div key={i} className="handicap-indicator"></div>
-                                            ))}
-                                          </div>
-                                        ) : null;
-                                      })()}
-                                      <input
-                                        type="tel"
-                                        inputMode="numeric"
-                                        pattern="[0-9]*"
-                                        data-strokes={playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes || 0}
-                                        className={`score-input w-8 h-8 text-center border border-gray-300 rounded ${isHoleGreyedOut(hole.number) ? "bg-gray-200" : ""} ${!isLowest ? "non-counting-score" : ""} ${(playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes ?? 0) > 0 ? "handicap-stroke" : ""}`}
-                                        value={getPlayerScoreValue(
-                                          hole.number,
-                                          player.name,
-                                          "aviator",
-                                        )}
-                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                                          handlePlayerScoreChange(
-                                            hole.number,
-                                            player.name,
-                                            "aviator",
-                                            e.target.value,
-                                            e.target
-                                          )
-                                        }
-                                        min="1"
-                                        max="12"
-                                        disabled={locked || !canEditScores}
-                                      />
-                                      {/* Net Score Display */}
-                                        {playerScores.get(`${hole.number}-${player.name}`)?.[0]?.score !== null &&
-                                         (playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes ?? 0) > 0 && (
-                                        <span className="net-score">
-                                          ({playerScores.get(`${hole.number}-${player.name}`)?.[0]?.netScore})
-                                        </span>
+                      {teams.map((teamId) => {
+                        const team = teamById(teamId);
+                        return (
+                          <React.Fragment key={teamId}>
+                          {/* Players */}
+                          {isBestBall && playersOf(teamId).length > 0 && (
+                            <>
+                              {playersOf(teamId).map((player) => (
+                                <tr
+                                  key={player.id}
+                                  className="border-b border-gray-200 hover:bg-gray-50"
+                                >
+                                  <td className="py-2 px-2 sticky-column bg-gray-50">
+                                    <div className="flex justify-between items-center">
+                                      <div className="text-xs font-medium text-black leading-tight">
+                                        <div className="font-semibold">{player.name}</div>
+                                        <div className="text-blue-600" title={getPlayerHandicapSource(player.id)}>
+                                          HCP: {getPlayerCourseHandicap(player.id)}
+                                          {getPlayerPlayingHandicap(player.id) !== getPlayerCourseHandicap(player.id) && (
+                                            <span className="text-gray-500"> (plays {getPlayerPlayingHandicap(player.id)})</span>
+                                          )}
+                                        </div>
+                                      </div>
+                                      {canEditScores && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          className="h-6 p-1 ml-1 text-xs"
+                                          onClick={() => handleHandicapEdit(player.id, getPlayerCourseHandicap(player.id))}
+                                        >
+                                          Edit
+                                        </Button>
                                       )}
                                     </div>
                                   </td>
-                                );
-                              })}
-                              <td className="py-2 px-2 text-center font-semibold bg-gray-100">
-                                {playerBackNineTotals.get(player.name) || ""}
-                              </td>
-                              <td className="py-2 px-2 text-center font-semibold bg-gray-200">
-                                {playerTotals.get(player.name) || ""}
-                              </td>
-                            </tr>
-                          ))}
-                        </>
-                      )}
-
-                      {/* Team Aviators Row */}
-                      <tr className="border-b border-gray-200">
-                        <td className="py-2 px-2 font-semibold sticky-column bg-aviator text-white">
-                          <div>The Aviators</div>
-                        </td>
+                                  {/* Player Scores */}
+                                  {allHoles.map((hole) => {
+                                    const isLowest = isLowestScore(
+                                      hole.number,
+                                      player.name,
+                                      teamId,
+                                    );
+                                    return (
+                                      <td key={hole.number} className="py-2 px-2 text-center scorecard-cell">
+                                        <div className="relative">
+                                          {/* Handicap Strokes Indicators */}
+                                          {(() => {
+                                            const handicapStrokes = playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes;
+                                            return handicapStrokes ? (
+                                              <div className="handicap-strokes">
+                                                {Array.from({ length: Math.abs(handicapStrokes) }).map((_, i) => (
+                                                  <div key={i} className={`handicap-indicator ${handicapStrokes < 0 ? "give-back" : ""}`}></div>
+                                                ))}
+                                              </div>
+                                            ) : null;
+                                          })()}
+                                          <input
+                                            type="tel"
+                                            inputMode="numeric"
+                                            pattern="[0-9]*"
+                                            data-strokes={playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes || 0}
+                                            className={`score-input w-8 h-8 text-center border border-gray-300 rounded ${isHoleGreyedOut(hole.number) ? "bg-gray-200" : ""} ${!isLowest ? "non-counting-score" : ""} ${(playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes ?? 0) > 0 ? "handicap-stroke" : ""} ${playerScores.get(`${hole.number}-${player.name}`)?.[0]?.puttConceded ? "putt-conceded" : ""} ${pendingWrite("best_ball", hole.number, player.id) ? "pending-sync" : ""}`}
+                                            title={pendingWrite("best_ball", hole.number, player.id) ? "Waiting for signal to sync" : playerScores.get(`${hole.number}-${player.name}`)?.[0]?.puttConceded ? "Putt conceded" : undefined}
+                                            value={getPlayerScoreValue(
+                                              hole.number,
+                                              player.name,
+                                              teamId,
+                                            )}
+                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                              handlePlayerScoreChange(
+                                                hole.number,
+                                                player.name,
+                                                teamId,
+                                                e.target.value,
+                                                e.target
+                                              )
+                                            }
+                                            min="1"
+                                            max="12"
+                                            disabled={locked || !canEditScores}
+                                          />
+                                          {/* Net Score Display */}
+                                            {playerScores.get(`${hole.number}-${player.name}`)?.[0]?.score !== null &&
+                                             (playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes ?? 0) !== 0 && (
+                                            <span className="net-score">
+                                              ({playerScores.get(`${hole.number}-${player.name}`)?.[0]?.netScore})
+                                            </span>
+                                          )}
+                                        </div>
+                                      </td>
+                                    );
+                                  })}
+                                  <td className="py-2 px-2 text-center font-semibold bg-gray-100">
+                                    {playerSubtotals.get(player.name) || ""}
+                                  </td>
+                                  <td className="py-2 px-2 text-center font-semibold bg-gray-200">
+                                    {playerTotals.get(player.name) || ""}
+                                  </td>
+                                </tr>
+                              ))}
+                            </>
+                          )}
 
-                        {/* Aviator Team Scores */}
-                        {allHoles.map((hole) => (
-                          <td key={hole.number} className="py-2 px-2 text-center">
-                            {isBestBall ? (
-                              <div className={`score-display w-16 h-8 inline-flex items-center justify-center border border-gray-300 rounded ${
-                                getScoreInputValue(hole.number, "aviator") ? "bg-aviator text-white" : "bg-white text-black"
-                              }`}>
-                                {getScoreInputValue(hole.number, "aviator")}
-                              </div>
-                            ) : (
-                              <input
-                                type="tel"
-                                inputMode="numeric"
-                                pattern="[0-9]*"
-                                className="score-input w-8 h-8 text-center border border-gray-300 rounded"
-                                value={getScoreInputValue(hole.number, "aviator")}
-                                onChange={(e) => handleTeamScoreChange(hole.number, 'aviator', e.target.value)}
-                                // Log for team score input
-                                onFocus={() => console.log(`[EnhancedMatchScorecard] Rendering Aviator Team Input for hole ${hole.number}: locked=${locked}, canEditScores=${canEditScores}, isBestBall=${isBestBall}`)}
-                                disabled={locked || !canEditScores}
-                              />
-                            )}
-                          </td>
-                        ))}
-                        <td className="py-2 px-2 text-center font-semibold bg-gray-100">
-                          {teamScores
-                            .filter(
-                              (s) =>
-                                s.holeNumber > 9 &&
-                                s.holeNumber <= 18 &&
-                                s.aviatorScore !== null,
-                            )
-                            .reduce((acc, s) => acc + (s.aviatorScore || 0), 0)}
-                        </td>
-                        <td className="py-2 px-2 text-center font-semibold bg-gray-200">
-                          {aviatorTeamTotal}
-                        </td>
-                      </tr>
+                          {/* Team Row */}
+                          <tr className="border-b border-gray-200" style={teamStyle(team)}>
+                            <td className="py-2 px-2 font-semibold sticky-column bg-team">
+                              <div>The {team?.name}</div>
+                            </td>
 
-                      {/* Producer Players */}
-                      {isBestBall && producerPlayersList.length > 0 && (
-                        <>
-                          {producerPlayersList.map((player) => (
-                            <tr
-                              key={player.id}
-                              className="border-b border-gray-200 hover:bg-gray-50"
-                            >
-                              <td className="py-2 px-2 sticky-column bg-gray-50">
-                                <div className="flex justify-between items-center">
-                                  <div className="text-xs font-medium text-black leading-tight">
-                                    <div className="font-semibold">{player.name}</div>
-                                    <div className="text-blue-600">
-                                      HCP: {getPlayerCourseHandicap(player.id)}
-                                    </div>
+                            {/* Team Scores */}
+                            {allHoles.map((hole) => (
+                              <td key={hole.number} className="py-2 px-2 text-center">
+                                {isBestBall ? (
+                                  <div className={`score-display w-16 h-8 inline-flex items-center justify-center border border-gray-300 rounded ${
+                                    getScoreInputValue(hole.number, teamId) ? "bg-team" : "bg-white text-black"
+                                  }`}>
+                                    {getScoreInputValue(hole.number, teamId)}
                                   </div>
-                                  {canEditScores && (
-                                    <Button
-                                      variant="ghost"
-                                      size="sm"
-                                      className="h-6 p-1 ml-1 text-xs"
-                                      onClick={() => handleHandicapEdit(player.id, getPlayerCourseHandicap(player.id))}
-                                    >
-                                      Edit
-                                    </Button>
-                                  )}
-                                </div>
-                              </td>
-                              {/* Producer Player Scores */}
-                              {allHoles.map((hole) => {
-                                const isLowest = isLowestScore(
-                                  hole.number,
-                                  player.name,
-                                  "producer",
-                                );
-                                // console.log(`[EnhancedMatchScorecard] Rendering Producer Player Input for hole ${hole.number}, player ${player.name}: locked=${locked}, canEditScores=${canEditScores}, isBestBall=${isBestBall}, isHoleGreyedOut=${isHoleGreyedOut(hole.number)}`);
-                                return (
-                                  <td key={hole.number} className="py-2 px-2 text-center scorecard-cell">
-                                    <div className="relative">
-                                      {/* Handicap Strokes Indicators */}
-                                      {(() => {
-                                        const handicapStrokes = playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes;
-                                        return handicapStrokes && handicapStrokes > 0 ? (
-                                          <div className="handicap-strokes">
-                                            {Array.from({ length: handicapStrokes }).map((_, i) => (
-                                              <div key={i} className="handicap-indicator"></div>
-                                            ))}
-                                          </div>
-                                        ) : null;
-                                      })()}
-                                      <input
-                                        type="tel"
-                                        inputMode="numeric"
-                                        pattern="[0-9]*"
-                                        data-strokes={playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes || 0}
-                                        className={`score-input w-8 h-8 text-center border border-gray-300 rounded ${isHoleGreyedOut(hole.number) ? "bg-gray-200" : ""} ${!isLowest ? "non-counting-score" : ""} ${(playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes ?? 0) > 0 ? "handicap-stroke" : ""}`}
-                                        value={getPlayerScoreValue(
-                                          hole.number,
-                                          player.name,
-                                          "producer",
-                                        )}
-                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                                          handlePlayerScoreChange(
-                                            hole.number,
-                                            player.name,
-                                            "producer",
-                                            e.target.value,
-                                            e.target
-                                          )
-                                        }
-                                        min="1"
-                                        max="12"
-                                        disabled={locked || !canEditScores}
-                                      />
-                                      {/* Net Score Display */}
-                                        {playerScores.get(`${hole.number}-${player.name}`)?.[0]?.score !== null &&
-                                         (playerScores.get(`${hole.number}-${player.name}`)?.[0]?.handicapStrokes ?? 0) > 0 && (
-                                        <span className="net-score">
-                                          ({playerScores.get(`${hole.number}-${player.name}`)?.[0]?.netScore})
-                                        </span>
-                                      )}
-                                    </div>
-                                  </td>
-                                );
-                              })}
-                              <td className="py-2 px-2 text-center font-semibold bg-gray-100">
-                                {playerBackNineTotals.get(player.name) || ""}
-                              </td>
-                              <td className="py-2 px-2 text-center font-semibold bg-gray-200">
-                                {playerTotals.get(player.name) || ""}
+                                ) : (
+                                  <input
+                                    type="tel"
+                                    inputMode="numeric"
+                                    pattern="[0-9]*"
+                                    className={`score-input w-8 h-8 text-center border border-gray-300 rounded ${pendingWrite("team", hole.number, teamId) ? "pending-sync" : ""}`}
+                                    title={pendingWrite("team", hole.number, teamId) ? "Waiting for signal to sync" : undefined}
+                                    value={getScoreInputValue(hole.number, teamId)}
+                                    onChange={(e) => handleTeamScoreChange(hole.number, teamId, e.target.value)}
+                                    // Log for team score input
+                                    onFocus={() => console.log(`[EnhancedMatchScorecard] Rendering team ${teamId} input for hole ${hole.number}: locked=${locked}, canEditScores=${canEditScores}, isBestBall=${isBestBall}`)}
+                                    disabled={locked || !canEditScores}
+                                  />
+                                )}
+                                {getHoleConcession(hole.number) === teamId && (
+                                  <span className="conceded-label">conceded</span>
+                                )}
                               </td>
-                            </tr>
-                          ))}
-                        </>
-                      )}
-
-                      {/* Team Producers Row */}
-                      <tr className="border-b border-gray-200">
-                        <td className="py-2 px-2 font-semibold sticky-column bg-producer text-white">
-                          <div>The Producers</div>
-                        </td>
-
-                        {/* Producer Team Scores */}
-                        {allHoles.map((hole) => (
-                          <td key={hole.number} className="py-2 px-2 text-center">
-                            {isBestBall ? (
-                              <div className={`score-display w-16 h-8 inline-flex items-center justify-center border border-gray-300 rounded ${
-                                getScoreInputValue(hole.number, "producer") ? "bg-producer text-white" : "bg-white text-black"
-                              }`}>
-                                {getScoreInputValue(hole.number, "producer")}
-                              </div>
-                            ) : (
-                              <input
-                                type="tel"
-                                inputMode="numeric"
-                                pattern="[0-9]*"
-                                className="score-input w-8 h-8 text-center border border-gray-300 rounded"
-                                value={getScoreInputValue(hole.number, "producer")}
-                                onChange={(e) => handleTeamScoreChange(hole.number, 'producer', e.target.value)}
-                                // Log for team score input
-                                onFocus={() => console.log(`[EnhancedMatchScorecard] Rendering Producer Team Input for hole ${hole.number}: locked=${locked}, canEditScores=${canEditScores}, isBestBall=${isBestBall}`)}
-                                disabled={locked || !canEditScores}
-                              />
-                            )}
-                          </td>
-                        ))}
-                        <td className="py-2 px-2 text-center font-semibold bg-gray-100">
-                          {teamScores
-                            .filter(
-                              (s) =>
-                                s.holeNumber > 9 &&
-                                s.holeNumber <= 18 &&
-                                s.producerScore !== null,
-                            )
-                            .reduce((acc, s) => acc + (s.producerScore || 0), 0)}
-                        </td>
-                        <td className="py-2 px-2 text-center font-semibold bg-gray-200">
-                          {producerTeamTotal}
-                        </td>
-                      </tr>
+                            ))}
+                            <td className="py-2 px-2 text-center font-semibold bg-gray-100">
+                              {teamBackNineTotal(teamId)}
+                            </td>
+                            <td className="py-2 px-2 text-center font-semibold bg-gray-200">
+                              {teamTotal(teamId)}
+                            </td>
+                          </tr>
+                          </React.Fragment>
+                        );
+                      })}
 
                       {/* Match Status Row */}
                       <tr className="border-b border-gray-200">
@@ -1367,7 +1472,10 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
                           const status = generateMatchStatus(hole.number);
                           return (
                             <td key={hole.number} className="py-2 px-2 text-center">
-                              <span className={`font-bold ${status.color}`}>
+                              <span
+                                className={`font-bold ${status.color}`}
+                                style={status.teamId ? teamStyle(teamById(status.teamId)) : undefined}
+                              >
                                 {status.text}
                               </span>
                             </td>
@@ -1415,8 +1523,8 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
               <Input
                 id="handicap"
                 type="number"
-                min="0"
-                max="36"
+                min="-10"
+                max="54"
                 value={handicapValue}
                 onChange={(e) => setHandicapValue(parseInt(e.target.value) || 0)}
               />
@@ -1427,6 +1535,90 @@ const EnhancedMatchScorecard: React.FC<ScorecardProps> = ({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      {/* Hole Concession Dialog */}
+      <Dialog open={concessionHole !== null} onOpenChange={(open) => !open && setConcessionHole(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hole {concessionHole} concessions</DialogTitle>
+          </DialogHeader>
+          {concessionHole !== null && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Concede the hole</Label>
+                <div className="flex gap-2">
+                  {teams.map((teamId) => (
+                    <Button
+                      key={teamId}
+                      variant={getHoleConcession(concessionHole) === teamId ? "default" : "outline"}
+                      disabled={concedeHoleMutation.isPending}
+                      onClick={() => concedeHoleMutation.mutate({ holeNumber: concessionHole, concededBy: teamId })}
+                    >
+                      {teamById(teamId)?.name} concede
+                    </Button>
+                  ))}
+                </div>
+                {getHoleConcession(concessionHole) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={concedeHoleMutation.isPending}
+                    onClick={() => concedeHoleMutation.mutate({ holeNumber: concessionHole, concededBy: null })}
+                  >
+                    Withdraw concession
+                  </Button>
+                )}
+              </div>
+
+              {isBestBall && (
+                <div className="space-y-2">
+                  <Label>Conceded putts</Label>
+                  {allPlayers.map((player) => {
+                    const playerScore = playerScores.get(`${concessionHole}-${player.name}`)?.[0];
+                    return (
+                      <label key={player.id} className="flex items-center space-x-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={!!playerScore?.puttConceded}
+                          disabled={playerScore?.score === null || playerScore?.score === undefined}
+                          onChange={() => togglePuttConceded(concessionHole, player.name)}
+                        />
+                        <span>
+                          {player.name}
+                          {playerScore?.score != null ? ` (${playerScore.score})` : " - enter a score first"}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Match Concession Dialog */}
+      <Dialog open={concedeMatchOpen} onOpenChange={setConcedeMatchOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Concede the match</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            The other side wins the match straight away, whatever the score.
+          </p>
+          <DialogFooter className="gap-2">
+            {teams.map((teamId) => (
+              <Button
+                key={teamId}
+                variant="destructive"
+                disabled={concedeMatchMutation.isPending}
+                onClick={() => concedeMatchMutation.mutate(teamId)}
+              >
+                {teamById(teamId)?.name} concede
+              </Button>
+            ))}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
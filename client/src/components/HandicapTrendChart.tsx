@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { HandicapIndexHistory } from "@shared/schema";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+interface HandicapTrendChartProps {
+  playerId: number;
+}
+
+const chartConfig = {
+  handicapIndex: {
+    label: "Handicap Index",
+    color: "#2563eb",
+  },
+} satisfies ChartConfig;
+
+/**
+ * Line chart of a player's handicap index revisions over time
+ */
+const HandicapTrendChart = ({ playerId }: HandicapTrendChartProps) => {
+  const { data: history = [], isLoading } = useQuery<HandicapIndexHistory[]>({
+    queryKey: [`/api/players/${playerId}/handicap-history`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500 py-2">No handicap index history yet.</p>;
+  }
+
+  const points = history.map((revision) => ({
+    date: revision.effectiveDate,
+    handicapIndex: Number(revision.handicapIndex),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full">
+      <LineChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickLine={false} axisLine={false} fontSize={10} />
+        <YAxis
+          dataKey="handicapIndex"
+          tickLine={false}
+          axisLine={false}
+          fontSize={10}
+          reversed
+          domain={["dataMin - 1", "dataMax + 1"]}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Line
+          type="monotone"
+          dataKey="handicapIndex"
+          stroke="var(--color-handicapIndex)"
+          strokeWidth={2}
+          dot={{ r: 3 }}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default HandicapTrendChart;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useTournament } from "@/hooks/use-tournament";
 import FooterNavigation from "./FooterNavigation";
 import FirstLoginPasswordChange from "./FirstLoginPasswordChange";
 import RowdyCupLogo from "../assets/rowdy-cup-logo.svg"
@@ -14,6 +15,7 @@ const Layout = ({ children }: LayoutProps) => {
   const [showPasswordChange, setShowPasswordChange] = useState(false);
   const [_, navigate] = useLocation();
   const { user, isAuthenticated, isAdmin, logoutMutation } = useAuth();
+  const { tournaments, tournament, selectTournament } = useTournament();
   
   // Show password change dialog if user is authenticated and needs password change
   useEffect(() => {
@@ -49,6 +51,22 @@ const Layout = ({ children }: LayoutProps) => {
           
           {/* Static Navigation Buttons */}
             <div className="flex items-center space-x-3">
+              {/* Tournament Picker: browse prior years as they were played */}
+              {tournaments.length > 1 && (
+                <select
+                  aria-label="Tournament"
+                  value={tournament?.id ?? ""}
+                  onChange={(e) => selectTournament(Number(e.target.value))}
+                  className="px-2 py-1 border rounded-md text-sm font-medium text-gray-800"
+                >
+                  {tournaments.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}{t.isActive ? "" : ` (${t.year})`}
+                    </option>
+                  ))}
+                </select>
+              )}
+
               {/* Home Button */}
               <button 
                 className="px-3 py-1 rounded-md hover:bg-gray-100 font-medium text-gray-800"
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { LeaderboardEntry, LeaderboardType } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useTeams } from "@/hooks/use-teams";
+import { apiRequest } from "@/lib/queryClient";
+
+// Scores are entered hole by hole, so keep the board close to live
+const LEADERBOARD_REFRESH_MS = 30 * 1000;
+
+interface LeaderboardProps {
+  title: string;
+  // Leaderboard endpoint, without the type
+  url: string;
+}
+
+// E for level, +3 over, -2 under
+const formatToPar = (toPar: number) => (toPar === 0 ? "E" : toPar > 0 ? `+${toPar}` : `${toPar}`);
+
+/**
+ * Individual gross, net and Stableford standings from each golfer's own ball
+ */
+const Leaderboard = ({ title, url }: LeaderboardProps) => {
+  const { teamById } = useTeams();
+  const [type, setType] = useState<LeaderboardType>("net");
+
+  const leaderboardUrl = `${url}${url.includes("?") ? "&" : "?"}type=${type}`;
+  const { data: entries = [], isLoading } = useQuery<(LeaderboardEntry & { playerName: string })[]>({
+    queryKey: [leaderboardUrl],
+    queryFn: async () => {
+      const response = await apiRequest("GET", leaderboardUrl);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    refetchInterval: LEADERBOARD_REFRESH_MS,
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={type} onValueChange={(value) => setType(value as LeaderboardType)}>
+          <TabsList className="w-full mb-3">
+            <TabsTrigger value="gross" className="flex-1">Gross</TabsTrigger>
+            <TabsTrigger value="net" className="flex-1">Net</TabsTrigger>
+            <TabsTrigger value="stableford" className="flex-1">Stableford</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : entries.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-4">No individual scores yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">Pos</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-center">Thru</TableHead>
+                <TableHead className="text-center">{type === "stableford" ? "Pts" : "To Par"}</TableHead>
+                <TableHead className="text-right">{type === "stableford" ? "Net" : "Total"}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry, index) => {
+                const tied = entries.some((other, i) => i !== index && other.rank === entry.rank);
+                return (
+                  <TableRow key={entry.playerId}>
+                    <TableCell className="font-mono">{tied ? `T${entry.rank}` : entry.rank}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        <TeamBadge team={teamById(entry.teamId)} size="sm" className="mr-2" />
+                        <span>{entry.playerName}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-center font-mono">
+                      {entry.thru >= entry.roundHoles ? "F" : entry.thru}
+                    </TableCell>
+                    <TableCell className="text-center font-mono font-bold">
+                      {type === "gross"
+                        ? formatToPar(entry.grossToPar)
+                        : type === "net"
+                          ? formatToPar(entry.netToPar)
+                          : entry.stableford}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {type === "gross" ? entry.gross : entry.net}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Leaderboard;
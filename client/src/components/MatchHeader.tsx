@@ -1,8 +1,9 @@
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import aviatorsLogo from "../assets/aviators-logo.svg";
-import producersLogo from "../assets/producers-logo.svg";
 import { apiRequest } from "@/lib/queryClient"; // Added import
+import { formatLiveStatus, isPlayoffHole, type NassauLegResult } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
 
 interface MatchHeaderProps {
   id: number;
@@ -10,11 +11,17 @@ interface MatchHeaderProps {
   roundId: number;
   roundName?: string;
   matchType?: string;
-  leadingTeam: string | null;
+  teamAId: number;
+  teamBId: number;
+  leadingTeamId: number | null;
   leadAmount: number;
   currentHole: number;
   status?: string;
   result?: string | null;
+  dormie?: boolean;
+  closedOutHole?: number | null;
+  concededBy?: number | null;
+  nassauResults?: NassauLegResult[] | null;
 }
 
 interface Player {
@@ -25,7 +32,7 @@ interface Player {
 
 interface MatchParticipant {
   userId: number;
-  team: string;
+  teamId: number;
   player: Player;
 }
 
@@ -35,13 +42,21 @@ const MatchHeader = ({
   roundId,
   roundName = "Round",
   matchType = "",
-  leadingTeam,
+  teamAId,
+  teamBId,
+  leadingTeamId,
   leadAmount,
   currentHole,
   status = "in_progress",
   result = null,
+  dormie = false,
+  closedOutHole = null,
+  concededBy = null,
+  nassauResults = null,
 }: MatchHeaderProps) => {
   const [_, navigate] = useLocation();
+  const { teamById } = useTeams();
+  const leadingTeam = teamById(leadingTeamId);
 
   // Fetch match participants
   const { data: participants = [] } = useQuery<any[]>({
@@ -63,28 +78,18 @@ const MatchHeader = ({
     },
   });
 
-  // Split participants into teams - now keeping them as array instead of joining with comma
-  const aviatorPlayers = Array.isArray(participants) 
-    ? participants
-        .filter((p: any) => p.team === "aviators")
-        .map((p: any) => {
-          const player = Array.isArray(allPlayers) 
-            ? allPlayers.find((player: any) => player.id === p.playerId)
-            : null;
-          return player ? player.name : `Player ${p.playerId}`;
-        })
-    : [];
-
-  const producerPlayers = Array.isArray(participants)
-    ? participants
-        .filter((p: any) => p.team === "producers")
-        .map((p: any) => {
-          const player = Array.isArray(allPlayers)
-            ? allPlayers.find((player: any) => player.id === p.playerId)
-            : null;
-          return player ? player.name : `Player ${p.playerId}`;
-        })
-    : [];
+  // Player names for one side of the match
+  const playersFor = (teamId: number): string[] =>
+    Array.isArray(participants)
+      ? participants
+          .filter((p: any) => p.teamId === teamId)
+          .map((p: any) => {
+            const player = Array.isArray(allPlayers) 
+              ? allPlayers.find((player: any) => player.id === p.playerId)
+              : null;
+            return player ? player.name : `Player ${p.playerId}`;
+          })
+      : [];
 
   const handleBackClick = () => {
     navigate(`/rounds/${roundId}`);
@@ -110,39 +115,48 @@ const MatchHeader = ({
         
         <div className="p-4">
           <div className="flex mb-3">
-            <div className="w-1/2 border-r border-gray-200 pr-3">
-              <div className="flex items-center mb-1">
-                <img src={aviatorsLogo} alt="Aviators" className="w-5 h-5 mr-2" />
-                <span className="font-semibold text-sm">AVIATORS</span>
-              </div>
-              <div className="text-sm font-semibold">
-                {aviatorPlayers.map((player, index) => (
-                  <div key={index} className="leading-tight mb-1">{player}</div>
-                ))}
-              </div>
-            </div>
-            
-            <div className="w-1/2 pl-3">
-              <div className="flex items-center mb-1">
-                <img src={producersLogo} alt="Producers" className="w-5 h-5 mr-2" />
-                <span className="font-semibold text-sm">PRODUCERS</span>
-              </div>
-              <div className="text-sm font-semibold">
-                {producerPlayers.map((player, index) => (
-                  <div key={index} className="leading-tight mb-1">{player}</div>
-                ))}
-              </div>
-            </div>
+            {[teamAId, teamBId].map((teamId, side) => {
+              const team = teamById(teamId);
+              return (
+                <div
+                  key={teamId}
+                  className={side === 0 ? "w-1/2 border-r border-gray-200 pr-3" : "w-1/2 pl-3"}
+                >
+                  <div className="flex items-center mb-1">
+                    <TeamBadge team={team} size="sm" className="mr-2" />
+                    <span className="font-semibold text-sm uppercase">{team?.name}</span>
+                  </div>
+                  <div className="text-sm font-semibold">
+                    {playersFor(teamId).map((player, index) => (
+                      <div key={index} className="leading-tight mb-1">{player}</div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
           </div>
           
           {/* Display final match result when completed */}
           {status === "completed" && result ? (
-            <div className="flex justify-center items-center">
+            <div className="flex flex-col justify-center items-center">
               <div className="text-center py-2 px-4 rounded-lg font-heading font-bold bg-gray-100 text-lg">
-                <span className={leadingTeam === "aviators" ? "text-aviator" : "text-producer"}>
-                  {leadingTeam === "aviators" ? "Aviators" : "Producers"} win {result}
-                </span>
+                {leadingTeamId ? (
+                  <span className="text-team" style={teamStyle(leadingTeam)}>
+                    {leadingTeam?.name} win {result}
+                  </span>
+                ) : (
+                  <span>Match halved ({result})</span>
+                )}
               </div>
+              {concededBy ? (
+                <div className="text-xs text-gray-500 mt-1">
+                  Conceded by the {teamById(concededBy)?.name}
+                </div>
+              ) : closedOutHole && closedOutHole < 18 && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Closed out on hole {closedOutHole}
+                </div>
+              )}
             </div>
           ) : status === "upcoming" ? (
             <div className="flex justify-center items-center">
@@ -150,14 +164,14 @@ const MatchHeader = ({
                 MATCH PENDING
               </div>
             </div>
-          ) : leadingTeam ? (
+          ) : leadingTeamId ? (
             <div className="flex justify-center items-center">
               <div className="text-center py-1 px-3 rounded-lg font-heading font-bold bg-gray-100">
-                <span className={leadingTeam === "aviators" ? "text-aviator" : "text-producer"}>
-                  {leadingTeam === "aviators" ? "AVIATORS" : "PRODUCERS"}
+                <span className="text-team uppercase" style={teamStyle(leadingTeam)}>
+                  {leadingTeam?.name}
                 </span>
                 <span className="text-sm font-mono bg-white px-2 py-1 rounded ml-1">
-                  {leadAmount > 0 ? `${leadAmount} UP` : "-"}
+                  {leadAmount > 0 ? formatLiveStatus(leadAmount, dormie) : "-"}
                 </span>
               </div>
               <div className="text-xs text-gray-500 ml-2">
@@ -167,13 +181,35 @@ const MatchHeader = ({
           ) : (
             <div className="flex justify-center items-center">
               <div className="text-center py-1 px-3 rounded-lg font-heading font-bold bg-gray-100">
-                ALL SQUARE
+                {isPlayoffHole(currentHole) ? "ALL SQUARE - PLAYOFF" : "ALL SQUARE"}
               </div>
               <div className="text-xs text-gray-500 ml-2">
-                <span>Hole {currentHole}</span>
+                <span>{isPlayoffHole(currentHole) ? "Extra hole" : "Hole"} {currentHole}</span>
               </div>
             </div>
           )}
+
+          {/* Nassau legs are separate results */}
+          {nassauResults && nassauResults.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 mt-3 text-center text-xs">
+              {nassauResults.map((leg) => (
+                <div key={leg.leg} className="bg-gray-50 rounded p-2">
+                  <div className="uppercase text-gray-500 font-semibold">{leg.leg}</div>
+                  <div
+                    className={`font-bold ${leg.leadingTeam ? "text-team" : ""}`}
+                    style={leg.leadingTeam ? teamStyle(teamById(leg.leadingTeam)) : undefined}
+                  >
+                    {leg.holesPlayed === 0
+                      ? "-"
+                      : leg.isComplete
+                        ? leg.result
+                        : formatLiveStatus(leg.leadAmount, false)}
+                  </div>
+                  {leg.isComplete && <div className="text-gray-400">Final</div>}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
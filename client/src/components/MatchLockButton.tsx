@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Lock, Unlock } from "lucide-react";
+import type { MatchLockEvent } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface MatchLockButtonProps {
+  match: { id: number; roundId: number; locked?: boolean | null };
+  // A small icon button, for the match cards on the round page
+  compact?: boolean;
+}
+
+type LockHistoryEvent = MatchLockEvent & { username: string | null };
+
+const lockActionLabels = { lock: "Locked", unlock: "Unlocked", auto_lock: "Locked automatically" } as const;
+
+/**
+ * Locks a match straight away; unlocking asks the admin why, and the reason
+ * goes in the match's lock history
+ */
+const MatchLockButton = ({ match, compact = false }: MatchLockButtonProps) => {
+  const { toast } = useToast();
+  const [isUnlockDialogOpen, setIsUnlockDialogOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const { data: history = [] } = useQuery<LockHistoryEvent[]>({
+    queryKey: [`/api/matches/${match.id}/lock-history`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/matches/${match.id}/lock-history`);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    enabled: isUnlockDialogOpen,
+  });
+
+  const onLockChanged = (locked: boolean) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${match.id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/matches?roundId=${match.roundId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${match.id}/lock-history`] });
+    toast({
+      title: locked ? "Match locked" : "Match unlocked",
+      description: locked
+        ? "The match has been locked to prevent further edits."
+        : "The match has been unlocked for editing.",
+    });
+  };
+
+  const lockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/matches/${match.id}/lock`);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    onSuccess: () => onLockChanged(true),
+    onError: (error: Error) => {
+      toast({ title: "Error locking match", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/matches/${match.id}/unlock`, { reason });
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsUnlockDialogOpen(false);
+      setReason("");
+      onLockChanged(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error unlocking match", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleClick = () => {
+    if (match.locked) {
+      setIsUnlockDialogOpen(true);
+    } else {
+      lockMutation.mutate();
+    }
+  };
+
+  return (
+    // Match cards navigate on click; keep the button and dialog from doing so
+    <span onClick={(e) => e.stopPropagation()}>
+      {compact ? (
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={handleClick}>
+          {match.locked ? <Unlock className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" onClick={handleClick} className="ml-2">
+          {match.locked ? (
+            <>
+              <Unlock className="mr-2 h-4 w-4" />
+              Unlock Match
+            </>
+          ) : (
+            <>
+              <Lock className="mr-2 h-4 w-4" />
+              Lock Match
+            </>
+          )}
+        </Button>
+      )}
+
+      <Dialog open={isUnlockDialogOpen} onOpenChange={setIsUnlockDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Unlock Match</DialogTitle>
+            <DialogDescription>
+              Scores can be changed again once the match is unlocked. Say why it needs to be.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Hole 7 was entered for the wrong side"
+          />
+
+          {history.length > 0 && (
+            <ul className="text-xs text-muted-foreground space-y-1">
+              {history.map((event) => (
+                <li key={event.id}>
+                  {lockActionLabels[event.action]}
+                  {event.username ? ` by ${event.username}` : ""}
+                  {event.createdAt ? `, ${new Date(event.createdAt).toLocaleString()}` : ""}
+                  {event.reason ? ` — ${event.reason}` : ""}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsUnlockDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!reason.trim() || unlockMutation.isPending}
+              onClick={() => unlockMutation.mutate()}
+            >
+              Unlock
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+};
+
+export default MatchLockButton;
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { UserCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface MatchScorersDialogProps {
+  matchId: number;
+}
+
+interface MatchScorer {
+  userId: number;
+  username: string;
+}
+
+interface UserSummary {
+  id: number;
+  username: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Lets an admin hand score entry for a match to someone who isn't playing in it
+ */
+const MatchScorersDialog = ({ matchId }: MatchScorersDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selectedUserId, setSelectedUserId] = useState("");
+
+  const scorersKey = [`/api/matches/${matchId}/scorers`];
+
+  const { data: scorers = [] } = useQuery<MatchScorer[]>({
+    queryKey: scorersKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/matches/${matchId}/scorers`);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/admin/users");
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  // Admins can already score every match
+  const assignable = users.filter(
+    (user) => !user.isAdmin && !scorers.some((scorer) => scorer.userId === user.id),
+  );
+
+  const onScorersChanged = (updated: MatchScorer[]) => {
+    queryClient.setQueryData(scorersKey, updated);
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}/can-score`] });
+  };
+
+  const addScorerMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/matches/${matchId}/scorers`, { userId });
+      if (!response) throw new Error("No response received");
+      return response.json() as Promise<MatchScorer[]>;
+    },
+    onSuccess: (updated) => {
+      onScorersChanged(updated);
+      setSelectedUserId("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to assign scorer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeScorerMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("DELETE", `/api/matches/${matchId}/scorers/${userId}`);
+      if (!response) throw new Error("No response received");
+      return response.json() as Promise<MatchScorer[]>;
+    },
+    onSuccess: onScorersChanged,
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove scorer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <UserCheck className="mr-2 h-4 w-4" />
+          Scorers
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Match Scorers</DialogTitle>
+          <DialogDescription>
+            Players in the match and admins can always enter scores. Anyone added here can too.
+          </DialogDescription>
+        </DialogHeader>
+
+        {scorers.length === 0 ? (
+          <p className="text-sm text-gray-500">No scorers assigned.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {scorers.map((scorer) => (
+              <li key={scorer.userId} className="flex items-center justify-between py-2">
+                <span>{scorer.username}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={removeScorerMutation.isPending}
+                  onClick={() => removeScorerMutation.mutate(scorer.userId)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Choose a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {assignable.map((user) => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={!selectedUserId || addScorerMutation.isPending}
+            onClick={() => addScorerMutation.mutate(parseInt(selectedUserId))}
+          >
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MatchScorersDialog;
@@ -1,25 +1,29 @@
   import { useLocation } from "wouter";
-  import { Edit, Trash2, Lock, Unlock } from "lucide-react";
+  import { Edit, Trash2, Lock } from "lucide-react";
   import { Button } from "@/components/ui/button";
   import { useAuth } from "@/hooks/use-auth";
   import { useState } from "react";
   import { apiRequest, queryClient } from "@/lib/queryClient";
   import { useMutation } from "@tanstack/react-query";
   import { useToast } from "@/hooks/use-toast";
-  // Add these imports
-  import aviatorsLogo from "../assets/aviators-text.svg";
-  import producersLogo from "../assets/producers-text.svg";
+  import { formatLiveStatus } from "@shared/scoring";
+  import TeamBadge from "@/components/TeamBadge";
+  import MatchLockButton from "@/components/MatchLockButton";
+  import { teamStyle, useTeams } from "@/hooks/use-teams";
 
   interface Match {
     id: number;
     name: string;
     status: string;
-    aviatorPlayers: string;
-    producerPlayers: string;
-    leadingTeam: string | null;
+    teamAId: number;
+    teamBId: number;
+    teamPlayers: Record<number, string>;
+    leadingTeamId: number | null;
     leadAmount: number;
     result: string | null;
     currentHole?: number;
+    dormie?: boolean;
+    closedOutHole?: number | null;
     roundId: number;
     locked?: boolean;
   }
@@ -32,6 +36,7 @@
     const [_, navigate] = useLocation();
     const { isAdmin } = useAuth();
     const { toast } = useToast();
+    const { teamById } = useTeams();
     const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
 
     // Delete match mutation
@@ -78,37 +83,6 @@
       },
     });
 
-    // Add toggle lock mutation
-    const toggleLockMutation = useMutation({
-      mutationFn: async ({matchId, locked}: {matchId: number, locked: boolean}) => {
-        const res = await apiRequest("PUT", `/api/matches/${matchId}`, {
-          locked: locked,
-        });
-        return { id: matchId, locked };
-      },
-      onSuccess: (data) => {
-        // Update the cache
-        queryClient.invalidateQueries({ queryKey: [`/api/matches`] });
-        queryClient.invalidateQueries({ queryKey: [`/api/matches/${data.id}`] });
-
-        toast({
-          title: data.locked ? "Match locked" : "Match unlocked",
-          description: data.locked 
-            ? "The match has been locked to prevent further edits." 
-            : "The match has been unlocked for editing.",
-          duration: 1000,
-        });
-      },
-      onError: (error: Error) => {
-        toast({
-          title: "Error updating match lock status",
-          description: error.message,
-          variant: "destructive",
-          duration: 1000,
-        });
-      },
-    });
-
     const handleMatchClick = (matchId: number) => {
       navigate(`/matches/${matchId}`);
     };
@@ -130,18 +104,6 @@
       setConfirmDeleteId(null);
     };
 
-    // Add function to handle lock toggle
-    const handleToggleLock = (e: React.MouseEvent, matchId: number) => {
-      e.stopPropagation();
-      const match = matches.find(m => m.id === matchId);
-      if (match) {
-        toggleLockMutation.mutate({ 
-          matchId, 
-          locked: !match.locked 
-        });
-      }
-    };
-
     const renderMatchStatus = (match: Match) => {
         if (match.status === "completed") {
           return (
@@ -181,26 +143,35 @@
 
     const renderMatchResult = (match: Match) => {
       if (match.status === "completed" && match.result) {
-        const winningTeam = match.leadingTeam === "aviators" 
-          ? <img src={aviatorsLogo} alt="Aviators" className="h-5 inline-block" /> 
-          : <img src={producersLogo} alt="Producers" className="h-5 inline-block" />;
+        if (!match.leadingTeamId) {
+          return (
+            <div className="text-center bg-gray-100 py-2 rounded-lg font-heading font-bold">
+              Halved ({match.result})
+            </div>
+          );
+        }
+
+        const winningTeam = teamById(match.leadingTeamId);
 
         return (
           <div className="text-center bg-gray-100 py-2 rounded-lg font-heading font-bold">
-            {winningTeam} win {match.result}
+            <span className="text-team" style={teamStyle(winningTeam)}>{winningTeam?.name}</span> win {match.result}
+            {match.closedOutHole && match.closedOutHole < 18 && (
+              <div className="text-xs font-normal text-gray-500">
+                Closed out on hole {match.closedOutHole}
+              </div>
+            )}
           </div>
         );
-      } else if (match.status === "in_progress" && match.leadingTeam) {
-        const leadingTeam = match.leadingTeam === "aviators" 
-          ? <img src={aviatorsLogo} alt="Aviators" className="h-5 inline-block" /> 
-          : <img src={producersLogo} alt="Producers" className="h-5 inline-block" />;
+      } else if (match.status === "in_progress" && match.leadingTeamId) {
+        const leadingTeam = teamById(match.leadingTeamId);
 
         return (
           <div className="flex justify-center items-center">
             <div className="text-center py-1 px-3 rounded-lg font-heading font-bold bg-gray-100">
-              {leadingTeam}
+              <span className="text-team" style={teamStyle(leadingTeam)}>{leadingTeam?.name}</span>
               <span className="text-sm font-mono bg-white px-2 py-1 rounded ml-1">
-                {match.leadAmount > 0 ? `${match.leadAmount}&${18 - (match.currentHole || 1)}` : "-"}
+                {match.leadAmount > 0 ? formatLiveStatus(match.leadAmount, !!match.dormie) : "-"}
               </span>
             </div>
             <div className="text-xs text-gray-500 ml-2">
@@ -223,12 +194,14 @@
       if (match.status === "completed" && match.result) {
         return null; // Result is already displayed
       } else if (match.status === "in_progress") {
-        if (match.leadingTeam) {
+        if (match.leadingTeamId) {
           // Display leading team status
-          const textColor = match.leadingTeam === "aviators" ? "text-aviator" : "text-producer";
           return (
-            <div className={`text-center py-1 font-semibold ${textColor}`}>
-              {match.leadAmount} UP
+            <div
+              className="text-center py-1 font-semibold text-team"
+              style={teamStyle(teamById(match.leadingTeamId))}
+            >
+              {formatLiveStatus(match.leadAmount, !!match.dormie)}
             </div>
           );
         } else {
@@ -287,19 +260,7 @@
                         >
                           <Trash2 className="h-3 w-3" />
                         </Button>
-                        {/* Add lock button */}
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-6 w-6"
-                          onClick={(e) => handleToggleLock(e, match.id)}
-                        >
-                          {match.locked ? (
-                            <Unlock className="h-3 w-3" />
-                          ) : (
-                            <Lock className="h-3 w-3" />
-                          )}
-                        </Button>
+                        <MatchLockButton match={match} compact />
                       </div>
                     )}
                   </div>
@@ -310,29 +271,27 @@
 
             <div className="p-4">
               <div className="flex mb-2">
-                <div className="w-1/2 border-r border-gray-200 pr-3">
-                  <div className="flex items-center mb-1">
-                    <div className="w-3 h-3 rounded-full bg-aviator mr-2"></div>
-                    <img src={aviatorsLogo} alt="Aviators" className="h-5" />
-                  </div>
-                  <div className="text-sm text-gray-600">
-                    {match.aviatorPlayers.split(', ').map((player, index) => (
-                      <div key={index}>{player}</div>
-                    ))}
-                  </div>
-                </div>
-
-                <div className="w-1/2 pl-3">
-                  <div className="flex items-center justify-end mb-1">
-                    <div className="w-3 h-3 rounded-full bg-producer mr-2"></div>
-                    <img src={producersLogo} alt="Producers" className="h-5" />
-                  </div>
-                  <div className="text-sm text-gray-600 text-right">{match.producerPlayers.split(', ').map((player, index) => (
-                    <div key={index}>{player}</div>    
-                  ))}
-                </div>
+                {[match.teamAId, match.teamBId].map((teamId, side) => {
+                  const team = teamById(teamId);
+                  const players = match.teamPlayers?.[teamId] || "";
+                  return (
+                    <div
+                      key={teamId}
+                      className={side === 0 ? "w-1/2 border-r border-gray-200 pr-3" : "w-1/2 pl-3"}
+                    >
+                      <div className={`flex items-center mb-1 ${side === 1 ? "justify-end" : ""}`}>
+                        <TeamBadge team={team} size="sm" className="mr-2" />
+                        <span className="font-heading font-bold text-sm">{team?.name}</span>
+                      </div>
+                      <div className={`text-sm text-gray-600 ${side === 1 ? "text-right" : ""}`}>
+                        {players.split(', ').filter(Boolean).map((player, index) => (
+                          <div key={index}>{player}</div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-            </div>
 
               {/* Display match status */}
               {renderMatchStatusDisplay(match)}
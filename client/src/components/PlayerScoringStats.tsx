@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Course } from "@shared/schema";
+import type { HoleScoringAverage, ScoringStats } from "@shared/scoring";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useTournament } from "@/hooks/use-tournament";
+import { apiRequest } from "@/lib/queryClient";
+
+interface PlayerScoringStatsProps {
+  playerId: number;
+}
+
+type Scope = "tournament" | "career";
+
+const formatAverage = (average: number | null) => (average === null ? "—" : average.toFixed(2));
+
+// +0.5 over par on average, -1 under
+const formatToPar = (toPar: number) => (toPar === 0 ? "E" : toPar > 0 ? `+${toPar}` : `${toPar}`);
+
+/**
+ * A golfer's score distribution and scoring averages from their own ball
+ */
+const PlayerScoringStats = ({ playerId }: PlayerScoringStatsProps) => {
+  const { tournament } = useTournament();
+  const [scope, setScope] = useState<Scope>("tournament");
+
+  const url =
+    scope === "tournament" && tournament
+      ? `/api/players/${playerId}/scoring-stats?tournamentId=${tournament.id}`
+      : `/api/players/${playerId}/scoring-stats`;
+  const { data: stats, isLoading } = useQuery<ScoringStats>({
+    queryKey: [url],
+    queryFn: async () => {
+      const response = await apiRequest("GET", url);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+  });
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/courses");
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+  });
+
+  const describeHole = (hole: HoleScoringAverage) => {
+    const course = courses.find((c) => c.id === hole.courseId);
+    return `${course ? `${course.name} ` : ""}#${hole.holeNumber} (par ${hole.par}): ${formatToPar(hole.toPar)}`;
+  };
+
+  return (
+    <div>
+      <Tabs value={scope} onValueChange={(value) => setScope(value as Scope)}>
+        <TabsList className="w-full mb-3">
+          <TabsTrigger value="tournament" className="flex-1">{tournament?.name ?? "Tournament"}</TabsTrigger>
+          <TabsTrigger value="career" className="flex-1">Career</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : !stats || stats.holesPlayed === 0 ? (
+        <p className="text-sm text-gray-500 py-2">No hole scores yet.</p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <div className="grid grid-cols-5 gap-2 text-center">
+            {[
+              ["Eagles", stats.eagles],
+              ["Birdies", stats.birdies],
+              ["Pars", stats.pars],
+              ["Bogeys", stats.bogeys],
+              ["Dbl+", stats.doublesPlus],
+            ].map(([label, count]) => (
+              <div key={label} className="rounded-md bg-white p-2 shadow-sm">
+                <div className="font-mono text-lg font-bold">{count}</div>
+                <div className="text-xs text-muted-foreground">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            <div className="flex justify-between"><span>Par 3 average</span><span className="font-mono">{formatAverage(stats.averageByPar[3])}</span></div>
+            <div className="flex justify-between"><span>Front nine</span><span className="font-mono">{formatAverage(stats.frontNineAverage)}</span></div>
+            <div className="flex justify-between"><span>Par 4 average</span><span className="font-mono">{formatAverage(stats.averageByPar[4])}</span></div>
+            <div className="flex justify-between"><span>Back nine</span><span className="font-mono">{formatAverage(stats.backNineAverage)}</span></div>
+            <div className="flex justify-between"><span>Par 5 average</span><span className="font-mono">{formatAverage(stats.averageByPar[5])}</span></div>
+            <div className="flex justify-between"><span>Holes played</span><span className="font-mono">{stats.holesPlayed}</span></div>
+          </div>
+
+          {stats.bestHole && (
+            <div className="text-xs text-muted-foreground">
+              <div>Best hole: {describeHole(stats.bestHole)}</div>
+              {stats.worstHole && <div>Worst hole: {describeHole(stats.worstHole)}</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerScoringStats;
@@ -0,0 +1,67 @@
+import type { CupProjection } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
+
+interface ProjectionGaugeProps {
+  projection: CupProjection & { matches: unknown[] };
+}
+
+const percent = (p: number) => `${Math.round(p * 100)}%`;
+
+/**
+ * Each team's chance of winning the cup as a split bar, with the projected
+ * final score beneath. Hidden once every result is decided.
+ */
+const ProjectionGauge = ({ projection }: ProjectionGaugeProps) => {
+  const { teamById } = useTeams();
+
+  if (projection.matches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+      <div className="text-sm font-heading font-bold uppercase text-gray-500 mb-2">
+        Live Projection
+      </div>
+      <div className="flex h-4 w-full overflow-hidden rounded-full bg-gray-100">
+        {projection.teams.map((teamProjection) => (
+          <div
+            key={teamProjection.teamId}
+            className="bg-team h-full transition-all"
+            style={{ ...teamStyle(teamById(teamProjection.teamId)), width: percent(teamProjection.winProbability) }}
+            title={`${teamById(teamProjection.teamId)?.name}: ${percent(teamProjection.winProbability)}`}
+          />
+        ))}
+        {projection.tieProbability > 0 && (
+          <div
+            className="h-full bg-gray-300"
+            style={{ width: percent(projection.tieProbability) }}
+            title={`Tied: ${percent(projection.tieProbability)}`}
+          />
+        )}
+      </div>
+      <div className="flex justify-between mt-3">
+        {projection.teams.map((teamProjection) => {
+          const team = teamById(teamProjection.teamId);
+          return (
+            <div key={teamProjection.teamId} className="flex items-center">
+              <TeamBadge team={team} size="sm" className="mr-2" />
+              <div>
+                <div className="font-heading font-bold">{percent(teamProjection.winProbability)}</div>
+                <div className="text-xs text-gray-500">
+                  Proj. {teamProjection.expectedScore.toFixed(1)} pts
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {projection.tieProbability >= 0.005 && (
+        <div className="text-center text-xs text-gray-500 mt-2">
+          {percent(projection.tieProbability)} chance of a tie
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectionGauge;
@@ -1,6 +1,7 @@
 import { useLocation } from "wouter";
-import aviatorsLogo from "../assets/Aviators.svg";
-import producersLogo from "../assets/Producers.svg";
+import type { TeamPoints } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { useTeams } from "@/hooks/use-teams";
 
 interface RoundHeaderProps {
   id: number;
@@ -8,10 +9,7 @@ interface RoundHeaderProps {
   matchType: string;
   courseName: string;
   startTime: string;
-  aviatorScore: number;
-  producerScore: number;
-  pendingAviatorScore?: number;
-  pendingProducerScore?: number;
+  teamScores: TeamPoints[];
   date: string;
   matchCount: number;
 }
@@ -22,14 +20,12 @@ const RoundHeader = ({
   matchType,
   courseName,
   startTime, 
-  aviatorScore, 
-  producerScore,
-  pendingAviatorScore = 0,
-  pendingProducerScore = 0,
+  teamScores,
   date,
   matchCount 
 }: RoundHeaderProps) => {
   const [_, navigate] = useLocation();
+  const { teamById } = useTeams();
 
   const handleBackClick = () => {
     navigate('/');
@@ -56,29 +52,19 @@ const RoundHeader = ({
         
         <div className="p-4">
           <div className="flex justify-between items-center mb-3">
-            <div className="flex items-center">
-              <img src={aviatorsLogo} alt="Aviators" className="w-20 h-20 mr-5" />
-              <div className="relative">
-                <span className="font-heading font-bold text-3xl">{aviatorScore}</span>
-                {pendingAviatorScore > 0 && (
-                  <span className="absolute text-gray-400 text-sm font-normal bottom-0 -right-15.5" style={{ marginRight: '10px' }} title="Pending points">
-                    +{pendingAviatorScore}
-                  </span>
-                )}
+            {teamScores.map((teamScore) => (
+              <div key={teamScore.teamId} className="flex items-center">
+                <TeamBadge team={teamById(teamScore.teamId)} size="lg" className="mr-3" />
+                <div className="relative">
+                  <span className="font-heading font-bold text-3xl">{teamScore.score}</span>
+                  {teamScore.pendingScore > 0 && (
+                    <span className="ml-1 text-gray-400 text-sm font-normal" title="Pending points">
+                      +{teamScore.pendingScore}
+                    </span>
+                  )}
+                </div>
               </div>
-            </div>
-
-            <div className="flex items-center">
-              <div className="relative">
-                <span className="font-heading font-bold text-3xl">{producerScore}</span>
-                {pendingProducerScore > 0 && (
-                  <span className="absolute text-gray-400 text-sm font-normal bottom-0 -left-11" style={{ marginLeft: '10px' }} title="Pending points">
-                    +{pendingProducerScore}
-                  </span>
-                )}
-              </div>
-              <img src={producersLogo} alt="Producers" className="w-20 h-20 ml-5" />
-            </div>
+            ))}
           </div>
 
           <div className="text-center text-sm text-gray-500">
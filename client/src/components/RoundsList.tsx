@@ -6,6 +6,8 @@ import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
+import type { TeamPoints } from "@shared/scoring";
 
 interface Round {
   id: number;
@@ -14,10 +16,7 @@ interface Round {
   date: string;
   courseName: string;
   startTime: string;
-  aviatorScore: number;
-  producerScore: number;
-  pendingAviatorScore?: number;
-  pendingProducerScore?: number;
+  teamScores: TeamPoints[];
   isComplete: boolean;
 }
 
@@ -31,6 +30,7 @@ const RoundsList = ({ rounds }: RoundsListProps) => {
   const [_, navigate] = useLocation();
   const { isAdmin } = useAuth();
   const { toast } = useToast();
+  const { teamById } = useTeams();
   const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
 
   const deleteRoundMutation = useMutation({
@@ -134,18 +134,17 @@ const RoundsList = ({ rounds }: RoundsListProps) => {
           </div>
           <div className="p-4">
             <div className="flex justify-between items-center">
-              <div className="flex items-center">
-                <div className="w-3 h-3 rounded-full bg-aviator mr-2"></div>
-                <div className="relative">
-                  <span className="font-semibold">{parseFloat(round.aviatorScore.toString())}</span>
+              {round.teamScores.map((teamScore) => (
+                <div key={teamScore.teamId} className="flex items-center" title={teamById(teamScore.teamId)?.name}>
+                  <div
+                    className="w-3 h-3 rounded-full bg-team mr-2"
+                    style={teamStyle(teamById(teamScore.teamId))}
+                  ></div>
+                  <div className="relative">
+                    <span className="font-semibold">{teamScore.score}</span>
+                  </div>
                 </div>
-              </div>
-              <div className="flex items-center">
-                <div className="relative">
-                  <span className="font-semibold">{parseFloat(round.producerScore.toString())}</span>
-                </div>
-                <div className="w-3 h-3 rounded-full bg-producer ml-2"></div>
-              </div>
+              ))}
             </div>
             <div className="mt-2 text-sm text-gray-500 flex justify-between items-center">
               <div>{round.date}</div>
@@ -0,0 +1,70 @@
+import type { StaleScore } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { useTeams } from "@/hooks/use-teams";
+
+// A score this phone tried to save over one it hadn't seen
+export interface ScoreConflict {
+  key: string;
+  holeNumber: number;
+  // Whose score it is: a team or a golfer
+  label: string;
+  stale: StaleScore;
+  yours: number | null;
+  keepYours: () => void;
+  keepTheirs: () => void;
+}
+
+interface ScoreConflictResolverProps {
+  conflicts: ScoreConflict[];
+}
+
+const formatScore = (score: number | null) => (score === null ? "nothing" : score.toString());
+
+// "Producers' phone", "Aviators' phone", "Rob's phone"
+const possessive = (name: string) => (name.endsWith("s") ? `${name}'` : `${name}'s`);
+
+/**
+ * Asks which score to keep when another phone changed it first:
+ * "Producers' phone entered 5, you entered 4 — keep which?"
+ */
+const ScoreConflictResolver = ({ conflicts }: ScoreConflictResolverProps) => {
+  const { teamById } = useTeams();
+
+  if (conflicts.length === 0) return null;
+
+  const describeOtherPhone = ({ enteredBy }: StaleScore) => {
+    const team = enteredBy?.teamId ? teamById(enteredBy.teamId) : undefined;
+    if (team) return `${possessive(team.name)} phone`;
+    if (enteredBy?.username) return `${possessive(enteredBy.username)} phone`;
+    return "Another phone";
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      {conflicts.map((conflict) => (
+        <div
+          key={conflict.key}
+          className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm"
+        >
+          <span>
+            <span className="font-medium">
+              Hole {conflict.holeNumber}, {conflict.label}:
+            </span>{" "}
+            {describeOtherPhone(conflict.stale)} entered {formatScore(conflict.stale.score)}, you entered{" "}
+            {formatScore(conflict.yours)} — keep which?
+          </span>
+          <span className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={conflict.keepTheirs}>
+              Keep {formatScore(conflict.stale.score)}
+            </Button>
+            <Button size="sm" onClick={conflict.keepYours}>
+              Keep {formatScore(conflict.yours)}
+            </Button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScoreConflictResolver;
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import type { Player, ScoreEvent } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTeams } from "@/hooks/use-teams";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ScoreHistoryDrawerProps {
+  matchId: number;
+}
+
+type ScoreHistoryEvent = ScoreEvent & { username: string | null };
+
+// Only the fields each kind of score records; see auditScore on the server
+interface AuditedValue {
+  teamScores?: Record<string, number | null>;
+  conceded?: boolean | null;
+  concededByTeamId?: number | null;
+  score?: number | null;
+  puttConceded?: boolean | null;
+}
+
+const actionLabels = { create: "entered", update: "changed", delete: "deleted" } as const;
+
+/**
+ * Every change to a match's scores, newest first, with who made it
+ */
+const ScoreHistoryDrawer = ({ matchId }: ScoreHistoryDrawerProps) => {
+  const { teamById } = useTeams();
+  const [open, setOpen] = useState(false);
+
+  const { data: events = [], isLoading } = useQuery<ScoreHistoryEvent[]>({
+    queryKey: [`/api/matches/${matchId}/score-history`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/matches/${matchId}/score-history`);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const { data: players = [] } = useQuery<Player[]>({
+    queryKey: ["/api/players"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/players");
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  // "AVI 4, PRO 5", "conceded by PRO" or "6 (putt conceded)"
+  const describeValue = (value: unknown) => {
+    if (!value) return "—";
+    const audited = value as AuditedValue;
+    const parts: string[] = [];
+    if (audited.teamScores) {
+      const sides = Object.entries(audited.teamScores)
+        .filter(([, score]) => score !== null)
+        .map(([teamId, score]) => `${teamById(Number(teamId))?.shortName ?? `Team ${teamId}`} ${score}`);
+      if (sides.length > 0) parts.push(sides.join(", "));
+    }
+    if (audited.score !== undefined) {
+      parts.push(audited.score === null ? "no score" : `${audited.score}${audited.puttConceded ? " (putt conceded)" : ""}`);
+    }
+    if (audited.concededByTeamId && (audited.conceded ?? true)) {
+      parts.push(`conceded by ${teamById(audited.concededByTeamId)?.shortName ?? "a team"}`);
+    }
+    return parts.length > 0 ? parts.join("; ") : "—";
+  };
+
+  const describeSubject = (event: ScoreHistoryEvent) => {
+    const hole = event.holeNumber === null ? "Match" : `Hole ${event.holeNumber}`;
+    const player = event.playerId !== null ? players.find((p) => p.id === event.playerId)?.name : null;
+    return player ? `${hole} · ${player}` : hole;
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="mr-2 h-4 w-4" />
+          Score History
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Score History</SheetTitle>
+          <SheetDescription>Every score entered, changed or deleted in this match.</SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full mt-4" />
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4">No score changes recorded yet.</p>
+        ) : (
+          <ol className="mt-4 divide-y text-sm">
+            {events.map((event) => (
+              <li key={event.id} className="py-2">
+                <div className="flex justify-between">
+                  <span className="font-medium">{describeSubject(event)}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {event.createdAt ? new Date(event.createdAt).toLocaleString() : ""}
+                  </span>
+                </div>
+                <div>
+                  {event.action === "create"
+                    ? describeValue(event.newValue)
+                    : event.action === "delete"
+                      ? describeValue(event.previousValue)
+                      : `${describeValue(event.previousValue)} → ${describeValue(event.newValue)}`}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {actionLabels[event.action]} by {event.username ?? "someone not signed in"}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ScoreHistoryDrawer;
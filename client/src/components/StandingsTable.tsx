@@ -0,0 +1,79 @@
+import type { TeamStanding } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { useTeams } from "@/hooks/use-teams";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface StandingsTableProps {
+  standings: TeamStanding[];
+  pointsAvailable?: number;
+}
+
+/**
+ * Points table for tournaments between more than two teams. Ties on points
+ * are broken by matches won, then by holes up.
+ */
+const StandingsTable = ({ standings, pointsAvailable = 0 }: StandingsTableProps) => {
+  const { teamById } = useTeams();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">#</TableHead>
+            <TableHead>Team</TableHead>
+            <TableHead className="text-center">P</TableHead>
+            <TableHead className="text-center">W-L-H</TableHead>
+            <TableHead className="text-center">+/-</TableHead>
+            <TableHead className="text-right">Pts</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {standings.map((standing) => {
+            const team = teamById(standing.teamId);
+            return (
+              <TableRow key={standing.teamId}>
+                <TableCell className="font-mono">{standing.rank}</TableCell>
+                <TableCell>
+                  <div className="flex items-center">
+                    <TeamBadge team={team} size="sm" className="mr-2" />
+                    <span className="font-heading font-bold">{team?.name}</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-center font-mono">{standing.played}</TableCell>
+                <TableCell className="text-center font-mono">
+                  {standing.wins}-{standing.losses}-{standing.halves}
+                </TableCell>
+                <TableCell className="text-center font-mono">
+                  {standing.holesUp > 0 ? `+${standing.holesUp}` : standing.holesUp}
+                </TableCell>
+                <TableCell className="text-right font-mono font-bold">
+                  {standing.score}
+                  {standing.pendingScore > 0 && (
+                    <span className="text-gray-400 text-xs font-normal ml-1" title="Pending points">
+                      +{standing.pendingScore}
+                    </span>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      {pointsAvailable > 0 && (
+        <div className="text-center text-sm text-gray-500 mt-3">
+          {pointsAvailable} points available
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StandingsTable;
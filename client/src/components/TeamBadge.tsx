@@ -0,0 +1,38 @@
+import type { Team } from "@shared/schema";
+import { teamStyle } from "@/hooks/use-teams";
+import { cn } from "@/lib/utils";
+
+interface TeamBadgeProps {
+  team: (Pick<Team, "name" | "shortName" | "colorCode"> & { logoUrl?: string | null }) | null | undefined;
+  size?: "sm" | "md" | "lg";
+  className?: string;
+}
+
+const sizes = {
+  sm: "h-6 w-6 text-[10px]",
+  md: "h-8 w-8 text-xs",
+  lg: "h-12 w-12 text-base",
+};
+
+/**
+ * A team's logo, or its initial on its own color when it has none, shown
+ * wherever a team is identified
+ */
+const TeamBadge = ({ team, size = "md", className }: TeamBadgeProps) =>
+  team?.logoUrl ? (
+    <img src={team.logoUrl} alt={team.name} className={cn("shrink-0 object-contain", sizes[size], className)} />
+  ) : (
+    <span
+      className={cn(
+        "bg-team inline-flex shrink-0 items-center justify-center rounded-full font-heading font-bold uppercase",
+        sizes[size],
+        className,
+      )}
+      style={teamStyle(team)}
+      title={team?.name}
+    >
+      {team?.shortName.charAt(0) ?? "?"}
+    </span>
+  );
+
+export default TeamBadge;
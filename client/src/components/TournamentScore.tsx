@@ -1,56 +1,77 @@
-import aviatorsLogo from "../assets/aviators-logo.svg";
-import producersLogo from "../assets/producers-logo.svg";
-import aviatorsText from "../assets/aviators-text.svg";
-import producersText from "../assets/producers-text.svg";
+import { Fragment } from "react";
+import type { CupStatus, TeamPoints } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
 
 interface TournamentScoreProps {
-  aviatorScore: number;
-  producerScore: number;
-  pendingAviatorScore?: number;
-  pendingProducerScore?: number;
+  teamScores: TeamPoints[];
+  pointsAvailable?: number;
+  cupStatus?: CupStatus;
 }
 
-const TournamentScore = ({ 
-  aviatorScore, 
-  producerScore, 
-  pendingAviatorScore = 0, 
-  pendingProducerScore = 0 
+// 4.5 reads as 4½
+const formatPoints = (points: number) => {
+  const whole = Math.floor(points);
+  const half = points - whole >= 0.5 ? "½" : "";
+  return whole === 0 && half ? half : `${whole}${half}`;
+};
+
+const TournamentScore = ({
+  teamScores,
+  pointsAvailable = 0,
+  cupStatus
 }: TournamentScoreProps) => {
+  const { teamById } = useTeams();
+
+  // "The Aviators need 4½ to win, The Producers need 4 to retain"
+  const clinchedBy = cupStatus?.teams.find((t) => t.teamId === cupStatus.clinchedBy);
+  const needs = cupStatus?.teams
+    .filter((t) => t.needs !== null && !t.clinched)
+    .map((t) => `${teamById(t.teamId)?.name} need ${formatPoints(t.needs!)} to ${t.toRetain ? "retain" : "win"}`)
+    .join(", ");
+
   return (
     <div className="bg-white rounded-lg shadow-md p-4 mb-6">
       <div className="flex justify-between items-center">
-        <div className="text-center w-5/12">
-          <div className="bg-aviator text-white py-2 px-6 rounded-t-lg flex items-center justify-center">
-            <img src={aviatorsLogo} alt="Aviators" className="w-7 h-7 mr-2" />
-            <img src={aviatorsText} alt="Aviators" className="w-15 h-15" />
-          </div>
-          <div className="text-5xl font-mono font-bold py-4 border-b-2 border-l-2 border-r-2 border-gray-200 rounded-b-lg relative">
-            {aviatorScore}
-            {pendingAviatorScore > 0 && (
-              <span className="absolute text-gray-400 text-lg font-normal bottom-1 right-2" title="Pending points">
-                +{pendingAviatorScore}
-              </span>
-            )}
-          </div>
+        {teamScores.map((teamScore, index) => {
+          const team = teamById(teamScore.teamId);
+          return (
+            <Fragment key={teamScore.teamId}>
+              {index > 0 && <div className="text-xl font-heading font-bold">VS</div>}
+              <div className="text-center w-5/12">
+                <div
+                  className="bg-team py-2 px-6 rounded-t-lg flex items-center justify-center"
+                  style={teamStyle(team)}
+                >
+                  <TeamBadge team={team} size="sm" className="mr-2 border border-white" />
+                  <span className="font-heading font-bold uppercase">{team?.shortName}</span>
+                </div>
+                <div className="text-5xl font-mono font-bold py-4 border-b-2 border-l-2 border-r-2 border-gray-200 rounded-b-lg relative">
+                  {teamScore.score}
+                  {teamScore.pendingScore > 0 && (
+                    <span className="absolute text-gray-400 text-lg font-normal bottom-1 right-2" title="Pending points">
+                      +{teamScore.pendingScore}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </Fragment>
+          );
+        })}
+      </div>
+      {clinchedBy ? (
+        <div className="text-center text-sm font-bold mt-3">
+          {teamById(clinchedBy.teamId)?.name} {clinchedBy.toRetain ? "retain" : "win"} the cup
         </div>
-        
-        <div className="text-xl font-heading font-bold">VS</div>
-        
-        <div className="text-center w-5/12">
-          <div className="bg-producer text-white py-2 px-6 rounded-t-lg flex items-center justify-center">
-            <img src={producersLogo} alt="Producers" className="w-7 h-7 mr-1" />
-            <img src={producersText} alt="Producers" className="w-15 h-15" />
-          </div>
-          <div className="text-5xl font-mono font-bold py-4 border-b-2 border-l-2 border-r-2 border-gray-200 rounded-b-lg relative">
-            {producerScore}
-            {pendingProducerScore > 0 && (
-              <span className="absolute text-gray-400 text-lg font-normal bottom-1 right-2" title="Pending points">
-                +{pendingProducerScore}
-              </span>
-            )}
-          </div>
+      ) : needs ? (
+        <div className="text-center text-sm text-gray-500 mt-3">
+          {needs} ({pointsAvailable} available)
         </div>
-      </div>
+      ) : pointsAvailable > 0 && (
+        <div className="text-center text-sm text-gray-500 mt-3">
+          {pointsAvailable / 2 + 0.5} points needed to win ({pointsAvailable} available)
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import {
+  getPendingScoreWrites,
+  pendingScoreKey,
+  subscribeToScoreQueue,
+  type PendingScoreKind,
+  type PendingScoreWrite,
+} from "@/lib/score-queue";
+
+// The match's score writes still waiting for signal, kept up to date as
+// they are queued and sent
+export function usePendingScores(matchId: number) {
+  const [writes, setWrites] = useState<PendingScoreWrite[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      getPendingScoreWrites(matchId)
+        .then((pending) => {
+          if (!cancelled) setWrites(pending);
+        })
+        .catch((error) => console.error("Error reading queued scores:", error));
+
+    load();
+    const unsubscribe = subscribeToScoreQueue(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [matchId]);
+
+  // The queued write for a cell, unless it is waiting on a conflict
+  const pendingWrite = (kind: PendingScoreKind, holeNumber: number, subjectId: number) =>
+    writes.find((write) => write.key === pendingScoreKey(kind, matchId, holeNumber, subjectId) && !write.conflicts);
+
+  return {
+    pendingWrite,
+    conflictedWrites: writes.filter((write) => write.conflicts),
+  };
+}
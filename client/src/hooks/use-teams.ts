@@ -0,0 +1,21 @@
+import type { CSSProperties } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Team } from "@shared/schema";
+
+// Used until the teams have loaded, or for a team that no longer exists
+const FALLBACK_TEAM_COLOR = "#6b7280";
+
+export function useTeams() {
+  const { data: teams = [], isLoading } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const teamById = (id: number | null | undefined) => teams.find((t) => t.id === id);
+
+  return { teams, teamById, isLoading };
+}
+
+// Sets --team-color for the .bg-team and .text-team utilities
+export function teamStyle(team: Pick<Team, "colorCode"> | null | undefined): CSSProperties {
+  return { "--team-color": team?.colorCode || FALLBACK_TEAM_COLOR } as CSSProperties;
+}
@@ -0,0 +1,83 @@
+import { createContext, ReactNode, useContext, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Tournament } from "@shared/schema";
+import { apiRequest } from "../lib/queryClient";
+
+// Remembers which year is being browsed across reloads
+const SELECTED_TOURNAMENT_KEY = "selected_tournament_id";
+
+type TournamentContextType = {
+  tournaments: Tournament[];
+  // The tournament being browsed: the one picked, or else the active one
+  tournament: Tournament | undefined;
+  // Undefined while browsing the active tournament
+  tournamentId: number | undefined;
+  isActiveTournament: boolean;
+  selectTournament: (id: number | null) => void;
+  // Adds ?tournamentId= to a tournament-scoped API path when browsing another year
+  tournamentUrl: (path: string) => string;
+};
+
+export const TournamentContext = createContext<TournamentContextType | null>(null);
+
+function storedTournamentId(): number | undefined {
+  const stored = localStorage.getItem(SELECTED_TOURNAMENT_KEY);
+  return stored ? Number(stored) : undefined;
+}
+
+export function TournamentProvider({ children }: { children: ReactNode }) {
+  const [selectedId, setSelectedId] = useState<number | undefined>(storedTournamentId);
+
+  const { data: tournaments = [] } = useQuery<Tournament[]>({
+    queryKey: ["/api/tournaments"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/tournaments");
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+  });
+
+  const active = tournaments.find((t) => t.isActive) ?? tournaments[0];
+  const selected = tournaments.find((t) => t.id === selectedId);
+  // A stored id for a tournament that has since been removed is ignored
+  const tournamentId = selected && selected.id !== active?.id ? selected.id : undefined;
+
+  const selectTournament = (id: number | null) => {
+    if (id === null || id === active?.id) {
+      localStorage.removeItem(SELECTED_TOURNAMENT_KEY);
+      setSelectedId(undefined);
+    } else {
+      localStorage.setItem(SELECTED_TOURNAMENT_KEY, String(id));
+      setSelectedId(id);
+    }
+  };
+
+  const tournamentUrl = (path: string) => {
+    if (tournamentId === undefined) return path;
+    const separator = path.includes("?") ? "&" : "?";
+    return `${path}${separator}tournamentId=${tournamentId}`;
+  };
+
+  return (
+    <TournamentContext.Provider
+      value={{
+        tournaments,
+        tournament: selected ?? active,
+        tournamentId,
+        isActiveTournament: tournamentId === undefined,
+        selectTournament,
+        tournamentUrl,
+      }}
+    >
+      {children}
+    </TournamentContext.Provider>
+  );
+}
+
+export function useTournament() {
+  const context = useContext(TournamentContext);
+  if (!context) {
+    throw new Error("useTournament must be used within a TournamentProvider");
+  }
+  return context;
+}
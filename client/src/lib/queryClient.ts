@@ -5,12 +5,25 @@ export const queryClient = new QueryClient({
     queries: {
       staleTime: 1000 * 60, // 1 minute
       retry: 1,
+      // Fetch even when the browser reports no signal, so the service
+      // worker can answer from its cache
+      networkMode: "offlineFirst",
     },
   },
 });
 
+// A request the server answered with an error, keeping the status so a
+// caller can tell a refusal from an outage
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
 type RequestOptions = {
   on401?: "throw" | "returnNull";
+  // "return" hands back a 409 so the caller can read what it conflicted with
+  on409?: "throw" | "return";
 };
 
 export async function apiRequest(
@@ -39,11 +52,22 @@ export async function apiRequest(
     if (options.on401 === "returnNull") {
       return null;
     }
-    throw new Error("Unauthorized");
+    throw new ApiError("Unauthorized", 401);
+  }
+
+  // Say why the server refused rather than just that it did: not allowed,
+  // or the match is locked
+  if (response.status === 403 || response.status === 423) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(body?.message ?? body?.error ?? "Forbidden", response.status);
+  }
+
+  if (response.status === 409 && options.on409 === "return") {
+    return response;
   }
 
   if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+    throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
   }
 
   return response;
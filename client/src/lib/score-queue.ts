@@ -0,0 +1,162 @@
+import type { StaleScore } from "@shared/schema";
+import { toast } from "@/hooks/use-toast";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+
+// Score writes made without signal wait here, in IndexedDB so they survive
+// the app being closed, until the phone is back online
+
+const DB_NAME = "rc-scoreboard";
+const DB_VERSION = 1;
+const STORE = "pending-scores";
+
+// How often to retry while writes are waiting; the browser's online event
+// is unreliable on a weak signal
+const SYNC_RETRY_MS = 30 * 1000;
+
+export type PendingScoreKind = "team" | "best_ball" | "player";
+
+export interface PendingScoreWrite {
+  // One per scorecard cell, so a later edit of the cell replaces the queued one
+  key: string;
+  kind: PendingScoreKind;
+  matchId: number;
+  holeNumber: number;
+  // The team or golfer whose score it is
+  subjectId: number;
+  score: number | null;
+  method: "POST" | "PUT";
+  url: string;
+  body: Record<string, unknown>;
+  queuedAt: number;
+  // Set when the server refused the write because another phone got there
+  // first; it waits for the golfer to choose rather than being sent again
+  conflicts?: StaleScore[];
+}
+
+export const pendingScoreKey = (kind: PendingScoreKind, matchId: number, holeNumber: number, subjectId: number) =>
+  `${kind}-${matchId}-${holeNumber}-${subjectId}`;
+
+// A request that never reached the server, as opposed to one it refused
+export const isNetworkError = (error: unknown) => error instanceof TypeError || !navigator.onLine;
+
+// Refused for good: the user can't score the match, or it is locked
+const isRefused = (error: unknown) => error instanceof ApiError && (error.status === 403 || error.status === 423);
+
+// Nothing will get through until the user signs in again or the server
+// recovers, so there is no point trying the rest of the queue
+const blocksQueue = (error: unknown) =>
+  isNetworkError(error) || (error instanceof ApiError && (error.status === 401 || error.status >= 500));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "key" });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const listeners = new Set<() => void>();
+
+export function subscribeToScoreQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export async function getPendingScoreWrites(matchId?: number) {
+  const writes = await withStore<PendingScoreWrite[]>("readonly", (store) => store.getAll());
+  return writes
+    .filter((write) => matchId === undefined || write.matchId === matchId)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+export async function queueScoreWrite(write: Omit<PendingScoreWrite, "queuedAt">) {
+  await withStore("readwrite", (store) => store.put({ ...write, queuedAt: Date.now() }));
+  notify();
+}
+
+export async function removePendingScoreWrite(key: string) {
+  await withStore("readwrite", (store) => store.delete(key));
+  notify();
+}
+
+let syncing: Promise<void> | null = null;
+
+/**
+ * Sends the queued writes oldest first, stopping while the server can't be
+ * reached, is down or wants the user to sign in again. The server applies
+ * its usual checks, so a write made stale by another phone is kept back as
+ * a conflict, and only one it refuses outright is dropped.
+ */
+export function syncPendingScores() {
+  syncing ??= replayPendingScores().finally(() => {
+    syncing = null;
+  });
+  return syncing;
+}
+
+async function replayPendingScores() {
+  const writes = (await getPendingScoreWrites()).filter((write) => !write.conflicts);
+  const touchedMatches = new Set<number>();
+
+  for (const write of writes) {
+    let response: Response | null;
+    try {
+      response = await apiRequest(write.method, write.url, write.body, { on409: "return" });
+    } catch (error) {
+      if (blocksQueue(error)) break;
+      // Anything short of a refusal stays queued for the next attempt
+      if (!isRefused(error)) continue;
+
+      await withStore("readwrite", (store) => store.delete(write.key));
+      touchedMatches.add(write.matchId);
+      toast({
+        title: `Hole ${write.holeNumber} score not saved`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+      continue;
+    }
+
+    if (response?.status === 409) {
+      const { conflicts } = await response.json();
+      await withStore("readwrite", (store) => store.put({ ...write, conflicts }));
+    } else {
+      await withStore("readwrite", (store) => store.delete(write.key));
+    }
+    touchedMatches.add(write.matchId);
+  }
+
+  touchedMatches.forEach((matchId) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/scores?matchId=${matchId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/best-ball-scores/${matchId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/player-scores?matchId=${matchId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+  });
+  if (touchedMatches.size > 0) notify();
+}
+
+// Sync whatever was left from last time, then whenever signal comes back
+export function startScoreSync() {
+  window.addEventListener("online", () => syncPendingScores());
+  setInterval(() => {
+    if (navigator.onLine) syncPendingScores();
+  }, SYNC_RETRY_MS);
+  syncPendingScores();
+}
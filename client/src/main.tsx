@@ -1,8 +1,19 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import { startScoreSync } from "./lib/score-queue";
 
-// Disable service worker for now to avoid the error
-// We'll implement it properly later when needed
+// The service worker lets the app open without signal. It's left out of
+// development, where it would serve stale modules over Vite's.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Service worker registration failed:", error));
+  });
+}
+
+// Send any scores entered while offline
+startScoreSync();
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -6,16 +6,18 @@ import { useAuth } from "@/hooks/use-auth";
 import { Loader2, ChevronLeft, Save } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useTeams } from "@/hooks/use-teams";
 
 type Match = {
   id: number;
   roundId: number;
   name: string;
   status: string;
-  aviatorPlayers: string;
-  producerPlayers: string;
+  teamAId: number;
+  teamBId: number;
+  teamPlayers: Record<number, string>;
   currentHole: number;
-  leadingTeam: string | null;
+  leadingTeamId: number | null;
   leadAmount: number;
   result: string | null;
 };
@@ -29,16 +31,13 @@ type Round = {
 export default function AdminMatchEditPage() {
   const { isAdmin } = useAuth();
   const { toast } = useToast();
+  const { teamById } = useTeams();
   const [matchId, setMatchId] = useState<number | null>(null);
   const [formData, setFormData] = useState<{
     name: string;
-    aviatorPlayers: string;
-    producerPlayers: string;
     status: string;
   }>({
     name: "",
-    aviatorPlayers: "",
-    producerPlayers: "",
     status: "in_progress"
   });
 
@@ -68,8 +67,6 @@ export default function AdminMatchEditPage() {
     if (match) {
       setFormData({
         name: match.name,
-        aviatorPlayers: match.aviatorPlayers,
-        producerPlayers: match.producerPlayers,
         status: match.status
       });
     }
@@ -199,35 +196,17 @@ export default function AdminMatchEditPage() {
                 </select>
               </div>
               
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Aviator Players
-                </label>
-                <textarea
-                  name="aviatorPlayers"
-                  value={formData.aviatorPlayers}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border rounded-md"
-                  rows={2}
-                  required
-                />
-                <p className="text-xs text-muted-foreground mt-1">Comma-separated list of player names</p>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Producer Players
-                </label>
-                <textarea
-                  name="producerPlayers"
-                  value={formData.producerPlayers}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border rounded-md"
-                  rows={2}
-                  required
-                />
-                <p className="text-xs text-muted-foreground mt-1">Comma-separated list of player names</p>
-              </div>
+              {match && Object.entries<string>(match.teamPlayers || {}).map(([teamId, names]) => (
+                <div key={teamId}>
+                  <label className="block text-sm font-medium mb-1">
+                    {teamById(Number(teamId))?.name} Players
+                  </label>
+                  <p className="px-3 py-2 border rounded-md bg-gray-100 text-sm">
+                    {names || "No players yet"}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">Players are changed from the match page</p>
+                </div>
+              ))}
               
               <div className="pt-4">
                 <Button 
@@ -3,9 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2, ChevronLeft, Plus, PenSquare, Lock, Unlock } from "lucide-react";
+import { Loader2, ChevronLeft, Plus, PenSquare, Lock } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
+import MatchLockButton from "@/components/MatchLockButton";
 import {
   Select,
   SelectContent,
@@ -29,10 +31,11 @@ type Match = {
   roundId: number;
   name: string;
   status: string;
-  aviatorPlayers: string;
-  producerPlayers: string;
+  teamAId: number;
+  teamBId: number;
+  teamPlayers: Record<number, string>;
   currentHole: number;
-  leadingTeam: string | null;
+  leadingTeamId: number | null;
   leadAmount: number;
   result: string | null;
   locked: boolean;
@@ -47,30 +50,29 @@ type Player = {
   ties: number;
 };
 
-type Team = {
-  id: number;
-  name: string;
-  shortName: string;
-  colorCode: string;
-};
-
 type SelectedPlayer = {
   id: number;
   name: string;
   teamId: number;
 };
 
+// One team in the match being added and the players picked for it
+type MatchSide = {
+  teamId: number | null;
+  players: SelectedPlayer[];
+};
+
 export default function AdminMatchesPage() {
   const { isAdmin } = useAuth();
   const { toast } = useToast();
   const [roundId, setRoundId] = useState<number | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [selectedAviatorPlayers, setSelectedAviatorPlayers] = useState<SelectedPlayer[]>([]);
-  const [selectedProducerPlayers, setSelectedProducerPlayers] = useState<SelectedPlayer[]>([]);
+  const [sides, setSides] = useState<MatchSide[]>([
+    { teamId: null, players: [] },
+    { teamId: null, players: [] },
+  ]);
   const [matchFormData, setMatchFormData] = useState({
     name: "",
-    aviatorPlayers: "",
-    producerPlayers: "",
   });
 
   // Extract roundId from URL path
@@ -99,10 +101,11 @@ export default function AdminMatchesPage() {
     queryFn: getQueryFn({ on401: "throw" }),
   });
 
-  const { data: teams, isLoading: isTeamsLoading } = useQuery<Team[]>({
-    queryKey: ['/api/teams'],
-    queryFn: getQueryFn({ on401: "throw" }),
-  });
+  const { teams, isLoading: isTeamsLoading } = useTeams();
+
+  // Until a team is picked each side defaults to one of the first two teams
+  const sideTeamId = (index: number): number | null =>
+    sides[index].teamId ?? teams[index]?.id ?? null;
 
   const addMatchMutation = useMutation({
     mutationFn: async (matchData: any) => {
@@ -110,9 +113,21 @@ export default function AdminMatchesPage() {
         const res = await apiRequest("POST", "/api/matches", {
           ...matchData,
           roundId,
+          teamAId: sideTeamId(0),
+          teamBId: sideTeamId(1),
           status: "upcoming",
         });
-        return await res.json();
+        const match = await res.json();
+        await Promise.all(sides.flatMap((side, index) =>
+          side.players.map(player =>
+            apiRequest("POST", "/api/match-players", {
+              matchId: match.id,
+              playerId: player.id,
+              teamId: sideTeamId(index),
+            })
+          )
+        ));
+        return match;
       } catch (error: any) {
         if (error.message.includes("Player is already participating in a match in this round")) {
           throw new Error("One or more selected players are already participating in another match in this round. Each player can only play in one match per round.");
@@ -138,41 +153,14 @@ export default function AdminMatchesPage() {
     },
   });
 
-  // Add toggle lock mutation
-  const toggleLockMutation = useMutation({
-    mutationFn: async ({ matchId, locked }: { matchId: number, locked: boolean }) => {
-      return apiRequest("PUT", `/api/matches/${matchId}`, {
-        locked
-      });
-    },
-    onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: [`/api/matches?roundId=${roundId}`] });
-      toast({
-        title: variables.locked ? "Match locked" : "Match unlocked",
-        description: variables.locked 
-          ? "The match has been locked to prevent further edits." 
-          : "The match has been unlocked for editing.",
-        duration: 3000,
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Failed to update match lock status",
-        description: error.message,
-        variant: "destructive",
-        duration: 3000,
-      });
-    },
-  });
-
   const resetMatchForm = () => {
     setMatchFormData({
       name: "",
-      aviatorPlayers: "",
-      producerPlayers: "",
     });
-    setSelectedAviatorPlayers([]);
-    setSelectedProducerPlayers([]);
+    setSides([
+      { teamId: null, players: [] },
+      { teamId: null, players: [] },
+    ]);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -196,87 +184,58 @@ export default function AdminMatchesPage() {
         // Skip deleted matches
         if ((match as any).deleted || match.status === 'deleted') return false;
       
-      // Split players into arrays
-      const aviatorPlayers = match.aviatorPlayers.split(',').map(p => p.trim());
-      const producerPlayers = match.producerPlayers.split(',').map(p => p.trim());
-      
-      // Check if player's name is in either team
-      return aviatorPlayers.includes(player.name) || producerPlayers.includes(player.name);
+      // Check if player's name is on either team
+      return Object.values<string>(match.teamPlayers || {}).some(names =>
+        names.split(',').map(p => p.trim()).includes(player.name)
+      );
     });
   };
 
-  // Handle selecting an Aviator player
-  const handleAddAviatorPlayer = (playerId: number) => {
-    if (players && roundId) {
-      const player = players.find(p => p.id === Number(playerId));
+  const updateSide = (index: number, side: MatchSide) => {
+    setSides(sides.map((s, i) => (i === index ? side : s)));
+  };
 
-      if (player) {
-        // Add player to selected list if not already there
-        if (!selectedAviatorPlayers.some(p => p.id === player.id)) {
-          setSelectedAviatorPlayers([...selectedAviatorPlayers, player]);
-
-          // Update form data
-          const playerNames = [...selectedAviatorPlayers, player].map(p => p.name).join(", ");
-          setMatchFormData({
-            ...matchFormData,
-            aviatorPlayers: playerNames,
-          });
-        }
-      }
-    }
+  // Picking a different team clears that side's players
+  const handleTeamChange = (index: number, teamId: number) => {
+    updateSide(index, { teamId, players: [] });
   };
 
-  // Handle selecting a Producer player
-  const handleAddProducerPlayer = (playerId: number) => {
+  // Handle selecting a player for a side
+  const handleAddPlayer = (index: number, playerId: number) => {
     if (players && roundId) {
       const player = players.find(p => p.id === Number(playerId));
+      const side = sides[index];
 
-      if (player) {
-        // Add player to selected list if not already there
-        if (!selectedProducerPlayers.some(p => p.id === player.id)) {
-          setSelectedProducerPlayers([...selectedProducerPlayers, player]);
-
-          // Update form data
-          const playerNames = [...selectedProducerPlayers, player].map(p => p.name).join(", ");
-          setMatchFormData({
-            ...matchFormData,
-            producerPlayers: playerNames,
-          });
-        }
+      // Add player to selected list if not already there
+      if (player && !side.players.some(p => p.id === player.id)) {
+        updateSide(index, { ...side, teamId: sideTeamId(index), players: [...side.players, player] });
       }
     }
   };
 
   // Handle removing selected players
-  const removeAviatorPlayer = (playerId: number) => {
-    const updatedPlayers = selectedAviatorPlayers.filter(p => p.id !== playerId);
-    setSelectedAviatorPlayers(updatedPlayers);
-
-    // Update form data
-    const playerNames = updatedPlayers.map(p => p.name).join(", ");
-    setMatchFormData({
-      ...matchFormData,
-      aviatorPlayers: playerNames,
-    });
+  const removePlayer = (index: number, playerId: number) => {
+    const side = sides[index];
+    updateSide(index, { ...side, players: side.players.filter(p => p.id !== playerId) });
   };
 
-  const removeProducerPlayer = (playerId: number) => {
-    const updatedPlayers = selectedProducerPlayers.filter(p => p.id !== playerId);
-    setSelectedProducerPlayers(updatedPlayers);
-
-    // Update form data
-    const playerNames = updatedPlayers.map(p => p.name).join(", ");
-    setMatchFormData({
-      ...matchFormData,
-      producerPlayers: playerNames,
-    });
-  };
+  const isPlayerSelected = (playerId: number) =>
+    sides.some(side => side.players.some(sp => sp.id === playerId));
 
   const handleAddMatch = (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (sideTeamId(0) === null || sideTeamId(0) === sideTeamId(1)) {
+      toast({
+        title: "Invalid teams",
+        description: "A match must be between two different teams",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Validate that we have selected players
-    if (!matchFormData.aviatorPlayers || !matchFormData.producerPlayers) {
+    if (sides.some(side => side.players.length === 0)) {
       toast({
         title: "Missing players",
         description: "Please select players for both teams",
@@ -296,15 +255,6 @@ export default function AdminMatchesPage() {
     window.location.href = `/matches/${matchId}?admin=true`;
   };
 
-  // Handle lock toggle
-  const handleToggleLock = (e: React.MouseEvent, matchId: number, currentLockState: boolean) => {
-    e.stopPropagation();
-    toggleLockMutation.mutate({ 
-      matchId, 
-      locked: !currentLockState 
-    });
-  };
-
   if (!isAdmin) {
     return <div>Access denied. You must be an admin to view this page.</div>;
   }
@@ -384,21 +334,22 @@ export default function AdminMatchesPage() {
                   </CardHeader>
                   <CardContent className="pb-2">
                     <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <p className="text-sm font-medium text-blue-600">The Aviators</p>
-                        <p className="text-sm text-muted-foreground">{match.aviatorPlayers}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm font-medium text-red-600">The Producers</p>
-                        <p className="text-sm text-muted-foreground">{match.producerPlayers}</p>
-                      </div>
+                      {[match.teamAId, match.teamBId].map((teamId) => {
+                        const team = teams.find(t => t.id === teamId);
+                        return (
+                          <div key={teamId}>
+                            <p className="text-sm font-medium text-team" style={teamStyle(team)}>{team?.name}</p>
+                            <p className="text-sm text-muted-foreground">{match.teamPlayers?.[teamId]}</p>
+                          </div>
+                        );
+                      })}
                     </div>
                     {match.status !== 'upcoming' && (
                       <div className="flex justify-between mt-2">
                         <div>
                           <span className="text-sm">
-                            {match.leadingTeam ? 
-                              `${match.leadingTeam === 'aviator' ? 'Aviators' : 'Producers'} lead by ${match.leadAmount}` : 
+                            {match.leadingTeamId ? 
+                              `${teams.find(t => t.id === match.leadingTeamId)?.name} lead by ${match.leadAmount}` : 
                               'Match is tied'
                             }
                           </span>
@@ -433,24 +384,7 @@ export default function AdminMatchesPage() {
                       View Scorecard
                     </Button>
 
-                    {/* Add Lock/Unlock Button */}
-                    <Button 
-                      variant="outline" 
-                      className="w-full flex items-center"
-                      onClick={(e) => handleToggleLock(e, match.id, !!match.locked)}
-                    >
-                      {match.locked ? (
-                        <>
-                          <Unlock className="h-4 w-4 mr-2" />
-                          Unlock Match
-                        </>
-                      ) : (
-                        <>
-                          <Lock className="h-4 w-4 mr-2" />
-                          Lock Match
-                        </>
-                      )}
-                    </Button>
+                    <MatchLockButton match={match} />
                   </CardFooter>
                 </Card>
               ))
@@ -489,117 +423,75 @@ export default function AdminMatchesPage() {
                   />
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium mb-1">
-                    Aviator Players
-                  </label>
-                  <div className="space-y-3">
-                    <Select onValueChange={(value) => handleAddAviatorPlayer(Number(value))}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select an Aviator player" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {players?.filter(p => 
-                          // Only show Aviator players
-                          p.teamId === 1 && 
-                          // Not already selected in this form
-                          !selectedAviatorPlayers.some(sp => sp.id === p.id) &&
-                          !selectedProducerPlayers.some(sp => sp.id === p.id) &&
-                          // Not already in another match in this round
-                          !isPlayerInAnyMatch(p.id)
-                        ).map(player => (
-                          <SelectItem key={player.id} value={player.id.toString()}>
-                            {player.name} ({player.wins}-{player.losses}-{player.ties})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    {/* Selected Aviator Players */}
-                    {selectedAviatorPlayers.length > 0 && (
-                      <div className="mt-2">
-                        <p className="text-sm font-medium mb-1">Selected Aviator Players:</p>
-                        <div className="flex flex-wrap gap-2">
-                          {selectedAviatorPlayers.map(player => (
-                            <div key={player.id} className="flex items-center gap-1 bg-blue-100 p-1 rounded">
-                              <span className="text-sm">{player.name}</span>
-                              <button 
-                                type="button"
-                                onClick={() => removeAviatorPlayer(player.id)}
-                                className="text-red-500 hover:text-red-700"
-                              >
-                                ✕
-                              </button>
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-
-                    <input
-                      type="hidden"
-                      name="aviatorPlayers"
-                      value={matchFormData.aviatorPlayers}
-                      required
-                    />
-                  </div>
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium mb-1">
-                    Producer Players
-                  </label>
-                  <div className="space-y-3">
-                    <Select onValueChange={(value) => handleAddProducerPlayer(Number(value))}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a Producer player" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {players?.filter(p => 
-                          // Only show Producer players
-                          p.teamId === 2 && 
-                          // Not already selected in this form
-                          !selectedProducerPlayers.some(sp => sp.id === p.id) &&
-                          !selectedAviatorPlayers.some(sp => sp.id === p.id) &&
-                          // Not already in another match in this round
-                          !isPlayerInAnyMatch(p.id)
-                        ).map(player => (
-                          <SelectItem key={player.id} value={player.id.toString()}>
-                            {player.name} ({player.wins}-{player.losses}-{player.ties})
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    {/* Selected Producer Players */}
-                    {selectedProducerPlayers.length > 0 && (
-                      <div className="mt-2">
-                        <p className="text-sm font-medium mb-1">Selected Producer Players:</p>
-                        <div className="flex flex-wrap gap-2">
-                          {selectedProducerPlayers.map(player => (
-                            <div key={player.id} className="flex items-center gap-1 bg-red-100 p-1 rounded">
-                              <span className="text-sm">{player.name}</span>
-                              <button 
-                                type="button"
-                                onClick={() => removeProducerPlayer(player.id)}
-                                className="text-red-500 hover:text-red-700"
-                              >
-                                ✕
-                              </button>
+                {sides.map((side, index) => {
+                  const teamId = sideTeamId(index);
+                  const team = teams.find(t => t.id === teamId);
+                  return (
+                    <div key={index}>
+                      <label className="block text-sm font-medium mb-1">
+                        Team {index + 1}
+                      </label>
+                      <div className="space-y-3">
+                        <Select
+                          value={teamId?.toString() ?? ""}
+                          onValueChange={(value) => handleTeamChange(index, Number(value))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a team" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {teams.map(t => (
+                              <SelectItem key={t.id} value={t.id.toString()}>
+                                {t.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+
+                        <Select onValueChange={(value) => handleAddPlayer(index, Number(value))}>
+                          <SelectTrigger>
+                            <SelectValue placeholder={`Select a ${team?.name ?? "team"} player`} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {players?.filter(p => 
+                              // Only show this team's players
+                              p.teamId === teamId && 
+                              // Not already selected in this form
+                              !isPlayerSelected(p.id) &&
+                              // Not already in another match in this round
+                              !isPlayerInAnyMatch(p.id)
+                            ).map(player => (
+                              <SelectItem key={player.id} value={player.id.toString()}>
+                                {player.name} ({player.wins}-{player.losses}-{player.ties})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+
+                        {/* Selected Players */}
+                        {side.players.length > 0 && (
+                          <div className="mt-2">
+                            <p className="text-sm font-medium mb-1">Selected {team?.name} Players:</p>
+                            <div className="flex flex-wrap gap-2">
+                              {side.players.map(player => (
+                                <div key={player.id} className="flex items-center gap-1 bg-gray-100 p-1 rounded">
+                                  <span className="text-sm">{player.name}</span>
+                                  <button 
+                                    type="button"
+                                    onClick={() => removePlayer(index, player.id)}
+                                    className="text-red-500 hover:text-red-700"
+                                  >
+                                    ✕
+                                  </button>
+                                </div>
+                              ))}
                             </div>
-                          ))}
-                        </div>
+                          </div>
+                        )}
                       </div>
-                    )}
-
-                    <input
-                      type="hidden"
-                      name="producerPlayers"
-                      value={matchFormData.producerPlayers}
-                      required
-                    />
-                  </div>
-                </div>
+                    </div>
+                  );
+                })}
               </div>
 
               <div className="flex justify-end mt-6 space-x-2">
@@ -8,14 +8,15 @@ import { Loader2, Settings, UserPlus, Calendar, Users, Trophy, Trash } from "luc
 import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import type { TeamPoints } from "@shared/scoring";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
 
 // Define types for our data
 type Tournament = {
   id: number;
   name: string;
   year: number;
-  aviatorScore: number | null;
-  producerScore: number | null;
+  teamScores?: TeamPoints[];
 };
 
 type Round = {
@@ -26,8 +27,7 @@ type Round = {
   startTime: string;
   date: string;
   isComplete: boolean | null;
-  aviatorScore?: number | null;
-  producerScore?: number | null;
+  teamScores?: TeamPoints[];
 };
 
 type Team = {
@@ -54,12 +54,11 @@ type User = {
 // Tournament Management Tab
 function TournamentTab() {
   const { toast } = useToast();
+  const { teamById } = useTeams();
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     year: new Date().getFullYear(),
-    aviatorScore: 0,
-    producerScore: 0
   });
   
   const { data: tournament, isLoading } = useQuery<Tournament>({
@@ -73,18 +72,14 @@ function TournamentTab() {
       setFormData({
         name: tournament.name,
         year: tournament.year,
-        aviatorScore: tournament.aviatorScore || 0,
-        producerScore: tournament.producerScore || 0
       });
     }
   }, [tournament]);
 
   const updateTournamentMutation = useMutation({
     mutationFn: async (tournamentData: any) => {
-      // We don't include scores in the update since they're calculated on the server
-      const { aviatorScore, producerScore, ...safeData } = tournamentData;
-      
-      const res = await apiRequest("PUT", `/api/tournament/${tournament?.id}`, safeData);
+      // Scores aren't part of the form; they're calculated on the server
+      const res = await apiRequest("PUT", `/api/tournament/${tournament?.id}`, tournamentData);
       return await res.json();
     },
     onSuccess: () => {
@@ -119,14 +114,6 @@ function TournamentTab() {
     });
   };
 
-  const handleScoreChange = (e: React.ChangeEvent<HTMLInputElement>, team: 'aviatorScore' | 'producerScore') => {
-    const value = parseInt(e.target.value) || 0;
-    setFormData({
-      ...formData,
-      [team]: value
-    });
-  };
-
   if (isLoading) {
     return (
       <div className="flex justify-center p-4">
@@ -149,16 +136,13 @@ function TournamentTab() {
             Current Tournament: <span className="font-medium">{tournament?.name}</span>
           </p>
           <div className="flex space-x-4">
-            <div className="bg-primary/10 rounded-lg p-4 flex-1">
-              <h3 className="font-semibold">The Aviators</h3>
-              <div className="text-3xl font-bold">{tournament?.aviatorScore}</div>
-              <p className="text-sm text-muted-foreground">Points</p>
-            </div>
-            <div className="bg-primary/10 rounded-lg p-4 flex-1">
-              <h3 className="font-semibold">The Producers</h3>
-              <div className="text-3xl font-bold">{tournament?.producerScore}</div>
-              <p className="text-sm text-muted-foreground">Points</p>
-            </div>
+            {tournament?.teamScores?.map((teamScore: TeamPoints) => (
+              <div key={teamScore.teamId} className="bg-primary/10 rounded-lg p-4 flex-1">
+                <h3 className="font-semibold">{teamById(teamScore.teamId)?.name}</h3>
+                <div className="text-3xl font-bold">{teamScore.score}</div>
+                <p className="text-sm text-muted-foreground">Points</p>
+              </div>
+            ))}
           </div>
         </CardContent>
         <CardFooter>
@@ -211,33 +195,21 @@ function TournamentTab() {
                   />
                 </div>
                 
-                <div>
-                  <label className="block text-sm font-medium mb-1">
-                    Aviator Score (Auto-calculated)
-                  </label>
-                  <input
-                    type="number"
-                    value={formData.aviatorScore}
-                    className="w-full px-3 py-2 border rounded-md bg-gray-100 cursor-not-allowed"
-                    readOnly
-                    disabled
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">Score is automatically calculated from match results</p>
-                </div>
-                
-                <div>
-                  <label className="block text-sm font-medium mb-1">
-                    Producer Score (Auto-calculated)
-                  </label>
-                  <input
-                    type="number"
-                    value={formData.producerScore}
-                    className="w-full px-3 py-2 border rounded-md bg-gray-100 cursor-not-allowed"
-                    readOnly
-                    disabled
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">Score is automatically calculated from match results</p>
-                </div>
+                {tournament?.teamScores?.map((teamScore: TeamPoints) => (
+                  <div key={teamScore.teamId}>
+                    <label className="block text-sm font-medium mb-1">
+                      {teamById(teamScore.teamId)?.name} Score (Auto-calculated)
+                    </label>
+                    <input
+                      type="number"
+                      value={teamScore.score}
+                      className="w-full px-3 py-2 border rounded-md bg-gray-100 cursor-not-allowed"
+                      readOnly
+                      disabled
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Score is automatically calculated from match results</p>
+                  </div>
+                ))}
               </div>
               
               <div className="flex justify-end mt-6 space-x-2">
@@ -273,6 +245,7 @@ function TournamentTab() {
 // Rounds Management Tab
 function RoundsTab() {
   const { toast } = useToast();
+  const { teamById } = useTeams();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [confirmationDialogOpen, setConfirmationDialogOpen] = useState(false);
@@ -298,8 +271,7 @@ function RoundsTab() {
     courseName: string;
     date: string;
     startTime: string;
-    aviatorScore?: number;
-    producerScore?: number;
+    teamScores?: TeamPoints[];
     isComplete?: boolean;
   }
   
@@ -705,9 +677,14 @@ function RoundsTab() {
                   </span>
                 </div>
                 <div className="text-sm">
-                  <span className="text-blue-600">{round.aviatorScore || 0}</span>
-                  {" - "}
-                  <span className="text-red-600">{round.producerScore || 0}</span>
+                  {round.teamScores?.map((teamScore, index) => (
+                    <span key={teamScore.teamId}>
+                      {index > 0 && " - "}
+                      <span className="text-team" style={teamStyle(teamById(teamScore.teamId))}>
+                        {teamScore.score}
+                      </span>
+                    </span>
+                  ))}
                 </div>
               </div>
             </CardContent>
@@ -1538,6 +1515,13 @@ function UsersTab() {
   );
 }
 
+// What a rebuild changed, as returned by POST /api/admin/rebuild
+interface RebuildReport {
+  matchesReplayed: number;
+  tournamentsRebuilt: number;
+  changes: { key: string; field: string; before: unknown; after: unknown }[];
+}
+
 // Reset & Delete Tab
 function ResetDeleteTab() {
   const { toast } = useToast();
@@ -1802,7 +1786,37 @@ function ResetDeleteTab() {
     setConfirmationDialogOpen(true);
   };
   
+  const [rebuildReport, setRebuildReport] = useState<RebuildReport | null>(null);
+  const rebuildMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/rebuild", {});
+      if (!res) throw new Error("No response received");
+      return res.json() as Promise<RebuildReport>;
+    },
+    onSuccess: (report) => {
+      setRebuildReport(report);
+      queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tournament'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/players'] });
+      toast({
+        title: "Rebuild complete",
+        description: `${report.matchesReplayed} matches replayed, ${report.changes.length} values changed`,
+        duration: 2000,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Operation failed",
+        description: error.message,
+        variant: "destructive",
+        duration: 2000,
+      });
+    },
+  });
+
   const isPending = 
+    rebuildMutation.isPending ||
     deleteAllRoundsMutation.isPending || 
     deleteAllMatchesMutation.isPending || 
     deleteAllPlayersMutation.isPending || 
@@ -1874,6 +1888,50 @@ function ResetDeleteTab() {
             </p>
           </CardContent>
         </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="text-xl">Rebuild From Scores</CardTitle>
+            <CardDescription>
+              Replay every score to regenerate match results, player records, matchups and tournament history.
+              Scores themselves are not changed, and it is safe to run more than once.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button
+              className="w-full"
+              onClick={() => rebuildMutation.mutate()}
+              disabled={isPending}
+            >
+              {rebuildMutation.isPending ? (
+                <span className="flex items-center">
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rebuilding...
+                </span>
+              ) : (
+                "Rebuild Statistics"
+              )}
+            </Button>
+
+            {rebuildReport && (
+              <div className="text-sm">
+                <p className="font-medium mb-2">
+                  {rebuildReport.matchesReplayed} matches and {rebuildReport.tournamentsRebuilt} tournaments
+                  rebuilt; {rebuildReport.changes.length === 0 ? "nothing changed" : `${rebuildReport.changes.length} values changed`}
+                </p>
+                {rebuildReport.changes.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto border rounded-md divide-y font-mono text-xs">
+                    {rebuildReport.changes.map((change) => (
+                      <div key={`${change.key}.${change.field}`} className="px-2 py-1">
+                        {change.key}.{change.field}: {JSON.stringify(change.before)} → {JSON.stringify(change.after)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
       
       {/* Confirmation Dialog */}
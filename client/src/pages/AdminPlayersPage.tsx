@@ -2,7 +2,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { UserPlus, Trash, Edit, Circle } from "lucide-react";
+import { UserPlus, Trash, Edit, Circle, Upload } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -24,6 +24,7 @@ interface Player {
   wins: number;
   losses: number;
   ties: number;
+  handicapIndex?: string | null;
 }
 
 interface Team {
@@ -41,12 +42,16 @@ const AdminPlayersPage = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [playerToDelete, setPlayerToDelete] = useState<number | null>(null);
   const [playerToEdit, setPlayerToEdit] = useState<number | null>(null);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [importCsv, setImportCsv] = useState("");
+  const [importDate, setImportDate] = useState(new Date().toISOString().split('T')[0]);
   const [playerFormData, setPlayerFormData] = useState({
     name: "",
     teamId: 0,
     wins: 0,
     losses: 0,
-    ties: 0
+    ties: 0,
+    handicapIndex: ""
   });
 
   // Fetch teams data
@@ -98,6 +103,41 @@ const AdminPlayersPage = () => {
     },
   });
 
+  // Import handicap indices mutation
+  const importHandicapsMutation = useMutation({
+    mutationFn: async (data: { csv: string; effectiveDate: string }) => {
+      const res = await apiRequest("POST", "/api/admin/handicap-indexes/import", data);
+      if (!res) throw new Error('No response received');
+      return await res.json();
+    },
+    onSuccess: (result: {
+      imported: number;
+      skipped: { name: string; reason: string }[];
+      errors: { line: number; reason: string }[];
+    }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/players'] });
+      const problems = [
+        ...result.skipped.map((s) => `${s.name}: ${s.reason}`),
+        ...result.errors.map((e) => `Line ${e.line}: ${e.reason}`),
+      ];
+      toast({
+        title: `Imported ${result.imported} handicap ${result.imported === 1 ? "index" : "indices"}`,
+        description: problems.length > 0 ? problems.join("; ") : undefined,
+        variant: problems.length > 0 ? "destructive" : undefined,
+      });
+      setIsImportDialogOpen(false);
+      setImportCsv("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to import handicaps",
+        description: error.message,
+        variant: "destructive",
+        duration: 1000,
+      });
+    },
+  });
+
   // Delete player mutation
   const deletePlayerMutation = useMutation({
     mutationFn: async (playerId: number) => {
@@ -178,7 +218,8 @@ const AdminPlayersPage = () => {
       teamId: teams && teams.length > 0 ? teams[0].id : 0,
       wins: 0,
       losses: 0,
-      ties: 0
+      ties: 0,
+      handicapIndex: ""
     });
   };
 
@@ -188,7 +229,7 @@ const AdminPlayersPage = () => {
       ...playerFormData,
       [name]: name === 'teamId' 
         ? parseInt(value) 
-        : name === 'name' 
+        : name === 'name' || name === 'handicapIndex'
           ? value 
           : parseInt(value) || 0
     });
@@ -213,7 +254,8 @@ const AdminPlayersPage = () => {
       teamId: player.teamId,
       wins: player.wins,
       losses: player.losses,
-      ties: player.ties
+      ties: player.ties,
+      handicapIndex: player.handicapIndex ?? ""
     });
     setIsEditDialogOpen(true);
   };
@@ -266,7 +308,17 @@ const AdminPlayersPage = () => {
   return (
     <div className="container mx-auto px-4 py-6">
 
-      <h1 className="font-heading text-2xl font-bold mb-6">Manage Players</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="font-heading text-2xl font-bold">Manage Players</h1>
+        <Button
+          variant="outline"
+          onClick={() => setIsImportDialogOpen(true)}
+          className="flex items-center space-x-2"
+        >
+          <Upload className="h-4 w-4" />
+          <span>Import Handicaps</span>
+        </Button>
+      </div>
 
       {isLoading ? (
         <div className="space-y-6">
@@ -329,6 +381,11 @@ const AdminPlayersPage = () => {
                     >
                       <div className="flex items-center">
                         <span className="font-medium">{player.name}</span>
+                        {player.handicapIndex !== null && player.handicapIndex !== undefined && (
+                          <span className="ml-2 text-xs text-gray-500" title="Handicap index">
+                            HI {Number(player.handicapIndex).toFixed(1)}
+                          </span>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -379,6 +436,66 @@ const AdminPlayersPage = () => {
         </div>
       )}
       
+      {/* Import Handicaps Dialog */}
+      {isImportDialogOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-background rounded-lg shadow-lg max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-bold mb-4">Import Handicap Indices</h2>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                importHandicapsMutation.mutate({ csv: importCsv, effectiveDate: importDate });
+              }}
+            >
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    CSV (name,index[,effective date])
+                  </label>
+                  <textarea
+                    value={importCsv}
+                    onChange={(e) => setImportCsv(e.target.value)}
+                    rows={8}
+                    placeholder={"name,index,date\nJohn Smith,12.4,2025-03-01\nJane Doe,+1.2"}
+                    className="w-full px-3 py-2 border rounded-md font-mono text-sm"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Effective date for rows without one
+                  </label>
+                  <input
+                    type="date"
+                    value={importDate}
+                    onChange={(e) => setImportDate(e.target.value)}
+                    className="w-full px-3 py-2 border rounded-md"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end mt-6 space-x-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsImportDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={importHandicapsMutation.isPending}
+                >
+                  {importHandicapsMutation.isPending ? "Importing..." : "Import"}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Add Player Dialog */}
       {isAddDialogOpen && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -420,7 +537,23 @@ const AdminPlayersPage = () => {
                   </select>
                 </div>
                 
-                {/* Handicap fields removed - now managed per course via match scorecard */}
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Handicap Index
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    name="handicapIndex"
+                    value={playerFormData.handicapIndex}
+                    onChange={handlePlayerInputChange}
+                    placeholder="e.g., 12.4"
+                    className="w-full px-3 py-2 border rounded-md"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Course handicaps are calculated from this and each round's tees
+                  </p>
+                </div>
               </div>
               
               <div className="flex justify-end mt-6 space-x-2">
@@ -493,7 +626,23 @@ const AdminPlayersPage = () => {
                   </select>
                 </div>
                 
-                {/* Handicap fields removed - now managed per course via match scorecard */}
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Handicap Index
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    name="handicapIndex"
+                    value={playerFormData.handicapIndex}
+                    onChange={handlePlayerInputChange}
+                    placeholder="e.g., 12.4"
+                    className="w-full px-3 py-2 border rounded-md"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Course handicaps are calculated from this and each round's tees
+                  </p>
+                </div>
                 
                 <div className="grid grid-cols-3 gap-4">
                   <div>
@@ -1,24 +1,43 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import TournamentScore from "@/components/TournamentScore";
+import StandingsTable from "@/components/StandingsTable";
+import ProjectionGauge from "@/components/ProjectionGauge";
+import Leaderboard from "@/components/Leaderboard";
 import RoundsList from "@/components/RoundsList";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import rowdyCupLogo from "../assets/rowdy-cup-logo.svg";
 import { useAuth } from "@/hooks/use-auth";
+import { useTournament } from "@/hooks/use-tournament";
 import { useToast } from "@/hooks/use-toast";
 import { Calendar, Settings, Loader2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
+import {
+  HOLE_RANGES,
+  TOURNAMENT_FORMATS,
+  type CupProjection,
+  type CupStatus,
+  type TeamId,
+  type TeamPoints,
+  type TeamStanding,
+  type TournamentFormat,
+} from "@shared/scoring";
+import type { TeeSet } from "@shared/schema";
 
 const Home = () => {
   const [_, navigate] = useLocation();
   const { isAdmin } = useAuth();
+  const { tournamentId, tournamentUrl, isActiveTournament } = useTournament();
   const { toast } = useToast();
   const [isTournamentDialogOpen, setIsTournamentDialogOpen] = useState(false);
   const [isAddRoundDialogOpen, setIsAddRoundDialogOpen] = useState(false);
   const [tournamentFormData, setTournamentFormData] = useState({
-    name: ""
+    name: "",
+    handicapLockDate: "",
+    autoLockMinutes: "",
+    format: "cup" as TournamentFormat
   });
 
   // Define the Course interface
@@ -54,20 +73,50 @@ const Home = () => {
     matchType: "Singles Match",
     courseId: courses.length > 0 ? courses[0].id : 1, // Default value that will be updated when courses are loaded
     courseName: courses.length > 0 ? courses[0].name : "",
+    teeSetId: null as number | null,
     date: new Date().toISOString().split('T')[0],
     startTime: "08:00",
     isComplete: false,
-    tournamentId: 1 // Default tournament ID
+    tournamentId: 1, // Default tournament ID
+    startHole: 1,
+    endHole: 18,
+    isNassau: false,
+    nassauFrontPoints: "1",
+    nassauBackPoints: "1",
+    nassauOverallPoints: "1",
+    pointsForWin: "1",
+    pointsForHalve: "0.5",
+    pointsForLoss: "0",
+    allowanceMethod: "",
+    allowancePercent: "",
+    allowanceTeamPercents: "",
+    allowanceOffLow: true,
+    playoffEnabled: false,
+    playoffHoleOrder: "",
+    skinsEnabled: false,
+    skinsType: "gross",
+    skinsValidation: false,
+    skinsValue: "",
+  });
+
+  // Tee sets for the course selected in the add-round form
+  const { data: teeSets = [] } = useQuery<TeeSet[]>({
+    queryKey: [`/api/courses/${roundFormData.courseId}/tee-sets`],
+    enabled: !!roundFormData.courseId,
   });
 
   // Define types
   interface Tournament {
     id: number;
     name: string;
-    aviatorScore: number;
-    producerScore: number;
-    pendingAviatorScore?: number;
-    pendingProducerScore?: number;
+    teamIds?: TeamId[];
+    teamScores: TeamPoints[];
+    pointsAvailable?: number;
+    standings?: TeamStanding[];
+    cupStatus?: CupStatus;
+    handicapLockDate?: string | null;
+    autoLockMinutes?: number | null;
+    format?: TournamentFormat | null;
   }
 
   interface Round {
@@ -78,17 +127,14 @@ const Home = () => {
     startTime: string;
     date: string;
     isComplete: boolean;
-    aviatorScore?: number;
-    producerScore?: number;
-    pendingAviatorScore?: number;
-    pendingProducerScore?: number;
+    teamScores?: TeamPoints[];
   }
 
   // Fetch tournament data
   const { data: tournament, isLoading: isTournamentLoading } = useQuery<Tournament>({
-    queryKey: ['/api/tournament'],
+    queryKey: ['/api/tournament', tournamentId],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/tournament');
+      const response = await apiRequest('GET', tournamentUrl('/api/tournament'));
       if (!response) throw new Error('No response received');
       return response.json();
     }
@@ -96,18 +142,29 @@ const Home = () => {
 
   // Fetch rounds data
   const { data: rounds, isLoading: isRoundsLoading } = useQuery<Round[]>({
-    queryKey: ['/api/rounds'],
+    queryKey: ['/api/rounds', tournamentId],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/rounds');
+      const response = await apiRequest('GET', tournamentUrl('/api/rounds'));
       if (!response) throw new Error('No response received');
       return response.json();
     }
   });
 
+  // Win probability and projected final score from the unfinished matches
+  const { data: projection } = useQuery<CupProjection & { matches: unknown[] }>({
+    queryKey: ['/api/tournament/projection', tournamentId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', tournamentUrl('/api/tournament/projection'));
+      if (!response) throw new Error('No response received');
+      return response.json();
+    },
+    enabled: !!tournament,
+  });
+
   // Tournament update mutation
   const updateTournamentMutation = useMutation({
     mutationFn: async (tournamentData: any) => {
-      const { aviatorScore, producerScore, ...safeData } = tournamentData;
+      const { teamScores, ...safeData } = tournamentData;
 
       const res = await apiRequest("PUT", `/api/tournament/${tournament?.id}`, safeData);
       if (!res) throw new Error('No response received');
@@ -115,6 +172,7 @@ const Home = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tournament'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tournaments'] });
       toast({
         title: "Tournament updated",
         description: "Tournament settings have been saved successfully",
@@ -160,7 +218,7 @@ const Home = () => {
   });
 
   // Handle form input changes
-  const handleTournamentInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleTournamentInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setTournamentFormData({
       ...tournamentFormData,
@@ -198,7 +256,16 @@ const Home = () => {
     // Ensure courseId is properly cast to a number
     const formData = {
       ...roundFormData,
-      courseId: Number(roundFormData.courseId)
+      courseId: Number(roundFormData.courseId),
+      // Blank allowance settings use the match format's default
+      allowanceMethod: roundFormData.allowanceMethod || null,
+      allowancePercent: roundFormData.allowanceMethod ? roundFormData.allowancePercent || null : null,
+      allowanceTeamPercents: roundFormData.allowanceMethod === "weighted" ? roundFormData.allowanceTeamPercents || null : null,
+      allowanceOffLow: roundFormData.allowanceMethod ? roundFormData.allowanceOffLow : null,
+      // Blank playoff order replays the match's holes from the first
+      playoffHoleOrder: roundFormData.playoffEnabled ? roundFormData.playoffHoleOrder.trim() || null : null,
+      // A blank skins value plays skins for pride only
+      skinsValue: roundFormData.skinsEnabled ? roundFormData.skinsValue || null : null,
     };
 
     console.log('Submitting round with data:', formData);
@@ -216,10 +283,30 @@ const Home = () => {
       matchType: "Singles Match",
       courseId: defaultCourseId,
       courseName: defaultCourseName,
+      teeSetId: null,
       date: new Date().toISOString().split('T')[0],
       startTime: "08:00",
       isComplete: false,
-      tournamentId: tournament?.id || 1
+      tournamentId: tournament?.id || 1,
+      startHole: 1,
+      endHole: 18,
+      isNassau: false,
+      nassauFrontPoints: "1",
+      nassauBackPoints: "1",
+      nassauOverallPoints: "1",
+      pointsForWin: "1",
+      pointsForHalve: "0.5",
+      pointsForLoss: "0",
+      allowanceMethod: "",
+      allowancePercent: "",
+      allowanceTeamPercents: "",
+      allowanceOffLow: true,
+      playoffEnabled: false,
+      playoffHoleOrder: "",
+      skinsEnabled: false,
+      skinsType: "gross",
+      skinsValidation: false,
+      skinsValue: "",
     });
   };
 
@@ -227,7 +314,10 @@ const Home = () => {
   const handleOpenTournamentDialog = () => {
     if (tournament) {
       setTournamentFormData({
-        name: tournament.name
+        name: tournament.name,
+        handicapLockDate: tournament.handicapLockDate || "",
+        autoLockMinutes: tournament.autoLockMinutes?.toString() ?? "",
+        format: tournament.format || "cup"
       });
     }
     setIsTournamentDialogOpen(true);
@@ -236,21 +326,10 @@ const Home = () => {
   const isLoading = isTournamentLoading || isRoundsLoading;
 
   // Process rounds data to include scores
-  const roundsWithScores = rounds?.map((round: Round) => {
-    // Get scores for this round from matches
-    const aviatorScore = round.aviatorScore || 0;
-    const producerScore = round.producerScore || 0;
-    const pendingAviatorScore = round.pendingAviatorScore || 0;
-    const pendingProducerScore = round.pendingProducerScore || 0;
-
-    return {
-      ...round,
-      aviatorScore,
-      producerScore,
-      pendingAviatorScore,
-      pendingProducerScore
-    };
-  }) || [];
+  const roundsWithScores = rounds?.map((round: Round) => ({
+    ...round,
+    teamScores: round.teamScores || [],
+  })) || [];
 
   return (
     <div className="container mx-auto px-4 py-6">
@@ -280,23 +359,34 @@ const Home = () => {
                 <Settings className="h-4 w-4" />
                 <span>Edit Tournament</span>
               </Button>
-              <Button 
-                onClick={() => setIsAddRoundDialogOpen(true)}
-                className="flex items-center space-x-2"
-              >
-                <Calendar className="h-4 w-4" />
-                <span>Add New Round</span>
-              </Button>
+              {/* Past tournaments are shown as they were played */}
+              {isActiveTournament && (
+                <Button 
+                  onClick={() => setIsAddRoundDialogOpen(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <Calendar className="h-4 w-4" />
+                  <span>Add New Round</span>
+                </Button>
+              )}
             </div>
           )}
 
-          {/* Tournament Score */}
-          <TournamentScore 
-            aviatorScore={tournament?.aviatorScore || 0} 
-            producerScore={tournament?.producerScore || 0} 
-            pendingAviatorScore={tournament?.pendingAviatorScore || 0}
-            pendingProducerScore={tournament?.pendingProducerScore || 0}
-          />
+          {/* Tournament Score: head to head for a two-team cup, otherwise a points table */}
+          {tournament?.format === "round_robin" || (tournament?.teamIds?.length ?? 0) > 2 ? (
+            <StandingsTable
+              standings={tournament?.standings || []}
+              pointsAvailable={tournament?.pointsAvailable || 0}
+            />
+          ) : (
+            <TournamentScore 
+              teamScores={tournament?.teamScores || []}
+              pointsAvailable={tournament?.pointsAvailable || 0}
+              cupStatus={tournament?.cupStatus}
+            />
+          )}
+
+          {projection && <ProjectionGauge projection={projection} />}
 
           {/* Rounds List */}
           <div className="mt-6">
@@ -308,6 +398,11 @@ const Home = () => {
             <RoundsList rounds={roundsWithScores || []} />
           </div>
 
+          {/* Low net trophy, played alongside the cup */}
+          <div className="mt-6">
+            <Leaderboard title="Individual Leaderboard" url={tournamentUrl('/api/tournament/leaderboard')} />
+          </div>
+
           {/* Tournament Settings Dialog */}
           {isTournamentDialogOpen && (
             <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -330,6 +425,59 @@ const Home = () => {
                       />
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Handicap Lock Date
+                      </label>
+                      <input
+                        type="date"
+                        name="handicapLockDate"
+                        value={tournamentFormData.handicapLockDate}
+                        onChange={handleTournamentInputChange}
+                        className="w-full px-3 py-2 border rounded-md"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Index revisions after this date are ignored. Leave blank to use each round's date.
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Auto-Lock After (minutes)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        name="autoLockMinutes"
+                        value={tournamentFormData.autoLockMinutes}
+                        onChange={handleTournamentInputChange}
+                        className="w-full px-3 py-2 border rounded-md"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Completed matches lock this long after they finish. Leave blank to keep them open.
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Format
+                      </label>
+                      <select
+                        name="format"
+                        value={tournamentFormData.format}
+                        onChange={handleTournamentInputChange}
+                        className="w-full px-3 py-2 border rounded-md"
+                      >
+                        {TOURNAMENT_FORMATS.map((format) => (
+                          <option key={format} value={format}>
+                            {format === "cup" ? "Cup" : "Round Robin"}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        A round robin is decided by the points table, with ties broken by matches won, then holes up.
+                      </p>
+                    </div>
 
                   </div>
 
@@ -402,6 +550,254 @@ const Home = () => {
                       </select>
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Holes
+                      </label>
+                      <select
+                        name="holeRange"
+                        value={`${roundFormData.startHole}-${roundFormData.endHole}`}
+                        onChange={(e) => {
+                          const [startHole, endHole] = e.target.value.split("-").map(Number);
+                          setRoundFormData({
+                            ...roundFormData,
+                            startHole,
+                            endHole,
+                            // Nassau needs both nines
+                            isNassau: startHole === 1 && endHole === 18 ? roundFormData.isNassau : false,
+                          });
+                        }}
+                        className="w-full px-3 py-2 border rounded-md"
+                      >
+                        {HOLE_RANGES.map((range) => (
+                          <option key={range.label} value={`${range.startHole}-${range.endHole}`}>
+                            {range.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                      {[
+                        { name: "pointsForWin", label: "Win pts" },
+                        { name: "pointsForHalve", label: "Halve pts" },
+                        { name: "pointsForLoss", label: "Loss pts" },
+                      ].map((result) => (
+                        <div key={result.name}>
+                          <label className="block text-sm font-medium mb-1">
+                            {result.label}
+                          </label>
+                          <input
+                            type="number"
+                            step="0.5"
+                            min="0"
+                            name={result.name}
+                            value={roundFormData[result.name as keyof typeof roundFormData] as string}
+                            onChange={handleRoundInputChange}
+                            className="w-full px-3 py-2 border rounded-md"
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium mb-1">
+                        Handicap Allowance
+                      </label>
+                      <select
+                        name="allowanceMethod"
+                        value={roundFormData.allowanceMethod}
+                        onChange={handleRoundInputChange}
+                        className="w-full px-3 py-2 border rounded-md"
+                      >
+                        <option value="">Format default</option>
+                        <option value="individual">Percentage of each player's handicap</option>
+                        <option value="combined">Percentage of the side's combined handicap</option>
+                        <option value="weighted">Team formula (e.g., 35% / 15%)</option>
+                      </select>
+                    </div>
+
+                    {roundFormData.allowanceMethod && (
+                      <div className="grid grid-cols-2 gap-4 items-end">
+                        {roundFormData.allowanceMethod === "weighted" ? (
+                          <div>
+                            <label className="block text-sm font-medium mb-1">
+                              Team %, lowest first
+                            </label>
+                            <input
+                              type="text"
+                              name="allowanceTeamPercents"
+                              value={roundFormData.allowanceTeamPercents}
+                              onChange={handleRoundInputChange}
+                              placeholder="35,15"
+                              className="w-full px-3 py-2 border rounded-md"
+                            />
+                          </div>
+                        ) : (
+                          <div>
+                            <label className="block text-sm font-medium mb-1">
+                              Allowance %
+                            </label>
+                            <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              name="allowancePercent"
+                              value={roundFormData.allowancePercent}
+                              onChange={handleRoundInputChange}
+                              placeholder={roundFormData.allowanceMethod === "combined" ? "50" : "90"}
+                              className="w-full px-3 py-2 border rounded-md"
+                            />
+                          </div>
+                        )}
+                        <div className="flex items-center space-x-2 pb-2">
+                          <input
+                            type="checkbox"
+                            id="allowanceOffLow"
+                            name="allowanceOffLow"
+                            checked={roundFormData.allowanceOffLow}
+                            onChange={handleRoundInputChange}
+                          />
+                          <label htmlFor="allowanceOffLow" className="text-sm font-medium">
+                            Off the low man
+                          </label>
+                        </div>
+                      </div>
+                    )}
+
+                    {roundFormData.startHole === 1 && roundFormData.endHole === 18 && (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="isNassau"
+                          name="isNassau"
+                          checked={roundFormData.isNassau}
+                          onChange={handleRoundInputChange}
+                        />
+                        <label htmlFor="isNassau" className="text-sm font-medium">
+                          Nassau (front, back and overall each scored separately)
+                        </label>
+                      </div>
+                    )}
+
+                    {roundFormData.isNassau && (
+                      <div className="grid grid-cols-3 gap-4">
+                        {[
+                          { name: "nassauFrontPoints", label: "Front pts" },
+                          { name: "nassauBackPoints", label: "Back pts" },
+                          { name: "nassauOverallPoints", label: "Overall pts" },
+                        ].map((leg) => (
+                          <div key={leg.name}>
+                            <label className="block text-sm font-medium mb-1">
+                              {leg.label}
+                            </label>
+                            <input
+                              type="number"
+                              step="0.5"
+                              min="0"
+                              name={leg.name}
+                              value={roundFormData[leg.name as keyof typeof roundFormData] as string}
+                              onChange={handleRoundInputChange}
+                              className="w-full px-3 py-2 border rounded-md"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="playoffEnabled"
+                        name="playoffEnabled"
+                        checked={roundFormData.playoffEnabled}
+                        onChange={handleRoundInputChange}
+                      />
+                      <label htmlFor="playoffEnabled" className="text-sm font-medium">
+                        Sudden-death playoff for halved matches
+                      </label>
+                    </div>
+
+                    {roundFormData.playoffEnabled && (
+                      <div>
+                        <label className="block text-sm font-medium mb-1">
+                          Playoff holes
+                        </label>
+                        <input
+                          type="text"
+                          name="playoffHoleOrder"
+                          value={roundFormData.playoffHoleOrder}
+                          onChange={handleRoundInputChange}
+                          placeholder="e.g., 1,2,18"
+                          className="w-full px-3 py-2 border rounded-md"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Course holes replayed as holes 19, 20, ...; leave blank to replay from the first hole
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="skinsEnabled"
+                        name="skinsEnabled"
+                        checked={roundFormData.skinsEnabled}
+                        onChange={handleRoundInputChange}
+                      />
+                      <label htmlFor="skinsEnabled" className="text-sm font-medium">
+                        Play skins across the round
+                      </label>
+                    </div>
+
+                    {roundFormData.skinsEnabled && (
+                      <>
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-sm font-medium mb-1">
+                              Skins
+                            </label>
+                            <select
+                              name="skinsType"
+                              value={roundFormData.skinsType}
+                              onChange={handleRoundInputChange}
+                              className="w-full px-3 py-2 border rounded-md"
+                            >
+                              <option value="gross">Gross</option>
+                              <option value="net">Net</option>
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium mb-1">
+                              Value per skin
+                            </label>
+                            <input
+                              type="number"
+                              name="skinsValue"
+                              value={roundFormData.skinsValue}
+                              onChange={handleRoundInputChange}
+                              min="0"
+                              step="0.5"
+                              placeholder="None"
+                              className="w-full px-3 py-2 border rounded-md"
+                            />
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            id="skinsValidation"
+                            name="skinsValidation"
+                            checked={roundFormData.skinsValidation}
+                            onChange={handleRoundInputChange}
+                          />
+                          <label htmlFor="skinsValidation" className="text-sm font-medium">
+                            Skins must be validated on the next hole
+                          </label>
+                        </div>
+                      </>
+                    )}
+
                     <div>
                       <label className="block text-sm font-medium mb-1">
                         Course
@@ -421,6 +817,7 @@ const Home = () => {
                               ...roundFormData,
                               courseId: courseId,
                               courseName: selectedCourse ? selectedCourse.name : "",
+                              teeSetId: null,
                               tournamentId: tournament?.id || 1
                             });
                           }}
@@ -449,6 +846,35 @@ const Home = () => {
                       )}
                     </div>
 
+                    {teeSets.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium mb-1">
+                          Tees
+                        </label>
+                        <select
+                          name="teeSetId"
+                          value={roundFormData.teeSetId ?? ""}
+                          onChange={(e) =>
+                            setRoundFormData({
+                              ...roundFormData,
+                              teeSetId: e.target.value ? parseInt(e.target.value) : null,
+                            })
+                          }
+                          className="w-full px-3 py-2 border rounded-md"
+                        >
+                          <option value="">Course default ratings</option>
+                          {teeSets.map((tee) => (
+                            <option key={tee.id} value={tee.id}>
+                              {tee.name} ({tee.courseRating}/{tee.slopeRating}, par {tee.par})
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Course handicaps are calculated from these ratings
+                        </p>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-4">
                       <div>
                         <label className="block text-sm font-medium mb-1">
@@ -1,13 +1,37 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Player, MatchPlayer } from "@shared/schema";
-import { useState, useEffect } from "react";
+import type { Player, MatchPlayer, HoleScore, StaleScore } from "@shared/schema";
+import { Fragment, useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import { Skeleton } from "@/components/ui/skeleton";
 import MatchHeader from "@/components/MatchHeader";
 import EnhancedMatchScorecard from "@/components/EnhancedMatchScorecard";
+import ScoreHistoryDrawer from "@/components/ScoreHistoryDrawer";
+import MatchScorersDialog from "@/components/MatchScorersDialog";
+import MatchLockButton from "@/components/MatchLockButton";
+import type { ScoreConflict } from "@/components/ScoreConflictResolver";
+import { usePendingScores } from "@/hooks/use-pending-scores";
+import {
+  isNetworkError,
+  pendingScoreKey,
+  queueScoreWrite,
+  removePendingScoreWrite,
+} from "@/lib/score-queue";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  allowanceFor,
+  getMatchFormat,
+  isHoleInRange,
+  isPlayoffHole,
+  matchTeams,
+  playoffCourseHole,
+  resolveHoleRange,
+  resolvePlayoff,
+  PLAYOFF_START_HOLE,
+  type NassauLegResult,
+  type TeamId,
+} from "@shared/scoring";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronLeft, Edit, Save, Lock, Unlock } from "lucide-react";
+import { ChevronLeft, Edit, Save } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -31,6 +55,7 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useAuth } from "@/hooks/use-auth";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
 
 interface MatchProps {
   id: number;
@@ -42,10 +67,19 @@ interface MatchData {
   name: string;
   status: string;
   currentHole: number;
-  leadingTeam: string | null;
+  teamAId: number;
+  teamBId: number;
+  leadingTeamId: number | null;
   leadAmount: number;
   result: string | null;
   locked?: boolean;
+  dormie?: boolean;
+  closedOutHole?: number | null;
+  startHole?: number | null;
+  endHole?: number | null;
+  nassauResults?: NassauLegResult[] | null;
+  playoffEnabled?: boolean | null;
+  concededByTeamId?: number | null;
 }
 
 interface RoundData {
@@ -54,53 +88,57 @@ interface RoundData {
   matchType: string;
   courseName: string;
   startTime: string;
-  aviatorScore: number;
-  producerScore: number;
   date: string;
   isComplete: boolean;
   courseId?: number;
+  startHole?: number | null;
+  endHole?: number | null;
+  isNassau?: boolean;
+  allowanceMethod?: string | null;
+  allowancePercent?: string | null;
+  allowanceTeamPercents?: string | null;
+  allowanceOffLow?: boolean | null;
+  playoffEnabled?: boolean | null;
+  playoffHoleOrder?: string | null;
 }
 
 interface HoleData {
   id: number;
   number: number;
   par: number;
-}
-
-interface ScoreData {
-  id: number;
-  matchId: number;
-  holeNumber: number;
-  aviatorScore: number | null;
-  producerScore: number | null;
-  winningTeam: string | null;
-  matchStatus: string | null;
+  handicapRank?: number | null;
+  // Course hole an extra hole replays
+  playoffOf?: number;
 }
 
 const Match = ({ id }: { id: number }) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { user, isAdmin } = useAuth(); // Get user and isAdmin
+  const { teamById } = useTeams();
 
   const [showCompletionDialog, setShowCompletionDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [isAdminMode, setIsAdminMode] = useState(false);
   const [isLocked, setIsLocked] = useState(false);
-  const [matchSummary, setMatchSummary] = useState({
-    aviatorTotal: 0,
-    producerTotal: 0,
+  const [matchSummary, setMatchSummary] = useState<{
+    totals: { teamId: TeamId; total: number }[];
+    result: string;
+    leadingTeamId: TeamId | null;
+    matchPlayResult: string;
+  }>({
+    totals: [],
     result: "",
-    leadingTeam: "",
+    leadingTeamId: null,
     matchPlayResult: "",
   });
   const [editMatchData, setEditMatchData] = useState({
     name: "",
   });
-  const [selectedAviatorPlayers, setSelectedAviatorPlayers] = useState<any[]>([]);
-  const [selectedProducerPlayers, setSelectedProducerPlayers] = useState<any[]>([]);
+  // Players picked in the edit dialog, by team
+  const [selectedPlayers, setSelectedPlayers] = useState<Record<TeamId, Player[]>>({});
 
-  const [aviatorPlayersForScorecard, setAviatorPlayersForScorecard] = useState<Player[]>([]);
-  const [producerPlayersForScorecard, setProducerPlayersForScorecard] = useState<Player[]>([]);
+  const [playersForScorecard, setPlayersForScorecard] = useState<Record<TeamId, Player[]>>({});
 
 
   useEffect(() => {
@@ -127,7 +165,7 @@ const Match = ({ id }: { id: number }) => {
   });
 
   // Fetch scores for this match
-  const { data: scores, isLoading: isScoresLoading } = useQuery<ScoreData[]>({
+  const { data: scores, isLoading: isScoresLoading } = useQuery<HoleScore[]>({
     queryKey: [`/api/scores?matchId=${id}`],
     queryFn: async () => {
       const response = await apiRequest('GET', `/api/scores?matchId=${id}`);
@@ -148,6 +186,12 @@ const Match = ({ id }: { id: number }) => {
   });
 
   // Fetch holes data for the specific course of this round
+  // Course handicaps for everyone in the round, calculated or overridden
+  const { data: roundHandicaps = [] } = useQuery<any[]>({
+    queryKey: [`/api/round-handicaps/${match?.roundId}`],
+    enabled: !!match?.roundId,
+  });
+
   const { data: holes, isLoading: isHolesLoading } = useQuery<HoleData[]>({
     queryKey: [`/api/holes`, round?.courseId],
     queryFn: async () => {
@@ -183,6 +227,16 @@ const Match = ({ id }: { id: number }) => {
     enabled: !!id,
   });
 
+  // Only players in the match, its scorers and admins can enter scores
+  const { data: scorePermission } = useQuery<{ canScore: boolean }>({
+    queryKey: [`/api/matches/${id}/can-score`, user?.id],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/matches/${id}/can-score`);
+      if (!response) throw new Error('No response received');
+      return response.json();
+    },
+  });
+
   const { isAdmin: authIsAdminFromHook } = useAuth(); // Renamed to avoid conflict with local isAdmin
 
   // Update lock status when match data changes
@@ -193,24 +247,130 @@ const Match = ({ id }: { id: number }) => {
     }
   }, [match]);
 
-  // Function to update score
+  // Team scores another phone changed before this one saved over them,
+  // whether found when saving or when the offline queue was sent
+  const [teamConflicts, setTeamConflicts] = useState<ScoreConflict[]>([]);
+  const { conflictedWrites } = usePendingScores(id);
+  const queuedTeamConflicts = conflictedWrites
+    .filter((write) => write.kind === "team")
+    .map((write): ScoreConflict => ({
+      key: write.key,
+      holeNumber: write.holeNumber,
+      label: teamById(write.subjectId)?.name ?? "Team",
+      stale: write.conflicts![0],
+      yours: write.score,
+      keepYours: () => {
+        removePendingScoreWrite(write.key);
+        updateScoreMutation.mutate({
+          holeNumber: write.holeNumber,
+          teamScores: { [write.subjectId]: write.score },
+          expectedVersions: { [write.subjectId]: write.conflicts![0].version },
+        });
+      },
+      keepTheirs: () => {
+        removePendingScoreWrite(write.key);
+        queryClient.invalidateQueries({ queryKey: [`/api/scores?matchId=${id}`] });
+      },
+    }));
+
+  // Function to update score. Each side's score is saved against the version
+  // this phone last saw, and one changed elsewhere first comes back as a
+  // conflict to resolve. With no signal each side's score is queued instead.
   const updateScoreMutation = useMutation({
-    mutationFn: async (scoreData: any) => {
+    networkMode: "always",
+    mutationFn: async (scoreData: {
+      holeNumber: number;
+      teamScores: Record<TeamId, number | null>;
+      expectedVersions?: Record<TeamId, number>;
+    }): Promise<{ saved?: HoleScore[]; conflicts?: StaleScore[]; queued?: boolean }> => {
       const existingScore = scores?.find(
         (s) => s.holeNumber === scoreData.holeNumber,
       );
+      const body = {
+        matchId: id,
+        ...scoreData,
+        expectedVersions: scoreData.expectedVersions ?? Object.fromEntries(
+          Object.keys(scoreData.teamScores).map((teamId) => [teamId, existingScore?.teamScoreVersions[Number(teamId)] ?? 0]),
+        ),
+      };
+
+      const method = existingScore ? "PUT" : "POST";
+      const url = existingScore ? `/api/scores/${existingScore.id}` : "/api/scores";
+      const teamIds = Object.keys(scoreData.teamScores).map(Number);
+
+      let response: Response | null;
+      try {
+        response = await apiRequest(method, url, body, { on409: "return" });
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        for (const teamId of teamIds) {
+          await queueScoreWrite({
+            key: pendingScoreKey("team", id, scoreData.holeNumber, teamId),
+            kind: "team",
+            matchId: id,
+            holeNumber: scoreData.holeNumber,
+            subjectId: teamId,
+            score: scoreData.teamScores[teamId] ?? null,
+            method,
+            url,
+            body: {
+              ...body,
+              teamScores: { [teamId]: scoreData.teamScores[teamId] ?? null },
+              expectedVersions: { [teamId]: body.expectedVersions[teamId] },
+            },
+          });
+        }
+        return { queued: true };
+      }
+      if (!response) throw new Error('No response received');
 
-      if (existingScore) {
-        // Update existing score
-        return apiRequest("PUT", `/api/scores/${existingScore.id}`, scoreData);
-      } else {
-        // Create new score
-        return apiRequest("POST", "/api/scores", scoreData);
+      // This edit is newer than anything still queued for the same cells
+      for (const teamId of teamIds) {
+        await removePendingScoreWrite(pendingScoreKey("team", id, scoreData.holeNumber, teamId));
       }
+
+      const result = await response.json();
+      return response.status === 409 ? { conflicts: result.conflicts } : { saved: result };
     },
-    onSuccess: () => {
-      // Invalidate the scores query to refetch the data
+    onSuccess: ({ saved, conflicts, queued }, scoreData) => {
+      if (queued) return;
+      if (conflicts) {
+        const conflictKeys = conflicts.map((stale) => `${scoreData.holeNumber}-${stale.teamId}`);
+        const resolved = (key: string) => setTeamConflicts((prev) => prev.filter((c) => c.key !== key));
+        setTeamConflicts((prev) => [
+          ...prev.filter((c) => !conflictKeys.includes(c.key)),
+          ...conflicts.map((stale): ScoreConflict => {
+            const key = `${scoreData.holeNumber}-${stale.teamId}`;
+            return {
+              key,
+              holeNumber: scoreData.holeNumber,
+              label: teamById(stale.teamId)?.name ?? "Team",
+              stale,
+              yours: scoreData.teamScores[stale.teamId!] ?? null,
+              keepYours: () => {
+                resolved(key);
+                updateScoreMutation.mutate({
+                  holeNumber: scoreData.holeNumber,
+                  teamScores: { [stale.teamId!]: scoreData.teamScores[stale.teamId!] ?? null },
+                  expectedVersions: { [stale.teamId!]: stale.version },
+                });
+              },
+              keepTheirs: () => {
+                resolved(key);
+                queryClient.invalidateQueries({ queryKey: [`/api/scores?matchId=${id}`] });
+              },
+            };
+          }),
+        ]);
+        return;
+      }
+
+      // The server answers with every hole, so take the new versions now
+      // rather than waiting on the refetch
+      queryClient.setQueryData([`/api/scores?matchId=${id}`], saved);
       queryClient.invalidateQueries({ queryKey: [`/api/scores?matchId=${id}`] });
+      // Match state is recalculated on the server after every score
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${id}`] });
     },
     onError: (error) => {
       toast({
@@ -241,150 +401,58 @@ const Match = ({ id }: { id: number }) => {
     },
   });
 
-  // Toggle lock mutation
-  const toggleLockMutation = useMutation({
-    mutationFn: async (locked: boolean) => {
-      if (!match) return;
-      console.log(`[Match.tsx] Attempting to set lock status to: ${locked} for match ID: ${match.id}`);
-      return apiRequest("PUT", `/api/matches/${match.id}`, {
-        locked: locked,
-      });
-    },
-    onSuccess: (data, variables) => {
-      setIsLocked(!isLocked); // This should be based on the new state `variables` or refetch
-      queryClient.invalidateQueries({ queryKey: [`/api/matches/${id}`] });
-      // It's better to set isLocked based on the intended new state `variables`
-      // or rely on the refetched match data to update it via the useEffect.
-      // For now, let's assume `variables` was the boolean `locked` passed to mutate.
-      const newLockedState = variables; // variables is the argument passed to mutateFn, which is `!isLocked`
-      setIsLocked(newLockedState); 
-      console.log("[Match.tsx] toggleLockMutation success, new isLocked state:", newLockedState);
-      toast({
-        title: newLockedState ? "Match locked" : "Match unlocked",
-        description: newLockedState
-          ? "The match has been locked to prevent further edits."
-          : "The match has been unlocked for editing.",
-      });
-    },
-    onError: (error) => {
-      console.error("[Match.tsx] Error toggling lock status:", error);
-      toast({
-        title: "Error updating match lock status",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
+  // Only the holes this match is played over
+  const holeRange = resolveHoleRange(match, round);
+  const playoff = resolvePlayoff(match, round, holeRange);
+
+  // Extra holes appear once the server sends the match to a playoff: every
+  // one already scored plus the one being played
+  const lastExtraHole = Math.max(
+    match?.status !== "completed" && (match?.currentHole ?? 0) >= PLAYOFF_START_HOLE ? match!.currentHole : 0,
+    ...(scores || []).map((s) => s.holeNumber).filter(isPlayoffHole),
+  );
+  const extraHoles: HoleData[] = [];
+  for (let number = PLAYOFF_START_HOLE; playoff.enabled && number <= lastExtraHole; number++) {
+    const courseHole = (holes || []).find((h) => h.number === playoffCourseHole(number, playoff));
+    if (courseHole) extraHoles.push({ ...courseHole, number, playoffOf: courseHole.number });
+  }
+  const matchHoles = [
+    ...(holes || []).filter((h) => isHoleInRange(h.number, holeRange)),
+    ...extraHoles,
+  ];
 
   const isLoading =
     isMatchLoading || isScoresLoading || isHolesLoading || isRoundLoading || isPlayersLoading || isParticipantsLoading;
 
-  // Calculate proper match play result (e.g., "3&2", "4&3", "1 UP")
-  const calculateMatchPlayResult = (completedScores: ScoreData[]): string => {
-    if (!completedScores.length) return "";
-
-    let aviatorPoints = 0;
-    let producerPoints = 0;
-    let ties = 0;
-
-    // Sort scores by hole number
-    const sortedScores = [...completedScores].sort(
-      (a, b) => a.holeNumber - b.holeNumber,
-    );
-
-    // Calculate wins and ties for each hole
-    sortedScores.forEach((score) => {
-      if (score.aviatorScore === null || score.producerScore === null) return;
-
-      if (score.aviatorScore < score.producerScore) {
-        aviatorPoints += 1;
-      } else if (score.producerScore < score.aviatorScore) {
-        producerPoints += 1;
-      } else {
-        aviatorPoints += 0.5;
-        producerPoints += 0.5;
-        ties++;
-      }
-    });
-
-    // Calculate lead and holes remaining
-    const lead = Math.abs(aviatorPoints - producerPoints);
-    const highestHolePlayed = Math.max(
-      ...sortedScores.map((s) => s.holeNumber),
-    );
-    const holesRemaining = 18 - highestHolePlayed;
-    const totalCompleted = sortedScores.length;
-
-    // Match play result format
-    if (lead === 0 && totalCompleted === 18) {
-      // Tied match after all holes
-      return "AS";
-    } else if (lead > holesRemaining) {
-      // Match clinched before 18 holes
-      const leadingTeam = aviatorPoints > producerPoints ? "aviators" : "producers";
-      return `${lead} UP`;
-    } else if (lead > 0 && totalCompleted === 18) {
-      // Match completed with a winner after 18 holes
-      return `${lead} UP`;
-    }
-
-    return "";
-  };
-
-  // Check if match is completed or should be completed
+  // The server decides when a match is over; show the summary the first
+  // time we see it flip to completed while this page is open
+  const previousStatus = useRef<string | undefined>(undefined);
   useEffect(() => {
-    if (!scores || !match || match.status === "completed") return;
-
-    // Calculate completedHoles and check for match completion conditions
-    const completedScores = scores.filter(
-      (score) => score.aviatorScore !== null && score.producerScore !== null,
-    );
-
-    // If all 18 holes are filled or match is clinched
-    if (
-      completedScores.length === 18 ||
-      match.leadAmount >
-        18 - Math.max(...completedScores.map((s) => s.holeNumber), 0)
-    ) {
-      // Calculate totals for the summary
-      let aviatorTotal = 0;
-      let producerTotal = 0;
-      completedScores.forEach((score) => {
-        if (score.aviatorScore) aviatorTotal += score.aviatorScore;
-        if (score.producerScore) producerTotal += score.producerScore;
-      });
-
-      // Calculate the match play result
-      const matchPlayResult = calculateMatchPlayResult(completedScores);
-
-      // Set match summary data
-      setMatchSummary({
-        aviatorTotal,
-        producerTotal,
-        result: matchPlayResult,
-        leadingTeam: match.leadingTeam || "tied",
-        matchPlayResult,
-      });
-
-      // Mark match as completed and update result in database
-      updateMatchMutation.mutate({
-        id: match.id,
-        status: "completed",
-        result: matchPlayResult,
-        leadingTeam: match.leadingTeam,
-        leadAmount: match.leadAmount,
-      });
-
-      // Show completion dialog
-      setShowCompletionDialog(true);
-    }
+    if (!match || !scores) return;
+
+    const wasCompleted = previousStatus.current === "completed";
+    const firstLoad = previousStatus.current === undefined;
+    previousStatus.current = match.status;
+    if (firstLoad || wasCompleted || match.status !== "completed") return;
+
+    const totals = matchTeams(match).map((teamId) => ({
+      teamId,
+      total: scores.reduce((sum, score) => sum + (score.teamScores[teamId] || 0), 0),
+    }));
+
+    setMatchSummary({
+      totals,
+      result: match.result || "",
+      leadingTeamId: match.leadingTeamId,
+      matchPlayResult: match.result || "",
+    });
+    setShowCompletionDialog(true);
   }, [scores, match]);
 
   // Handle score update
   const handleScoreUpdate = (
     holeNumber: number,
-    aviatorScore: number | null,
-    producerScore: number | null,
+    teamScores: Record<TeamId, number | null>,
   ) => {
     // Check if the match is locked
     if (isLocked) {
@@ -397,34 +465,21 @@ const Match = ({ id }: { id: number }) => {
     }
 
     // Allow updates even if one of the scores is null
-    const scoreData = {
-      matchId: id,
-      holeNumber,
-      aviatorScore,
-      producerScore,
-    };
-
-    updateScoreMutation.mutate(scoreData);
+    updateScoreMutation.mutate({ holeNumber, teamScores });
   };
 
-  // Update match status from "upcoming" to "in_progress" when first score is entered
-  useEffect(() => {
-    if (!match || !scores || match.status !== "upcoming") return;
-
-    // Check if any scores exist
-    const hasScores = scores.some(
-      (score) => score.aviatorScore !== null || score.producerScore !== null,
+  // The match's players grouped by the team they play for
+  const playersByTeam = (teams: TeamId[]): Record<TeamId, Player[]> =>
+    Object.fromEntries(
+      teams.map((teamId) => [
+        teamId,
+        participants
+          .filter((p) => p.teamId === teamId)
+          .map((mp) => players.find((player) => player.id === mp.playerId))
+          .filter((p): p is Player => Boolean(p)),
+      ]),
     );
 
-    // If scores exist, update match status to in_progress
-    if (hasScores) {
-      updateMatchMutation.mutate({
-        id: match.id,
-        status: "in_progress",
-      });
-    }
-  }, [scores, match]);
-
   // Handle editing match - Load participants into selected players
   useEffect(() => {
     if (match) {
@@ -433,46 +488,20 @@ const Match = ({ id }: { id: number }) => {
       });
     }
 
-    if (participants && participants.length > 0 && players && players.length > 0) {
-      const aviators = participants
-        .filter((p: any) => p.team === "aviators")
-        .map((p: any) => players.find((player: any) => player.id === p.playerId))
-        .filter(Boolean);
-
-      const producers = participants
-        .filter((p: any) => p.team === "producers")
-        .map((p: any) => players.find((player: any) => player.id === p.playerId))
-        .filter(Boolean);
-
-      setSelectedAviatorPlayers(aviators);
-      setSelectedProducerPlayers(producers);
+    if (match && participants && participants.length > 0 && players && players.length > 0) {
+      setSelectedPlayers(playersByTeam(matchTeams(match)));
     }
   }, [match, participants, players]);
 
   useEffect(() => {
-    if (participants.length > 0 && players.length > 0) {
-      const aviators = participants
-        .filter((p) => p.team === "aviators")
-        .map((mp) => players.find((player) => player.id === mp.playerId))
-        .filter((p): p is Player => Boolean(p));
-      setAviatorPlayersForScorecard(aviators);
-
-      const producers = participants
-        .filter((p) => p.team === "producers")
-        .map((mp) => players.find((player) => player.id === mp.playerId))
-        .filter((p): p is Player => Boolean(p));
-      setProducerPlayersForScorecard(producers);
+    if (match && participants.length > 0 && players.length > 0) {
+      setPlayersForScorecard(playersByTeam(matchTeams(match)));
     } else {
-      setAviatorPlayersForScorecard([]);
-      setProducerPlayersForScorecard([]);
+      setPlayersForScorecard({});
     }
-  }, [participants, players]);
+  }, [match, participants, players]);
 
   // Handle lock toggle
-  const handleToggleLock = () => {
-    toggleLockMutation.mutate(!isLocked);
-  };
-
   const handleOpenEditDialog = () => {
     setShowEditDialog(true);
   };
@@ -501,56 +530,32 @@ const Match = ({ id }: { id: number }) => {
         name: editMatchData.name,
       });
 
-      // Find which players are new vs. existing
-      const existingAviatorPlayerIds = participants
-        .filter((p: any) => p.team === "aviators")
-        .map((p: any) => p.playerId);
-
-      const existingProducerPlayerIds = participants
-        .filter((p: any) => p.team === "producers")
-        .map((p: any) => p.playerId);
-
-      // Players to add
-      const newAviatorPlayers = selectedAviatorPlayers
-        .filter((p: any) => !existingAviatorPlayerIds.includes(p.id));
-
-      const newProducerPlayers = selectedProducerPlayers
-        .filter((p: any) => !existingProducerPlayerIds.includes(p.id));
-
-      // Players to remove
-      const aviatorPlayersToRemove = participants
-        .filter((p: any) => 
-          p.team === "aviators" && 
-          !selectedAviatorPlayers.some((s: any) => s.id === p.playerId)
-        );
-
-      const producerPlayersToRemove = participants
-        .filter((p: any) => 
-          p.team === "producers" && 
-          !selectedProducerPlayers.some((s: any) => s.id === p.playerId)
-        );
-
-      // Remove players that are no longer selected
-      for (const player of [...aviatorPlayersToRemove, ...producerPlayersToRemove]) {
-        await deleteParticipantMutation.mutateAsync(player.id);
-      }
-
-      // Add new aviator players
-      for (const player of newAviatorPlayers) {
-        await addParticipantMutation.mutateAsync({
-          matchId: match.id,
-          playerId: player.id,
-          team: "aviators"
-        });
-      }
-
-      // Add new producer players
-      for (const player of newProducerPlayers) {
-        await addParticipantMutation.mutateAsync({
-          matchId: match.id,
-          playerId: player.id,
-          team: "producers"
-        });
+      for (const teamId of matchTeams(match)) {
+        const selected = selectedPlayers[teamId] || [];
+
+        // Find which players are new vs. existing
+        const existingPlayerIds = participants
+          .filter((p) => p.teamId === teamId)
+          .map((p) => p.playerId);
+
+        // Remove players that are no longer selected
+        const playersToRemove = participants
+          .filter((p) => 
+            p.teamId === teamId && 
+            !selected.some((s) => s.id === p.playerId)
+          );
+        for (const player of playersToRemove) {
+          await deleteParticipantMutation.mutateAsync(player.id);
+        }
+
+        // Add new players
+        for (const player of selected.filter((p) => !existingPlayerIds.includes(p.id))) {
+          await addParticipantMutation.mutateAsync({
+            matchId: match.id,
+            playerId: player.id,
+            teamId,
+          });
+        }
       }
 
       // Invalidate relevant queries
@@ -596,32 +601,17 @@ const Match = ({ id }: { id: number }) => {
             <div className="mb-4 flex items-center justify-end">
 
             <div className="flex items-center space-x-2">
+              <ScoreHistoryDrawer matchId={match.id} />
+
+              {isAdmin && <MatchScorersDialog matchId={match.id} />}
+
               {isAdminMode && (
                 <div className="bg-amber-100 text-amber-800 px-3 py-1 rounded text-xs font-medium">
                   Admin View
                 </div>
               )}
 
-              {isAdmin && ( // Use isAdmin from useAuth()
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleToggleLock}
-                  className="ml-2"
-                >
-                  {isLocked ? (
-                    <>
-                      <Unlock className="mr-2 h-4 w-4" />
-                      Unlock Match
-                    </>
-                  ) : (
-                    <>
-                      <Lock className="mr-2 h-4 w-4" />
-                      Lock Match
-                    </>
-                  )}
-                </Button>
-              )}
+              {isAdmin && <MatchLockButton match={{ ...match, locked: isLocked }} />}
             </div>
           </div>
 
@@ -632,26 +622,38 @@ const Match = ({ id }: { id: number }) => {
             roundId={match.roundId}
             roundName={round?.name}
             matchType={round?.matchType}
-            leadingTeam={match.leadingTeam}
+            teamAId={match.teamAId}
+            teamBId={match.teamBId}
+            leadingTeamId={match.leadingTeamId}
             leadAmount={match.leadAmount}
             currentHole={match.currentHole}
             status={match.status}
             result={match.result}
+            dormie={match.dormie}
+            closedOutHole={match.closedOutHole}
+            concededBy={match.concededByTeamId}
+            nassauResults={round?.isNassau ? match.nassauResults : null}
           />
 
           {/* Enhanced Match Scorecard */}
           <EnhancedMatchScorecard
             matchId={id}
-            holes={holes || []}
+            holes={matchHoles}
+            holeRange={holeRange}
+            playoff={playoff}
+            isNassau={!!round?.isNassau}
             scores={scores || []}
             onScoreUpdate={handleScoreUpdate}
             locked={isLocked}
             participants={participants}
-            isBestBall={round?.matchType === "Best Ball"} // Pass isBestBall
-            aviatorPlayersList={aviatorPlayersForScorecard} // Pass aviator players
-            producerPlayersList={producerPlayersForScorecard} // Pass producer players
+            roundHandicaps={roundHandicaps}
+            handicapAllowance={allowanceFor(round?.matchType, round)}
+            isBestBall={getMatchFormat(round?.matchType).scoreEntry === "player"}
+            matchType={round?.matchType}
+            teamPlayersList={playersForScorecard} // Pass each team's players
             matchData={match} // Pass full match data if EnhancedMatchScorecard needs it
-            // canEditScores is not passed, defaults to true in EnhancedMatchScorecard
+            canEditScores={!!scorePermission?.canScore}
+            scoreConflicts={[...teamConflicts, ...queuedTeamConflicts]}
           />
         </>
       )}
@@ -668,34 +670,26 @@ const Match = ({ id }: { id: number }) => {
               <div className="space-y-4">
                 <p className="text-lg font-semibold">Final Score:</p>
                 <div className="flex justify-between items-center">
-                  <div className="bg-aviator text-white px-4 py-2 rounded">
-                    <p className="font-bold">The Aviators</p>
-                    <p className="text-2xl text-center">
-                      {matchSummary.aviatorTotal}
-                    </p>
-                  </div>
-                  <div className="text-xl font-bold">vs</div>
-                  <div className="bg-producer text-white px-4 py-2 rounded">
-                    <p className="font-bold">The Producers</p>
-                    <p className="text-2xl text-center">
-                      {matchSummary.producerTotal}
-                    </p>
-                  </div>
+                  {matchSummary.totals.map(({ teamId, total }, index) => (
+                    <Fragment key={teamId}>
+                      {index > 0 && <div className="text-xl font-bold">vs</div>}
+                      <div className="bg-team px-4 py-2 rounded" style={teamStyle(teamById(teamId))}>
+                        <p className="font-bold">The {teamById(teamId)?.name}</p>
+                        <p className="text-2xl text-center">{total}</p>
+                      </div>
+                    </Fragment>
+                  ))}
                 </div>
 
                 <div className="mt-4 text-center">
                   <p className="text-lg font-semibold">Match Play Result:</p>
                   <p className="text-xl mt-2">
-                    {matchSummary.leadingTeam === "aviators"
-                      ? "The Aviators"
-                      : matchSummary.leadingTeam === "producers"
-                        ? "The Producers"
-                        : "Match"}{" "}
-                    {matchSummary.matchPlayResult !== "AS" ? "won" : "tied"}{" "}
+                    {matchSummary.leadingTeamId
+                      ? `The ${teamById(matchSummary.leadingTeamId)?.name}`
+                      : "Match"}{" "}
+                    {matchSummary.matchPlayResult !== "AS" ? "won" : "halved"}{" "}
                     <span className="font-bold">
-                      {matchSummary.matchPlayResult !== "AS" && match ? 
-                        `${matchSummary.matchPlayResult.split(" ")[0]}&${18 - (match.currentHole || 1)}` : 
-                        matchSummary.matchPlayResult}
+                      {matchSummary.matchPlayResult}
                     </span>
                   </p>
                 </div>
@@ -730,61 +724,37 @@ const Match = ({ id }: { id: number }) => {
               />
             </div>
 
-            <div className="space-y-2">
-              <Label>Aviator Players</Label>
-              <div className="grid grid-cols-1 gap-2">
-                {players
-                  ?.filter((p: any) => p.teamId === 1) // Assuming teamId 1 is for Aviators
-                  .map((player: any) => (
-                    <div key={player.id} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`aviator-${player.id}`}
-                        checked={selectedAviatorPlayers.some(p => p.id === player.id)}
-                        onCheckedChange={(checked) => {
-                          if (checked) {
-                            setSelectedAviatorPlayers([...selectedAviatorPlayers, player]);
-                          } else {
-                            setSelectedAviatorPlayers(
-                              selectedAviatorPlayers.filter((p) => p.id !== player.id)
-                            );
-                          }
-                        }}
-                      />
-                      <Label htmlFor={`aviator-${player.id}`} className="cursor-pointer">
-                        {player.name}
-                      </Label>
-                    </div>
-                  ))}
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label>Producer Players</Label>
-              <div className="grid grid-cols-1 gap-2">
-                {players
-                  ?.filter((p: any) => p.teamId === 2) // Assuming teamId 2 is for Producers
-                  .map((player: any) => (
-                    <div key={player.id} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={`producer-${player.id}`}
-                        checked={selectedProducerPlayers.some(p => p.id === player.id)}
-                        onCheckedChange={(checked) => {
-                          if (checked) {
-                            setSelectedProducerPlayers([...selectedProducerPlayers, player]);
-                          } else {
-                            setSelectedProducerPlayers(
-                              selectedProducerPlayers.filter((p) => p.id !== player.id)
-                            );
-                          }
-                        }}
-                      />
-                      <Label htmlFor={`producer-${player.id}`} className="cursor-pointer">
-                        {player.name}
-                      </Label>
-                    </div>
-                  ))}
-              </div>
-            </div>
+            {matchTeams(match ?? { teamAId: 0, teamBId: 0 }).map((teamId) => {
+              const selected = selectedPlayers[teamId] || [];
+              return (
+                <div key={teamId} className="space-y-2">
+                  <Label>{teamById(teamId)?.name} Players</Label>
+                  <div className="grid grid-cols-1 gap-2">
+                    {players
+                      ?.filter((p) => p.teamId === teamId)
+                      .map((player) => (
+                        <div key={player.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`team-${teamId}-${player.id}`}
+                            checked={selected.some(p => p.id === player.id)}
+                            onCheckedChange={(checked) => {
+                              setSelectedPlayers({
+                                ...selectedPlayers,
+                                [teamId]: checked
+                                  ? [...selected, player]
+                                  : selected.filter((p) => p.id !== player.id),
+                              });
+                            }}
+                          />
+                          <Label htmlFor={`team-${teamId}-${player.id}`} className="cursor-pointer">
+                            {player.name}
+                          </Label>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              );
+            })}
           </div>
 
           <DialogFooter>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { Loader2, Plus, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -8,7 +9,10 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import RoundHeader from "@/components/RoundHeader";
 import MatchesList from "@/components/MatchesList";
+import Leaderboard from "@/components/Leaderboard";
 import { Badge } from "@/components/ui/badge";
+import { HOLE_RANGES, type TeamPoints } from "@shared/scoring";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
 
 interface RoundProps {
   id: number;
@@ -20,12 +24,11 @@ interface RoundData {
   matchType: string;
   courseName: string;
   startTime: string;
-  aviatorScore: number;
-  producerScore: number;
-  pendingAviatorScore?: number;
-  pendingProducerScore?: number;
+  teamScores: TeamPoints[];
   date: string;
   isComplete: boolean;
+  skinsEnabled: boolean | null;
+  skinsType: string | null;
 }
 
 interface Player {
@@ -38,30 +41,48 @@ interface Match {
   id: number;
   name: string;
   status: string;
-  aviatorPlayers: string;
-  producerPlayers: string;
-  leadingTeam: string | null;
+  teamAId: number;
+  teamBId: number;
+  teamPlayers: Record<number, string>;
+  leadingTeamId: number | null;
   leadAmount: number;
   result: string | null;
   currentHole: number;
   roundId: number;
 }
 
+// One of the two teams in a new match and the golfers picked for it
+interface MatchSide {
+  teamId: number | null;
+  playerIds: number[];
+}
+
 interface MatchFormData {
   name: string;
-  aviatorPlayerIds: number[];
-  producerPlayerIds: number[];
+  sides: [MatchSide, MatchSide];
+  // "" plays the round's holes, otherwise "start-end"
+  holeRange: string;
+  // "" follows the round's playoff setting, otherwise "on" or "off"
+  playoff: string;
 }
 
 const Round = ({ id }: RoundProps) => {
+  const [_, navigate] = useLocation();
   const { isAdmin } = useAuth();
   const { toast } = useToast();
+  const { teams, teamById } = useTeams();
   const [isCreateMatchDialogOpen, setIsCreateMatchDialogOpen] = useState(false);
-  const [matchFormData, setMatchFormData] = useState<MatchFormData>({
+  // New matches default to the first two teams
+  const emptyMatchForm = (): MatchFormData => ({
     name: "",
-    aviatorPlayerIds: [],
-    producerPlayerIds: [],
+    sides: [
+      { teamId: teams[0]?.id ?? null, playerIds: [] },
+      { teamId: teams[1]?.id ?? null, playerIds: [] },
+    ],
+    holeRange: "",
+    playoff: "",
   });
+  const [matchFormData, setMatchFormData] = useState<MatchFormData>(emptyMatchForm);
   
   // Keep track of how many players we need for each team based on match type
   const [playersPerTeam, setPlayersPerTeam] = useState(1);
@@ -112,39 +133,39 @@ const Round = ({ id }: RoundProps) => {
   const createMatchMutation = useMutation({
     mutationFn: async (formData: MatchFormData) => {
       // First create the match
+      const [startHole, endHole] = formData.holeRange
+        ? formData.holeRange.split("-").map(Number)
+        : [null, null];
       const matchPayload = {
         name: formData.name,
         roundId: id,
+        teamAId: formData.sides[0].teamId,
+        teamBId: formData.sides[1].teamId,
         status: "not_started",
-        currentHole: 1,
+        currentHole: startHole ?? 1,
+        startHole,
+        endHole,
+        playoffEnabled: formData.playoff ? formData.playoff === "on" : null,
       };
       
       const matchRes = await apiRequest("POST", `/api/matches`, matchPayload);
       if (!matchRes) throw new Error('No response received');
       const newMatch = await matchRes.json();
       
-      // Then add all the aviator players
-      const aviatorPromises = formData.aviatorPlayerIds.map(playerId => {
-        const playerPayload = {
-          matchId: newMatch.id,
-          playerId,
-          team: "aviators",
-        };
-        return apiRequest("POST", `/api/match-players`, playerPayload);
-      });
-      
-      // Add all the producer players
-      const producerPromises = formData.producerPlayerIds.map(playerId => {
-        const playerPayload = {
-          matchId: newMatch.id,
-          playerId,
-          team: "producers",
-        };
-        return apiRequest("POST", `/api/match-players`, playerPayload);
-      });
+      // Then add each side's players
+      const playerPromises = formData.sides.flatMap((side) =>
+        side.playerIds.map(playerId => {
+          const playerPayload = {
+            matchId: newMatch.id,
+            playerId,
+            teamId: side.teamId,
+          };
+          return apiRequest("POST", `/api/match-players`, playerPayload);
+        })
+      );
       
       // Wait for all players to be added
-      await Promise.all([...aviatorPromises, ...producerPromises]);
+      await Promise.all(playerPromises);
       
       return newMatch;
     },
@@ -195,47 +216,53 @@ const Round = ({ id }: RoundProps) => {
     });
   };
   
+  // Update one side of the match being created
+  const updateSide = (index: number, side: MatchSide) => {
+    const sides = [...matchFormData.sides] as MatchFormData["sides"];
+    sides[index] = side;
+    setMatchFormData({ ...matchFormData, sides });
+  };
+
+  // Picking a different team clears the players picked for that side
+  const handleTeamChange = (index: number, teamId: number) => {
+    updateSide(index, { teamId, playerIds: [] });
+  };
+
   // Handle adding a player to a team
-  const handleAddPlayer = (playerId: number, team: 'aviator' | 'producer') => {
-    if (team === 'aviator') {
-      if (matchFormData.aviatorPlayerIds.length < playersPerTeam) {
-        setMatchFormData({
-          ...matchFormData,
-          aviatorPlayerIds: [...matchFormData.aviatorPlayerIds, playerId],
-        });
-      }
-    } else {
-      if (matchFormData.producerPlayerIds.length < playersPerTeam) {
-        setMatchFormData({
-          ...matchFormData,
-          producerPlayerIds: [...matchFormData.producerPlayerIds, playerId],
-        });
-      }
+  const handleAddPlayer = (playerId: number, index: number) => {
+    const side = matchFormData.sides[index];
+    if (side.playerIds.length < playersPerTeam) {
+      updateSide(index, { ...side, playerIds: [...side.playerIds, playerId] });
     }
   };
   
   // Handle removing a player from a team
-  const handleRemovePlayer = (playerId: number, team: 'aviator' | 'producer') => {
-    if (team === 'aviator') {
-      setMatchFormData({
-        ...matchFormData,
-        aviatorPlayerIds: matchFormData.aviatorPlayerIds.filter(id => id !== playerId),
-      });
-    } else {
-      setMatchFormData({
-        ...matchFormData,
-        producerPlayerIds: matchFormData.producerPlayerIds.filter(id => id !== playerId),
-      });
-    }
+  const handleRemovePlayer = (playerId: number, index: number) => {
+    const side = matchFormData.sides[index];
+    updateSide(index, { ...side, playerIds: side.playerIds.filter(id => id !== playerId) });
   };
+
+  const sidesComplete = matchFormData.sides.every(
+    (side) => side.teamId !== null && side.playerIds.length === playersPerTeam,
+  );
+  const sidesDistinct = matchFormData.sides[0].teamId !== matchFormData.sides[1].teamId;
   
   // Form submission handler
   const handleMatchFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!sidesDistinct) {
+      toast({
+        title: "Invalid team selection",
+        description: "A match must be between two different teams",
+        variant: "destructive",
+        duration: 3000,
+      });
+      return;
+    }
     
     // Validate that we have the correct number of players per team
-    if (matchFormData.aviatorPlayerIds.length !== playersPerTeam || 
-        matchFormData.producerPlayerIds.length !== playersPerTeam) {
+    if (!sidesComplete) {
       toast({
         title: "Invalid player selection",
         description: `You must select exactly ${playersPerTeam} player(s) for each team`,
@@ -250,11 +277,7 @@ const Round = ({ id }: RoundProps) => {
   
   // Reset form
   const resetMatchForm = () => {
-    setMatchFormData({
-      name: "",
-      aviatorPlayerIds: [],
-      producerPlayerIds: [],
-    });
+    setMatchFormData(emptyMatchForm());
   };
 
   // Get a list of players already participating in matches in this round from the API
@@ -299,10 +322,7 @@ const Round = ({ id }: RoundProps) => {
                 matchType={round.matchType}
                 courseName={round.courseName || ''}
                 startTime={round.startTime || ''}
-                aviatorScore={round.aviatorScore || 0}
-                producerScore={round.producerScore || 0}
-                pendingAviatorScore={round.pendingAviatorScore || 0}
-                pendingProducerScore={round.pendingProducerScore || 0}
+                teamScores={round.teamScores || []}
                 date={round.date}
                 matchCount={matches?.length || 0}
               />
@@ -311,7 +331,10 @@ const Round = ({ id }: RoundProps) => {
               {isAdmin && (
                 <div className="mb-5 mt-4">
                   <Button 
-                    onClick={() => setIsCreateMatchDialogOpen(true)}
+                    onClick={() => {
+                      resetMatchForm();
+                      setIsCreateMatchDialogOpen(true);
+                    }}
                     className="flex items-center space-x-2"
                   >
                     <Plus className="h-4 w-4" />
@@ -322,6 +345,21 @@ const Round = ({ id }: RoundProps) => {
             
               {/* Matches List */}
               <MatchesList matches={matches || []} />
+
+              {round.skinsEnabled && (
+                <Button
+                  variant="outline"
+                  className="w-full mt-4"
+                  onClick={() => navigate(`/rounds/${id}/skins`)}
+                >
+                  View {round.skinsType === "net" ? "Net" : "Gross"} Skins
+                </Button>
+              )}
+
+              {/* Individual stroke play from each golfer's own ball */}
+              <div className="mt-6">
+                <Leaderboard title="Round Leaderboard" url={`/api/rounds/${id}/leaderboard`} />
+              </div>
               
               {/* Create Match Dialog */}
               {isCreateMatchDialogOpen && (
@@ -363,6 +401,41 @@ const Round = ({ id }: RoundProps) => {
                             required
                           />
                         </div>
+
+                        <div>
+                          <label className="block text-sm font-medium mb-1">
+                            Holes
+                          </label>
+                          <select
+                            name="holeRange"
+                            value={matchFormData.holeRange}
+                            onChange={(e) => setMatchFormData({ ...matchFormData, holeRange: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-md"
+                          >
+                            <option value="">Same as round</option>
+                            {HOLE_RANGES.map((range) => (
+                              <option key={range.label} value={`${range.startHole}-${range.endHole}`}>
+                                {range.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium mb-1">
+                            Playoff if halved
+                          </label>
+                          <select
+                            name="playoff"
+                            value={matchFormData.playoff}
+                            onChange={(e) => setMatchFormData({ ...matchFormData, playoff: e.target.value })}
+                            className="w-full px-3 py-2 border rounded-md"
+                          >
+                            <option value="">Same as round</option>
+                            <option value="on">Sudden-death extra holes</option>
+                            <option value="off">Halve the match</option>
+                          </select>
+                        </div>
                         
                         {isPlayersLoading || isParticipantsLoading ? (
                           <div className="flex justify-center py-4">
@@ -370,116 +443,77 @@ const Round = ({ id }: RoundProps) => {
                           </div>
                         ) : (
                           <>
-                            {/* Aviator Team Players Selection */}
-                            <div>
-                              <div className="flex justify-between items-center mb-2">
-                                <label className="block text-sm font-medium">
-                                  Aviators Team Players ({matchFormData.aviatorPlayerIds.length}/{playersPerTeam})
-                                </label>
-                              </div>
-                              
-                              {/* Selected Aviator Players */}
-                              {matchFormData.aviatorPlayerIds.length > 0 && (
-                                <div className="flex flex-wrap gap-1 mb-2">
-                                  {matchFormData.aviatorPlayerIds.map(playerId => (
-                                    <Badge key={playerId} className="bg-blue-600">
-                                      {getPlayerName(playerId)}
-                                      <button 
-                                        type="button"
-                                        onClick={() => handleRemovePlayer(playerId, 'aviator')}
-                                        className="ml-1 text-xs"
-                                      >
-                                        <X className="h-3 w-3 inline" />
-                                      </button>
-                                    </Badge>
-                                  ))}
-                                </div>
-                              )}
-                              
-                              {/* Available Aviator Players */}
-                              <div className="grid grid-cols-2 gap-2">
-                                {players
-                                  .filter(p => p.teamId === 1)
-                                  .filter(p => !matchFormData.aviatorPlayerIds.includes(p.id))
-                                  .map(player => (
-                                    <Button
-                                      key={player.id}
-                                      type="button" 
-                                      variant="outline" 
-                                      size="sm"
-                                      disabled={
-                                        isPlayerInRound(player.id) || 
-                                        matchFormData.aviatorPlayerIds.length >= playersPerTeam
-                                      }
-                                      onClick={() => handleAddPlayer(player.id, 'aviator')}
-                                      className="text-xs justify-start"
+                            {matchFormData.sides.map((side, index) => {
+                              const team = teamById(side.teamId);
+                              return (
+                                <div key={index}>
+                                  <div className="flex justify-between items-center mb-2 gap-2">
+                                    <select
+                                      value={side.teamId ?? ""}
+                                      onChange={(e) => handleTeamChange(index, Number(e.target.value))}
+                                      className="px-2 py-1 border rounded-md text-sm font-medium"
                                     >
-                                      <span className="truncate">{player.name}</span>
-                                      {isPlayerInRound(player.id) && (
-                                        <span className="ml-1 text-xs text-muted-foreground">(in match)</span>
-                                      )}
-                                    </Button>
-                                  ))
-                                }
-                              </div>
-                              <p className="text-xs text-gray-500 mt-1">
-                                Players can only participate in one match per round
-                              </p>
-                            </div>
-                            
-                            {/* Producer Team Players Selection */}
-                            <div>
-                              <div className="flex justify-between items-center mb-2">
-                                <label className="block text-sm font-medium">
-                                  Producers Team Players ({matchFormData.producerPlayerIds.length}/{playersPerTeam})
-                                </label>
-                              </div>
-                              
-                              {/* Selected Producer Players */}
-                              {matchFormData.producerPlayerIds.length > 0 && (
-                                <div className="flex flex-wrap gap-1 mb-2">
-                                  {matchFormData.producerPlayerIds.map(playerId => (
-                                    <Badge key={playerId} className="bg-red-600">
-                                      {getPlayerName(playerId)}
-                                      <button 
-                                        type="button"
-                                        onClick={() => handleRemovePlayer(playerId, 'producer')}
-                                        className="ml-1 text-xs"
-                                      >
-                                        <X className="h-3 w-3 inline" />
-                                      </button>
-                                    </Badge>
-                                  ))}
+                                      {teams.map((t) => (
+                                        <option key={t.id} value={t.id}>{t.name}</option>
+                                      ))}
+                                    </select>
+                                    <span className="text-sm font-medium">
+                                      Players ({side.playerIds.length}/{playersPerTeam})
+                                    </span>
+                                  </div>
+
+                                  {/* Selected Players */}
+                                  {side.playerIds.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mb-2">
+                                      {side.playerIds.map(playerId => (
+                                        <Badge key={playerId} className="bg-team" style={teamStyle(team)}>
+                                          {getPlayerName(playerId)}
+                                          <button 
+                                            type="button"
+                                            onClick={() => handleRemovePlayer(playerId, index)}
+                                            className="ml-1 text-xs"
+                                          >
+                                            <X className="h-3 w-3 inline" />
+                                          </button>
+                                        </Badge>
+                                      ))}
+                                    </div>
+                                  )}
+
+                                  {/* Available Players */}
+                                  <div className="grid grid-cols-2 gap-2">
+                                    {players
+                                      .filter(p => p.teamId === side.teamId)
+                                      .filter(p => !side.playerIds.includes(p.id))
+                                      .map(player => (
+                                        <Button
+                                          key={player.id}
+                                          type="button" 
+                                          variant="outline" 
+                                          size="sm"
+                                          disabled={
+                                            isPlayerInRound(player.id) || 
+                                            side.playerIds.length >= playersPerTeam
+                                          }
+                                          onClick={() => handleAddPlayer(player.id, index)}
+                                          className="text-xs justify-start"
+                                        >
+                                          <span className="truncate">{player.name}</span>
+                                          {isPlayerInRound(player.id) && (
+                                            <span className="ml-1 text-xs text-muted-foreground">(in match)</span>
+                                          )}
+                                        </Button>
+                                      ))
+                                    }
+                                  </div>
+                                  {index === 0 && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                      Players can only participate in one match per round
+                                    </p>
+                                  )}
                                 </div>
-                              )}
-                              
-                              {/* Available Producer Players */}
-                              <div className="grid grid-cols-2 gap-2">
-                                {players
-                                  .filter(p => p.teamId === 2)
-                                  .filter(p => !matchFormData.producerPlayerIds.includes(p.id))
-                                  .map(player => (
-                                    <Button
-                                      key={player.id}
-                                      type="button" 
-                                      variant="outline" 
-                                      size="sm"
-                                      disabled={
-                                        isPlayerInRound(player.id) || 
-                                        matchFormData.producerPlayerIds.length >= playersPerTeam
-                                      }
-                                      onClick={() => handleAddPlayer(player.id, 'producer')}
-                                      className="text-xs justify-start"
-                                    >
-                                      <span className="truncate">{player.name}</span>
-                                      {isPlayerInRound(player.id) && (
-                                        <span className="ml-1 text-xs text-muted-foreground">(in match)</span>
-                                      )}
-                                    </Button>
-                                  ))
-                                }
-                              </div>
-                            </div>
+                              );
+                            })}
                           </>
                         )}
                       </div>
@@ -498,8 +532,8 @@ const Round = ({ id }: RoundProps) => {
                             createMatchMutation.isPending || 
                             isPlayersLoading || 
                             !matchFormData.name ||
-                            matchFormData.aviatorPlayerIds.length !== playersPerTeam ||
-                            matchFormData.producerPlayerIds.length !== playersPerTeam
+                            !sidesComplete ||
+                            !sidesDistinct
                           }
                         >
                           {createMatchMutation.isPending ? (
@@ -0,0 +1,194 @@
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { RoundSkins, SkinsHoleResult } from "@shared/scoring";
+import TeamBadge from "@/components/TeamBadge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeams } from "@/hooks/use-teams";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Skins move with every score entered, so keep the page close to live
+const SKINS_REFRESH_MS = 30 * 1000;
+
+interface SkinsProps {
+  id: number;
+}
+
+const holeStatusLabel = (hole: SkinsHoleResult & { winnerName: string | null }) => {
+  switch (hole.status) {
+    case "won":
+      return hole.winnerName;
+    case "carried":
+      return "Carried";
+    case "unvalidated":
+      return "Not validated";
+    default:
+      return hole.winnerId !== null ? `${hole.winnerName} (to validate)` : "—";
+  }
+};
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2).replace(/\.00$/, "")}`;
+
+/**
+ * A round's skins hole by hole, and what each golfer has won
+ */
+const Skins = ({ id }: SkinsProps) => {
+  const [_, navigate] = useLocation();
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const { teamById } = useTeams();
+
+  const { data: skins, isLoading, error } = useQuery<RoundSkins>({
+    queryKey: [`/api/rounds/${id}/skins`],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/rounds/${id}/skins`);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    refetchInterval: SKINS_REFRESH_MS,
+  });
+
+  const payoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/rounds/${id}/skins/payout`);
+      if (!response) throw new Error("No response received");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ledger"] });
+      toast({
+        title: "Skins paid out",
+        description: "Each winner's skins have been added to the betting ledger.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to pay out skins",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <button
+        className="mb-2 flex items-center font-semibold text-blue-600"
+        onClick={() => navigate(`/rounds/${id}`)}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back to Round
+      </button>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : error || !skins ? (
+        <p className="text-center text-sm text-gray-500 py-4">Skins are not being played in this round</p>
+      ) : (
+        <>
+          <Card className="mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle>{skins.type === "net" ? "Net" : "Gross"} Skins</CardTitle>
+              <p className="text-sm text-gray-500">
+                {skins.validation ? "Skins must be validated on the next hole. " : ""}
+                {skins.value !== null ? `${formatMoney(skins.value)} a skin from each player.` : ""}
+              </p>
+            </CardHeader>
+            <CardContent>
+              {skins.players.length === 0 ? (
+                <p className="text-center text-sm text-gray-500 py-4">No individual scores yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Player</TableHead>
+                      <TableHead className="text-center">Skins</TableHead>
+                      {skins.value !== null && <TableHead className="text-right">Won</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {skins.players.map((player) => (
+                      <TableRow key={player.playerId}>
+                        <TableCell>
+                          <div className="flex items-center">
+                            <TeamBadge team={teamById(player.teamId)} size="sm" className="mr-2" />
+                            <span>{player.playerName}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-center font-mono font-bold">{player.skins}</TableCell>
+                        {skins.value !== null && (
+                          <TableCell className="text-right font-mono">
+                            {formatMoney(player.winnings ?? 0)}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {skins.carryover > 0 && (
+                <p className="text-center text-sm text-gray-500 mt-3">
+                  {skins.carryover} {skins.carryover === 1 ? "skin" : "skins"} left unclaimed
+                </p>
+              )}
+              {isAdmin && skins.value !== null && (
+                <Button
+                  className="w-full mt-4"
+                  disabled={!skins.complete || payoutMutation.isPending}
+                  onClick={() => payoutMutation.mutate()}
+                >
+                  {skins.complete ? "Pay Out Skins" : "Pay out once every hole is settled"}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="mb-6">
+            <CardHeader className="pb-2">
+              <CardTitle>By Hole</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Hole</TableHead>
+                    <TableHead className="text-center">Skins</TableHead>
+                    <TableHead className="text-center">Score</TableHead>
+                    <TableHead>Winner</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {skins.holes.map((hole) => (
+                    <TableRow key={hole.holeNumber}>
+                      <TableCell className="font-mono">{hole.holeNumber}</TableCell>
+                      <TableCell className="text-center font-mono">{hole.skins}</TableCell>
+                      <TableCell className="text-center font-mono">{hole.score ?? "—"}</TableCell>
+                      <TableCell className={hole.status === "won" ? "font-bold" : "text-gray-500"}>
+                        {holeStatusLabel(hole)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Skins;
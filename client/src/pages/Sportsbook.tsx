@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import type { Bet, BetType, Match, Round, Player } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { useTeams } from "@/hooks/use-teams";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -58,6 +59,7 @@ const formatCurrency = (value: string | number) => {
 export default function Sportsbook() {
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
+  const { teams } = useTeams();
   const [activeTab, setActiveTab] = useState("my-bets");
 
   // Query for bet types
@@ -111,7 +113,7 @@ export default function Sportsbook() {
     data: rounds,
     isLoading: isLoadingRounds,
     error: roundsError,
-  } = useQuery<Round[]>({
+  } = useQuery<(Round & { pointsAvailable?: number })[]>({
     queryKey: ["/api/rounds"],
     enabled: true,
   });
@@ -155,6 +157,12 @@ export default function Sportsbook() {
 
   // Selected bet type
   const [selectedBetType, setSelectedBetType] = useState<any>(null);
+
+  // Points up for grabs in the selected round, weighted by its point values
+  const selectedRoundId = form.watch("roundId");
+  const selectedRoundPoints = rounds?.find(
+    (round) => round.id.toString() === selectedRoundId,
+  )?.pointsAvailable;
   
   // Handle bet type change
   const handleBetTypeChange = (value: string) => {
@@ -384,6 +392,11 @@ export default function Sportsbook() {
                               <Badge className={getBetStatusColor(bet.status)}>
                                 {bet.status}
                               </Badge>
+                              {bet.needsReview && (
+                                <Badge variant="outline" className="border-amber-500 text-amber-700" title={bet.reviewReason ?? undefined}>
+                                  under review
+                                </Badge>
+                              )}
                               <span className="text-sm">
                                 Odds: {parseFloat(bet.odds).toFixed(2)}
                               </span>
@@ -515,7 +528,22 @@ export default function Sportsbook() {
                                 <FormItem>
                                   <FormLabel>Select Round</FormLabel>
                                   <Select
-                                    onValueChange={field.onChange}
+                                    onValueChange={(value) => {
+                                      field.onChange(value);
+                                      // Suggest the midpoint of the round's points as the line
+                                      const round = rounds?.find(
+                                        (r) => r.id.toString() === value,
+                                      );
+                                      if (
+                                        selectedBetType.name === "over_under" &&
+                                        round?.pointsAvailable
+                                      ) {
+                                        form.setValue(
+                                          "line",
+                                          (round.pointsAvailable / 2).toString(),
+                                        );
+                                      }
+                                    }}
                                     defaultValue={field.value}
                                   >
                                     <FormControl>
@@ -594,6 +622,9 @@ export default function Sportsbook() {
                                   </FormControl>
                                   <FormDescription>
                                     The over/under line for this bet
+                                    {selectedRoundPoints
+                                      ? ` (${selectedRoundPoints} points available this round)`
+                                      : ""}
                                   </FormDescription>
                                   <FormMessage />
                                 </FormItem>
@@ -620,12 +651,11 @@ export default function Sportsbook() {
                                   <SelectContent>
                                     {selectedBetType.name === "match_winner" && (
                                       <>
-                                        <SelectItem value="aviators">
-                                          Aviators Win
-                                        </SelectItem>
-                                        <SelectItem value="producers">
-                                          Producers Win
-                                        </SelectItem>
+                                        {teams.map((team) => (
+                                          <SelectItem key={team.id} value={team.shortName}>
+                                            {team.name} Win
+                                          </SelectItem>
+                                        ))}
                                         <SelectItem value="tie">
                                           Match Tie
                                         </SelectItem>
@@ -646,12 +676,11 @@ export default function Sportsbook() {
                                     )}
                                     {selectedBetType.name === "round_winner" && (
                                       <>
-                                        <SelectItem value="aviators">
-                                          Aviators Win Round
-                                        </SelectItem>
-                                        <SelectItem value="producers">
-                                          Producers Win Round
-                                        </SelectItem>
+                                        {teams.map((team) => (
+                                          <SelectItem key={team.id} value={team.shortName}>
+                                            {team.name} Win Round
+                                          </SelectItem>
+                                        ))}
                                         <SelectItem value="tie">
                                           Round Tie
                                         </SelectItem>
@@ -3,8 +3,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useLocation } from "wouter";
 import { useState } from "react";
 import { apiRequest } from "@/lib/queryClient";
-import aviatorsText from "@/assets/aviators-text.svg";
-import producersText from "@/assets/producers-text.svg";
+import HandicapTrendChart from "@/components/HandicapTrendChart";
+import PlayerScoringStats from "@/components/PlayerScoringStats";
+import TeamBadge from "@/components/TeamBadge";
+import { teamStyle } from "@/hooks/use-teams";
 
 interface Player {
   id: number;
@@ -13,17 +15,21 @@ interface Player {
   wins: number;
   losses: number;
   ties: number;
+  handicapIndex?: string | null;
 }
 
 interface Team {
   id: number;
   name: string;
+  shortName: string;
   colorCode: string;
+  logoUrl?: string | null;
 }
 
 const Teams = () => {
   const [_, navigate] = useLocation();
-  const [activeTeam, setActiveTeam] = useState<number>(1); // Start with Aviators (teamId: 1)
+  const [selectedTeam, setSelectedTeam] = useState<number | null>(null);
+  const [expandedPlayer, setExpandedPlayer] = useState<number | null>(null);
 
   // Fetch teams data
   const { data: teams, isLoading: isTeamsLoading } = useQuery<Team[]>({
@@ -47,6 +53,10 @@ const Teams = () => {
 
   const isLoading = isTeamsLoading || isPlayersLoading;
 
+  // Start with the first team until one is picked
+  const activeTeam = selectedTeam ?? teams?.[0]?.id ?? null;
+  const activeTeamData = teams?.find((t) => t.id === activeTeam);
+
   const handleBackClick = () => {
     navigate('/');
   };
@@ -107,50 +117,65 @@ const Teams = () => {
       ) : (
         <div className="space-y-8">
           <div className="flex justify-between items-center border-b-2 border-gray-200 pb-4">
-            <div 
-              className={`cursor-pointer transition-opacity ${
-                activeTeam === 1 ? 'opacity-100' : 'opacity-30'
-              }`}
-              onClick={() => setActiveTeam(1)}
-            >
-              <img src={aviatorsText} alt="The Aviators" className="h-8" />
-            </div>
-            <div 
-              className={`cursor-pointer transition-opacity ${
-                activeTeam === 2 ? 'opacity-100' : 'opacity-30'
-              }`}
-              onClick={() => setActiveTeam(2)}
-            >
-              <img src={producersText} alt="The Producers" className="h-8" />
-            </div>
+            {teams?.map((team) => (
+              <div 
+                key={team.id}
+                className={`flex items-center cursor-pointer transition-opacity ${
+                  activeTeam === team.id ? 'opacity-100' : 'opacity-30'
+                }`}
+                onClick={() => setSelectedTeam(team.id)}
+              >
+                <TeamBadge team={team} className="mr-2" />
+                <span className="font-heading text-xl font-bold text-team" style={teamStyle(team)}>
+                  {team.name}
+                </span>
+              </div>
+            ))}
           </div>
           
-          <div className="divide-y">
-            {playersByTeam?.[activeTeam]?.map((player: Player) => {
-              const teamColor = activeTeam === 1 ? 'rgba(0, 74, 127, 0.05)' : 'rgba(128, 0, 0, 0.05)';
+          <div className="divide-y" style={teamStyle(activeTeamData)}>
+            {activeTeam !== null && playersByTeam?.[activeTeam]?.map((player: Player) => {
               return (
                 <div 
                   key={player.id} 
-                  className="py-3 flex justify-between items-center px-3 rounded-md"
-                  style={{ backgroundColor: teamColor }}
+                  className="py-3 px-3 rounded-md"
+                  style={{ backgroundColor: 'color-mix(in srgb, var(--team-color) 5%, transparent)' }}
                 >
-                  <span className="font-medium">{player.name}</span>
-                  <div className="flex items-center space-x-3">
-                    <span className={`px-3 py-1 rounded-md text-white font-mono ${
-                      player.wins > player.losses 
-                        ? 'bg-green-600' 
-                        : player.losses > player.wins 
-                          ? 'bg-red-600' 
-                          : 'bg-gray-500'
-                    }`}>
-                      {player.wins}-{player.losses}-{player.ties}
-                    </span>
-                    {player.wins + player.losses + player.ties > 0 && (
-                      <div className="text-xs text-muted-foreground">
-                        {((player.wins / (player.wins + player.losses + player.ties)) * 100).toFixed(0)}%
-                      </div>
-                    )}
+                  <div
+                    className="flex justify-between items-center cursor-pointer"
+                    onClick={() => setExpandedPlayer(expandedPlayer === player.id ? null : player.id)}
+                  >
+                    <div>
+                      <span className="font-medium">{player.name}</span>
+                      {player.handicapIndex !== null && player.handicapIndex !== undefined && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          HI {Number(player.handicapIndex).toFixed(1)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className={`px-3 py-1 rounded-md text-white font-mono ${
+                        player.wins > player.losses 
+                          ? 'bg-green-600' 
+                          : player.losses > player.wins 
+                            ? 'bg-red-600' 
+                            : 'bg-gray-500'
+                      }`}>
+                        {player.wins}-{player.losses}-{player.ties}
+                      </span>
+                      {player.wins + player.losses + player.ties > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {((player.wins / (player.wins + player.losses + player.ties)) * 100).toFixed(0)}%
+                        </div>
+                      )}
+                    </div>
                   </div>
+                  {expandedPlayer === player.id && (
+                    <div className="mt-3 space-y-4">
+                      <HandicapTrendChart playerId={player.id} />
+                      <PlayerScoringStats playerId={player.id} />
+                    </div>
+                  )}
                 </div>
               );
             })}
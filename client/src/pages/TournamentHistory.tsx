@@ -6,15 +6,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Trophy } from "lucide-react";
+import { teamStyle, useTeams } from "@/hooks/use-teams";
+import { useTournament } from "@/hooks/use-tournament";
 
 interface TournamentHistory {
   id: number;
   tournamentId: number;
   tournamentName: string;
   year: number;
-  winningTeam: string | null;
-  aviatorScore: number;
-  producerScore: number;
+  winningTeamId: number | null;
+  teamScores: { teamId: number; score: number }[] | null;
 }
 
 interface PlayerTournamentStats {
@@ -32,6 +33,21 @@ interface PlayerTournamentStats {
   matchesPlayed: number;
 }
 
+interface MatchResult {
+  id: number;
+  roundId: number;
+  name: string;
+  status: string;
+  leadingTeamId: number | null;
+  result: string | null;
+  closedOutHole: number | null;
+}
+
+interface RoundSummary {
+  id: number;
+  name: string;
+}
+
 interface PlayerCareerStats {
   id: number;
   playerId: number;
@@ -45,15 +61,18 @@ interface PlayerCareerStats {
 }
 
 const TournamentHistory = () => {
+  const { teamById } = useTeams();
+  const { tournament, tournamentUrl } = useTournament();
+
   // Fetch tournament history
   const { data: tournamentHistory, isLoading: isHistoryLoading } = useQuery<TournamentHistory[]>({
     queryKey: ["/api/tournament-history"],
   });
 
-  // Fetch all player stats for the most recent tournament
+  // Fetch all player stats for the tournament being browsed
   const { data: playerStats, isLoading: isStatsLoading } = useQuery<PlayerTournamentStats[]>({
-    queryKey: ["/api/tournament-player-stats/1"], // Assuming 1 is the current tournament ID
-    enabled: !!tournamentHistory && tournamentHistory.length > 0,
+    queryKey: [`/api/tournament-player-stats/${tournament?.id}`],
+    enabled: !!tournament && !!tournamentHistory && tournamentHistory.length > 0,
   });
 
   // Get players with their career stats
@@ -61,6 +80,20 @@ const TournamentHistory = () => {
     queryKey: ["/api/players"],
   });
 
+  // Completed matches with their official result notation
+  const { data: allMatches = [], isLoading: isMatchesLoading } = useQuery<MatchResult[]>({
+    queryKey: [tournamentUrl("/api/matches")],
+  });
+
+  const { data: allRounds = [] } = useQuery<RoundSummary[]>({
+    queryKey: [tournamentUrl("/api/rounds")],
+  });
+
+  const completedMatches = React.useMemo(
+    () => allMatches.filter((m) => m.status === "completed" && m.result),
+    [allMatches],
+  );
+
   // Merge player data with their stats for display
   const playersWithStats = React.useMemo(() => {
     if (!playerStats) return [];
@@ -70,10 +103,10 @@ const TournamentHistory = () => {
       return {
         ...stats,
         playerName: player ? player.name : `Player ${stats.playerId}`,
-        teamName: stats.teamId === 1 ? "Aviators" : "Producers"
+        teamName: teamById(stats.teamId)?.name ?? `Team ${stats.teamId}`
       };
     });
-  }, [players, playerStats]);
+  }, [players, playerStats, teamById]);
 
   // Sort player stats by points (highest first)
   const sortedPlayerStats = React.useMemo(() => {
@@ -83,25 +116,29 @@ const TournamentHistory = () => {
 
   // Function to render tournament result with a trophy icon for the winner
   const renderTournamentResult = (history: TournamentHistory) => {
-    const aviatorWon = history.aviatorScore > history.producerScore;
-    const producerWon = history.producerScore > history.aviatorScore;
-    const isTie = history.aviatorScore === history.producerScore;
+    const teamScores = history.teamScores || [];
+    const isTie = teamScores.length > 0 && history.winningTeamId === null;
     
     return (
       <div className="flex items-center space-x-4">
-        <div className="flex items-center">
-          <span className={`font-semibold ${aviatorWon ? "text-blue-600" : ""}`}>
-            Aviators: {history.aviatorScore}
-          </span>
-          {aviatorWon && <Trophy className="h-4 w-4 ml-1 text-yellow-500" />}
-        </div>
-        <span>vs</span>
-        <div className="flex items-center">
-          <span className={`font-semibold ${producerWon ? "text-red-600" : ""}`}>
-            Producers: {history.producerScore}
-          </span>
-          {producerWon && <Trophy className="h-4 w-4 ml-1 text-yellow-500" />}
-        </div>
+        {teamScores.map((teamScore, index) => {
+          const team = teamById(teamScore.teamId);
+          const won = history.winningTeamId === teamScore.teamId;
+          return (
+            <React.Fragment key={teamScore.teamId}>
+              {index > 0 && <span>vs</span>}
+              <div className="flex items-center">
+                <span
+                  className={`font-semibold ${won ? "text-team" : ""}`}
+                  style={won ? teamStyle(team) : undefined}
+                >
+                  {team?.name ?? `Team ${teamScore.teamId}`}: {teamScore.score}
+                </span>
+                {won && <Trophy className="h-4 w-4 ml-1 text-yellow-500" />}
+              </div>
+            </React.Fragment>
+          );
+        })}
         {isTie && <span className="text-gray-500">(Tie)</span>}
       </div>
     );
@@ -121,6 +158,7 @@ const TournamentHistory = () => {
       <Tabs defaultValue="history">
         <TabsList className="w-full mb-6">
           <TabsTrigger value="history" className="flex-1">Tournament Results</TabsTrigger>
+          <TabsTrigger value="matches" className="flex-1">Match Results</TabsTrigger>
           <TabsTrigger value="player-stats" className="flex-1">Player Statistics</TabsTrigger>
         </TabsList>
         
@@ -168,6 +206,62 @@ const TournamentHistory = () => {
           </Card>
         </TabsContent>
         
+        {/* Match Results Tab */}
+        <TabsContent value="matches">
+          <Card>
+            <CardHeader>
+              <CardTitle>Match Results</CardTitle>
+              <CardDescription>
+                Final result of every completed match
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isMatchesLoading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : completedMatches.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Round</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead>Winner</TableHead>
+                      <TableHead className="text-center">Result</TableHead>
+                      <TableHead className="text-center">Closed Out</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {completedMatches.map((match) => (
+                      <TableRow key={match.id}>
+                        <TableCell>
+                          {allRounds.find((r) => r.id === match.roundId)?.name || `Round ${match.roundId}`}
+                        </TableCell>
+                        <TableCell>{match.name}</TableCell>
+                        <TableCell>
+                          {match.leadingTeamId
+                            ? teamById(match.leadingTeamId)?.name
+                            : "Halved"}
+                        </TableCell>
+                        <TableCell className="text-center font-medium">{match.result}</TableCell>
+                        <TableCell className="text-center">
+                          {match.closedOutHole ? `Hole ${match.closedOutHole}` : "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-center py-4 text-gray-500">
+                  No completed matches yet.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Player Stats Tab */}
         <TabsContent value="player-stats">
           <Card>
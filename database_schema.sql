@@ -20,7 +20,8 @@ CREATE TABLE teams (
     id SERIAL PRIMARY KEY,
     name TEXT NOT NULL,
     short_name TEXT NOT NULL,
-    color_code TEXT NOT NULL
+    color_code TEXT NOT NULL,
+    logo_url TEXT -- Shown in place of the team's initial when set
 );
 
 -- Players table
@@ -32,7 +33,8 @@ CREATE TABLE players (
     wins INTEGER DEFAULT 0,
     losses INTEGER DEFAULT 0,
     ties INTEGER DEFAULT 0,
-    status TEXT
+    status TEXT,
+    handicap_index NUMERIC -- WHS handicap index (e.g., 12.4)
 );
 
 -- Users table
@@ -54,18 +56,27 @@ CREATE TABLE holes (
     handicap_rank INTEGER -- Handicap ranking (1-18), 1 is hardest hole
 );
 
+-- Tee Sets table - each course can be played from several tees with their own ratings
+CREATE TABLE tee_sets (
+    id SERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES courses(id),
+    name TEXT NOT NULL,
+    course_rating NUMERIC NOT NULL,
+    slope_rating INTEGER NOT NULL,
+    par INTEGER NOT NULL
+);
+
 -- Tournament table (multiple tournaments over time)
 CREATE TABLE tournament (
     id SERIAL PRIMARY KEY,
     name TEXT NOT NULL,
-    aviator_score NUMERIC,
-    producer_score NUMERIC,
-    pending_aviator_score NUMERIC,
-    pending_producer_score NUMERIC,
     year INTEGER NOT NULL, -- Keep for backward compatibility
     is_active BOOLEAN DEFAULT TRUE,
     start_date TIMESTAMP,
-    end_date TIMESTAMP
+    end_date TIMESTAMP,
+    handicap_lock_date TEXT, -- Indices revised after this date (YYYY-MM-DD) are ignored
+    format TEXT DEFAULT 'cup', -- "cup" or "round_robin"
+    auto_lock_minutes INTEGER -- Completed matches lock this long after finishing; NULL never
 );
 
 -- Rounds table
@@ -78,10 +89,28 @@ CREATE TABLE rounds (
     start_time TEXT NOT NULL,
     is_complete BOOLEAN DEFAULT FALSE,
     status TEXT,
-    aviator_score NUMERIC,
-    producer_score NUMERIC,
     course_id INTEGER REFERENCES courses(id),
-    tournament_id INTEGER NOT NULL REFERENCES tournament(id)
+    tee_set_id INTEGER REFERENCES tee_sets(id),
+    tournament_id INTEGER NOT NULL REFERENCES tournament(id),
+    start_hole INTEGER DEFAULT 1,
+    end_hole INTEGER DEFAULT 18,
+    is_nassau BOOLEAN DEFAULT FALSE,
+    nassau_front_points NUMERIC DEFAULT 1,
+    nassau_back_points NUMERIC DEFAULT 1,
+    nassau_overall_points NUMERIC DEFAULT 1,
+    points_for_win NUMERIC DEFAULT 1,
+    points_for_halve NUMERIC DEFAULT 0.5,
+    points_for_loss NUMERIC DEFAULT 0,
+    allowance_method TEXT, -- "individual", "combined" or "weighted"; NULL uses the format default
+    allowance_percent NUMERIC,
+    allowance_team_percents TEXT, -- e.g., "35,15", lowest handicap first
+    allowance_off_low BOOLEAN,
+    playoff_enabled BOOLEAN DEFAULT FALSE, -- Halved matches go to sudden-death extra holes
+    playoff_hole_order TEXT, -- e.g., "1,2,18"; NULL replays the match's holes in order
+    skins_enabled BOOLEAN DEFAULT FALSE, -- Skins across every player's own ball in the round
+    skins_type TEXT DEFAULT 'gross', -- "gross" or "net"
+    skins_validation BOOLEAN DEFAULT FALSE, -- A skin must be tied or beaten on the next hole
+    skins_value NUMERIC -- Paid to the winner per skin by each other player
 );
 
 -- Matches table
@@ -91,11 +120,22 @@ CREATE TABLE matches (
     name TEXT NOT NULL,
     status TEXT NOT NULL,
     current_hole INTEGER DEFAULT 1,
-    leading_team TEXT,
+    team_a_id INTEGER NOT NULL REFERENCES teams(id), -- The two teams playing the match
+    team_b_id INTEGER NOT NULL REFERENCES teams(id),
+    leading_team_id INTEGER REFERENCES teams(id),
     lead_amount INTEGER DEFAULT 0,
     result TEXT,
     locked BOOLEAN DEFAULT FALSE,
-    tournament_id INTEGER REFERENCES tournament(id)
+    tournament_id INTEGER REFERENCES tournament(id),
+    dormie BOOLEAN DEFAULT FALSE,
+    closed_out_hole INTEGER,
+    start_hole INTEGER,
+    end_hole INTEGER,
+    nassau_results JSONB,
+    playoff_enabled BOOLEAN, -- NULL uses the round's setting
+    conceded_by_team_id INTEGER REFERENCES teams(id), -- Team that conceded the match
+    completed_at TIMESTAMP, -- When the match last became completed
+    unlocked_at TIMESTAMP -- When an admin last unlocked it; restarts the auto-lock clock
 );
 
 -- Match Players table (note: table name is match_participants but aliased as match_players in code)
@@ -103,24 +143,45 @@ CREATE TABLE match_participants (
     id SERIAL PRIMARY KEY,
     match_id INTEGER NOT NULL REFERENCES matches(id),
     user_id INTEGER NOT NULL REFERENCES players(id), -- Note: column name is user_id but references players
-    team TEXT NOT NULL,
+    team_id INTEGER NOT NULL REFERENCES teams(id),
     result TEXT,
     tournament_id INTEGER REFERENCES tournament(id)
 );
 
+-- Match Scorers table - users allowed to enter a match's scores without playing in it
+CREATE TABLE match_scorers (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    UNIQUE(match_id, user_id)
+);
+
 -- Scores table
 CREATE TABLE scores (
     id SERIAL PRIMARY KEY,
     match_id INTEGER NOT NULL REFERENCES matches(id),
     hole_number INTEGER NOT NULL,
-    aviator_score INTEGER,
-    producer_score INTEGER,
-    winning_team TEXT,
+    winning_team_id INTEGER REFERENCES teams(id),
+    halved BOOLEAN DEFAULT FALSE,
     match_status TEXT,
-    tournament_id INTEGER REFERENCES tournament(id)
+    tournament_id INTEGER REFERENCES tournament(id),
+    conceded BOOLEAN DEFAULT FALSE,
+    conceded_by_team_id INTEGER REFERENCES teams(id) -- Team that conceded the hole
 );
 
--- Player Course Handicaps table - stores calculated course handicaps for players in specific rounds
+-- Team Scores table - each side's score for each hole of a match
+CREATE TABLE team_scores (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    hole_number INTEGER NOT NULL,
+    team_id INTEGER NOT NULL REFERENCES teams(id),
+    score INTEGER,
+    tournament_id INTEGER REFERENCES tournament(id),
+    version INTEGER NOT NULL DEFAULT 0, -- Bumped on every change, so stale writes can be refused
+    UNIQUE(match_id, hole_number, team_id)
+);
+
+-- Player Course Handicaps table - stores admin overrides of the calculated course handicap for a round
 CREATE TABLE player_course_handicaps (
     id SERIAL PRIMARY KEY,
     player_id INTEGER NOT NULL REFERENCES players(id),
@@ -129,6 +190,16 @@ CREATE TABLE player_course_handicaps (
     course_handicap INTEGER NOT NULL -- Calculated course handicap (rounded)
 );
 
+-- Handicap Index History table - every revision of a player's handicap index
+CREATE TABLE handicap_index_history (
+    id SERIAL PRIMARY KEY,
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    handicap_index NUMERIC NOT NULL,
+    effective_date TEXT NOT NULL, -- Date the revision took effect (YYYY-MM-DD)
+    source TEXT DEFAULT 'manual', -- "manual" or "csv"
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Tournament Player Stats table - stores player statistics for each tournament
 CREATE TABLE tournament_player_stats (
     id SERIAL PRIMARY KEY,
@@ -147,9 +218,8 @@ CREATE TABLE tournament_history (
     id SERIAL PRIMARY KEY,
     year INTEGER NOT NULL,
     tournament_name TEXT NOT NULL,
-    winning_team TEXT,
-    aviator_score NUMERIC,
-    producer_score NUMERIC,
+    winning_team_id INTEGER REFERENCES teams(id), -- Cup holder; NULL when tied with no defending champion
+    team_scores JSONB, -- Final points for each team: [{ "teamId": 1, "score": 8.5 }]
     tournament_id INTEGER NOT NULL REFERENCES tournament(id),
     location TEXT,
     UNIQUE(tournament_id)
@@ -201,6 +271,7 @@ CREATE TABLE player_scores (
     hole_number INTEGER NOT NULL,
     score INTEGER NOT NULL,
     tournament_id INTEGER REFERENCES tournament(id),
+    version INTEGER NOT NULL DEFAULT 0, -- Bumped on every change, so stale writes can be refused
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -234,7 +305,9 @@ CREATE TABLE bets (
     -- Store bet parameters in standardized fields
     selected_option TEXT NOT NULL, -- 'aviators', 'producers', 'tie', 'over', 'under', etc.
     line NUMERIC, -- For over/under bets (e.g., 2.5 matches)
-    actual_result TEXT -- Actual outcome when bet is settled
+    actual_result TEXT, -- Actual outcome when bet is settled
+    needs_review BOOLEAN DEFAULT FALSE, -- Settled on a match result that has since changed
+    review_reason TEXT
 );
 
 -- Parlay Bets table - for tracking parlays
@@ -285,21 +358,50 @@ CREATE TABLE best_ball_player_scores (
     score INTEGER,
     handicap_strokes INTEGER DEFAULT 0,
     net_score INTEGER,
+    putt_conceded BOOLEAN DEFAULT FALSE,
+    version INTEGER NOT NULL DEFAULT 0, -- Bumped on every change, so stale writes can be refused
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Score events table - every change to a hole's scores, with who made it
+CREATE TABLE score_events (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    hole_number INTEGER, -- NULL for a whole-match concession
+    player_id INTEGER REFERENCES players(id), -- Set for a golfer's own score
+    kind TEXT NOT NULL CHECK (kind IN ('team', 'player', 'best_ball')),
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    user_id INTEGER REFERENCES users(id), -- NULL when entered without signing in
+    previous_value JSONB,
+    new_value JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Match lock events table - every lock and unlock, with who did it and why
+CREATE TABLE match_lock_events (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    action TEXT NOT NULL CHECK (action IN ('lock', 'unlock', 'auto_lock')),
+    user_id INTEGER REFERENCES users(id), -- NULL for an automatic lock
+    reason TEXT, -- Required to unlock
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_players_team_id ON players(team_id);
 CREATE INDEX idx_users_player_id ON users(player_id);
 CREATE INDEX idx_holes_course_id ON holes(course_id);
 CREATE INDEX idx_rounds_course_id ON rounds(course_id);
 CREATE INDEX idx_rounds_tournament_id ON rounds(tournament_id);
+-- At most one tournament is active; unscoped reads go to it
+CREATE UNIQUE INDEX idx_tournament_single_active ON tournament(is_active) WHERE is_active;
 CREATE INDEX idx_matches_round_id ON matches(round_id);
 CREATE INDEX idx_matches_tournament_id ON matches(tournament_id);
 CREATE INDEX idx_match_participants_match_id ON match_participants(match_id);
 CREATE INDEX idx_match_participants_user_id ON match_participants(user_id);
 CREATE INDEX idx_scores_match_id ON scores(match_id);
+CREATE INDEX idx_team_scores_match_id ON team_scores(match_id);
 CREATE INDEX idx_player_course_handicaps_player_id ON player_course_handicaps(player_id);
 CREATE INDEX idx_player_course_handicaps_round_id ON player_course_handicaps(round_id);
 CREATE INDEX idx_tournament_player_stats_tournament_id ON tournament_player_stats(tournament_id);
@@ -314,13 +416,15 @@ CREATE INDEX idx_bets_match_id ON bets(match_id);
 CREATE INDEX idx_bets_tournament_id ON bets(tournament_id);
 CREATE INDEX idx_best_ball_scores_match_id ON best_ball_player_scores(match_id);
 CREATE INDEX idx_best_ball_scores_player_id ON best_ball_player_scores(player_id);
+CREATE INDEX idx_score_events_match_id ON score_events(match_id);
+CREATE INDEX idx_match_lock_events_match_id ON match_lock_events(match_id);
 
 -- Add foreign key constraints that reference parlay table
 ALTER TABLE bets ADD CONSTRAINT bets_parlay_id_fk FOREIGN KEY (parlay_id) REFERENCES parlays(id);
 
 -- Comments for documentation
 COMMENT ON TABLE courses IS 'Golf courses where tournaments are played';
-COMMENT ON TABLE teams IS 'Tournament teams (Aviators and Producers)';
+COMMENT ON TABLE teams IS 'Tournament teams; name, short name and color drive the UI';
 COMMENT ON TABLE players IS 'Individual players participating in tournaments';
 COMMENT ON TABLE users IS 'User accounts for accessing the system';
 COMMENT ON TABLE holes IS 'Individual holes for each course with par and handicap info';
@@ -328,7 +432,8 @@ COMMENT ON TABLE tournament IS 'Tournament instances over time';
 COMMENT ON TABLE rounds IS 'Individual rounds within tournaments';
 COMMENT ON TABLE matches IS 'Individual matches within rounds';
 COMMENT ON TABLE match_participants IS 'Players participating in specific matches';
-COMMENT ON TABLE scores IS 'Team scores for each hole in matches';
+COMMENT ON TABLE scores IS 'Outcome of each hole in matches';
+COMMENT ON TABLE team_scores IS 'Team scores for each hole in matches';
 COMMENT ON TABLE player_course_handicaps IS 'Calculated course handicaps for players';
 COMMENT ON TABLE tournament_player_stats IS 'Player statistics for specific tournaments';
 COMMENT ON TABLE tournament_history IS 'Historical tournament results';
@@ -342,3 +447,5 @@ COMMENT ON TABLE parlays IS 'Parlay betting combinations';
 COMMENT ON TABLE bet_settlements IS 'Audit trail for bet settlements';
 COMMENT ON TABLE betting_ledger IS 'Money owed between users from betting';
 COMMENT ON TABLE best_ball_player_scores IS 'Individual scores for best ball format matches';
+COMMENT ON TABLE score_events IS 'Audit trail of score changes';
+COMMENT ON TABLE match_lock_events IS 'Audit trail of match locks and unlocks';
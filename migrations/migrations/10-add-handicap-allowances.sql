@@ -0,0 +1,5 @@
+-- Match-play handicap allowances per round; NULL uses the match format's default
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS allowance_method TEXT;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS allowance_percent NUMERIC;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS allowance_team_percents TEXT;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS allowance_off_low BOOLEAN;
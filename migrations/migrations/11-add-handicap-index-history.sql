@@ -0,0 +1,18 @@
+-- Every revision of a player's handicap index, with the date it took effect
+CREATE TABLE IF NOT EXISTS handicap_index_history (
+    id SERIAL PRIMARY KEY,
+    player_id INTEGER NOT NULL REFERENCES players(id),
+    handicap_index NUMERIC NOT NULL,
+    effective_date TEXT NOT NULL,
+    source TEXT DEFAULT 'manual',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Seed the history with each player's current index
+INSERT INTO handicap_index_history (player_id, handicap_index, effective_date, source)
+SELECT id, handicap_index, TO_CHAR(NOW(), 'YYYY-MM-DD'), 'manual'
+FROM players
+WHERE handicap_index IS NOT NULL;
+
+-- Course handicaps use the latest index on or before this date
+ALTER TABLE tournament ADD COLUMN IF NOT EXISTS handicap_lock_date TEXT;
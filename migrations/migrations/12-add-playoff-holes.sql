@@ -0,0 +1,4 @@
+-- Sudden-death extra holes for halved matches
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS playoff_enabled BOOLEAN DEFAULT FALSE;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS playoff_hole_order TEXT;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS playoff_enabled BOOLEAN;
@@ -0,0 +1,5 @@
+-- Hole, putt and match concessions
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS conceded BOOLEAN DEFAULT FALSE;
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS conceded_by TEXT;
+ALTER TABLE best_ball_player_scores ADD COLUMN IF NOT EXISTS putt_conceded BOOLEAN DEFAULT FALSE;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS conceded_by TEXT;
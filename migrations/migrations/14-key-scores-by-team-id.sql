@@ -0,0 +1,95 @@
+-- Scores, results and standings refer to teams by teams.id rather than by
+-- the "aviators" and "producers" names. Existing rows are matched to teams
+-- by teams.short_name.
+
+-- Every match is played between two teams
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS team_a_id INTEGER REFERENCES teams(id);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS team_b_id INTEGER REFERENCES teams(id);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS leading_team_id INTEGER REFERENCES teams(id);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS conceded_by_team_id INTEGER REFERENCES teams(id);
+
+UPDATE matches SET
+  team_a_id = (SELECT id FROM teams WHERE short_name = 'aviators'),
+  team_b_id = (SELECT id FROM teams WHERE short_name = 'producers')
+WHERE team_a_id IS NULL;
+UPDATE matches m SET leading_team_id = t.id FROM teams t WHERE t.short_name = m.leading_team;
+UPDATE matches m SET conceded_by_team_id = t.id FROM teams t WHERE t.short_name = m.conceded_by;
+
+-- Nassau leg results name the leading team too
+UPDATE matches m SET nassau_results = (
+  SELECT jsonb_agg(
+    CASE
+      WHEN leg->>'leadingTeam' IS NULL THEN leg
+      ELSE jsonb_set(leg, '{leadingTeam}', to_jsonb((SELECT t.id FROM teams t WHERE t.short_name = leg->>'leadingTeam')))
+    END
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(m.nassau_results) WITH ORDINALITY AS legs(leg, position)
+)
+WHERE jsonb_typeof(m.nassau_results) = 'array';
+
+ALTER TABLE matches ALTER COLUMN team_a_id SET NOT NULL;
+ALTER TABLE matches ALTER COLUMN team_b_id SET NOT NULL;
+ALTER TABLE matches DROP COLUMN IF EXISTS leading_team;
+ALTER TABLE matches DROP COLUMN IF EXISTS conceded_by;
+
+-- Match participants
+ALTER TABLE match_participants ADD COLUMN IF NOT EXISTS team_id INTEGER REFERENCES teams(id);
+UPDATE match_participants mp SET team_id = t.id FROM teams t WHERE t.short_name = mp.team;
+ALTER TABLE match_participants ALTER COLUMN team_id SET NOT NULL;
+ALTER TABLE match_participants DROP COLUMN IF EXISTS team;
+
+-- One row per side per hole instead of a column per side
+CREATE TABLE IF NOT EXISTS team_scores (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    hole_number INTEGER NOT NULL,
+    team_id INTEGER NOT NULL REFERENCES teams(id),
+    score INTEGER,
+    tournament_id INTEGER REFERENCES tournament(id),
+    UNIQUE(match_id, hole_number, team_id)
+);
+CREATE INDEX IF NOT EXISTS idx_team_scores_match_id ON team_scores(match_id);
+
+INSERT INTO team_scores (match_id, hole_number, team_id, score, tournament_id)
+SELECT s.match_id, s.hole_number, t.id, s.aviator_score, s.tournament_id
+FROM scores s JOIN teams t ON t.short_name = 'aviators'
+WHERE s.aviator_score IS NOT NULL
+ON CONFLICT DO NOTHING;
+INSERT INTO team_scores (match_id, hole_number, team_id, score, tournament_id)
+SELECT s.match_id, s.hole_number, t.id, s.producer_score, s.tournament_id
+FROM scores s JOIN teams t ON t.short_name = 'producers'
+WHERE s.producer_score IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS winning_team_id INTEGER REFERENCES teams(id);
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS halved BOOLEAN DEFAULT FALSE;
+ALTER TABLE scores ADD COLUMN IF NOT EXISTS conceded_by_team_id INTEGER REFERENCES teams(id);
+UPDATE scores s SET winning_team_id = t.id FROM teams t WHERE t.short_name = s.winning_team;
+UPDATE scores SET halved = TRUE WHERE winning_team = 'tie';
+UPDATE scores s SET conceded_by_team_id = t.id FROM teams t WHERE t.short_name = s.conceded_by;
+ALTER TABLE scores DROP COLUMN IF EXISTS aviator_score;
+ALTER TABLE scores DROP COLUMN IF EXISTS producer_score;
+ALTER TABLE scores DROP COLUMN IF EXISTS winning_team;
+ALTER TABLE scores DROP COLUMN IF EXISTS conceded_by;
+
+-- Round and tournament totals are worked out from the matches when read
+ALTER TABLE rounds DROP COLUMN IF EXISTS aviator_score;
+ALTER TABLE rounds DROP COLUMN IF EXISTS producer_score;
+ALTER TABLE tournament DROP COLUMN IF EXISTS aviator_score;
+ALTER TABLE tournament DROP COLUMN IF EXISTS producer_score;
+ALTER TABLE tournament DROP COLUMN IF EXISTS pending_aviator_score;
+ALTER TABLE tournament DROP COLUMN IF EXISTS pending_producer_score;
+
+-- Tournament history keeps each team's final points
+ALTER TABLE tournament_history ADD COLUMN IF NOT EXISTS winning_team_id INTEGER REFERENCES teams(id);
+ALTER TABLE tournament_history ADD COLUMN IF NOT EXISTS team_scores JSONB;
+UPDATE tournament_history th SET winning_team_id = t.id FROM teams t WHERE t.short_name = th.winning_team;
+UPDATE tournament_history th SET team_scores = jsonb_build_array(
+  jsonb_build_object('teamId', (SELECT id FROM teams WHERE short_name = 'aviators'), 'score', COALESCE(th.aviator_score, 0)),
+  jsonb_build_object('teamId', (SELECT id FROM teams WHERE short_name = 'producers'), 'score', COALESCE(th.producer_score, 0))
+)
+WHERE team_scores IS NULL;
+ALTER TABLE tournament_history DROP COLUMN IF EXISTS winning_team;
+ALTER TABLE tournament_history DROP COLUMN IF EXISTS aviator_score;
+ALTER TABLE tournament_history DROP COLUMN IF EXISTS producer_score;
@@ -0,0 +1,3 @@
+-- Tournaments between any number of teams: a cup, or a round robin decided
+-- by the points table
+ALTER TABLE tournament ADD COLUMN IF NOT EXISTS format TEXT DEFAULT 'cup';
@@ -0,0 +1,12 @@
+-- Reads that don't name a tournament go to the active one, so at most one
+-- tournament may be active. The most recent active tournament is kept.
+UPDATE tournament SET is_active = FALSE
+WHERE is_active AND id <> (
+  SELECT id FROM tournament WHERE is_active ORDER BY year DESC, id DESC LIMIT 1
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_single_active ON tournament(is_active) WHERE is_active;
+
+-- Matches carry their round's tournament
+UPDATE matches m SET tournament_id = r.tournament_id
+FROM rounds r
+WHERE r.id = m.round_id AND m.tournament_id IS NULL;
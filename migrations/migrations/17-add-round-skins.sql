@@ -0,0 +1,5 @@
+-- Skins game played alongside the matches, from every player's own ball
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS skins_enabled BOOLEAN DEFAULT FALSE;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS skins_type TEXT DEFAULT 'gross';
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS skins_validation BOOLEAN DEFAULT FALSE;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS skins_value NUMERIC;
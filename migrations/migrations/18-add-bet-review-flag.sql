@@ -0,0 +1,3 @@
+-- Bets settled on a match whose result is later corrected are flagged for an admin to review
+ALTER TABLE bets ADD COLUMN IF NOT EXISTS needs_review BOOLEAN DEFAULT FALSE;
+ALTER TABLE bets ADD COLUMN IF NOT EXISTS review_reason TEXT;
@@ -0,0 +1,15 @@
+-- Audit trail of every score change: who made it, when, and the values before and after
+CREATE TABLE IF NOT EXISTS score_events (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    hole_number INTEGER,
+    player_id INTEGER REFERENCES players(id),
+    kind TEXT NOT NULL CHECK (kind IN ('team', 'player', 'best_ball')),
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    user_id INTEGER REFERENCES users(id),
+    previous_value JSONB,
+    new_value JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_score_events_match_id ON score_events(match_id);
@@ -0,0 +1,7 @@
+-- Users assigned to keep score for a match they aren't playing in
+CREATE TABLE IF NOT EXISTS match_scorers (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    UNIQUE(match_id, user_id)
+);
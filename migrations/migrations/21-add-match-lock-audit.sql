@@ -0,0 +1,14 @@
+-- Matches can lock themselves a set time after completing, and every lock or unlock is recorded
+ALTER TABLE tournament ADD COLUMN IF NOT EXISTS auto_lock_minutes INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS match_lock_events (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER NOT NULL REFERENCES matches(id),
+    action TEXT NOT NULL CHECK (action IN ('lock', 'unlock', 'auto_lock')),
+    user_id INTEGER REFERENCES users(id),
+    reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_lock_events_match_id ON match_lock_events(match_id);
@@ -0,0 +1,3 @@
+-- Score writes name the version they were made against, so one phone can't silently overwrite another
+ALTER TABLE team_scores ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE best_ball_player_scores ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- An unlock restarts the auto-lock clock, so a completed match stays open after an admin unlocks it
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS unlocked_at TIMESTAMP;
@@ -0,0 +1,2 @@
+-- Plain player scores take an expected version too, like team and best-ball scores
+ALTER TABLE player_scores ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
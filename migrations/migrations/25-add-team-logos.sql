@@ -0,0 +1,8 @@
+-- Teams may have their own logo; without one they are shown by initial on their color
+ALTER TABLE teams ADD COLUMN IF NOT EXISTS logo_url TEXT;
+
+-- The original two teams keep their logos and brand colors
+UPDATE teams SET logo_url = '/team-logos/aviators-logo.svg' WHERE short_name = 'aviators' AND logo_url IS NULL;
+UPDATE teams SET logo_url = '/team-logos/producers-logo.svg' WHERE short_name = 'producers' AND logo_url IS NULL;
+UPDATE teams SET color_code = '#00214D' WHERE short_name = 'aviators' AND color_code = '#004A7F';
+UPDATE teams SET color_code = '#BF1238' WHERE short_name = 'producers' AND color_code = '#800000';
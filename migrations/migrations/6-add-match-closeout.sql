@@ -0,0 +1,24 @@
+-- Track dormie and the hole a match was closed out on
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS dormie BOOLEAN DEFAULT FALSE;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS closed_out_hole INTEGER;
+
+-- Rewrite results stored in the old "3 UP" / "1UP" format.
+-- current_hole is one past the last hole scored when the match closed.
+UPDATE matches
+SET result = lead_amount || '&' || (19 - current_hole),
+    closed_out_hole = current_hole - 1
+WHERE status = 'completed'
+  AND lead_amount > 0
+  AND current_hole < 19;
+
+UPDATE matches
+SET result = lead_amount || ' UP',
+    closed_out_hole = 18
+WHERE status = 'completed'
+  AND lead_amount > 0
+  AND current_hole >= 19;
+
+UPDATE matches
+SET closed_out_hole = 18
+WHERE status = 'completed'
+  AND lead_amount = 0;
@@ -0,0 +1,14 @@
+-- Rounds carry the hole range their matches are played over
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS start_hole INTEGER DEFAULT 1;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS end_hole INTEGER DEFAULT 18;
+
+-- Nassau rounds score front, back and overall as separate results
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS is_nassau BOOLEAN DEFAULT FALSE;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS nassau_front_points NUMERIC DEFAULT 1;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS nassau_back_points NUMERIC DEFAULT 1;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS nassau_overall_points NUMERIC DEFAULT 1;
+
+-- A match may override its round's hole range
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS start_hole INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS end_hole INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS nassau_results JSONB;
@@ -0,0 +1,4 @@
+-- Points a round awards for a win, a halve and a loss
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS points_for_win NUMERIC DEFAULT 1;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS points_for_halve NUMERIC DEFAULT 0.5;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS points_for_loss NUMERIC DEFAULT 0;
@@ -0,0 +1,15 @@
+-- Players carry a World Handicap System index
+ALTER TABLE players ADD COLUMN IF NOT EXISTS handicap_index NUMERIC;
+
+-- Tees a course can be played from, each with its own rating, slope and par
+CREATE TABLE IF NOT EXISTS tee_sets (
+    id SERIAL PRIMARY KEY,
+    course_id INTEGER NOT NULL REFERENCES courses(id),
+    name TEXT NOT NULL,
+    course_rating NUMERIC NOT NULL,
+    slope_rating INTEGER NOT NULL,
+    par INTEGER NOT NULL
+);
+
+-- Rounds are played from a tee set; course handicaps are calculated from it
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS tee_set_id INTEGER REFERENCES tee_sets(id);
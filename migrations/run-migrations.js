@@ -23,6 +23,12 @@ const client = new pg.Client({
   connectionString: DATABASE_URL,
 });
 
+// Order by the numeric prefix, so 10- runs after 9- rather than after 1-;
+// files sharing a number run alphabetically
+function byMigrationNumber(a, b) {
+  return parseInt(a, 10) - parseInt(b, 10) || a.localeCompare(b);
+}
+
 async function runMigrations() {
   try {
     await client.connect();
@@ -45,7 +51,7 @@ async function runMigrations() {
     const migrationsDir = path.join(__dirname, 'migrations');
     const migrationFiles = fs.readdirSync(migrationsDir)
       .filter(file => file.endsWith('.sql'))
-      .sort(); // Ensure alphabetical order
+      .sort(byMigrationNumber);
 
     console.log('Found migration files:', migrationFiles);
 
@@ -109,6 +109,28 @@ export function isAdmin(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Only the match's players, its assigned scorers and admins may write its
+// scores. `matchIdOf` finds the match a request writes to; a request for a
+// score that doesn't exist is passed on for the route to answer with a 404.
+export function canScoreMatch(matchIdOf: (req: Request) => Promise<number | undefined> | number | undefined) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const matchId = await matchIdOf(req);
+      if (matchId === undefined || Number.isNaN(matchId)) return next();
+
+      if (!req.user || !(await storage.canUserScoreMatch(req.user, matchId))) {
+        return res.status(403).json({
+          message: "Only players in this match, its assigned scorers or an admin can enter its scores",
+        });
+      }
+      next();
+    } catch (err) {
+      console.error('Error checking score permissions:', err);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
 export function setupAuth(app: Express) {
   // Configure session
   const sessionSettings: session.SessionOptions = {
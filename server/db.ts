@@ -1,4 +1,5 @@
 import "dotenv/config"; // loads .env file into process.env
+import { AsyncLocalStorage } from "node:async_hooks";
 import { Pool, neonConfig } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-serverless";
 import ws from "ws";
@@ -13,4 +14,27 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+const database = drizzle({ client: pool, schema });
+
+type Database = typeof database;
+
+// The transaction opened by inTransaction further up the current call, if any
+const activeTransaction = new AsyncLocalStorage<Database>();
+
+// Queries made through db join the active transaction, so storage methods
+// called inside inTransaction commit or roll back together
+export const db: Database = new Proxy(database, {
+  get(target, property) {
+    const executor = activeTransaction.getStore() ?? target;
+    const value = Reflect.get(executor, property, executor);
+    return typeof value === "function" ? value.bind(executor) : value;
+  },
+});
+
+/**
+ * Runs `work` in one transaction. A transaction already open joins it as a
+ * savepoint.
+ */
+export function inTransaction<T>(work: () => Promise<T>): Promise<T> {
+  return db.transaction((tx) => activeTransaction.run(tx as unknown as Database, work));
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { diffSnapshots, type DerivedSnapshot } from "./rebuild";
+
+describe("diffSnapshots", () => {
+  it("lists only the fields a rebuild changed", () => {
+    const before: DerivedSnapshot = new Map([
+      ["match:1", { status: "completed", leadAmount: 2, nassauResults: [{ leg: "front" }] }],
+      ["match:2", { status: "in_progress", leadAmount: 1 }],
+    ]);
+    const after: DerivedSnapshot = new Map([
+      ["match:1", { status: "completed", leadAmount: 3, nassauResults: [{ leg: "front" }] }],
+      ["match:2", { status: "in_progress", leadAmount: 1 }],
+    ]);
+    expect(diffSnapshots(before, after)).toEqual([{ key: "match:1", field: "leadAmount", before: 2, after: 3 }]);
+  });
+
+  it("shows rows that appeared or went away against null", () => {
+    const before: DerivedSnapshot = new Map([["stats:4", { wins: 1 }]]);
+    const after: DerivedSnapshot = new Map([["stats:5", { wins: 1 }]]);
+    expect(diffSnapshots(before, after)).toEqual([
+      { key: "stats:4", field: "wins", before: 1, after: null },
+      { key: "stats:5", field: "wins", before: null, after: 1 },
+    ]);
+  });
+});
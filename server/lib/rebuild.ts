@@ -0,0 +1,35 @@
+// One derived value a rebuild changed. A row that appeared or went away has
+// null on the missing side.
+export interface RebuildChange {
+  key: string;
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RebuildReport {
+  matchesReplayed: number;
+  tournamentsRebuilt: number;
+  changes: RebuildChange[];
+}
+
+// Derived rows keyed like "match:12", each with the fields a rebuild owns
+export type DerivedSnapshot = Map<string, Record<string, unknown>>;
+
+export function diffSnapshots(before: DerivedSnapshot, after: DerivedSnapshot): RebuildChange[] {
+  const changes: RebuildChange[] = [];
+  const keys = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())])).sort();
+  for (const key of keys) {
+    const was = before.get(key) ?? {};
+    const now = after.get(key) ?? {};
+    const fields = Array.from(new Set([...Object.keys(was), ...Object.keys(now)]));
+    for (const field of fields) {
+      const a = was[field] ?? null;
+      const b = now[field] ?? null;
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        changes.push({ key, field, before: a, after: b });
+      }
+    }
+  }
+  return changes;
+}
@@ -1,7 +1,8 @@
-import { Express } from "express";
+import { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
-import { storage } from "./storage";
+import { storage, StaleScoreError } from "./storage";
+import { inTransaction } from "./db";
 import { z } from "zod";
 import {
   insertScoreSchema,
@@ -9,14 +10,30 @@ import {
   insertRoundSchema,
   insertMatchSchema,
   insertPlayerSchema,
+  insertTeamSchema,
+  insertTournamentSchema,
   User,
   insertBestBallScoreSchema,
   insertBetSchema,
   insertBetTypeSchema,
   insertParlaySchema,
   insertLedgerEntrySchema,
+  insertTeeSetSchema,
+  insertHandicapIndexHistorySchema,
+  BestBallScore,
+  HoleScore,
+  InsertScoreEvent,
+  StaleScore,
 } from "@shared/schema";
-import { setupAuth, isAuthenticated, isAdmin, hashPassword, getUserByToken } from "./auth";
+import { setupAuth, isAuthenticated, isAdmin, canScoreMatch, hashPassword, getUserByToken } from "./auth";
+import {
+  isSupportedHoleRange,
+  matchTeams,
+  parsePlayoffHoleOrder,
+  LEADERBOARD_TYPES,
+  LeaderboardType,
+  isTournamentFormat,
+} from "@shared/scoring";
 
 /**
  * Debug helper to log and validate player IDs
@@ -43,6 +60,264 @@ function validateAndLogId(id: any): number | null {
   return null;
 }
 
+/**
+ * Checks the hole range a round or match would end up with after an update,
+ * along with any playoff hole order. Matches may leave both ends unset to
+ * inherit the round's range.
+ */
+function holeRangeError(update: any, current: any, allowUnset = false): string | null {
+  const startHole = update.startHole !== undefined ? update.startHole : current?.startHole;
+  const endHole = update.endHole !== undefined ? update.endHole : current?.endHole;
+
+  if (allowUnset && startHole == null && endHole == null) return null;
+  if (!isSupportedHoleRange(Number(startHole ?? 1), Number(endHole ?? 18))) {
+    return "Hole range must be 1-18, 1-9 or 10-18";
+  }
+
+  const isNassau = update.isNassau !== undefined ? update.isNassau : current?.isNassau;
+  if (isNassau && (Number(startHole ?? 1) !== 1 || Number(endHole ?? 18) !== 18)) {
+    return "Nassau rounds must be played over 18 holes";
+  }
+
+  const { playoffHoleOrder } = update;
+  if (
+    playoffHoleOrder &&
+    parsePlayoffHoleOrder(playoffHoleOrder).length !== String(playoffHoleOrder).split(",").length
+  ) {
+    return "Playoff holes must be a comma-separated list of holes 1-18";
+  }
+  return null;
+}
+
+/**
+ * The `?tournamentId=` a read is scoped to. Undefined means the active
+ * tournament; NaN means the parameter was given but isn't an id.
+ */
+function tournamentIdParam(req: Request): number | undefined {
+  const { tournamentId } = req.query;
+  if (tournamentId === undefined || tournamentId === "") return undefined;
+  return /^\d+$/.test(String(tournamentId)) ? Number(tournamentId) : NaN;
+}
+
+/**
+ * The `?type=` of a stroke-play leaderboard; net when not given, null when
+ * it isn't one of the supported types
+ */
+function leaderboardTypeParam(req: Request): LeaderboardType | null {
+  const type = req.query.type === undefined ? "net" : String(req.query.type);
+  return LEADERBOARD_TYPES.includes(type as LeaderboardType) ? (type as LeaderboardType) : null;
+}
+
+/**
+ * The user behind a request: the session user, or else the one whose bearer
+ * token it carries. Scores can be entered without signing in, so may be null.
+ */
+async function requestUserId(req: Request): Promise<number | null> {
+  if (req.user?.id) return req.user.id;
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith("Bearer ")) return null;
+  const user = await getUserByToken(authHeader.split(" ")[1]);
+  return user?.id ?? null;
+}
+
+/**
+ * Makes a score change and records it in the match's score history, credited
+ * to the user making the request, in one transaction: neither is kept
+ * without the other. `event` builds the history row from what the change
+ * returned, or is null when there turned out to be nothing to record.
+ */
+async function saveAudited<T>(
+  req: Request,
+  change: () => Promise<T>,
+  event: (result: T) => Omit<InsertScoreEvent, "userId"> | null,
+): Promise<T> {
+  const userId = await requestUserId(req);
+  return inTransaction(async () => {
+    const result = await change();
+    const audited = event(result);
+    if (audited) await storage.recordScoreEvent({ ...audited, userId });
+    return result;
+  });
+}
+
+// The match a score write goes to, for the canScoreMatch and unlockedMatch guards
+const matchIdFromBody = (req: Request) =>
+  typeof req.body?.matchId === "number" ? req.body.matchId : undefined;
+const matchIdFromParam = (param: string) => (req: Request) => parseInt(req.params[param]);
+const matchIdOfScore = async (req: Request) =>
+  (await storage.getScoreById(parseInt(req.params.id)))?.matchId;
+const matchIdOfPlayerScore = async (req: Request) =>
+  (await storage.getPlayerScoreById(parseInt(req.params.id)))?.matchId;
+const matchIdOfParticipant = async (req: Request) =>
+  (await storage.getMatchParticipant(parseInt(req.params.id)))?.matchId;
+
+/**
+ * Whether a golfer is playing in a match. Being allowed to score a match
+ * doesn't extend to writing scores for golfers who aren't in it.
+ */
+async function isMatchPlayer(matchId: number, playerId: number): Promise<boolean> {
+  const participants = await storage.getMatchParticipants(matchId);
+  return participants.some((p) => p.playerId === playerId);
+}
+
+/**
+ * Refuses score changes to a locked match, including one that has just
+ * passed its tournament's auto-lock time
+ */
+function unlockedMatch(matchIdOf: (req: Request) => Promise<number | undefined> | number | undefined) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const matchId = await matchIdOf(req);
+      if (matchId === undefined || Number.isNaN(matchId)) return next();
+
+      if (await storage.isMatchLocked(matchId)) {
+        return res.status(423).json({
+          message: "This match is locked. An admin has to unlock it before its scores can change",
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking match lock:", error);
+      res.status(500).json({ message: "Failed to check match lock" });
+    }
+  };
+}
+
+// Match fields that make up its result, which a lock freezes along with the scores
+const MATCH_RESULT_FIELDS = [
+  "status",
+  "result",
+  "leadingTeamId",
+  "leadAmount",
+  "currentHole",
+  "dormie",
+  "closedOutHole",
+  "nassauResults",
+  "concededByTeamId",
+  "startHole",
+  "endHole",
+  "playoffEnabled",
+  "completedAt",
+] as const;
+
+// Round settings its matches are scored by, which a lock freezes too
+const ROUND_SCORING_FIELDS = [
+  "matchType",
+  "date",
+  "courseId",
+  "teeSetId",
+  "startHole",
+  "endHole",
+  "isNassau",
+  "nassauFrontPoints",
+  "nassauBackPoints",
+  "nassauOverallPoints",
+  "pointsForWin",
+  "pointsForHalve",
+  "pointsForLoss",
+  "allowanceMethod",
+  "allowancePercent",
+  "allowanceTeamPercents",
+  "allowanceOffLow",
+  "playoffEnabled",
+  "playoffHoleOrder",
+] as const;
+
+// How often completed matches are checked against their auto-lock time
+const AUTO_LOCK_SWEEP_MS = 60 * 1000;
+
+// The audited parts of a hole's team scores and a golfer's best-ball score
+const teamScoreValue = (score: HoleScore | undefined) =>
+  score ? { teamScores: score.teamScores, conceded: score.conceded, concededByTeamId: score.concededByTeamId } : null;
+const bestBallValue = (score: BestBallScore | undefined) =>
+  score ? { score: score.score, handicapStrokes: score.handicapStrokes, puttConceded: score.puttConceded } : null;
+
+// Each side's score for a hole, keyed by team id: { "1": 4, "2": null }
+const teamScoresSchema = z.record(z.string().regex(/^\d+$/), z.number().nullable());
+
+// The version of each side's score a write was made against: { "1": 3 }.
+// Writes that leave it out overwrite whatever is there.
+const expectedVersionsSchema = z.record(z.string().regex(/^\d+$/), z.number().int()).optional();
+
+// The expected version a best-ball or player score write was made against
+const expectedVersionSchema = z.object({ expectedVersion: z.number().int().optional() });
+
+/**
+ * What a refused write ran into: the sides' scores as they stand now, and
+ * who entered them
+ */
+async function staleTeamScores(matchId: number, holeNumber: number, teamIds: number[]): Promise<StaleScore[]> {
+  const current = await storage.getScore(matchId, holeNumber);
+  const enteredBy = (await storage.getLastScoreEditor(matchId, holeNumber)) ?? null;
+  return teamIds.map((teamId) => ({
+    teamId,
+    score: current?.teamScores[teamId] ?? null,
+    version: current?.teamScoreVersions[teamId] ?? 0,
+    enteredBy,
+  }));
+}
+
+/**
+ * The same for one golfer's score, best-ball or plain
+ */
+async function staleGolferScore(
+  matchId: number,
+  holeNumber: number,
+  playerId: number,
+  current: { score: number | null; version: number } | undefined,
+): Promise<StaleScore> {
+  return {
+    playerId,
+    score: current?.score ?? null,
+    version: current?.version ?? 0,
+    enteredBy: (await storage.getLastScoreEditor(matchId, holeNumber, playerId)) ?? null,
+  };
+}
+
+const STALE_SCORE_MESSAGE = "This score was changed on another phone since you last saw it";
+
+/**
+ * Scores can only be recorded for the two teams playing the match
+ */
+function teamScoresError(
+  teamScores: Record<string, number | null>,
+  match: { teamAId: number; teamBId: number },
+): string | null {
+  const teams = matchTeams(match);
+  return Object.keys(teamScores).every((teamId) => teams.includes(Number(teamId)))
+    ? null
+    : "Scores can only be recorded for the teams playing this match";
+}
+
+/**
+ * Parses a roster CSV of handicap indices: `name,index[,effective date]`.
+ * A header row is skipped, and rows without a date use `defaultDate`.
+ */
+function parseHandicapCsv(csv: string, defaultDate: string) {
+  const rows: { name: string; handicapIndex: number; effectiveDate: string }[] = [];
+  const errors: { line: number; reason: string }[] = [];
+
+  csv.split(/\r?\n/).forEach((text, i) => {
+    if (!text.trim()) return;
+    const [name, index, date] = text.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    // "+2.1" is how plus handicaps are written; store them as negative
+    const value = index?.startsWith("+") ? -Number(index.slice(1)) : Number(index);
+    if (!name || index === undefined || index === "" || isNaN(value)) {
+      if (i > 0) errors.push({ line: i + 1, reason: "Expected name,index[,date]" });
+      return;
+    }
+
+    const effectiveDate = date || defaultDate;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+      errors.push({ line: i + 1, reason: "Date must be YYYY-MM-DD" });
+      return;
+    }
+    rows.push({ name, handicapIndex: value, effectiveDate });
+  });
+
+  return { rows, errors };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
@@ -84,6 +359,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           description: 'Combine multiple bets for higher risk/reward',
           isActive: true,
         },
+        {
+          name: 'skins',
+          description: 'Skins won in a round, paid by every other player in the field',
+          isActive: true,
+        },
       ];
       
       // For each default bet type, check if it exists and create if not
@@ -256,31 +536,214 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
+  // Lock the completed matches whose tournament's auto-lock time has run out
+  const autoLockSweep = setInterval(async () => {
+    try {
+      for (const matchId of await storage.autoLockCompletedMatches()) {
+        broadcast("match-updated", await storage.getMatch(matchId));
+      }
+    } catch (error) {
+      console.error("Auto-lock sweep error:", error);
+    }
+  }, AUTO_LOCK_SWEEP_MS);
+  autoLockSweep.unref();
+
+  // The team that has the cup sewn up in a match's tournament, if any. Read
+  // before a result changes so the clinch is only announced once.
+  const clinchedByForTournament = async (tournamentId: number): Promise<number | null> =>
+    (await storage.calculateCupStatus(tournamentId)).clinchedBy;
+  const clinchedByForMatch = async (matchId: number): Promise<number | null> => {
+    const match = await storage.getMatch(matchId);
+    const round = match && (await storage.getRound(match.roundId));
+    if (!round) return null;
+    return clinchedByForTournament(round.tournamentId);
+  };
+
+  // Tells clients the tournament has moved after a result changes, and
+  // announces the cup the moment that change clinches it
+  const broadcastTournamentUpdate = async (matchId: number, clinchedBefore: number | null) => {
+    const match = await storage.getMatch(matchId);
+    const round = match && (await storage.getRound(match.roundId));
+    if (round) await broadcastTournamentScores(round.tournamentId, clinchedBefore);
+  };
+  const broadcastTournamentScores = async (tournamentId: number, clinchedBefore: number | null) => {
+    const tournament = await storage.getTournament(tournamentId);
+    if (!tournament) return;
+
+    broadcast("tournament-updated", tournament);
+    const cupStatus = await storage.calculateCupStatus(tournament.id);
+    if (cupStatus.clinchedBy !== null && cupStatus.clinchedBy !== clinchedBefore) {
+      broadcast("cup-clinched", { ...cupStatus, tournamentName: tournament.name });
+    }
+  };
+
   // Tournament API
+  app.get("/api/tournaments", async (req, res) => {
+    const tournaments = await storage.getTournaments();
+    res.json(tournaments);
+  });
+
+  // Every tournament-scoped read takes an optional ?tournamentId= and
+  // defaults to the active tournament
   app.get("/api/tournament", async (req, res) => {
-    const tournament = await storage.getTournament();
+    const tournamentId = tournamentIdParam(req);
+    if (Number.isNaN(tournamentId)) {
+      return res.status(400).json({ message: "Invalid tournament id" });
+    }
+
+    const tournament = await storage.getTournament(tournamentId);
 
     // If tournament exists, also calculate current scores to ensure they're up to date
     if (tournament) {
-      const scores = await storage.calculateTournamentScores();
+      const scores = await storage.calculateTournamentScores(tournament.id);
+      const { tournamentId: _, ...cupStatus } = await storage.calculateCupStatus(tournament.id);
       // Return the actual calculated scores including pending scores
-      res.json({ ...tournament, ...scores });
+      res.json({ ...tournament, ...scores, cupStatus });
+    } else if (tournamentId !== undefined) {
+      res.status(404).json({ message: "Tournament not found" });
     } else {
       res.json(tournament);
     }
   });
 
-  app.put("/api/tournament/:id", async (req, res) => {
+  // Expected final score and each team's chance of winning, from how the
+  // unfinished matches stand
+  app.get("/api/tournament/projection", async (req, res) => {
+    try {
+      const tournamentId = tournamentIdParam(req);
+      if (Number.isNaN(tournamentId)) {
+        return res.status(400).json({ message: "Invalid tournament id" });
+      }
+
+      const tournament = await storage.getTournament(tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+
+      const projection = await storage.calculateTournamentProjection(tournament.id);
+      res.json(projection);
+    } catch (error) {
+      console.error("Tournament projection error:", error);
+      return res.status(500).json({ message: "Failed to project tournament" });
+    }
+  });
+
+  // Individual gross, net and Stableford standings across the tournament
+  app.get("/api/tournament/leaderboard", async (req, res) => {
+    try {
+      const tournamentId = tournamentIdParam(req);
+      if (Number.isNaN(tournamentId)) {
+        return res.status(400).json({ message: "Invalid tournament id" });
+      }
+      const type = leaderboardTypeParam(req);
+      if (!type) {
+        return res.status(400).json({ message: "Leaderboard type must be gross, net or stableford" });
+      }
+
+      const tournament = await storage.getTournament(tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+
+      const leaderboard = await storage.getTournamentLeaderboard(type, tournament.id);
+      res.json(leaderboard);
+    } catch (error) {
+      console.error("Tournament leaderboard error:", error);
+      return res.status(500).json({ message: "Failed to get leaderboard" });
+    }
+  });
+
+  app.get("/api/tournament/scoring-stats", async (req, res) => {
+    try {
+      const tournamentId = tournamentIdParam(req);
+      if (Number.isNaN(tournamentId)) {
+        return res.status(400).json({ message: "Invalid tournament id" });
+      }
+
+      const tournament = await storage.getTournament(tournamentId);
+      if (!tournament) {
+        return res.status(404).json({ message: "Tournament not found" });
+      }
+
+      const stats = await storage.getTournamentScoringStats(tournament.id);
+      res.json(stats);
+    } catch (error) {
+      console.error("Tournament scoring stats error:", error);
+      return res.status(500).json({ message: "Failed to get scoring stats" });
+    }
+  });
+
+  app.post("/api/tournaments", isAdmin, async (req, res) => {
+    try {
+      const tournamentData = insertTournamentSchema.parse(req.body);
+      if (tournamentData.format && !isTournamentFormat(tournamentData.format)) {
+        return res.status(400).json({ error: "Format must be cup or round_robin" });
+      }
+
+      const newTournament = await storage.createTournament(tournamentData);
+      broadcast("tournament-created", newTournament);
+      return res.status(201).json(newTournament);
+    } catch (error) {
+      console.error("Tournament creation error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid tournament data", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to create tournament" });
+    }
+  });
+
+  // Makes a tournament the one new rounds and unscoped reads go to
+  app.put("/api/tournaments/:id/activate", isAdmin, async (req, res) => {
     try {
       const tournamentId = parseInt(req.params.id);
-      const tournament = await storage.getTournament();
+      const activated = await storage.setActiveTournament(tournamentId);
+
+      if (!activated) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+
+      broadcast("tournament-updated", activated);
+      return res.json(activated);
+    } catch (error) {
+      console.error("Tournament activation error:", error);
+      return res.status(500).json({ error: "Failed to activate tournament" });
+    }
+  });
+
+  app.put("/api/tournament/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const tournamentId = parseInt(req.params.id);
+      const tournament = await storage.getTournament(tournamentId);
 
-      if (!tournament || tournament.id !== tournamentId) {
+      if (!tournament) {
         return res.status(404).json({ message: "Tournament not found" });
       }
 
-      // For security, don't allow direct updates to scores - they should be calculated
-      const { aviatorScore, producerScore, ...safeData } = req.body;
+      // For security, don't allow direct updates to scores - they should be
+      // calculated. Switching the active tournament has its own route.
+      const { teamScores, standings, pointsAvailable, cupStatus, isActive, ...safeData } = req.body;
+
+      if (safeData.format !== undefined && !isTournamentFormat(safeData.format)) {
+        return res.status(400).json({ message: "Format must be cup or round_robin" });
+      }
+
+      // A blank lock date means indices are read as of each round's date
+      if (safeData.handicapLockDate === "") {
+        safeData.handicapLockDate = null;
+      } else if (safeData.handicapLockDate && !/^\d{4}-\d{2}-\d{2}$/.test(safeData.handicapLockDate)) {
+        return res.status(400).json({ message: "Handicap lock date must be YYYY-MM-DD" });
+      }
+
+      // A blank auto-lock time means completed matches stay open
+      if (safeData.autoLockMinutes === "" || safeData.autoLockMinutes === null) {
+        safeData.autoLockMinutes = null;
+      } else if (safeData.autoLockMinutes !== undefined) {
+        const minutes = Number(safeData.autoLockMinutes);
+        if (!Number.isInteger(minutes) || minutes < 0) {
+          return res.status(400).json({ message: "Auto-lock time must be a whole number of minutes" });
+        }
+        safeData.autoLockMinutes = minutes;
+      }
 
       const updatedTournament = await storage.updateTournament(
         tournamentId,
@@ -296,7 +759,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Rounds API
   app.get("/api/rounds", async (req, res) => {
-    const rounds = await storage.getRounds();
+    const tournamentId = tournamentIdParam(req);
+    if (Number.isNaN(tournamentId)) {
+      return res.status(400).json({ message: "Invalid tournament id" });
+    }
+
+    const rounds = await storage.getRounds(tournamentId);
     res.json(rounds);
   });
 
@@ -313,6 +781,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ ...round, ...scores });
   });
 
+  app.get("/api/rounds/:id/leaderboard", async (req, res) => {
+    try {
+      const roundId = parseInt(req.params.id);
+      const type = leaderboardTypeParam(req);
+      if (!type) {
+        return res.status(400).json({ message: "Leaderboard type must be gross, net or stableford" });
+      }
+
+      const round = await storage.getRound(roundId);
+      if (!round) {
+        return res.status(404).json({ message: "Round not found" });
+      }
+
+      const leaderboard = await storage.getRoundLeaderboard(roundId, type);
+      res.json(leaderboard);
+    } catch (error) {
+      console.error("Round leaderboard error:", error);
+      return res.status(500).json({ message: "Failed to get leaderboard" });
+    }
+  });
+
+  app.get("/api/rounds/:id/skins", async (req, res) => {
+    try {
+      const roundId = parseInt(req.params.id);
+      const round = await storage.getRound(roundId);
+      if (!round) {
+        return res.status(404).json({ message: "Round not found" });
+      }
+      if (!round.skinsEnabled) {
+        return res.status(400).json({ message: "Skins are not being played in this round" });
+      }
+
+      const skins = await storage.getRoundSkins(roundId);
+      res.json(skins);
+    } catch (error) {
+      console.error("Round skins error:", error);
+      return res.status(500).json({ message: "Failed to get skins" });
+    }
+  });
+
+  app.post("/api/rounds/:id/skins/payout", isAdmin, async (req, res) => {
+    try {
+      const roundId = parseInt(req.params.id);
+      const round = await storage.getRound(roundId);
+      if (!round) {
+        return res.status(404).json({ error: "Round not found" });
+      }
+      if (!round.skinsEnabled || !round.skinsValue) {
+        return res.status(400).json({ error: "This round has no skins to pay out" });
+      }
+
+      const skins = await storage.getRoundSkins(roundId);
+      if (!skins.complete) {
+        return res.status(400).json({ error: "Skins can only be paid out once every hole is settled" });
+      }
+
+      const skinsType = await storage.getBetTypeByName("skins");
+      const roundBets = await storage.getBetsByRound(roundId);
+      if (roundBets.some((bet) => bet.betTypeId === skinsType?.id)) {
+        return res.status(409).json({ error: "Skins have already been paid out for this round" });
+      }
+
+      const payouts = await storage.payRoundSkins(roundId);
+      broadcast("skins-paid", { roundId, payouts });
+      res.json(payouts);
+    } catch (error) {
+      console.error("Skins payout error:", error);
+      res.status(500).json({ error: "Failed to pay out skins" });
+    }
+  });
+
   app.post("/api/rounds", async (req, res) => {
     try {
       const roundData = insertRoundSchema.parse(req.body);
@@ -330,7 +869,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/rounds/:id", async (req, res) => {
+  app.put("/api/rounds/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
       const roundId = parseInt(req.params.id);
       const round = await storage.getRound(roundId);
@@ -339,8 +878,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Round not found" });
       }
 
-      const updatedRound = await storage.updateRound(roundId, req.body);
+      const rangeError = holeRangeError(req.body, round);
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+
+      // Its matches are worked out again under the new settings, which a
+      // locked match's result must not be. Numeric columns read back as
+      // strings, so values are compared as text.
+      const changesScoring = ROUND_SCORING_FIELDS.some(
+        (field) => req.body[field] !== undefined && String(req.body[field] ?? "") !== String(round[field] ?? ""),
+      );
+      if (!changesScoring) {
+        const updatedRound = await storage.updateRound(roundId, req.body);
+        broadcast("round-updated", updatedRound);
+        return res.json(updatedRound);
+      }
+
+      const roundMatches = await storage.getMatchesByRound(roundId);
+      for (const match of roundMatches) {
+        if (await storage.isMatchLocked(match.id)) {
+          return res.status(423).json({
+            message: "A match in this round is locked. An admin has to unlock it before the round's scoring can change",
+          });
+        }
+      }
+
+      const clinchedBefore = await clinchedByForTournament(round.tournamentId);
+      const updatedRound = await storage.updateRoundAndMatches(roundId, req.body);
       broadcast("round-updated", updatedRound);
+      for (const match of await storage.getMatchesByRound(roundId)) {
+        broadcast("match-updated", match);
+      }
+      await broadcastTournamentScores(round.tournamentId, clinchedBefore);
       res.json(updatedRound);
     } catch (error) {
       console.error("Round update error:", error);
@@ -361,7 +931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.deleteRound(roundId);
       
       // Update tournament scores after round deletion
-      const updatedTournament = await storage.getTournament();
+      const updatedTournament = await storage.getTournament(round.tournamentId);
       if (updatedTournament) {
         broadcast("tournament-updated", updatedTournament);
       }
@@ -379,11 +949,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       ? parseInt(req.query.roundId as string)
       : undefined;
 
+    const tournamentId = tournamentIdParam(req);
+    if (Number.isNaN(tournamentId)) {
+      return res.status(400).json({ message: "Invalid tournament id" });
+    }
+
     if (roundId) {
       const matches = await storage.getMatchesByRound(roundId);
       res.json(matches);
     } else {
-      const matches = await storage.getMatches();
+      const matches = await storage.getMatches(tournamentId);
       res.json(matches);
     }
   });
@@ -413,7 +988,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(match);
   });
 
-  app.post("/api/matches", async (req, res) => {
+  app.post("/api/matches", isAuthenticated, isAdmin, async (req, res) => {
     try {
       const matchData = insertMatchSchema.parse(req.body);
       const match = await storage.createMatch(matchData);
@@ -430,7 +1005,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/matches/:id", async (req, res) => {
+  app.put("/api/matches/:id", isAuthenticated, isAdmin, async (req, res) => {
     try {
       const matchId = parseInt(req.params.id);
       const match = await storage.getMatch(matchId);
@@ -439,6 +1014,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Match not found" });
       }
 
+      const rangeError = holeRangeError(req.body, match, true);
+      if (rangeError) {
+        return res.status(400).json({ message: rangeError });
+      }
+
+      // Locking is recorded in the match's lock history, so it has its own routes
+      if (req.body.locked !== undefined || req.body.unlockedAt !== undefined) {
+        return res.status(400).json({ message: "Use the lock and unlock routes to change a match's lock" });
+      }
+
+      // A locked match can still be renamed, but not have its result changed
+      const changesResult = MATCH_RESULT_FIELDS.some(
+        (field) =>
+          req.body[field] !== undefined && JSON.stringify(req.body[field]) !== JSON.stringify(match[field] ?? null),
+      );
+      if (changesResult && (await storage.isMatchLocked(matchId))) {
+        return res.status(423).json({
+          message: "This match is locked. An admin has to unlock it before its result can change",
+        });
+      }
+
       const updatedMatch = await storage.updateMatch(matchId, req.body);
       broadcast("match-updated", updatedMatch);
       res.json(updatedMatch);
@@ -448,6 +1044,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.post("/api/matches/:id/lock", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ error: "Match not found" });
+      }
+      if (match.locked) {
+        return res.status(409).json({ error: "Match is already locked" });
+      }
+
+      const updatedMatch = await storage.lockMatch(matchId, req.user?.id ?? null);
+      broadcast("match-updated", updatedMatch);
+      res.json(updatedMatch);
+    } catch (error) {
+      console.error("Match lock error:", error);
+      res.status(500).json({ error: "Failed to lock match" });
+    }
+  });
+
+  app.post("/api/matches/:id/unlock", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const { reason } = z.object({ reason: z.string().trim().min(1) }).parse(req.body);
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ error: "Match not found" });
+      }
+      if (!match.locked) {
+        return res.status(409).json({ error: "Match is not locked" });
+      }
+
+      const updatedMatch = await storage.unlockMatch(matchId, req.user?.id ?? null, reason);
+      broadcast("match-updated", updatedMatch);
+      res.json(updatedMatch);
+    } catch (error) {
+      console.error("Match unlock error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "A reason is required to unlock a match" });
+      }
+      res.status(500).json({ error: "Failed to unlock match" });
+    }
+  });
+
+  // Every lock and unlock of the match, newest first
+  app.get("/api/matches/:id/lock-history", async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      if (isNaN(matchId)) {
+        return res.status(400).json({ message: "Invalid match ID" });
+      }
+      res.json(await storage.getMatchLockEvents(matchId));
+    } catch (error) {
+      console.error("Error fetching match lock history:", error);
+      res.status(500).json({ message: "Failed to fetch match lock history" });
+    }
+  });
+
   app.delete("/api/matches/:id", isAdmin, async (req, res) => {
     try {
       const matchId = parseInt(req.params.id);
@@ -469,7 +1124,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Update tournament scores
-      const updatedTournament = await storage.getTournament();
+      const updatedTournament = updatedRound && await storage.getTournament(updatedRound.tournamentId);
       if (updatedTournament) {
         broadcast("tournament-updated", updatedTournament);
       }
@@ -522,7 +1177,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/player-scores", async (req, res) => {
+  app.post("/api/player-scores", isAuthenticated, canScoreMatch(matchIdFromBody), unlockedMatch(matchIdFromBody), async (req, res) => {
     try {
       // Validate player score data
       const schema = z.object({
@@ -533,21 +1188,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tournamentId: z.number().optional(),
       });
       const playerScoreData = schema.parse(req.body);
+      const { expectedVersion } = expectedVersionSchema.parse(req.body);
+      if (!(await isMatchPlayer(playerScoreData.matchId, playerScoreData.playerId))) {
+        return res.status(400).json({ message: "Player is not in this match" });
+      }
 
       // Check if player score already exists
-      const existingPlayerScore = await storage.getPlayerScore(
-        playerScoreData.playerId,
-        playerScoreData.matchId,
-        playerScoreData.holeNumber
-      );
+      const findScore = () =>
+        storage.getPlayerScore(playerScoreData.playerId, playerScoreData.matchId, playerScoreData.holeNumber);
+      const existingPlayerScore = await findScore();
 
       let result;
-      if (existingPlayerScore) {
-        // Update existing score
-        result = await storage.updatePlayerScore(existingPlayerScore.id, playerScoreData);
-      } else {
-        // Create new score
-        result = await storage.createPlayerScore(playerScoreData);
+      try {
+        result = await saveAudited(
+          req,
+          () =>
+            existingPlayerScore
+              ? storage.updatePlayerScore(existingPlayerScore.id, playerScoreData, expectedVersion)
+              : storage.createPlayerScore(playerScoreData),
+          (saved) =>
+            saved
+              ? {
+                  matchId: playerScoreData.matchId,
+                  holeNumber: playerScoreData.holeNumber,
+                  playerId: playerScoreData.playerId,
+                  kind: "player",
+                  action: existingPlayerScore ? "update" : "create",
+                  previousValue: existingPlayerScore ? { score: existingPlayerScore.score } : null,
+                  newValue: { score: saved.score },
+                }
+              : null,
+        );
+      } catch (error) {
+        if (!(error instanceof StaleScoreError)) throw error;
+        const stale = await staleGolferScore(
+          playerScoreData.matchId,
+          playerScoreData.holeNumber,
+          playerScoreData.playerId,
+          await findScore(),
+        );
+        return res.status(409).json({ message: STALE_SCORE_MESSAGE, conflicts: [stale] });
+      }
+      if (!result) {
+        return res.status(404).json({ message: "Player score not found" });
       }
 
       // Broadcast player score update
@@ -565,7 +1248,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/player-scores/:id", async (req, res) => {
+  app.put("/api/player-scores/:id", isAuthenticated, canScoreMatch(matchIdOfPlayerScore), unlockedMatch(matchIdOfPlayerScore), async (req, res) => {
     try {
       const playerScoreId = parseInt(req.params.id);
       
@@ -578,9 +1261,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tournamentId: z.number().optional(),
       });
       const playerScoreData = schema.parse(req.body);
+      const { expectedVersion } = expectedVersionSchema.parse(req.body);
 
       // Update the player score
-      const updatedPlayerScore = await storage.updatePlayerScore(playerScoreId, playerScoreData);
+      const previousPlayerScore = await storage.getPlayerScoreById(playerScoreId);
+
+      // The permission and lock checks ran against the score's own match
+      if (
+        previousPlayerScore &&
+        playerScoreData.matchId !== undefined &&
+        playerScoreData.matchId !== previousPlayerScore.matchId
+      ) {
+        return res.status(400).json({ message: "A score can't be moved to another match" });
+      }
+      if (
+        previousPlayerScore &&
+        playerScoreData.playerId !== undefined &&
+        playerScoreData.playerId !== previousPlayerScore.playerId &&
+        !(await isMatchPlayer(previousPlayerScore.matchId, playerScoreData.playerId))
+      ) {
+        return res.status(400).json({ message: "Player is not in this match" });
+      }
+      let updatedPlayerScore;
+      try {
+        updatedPlayerScore = await saveAudited(
+          req,
+          () => storage.updatePlayerScore(playerScoreId, playerScoreData, expectedVersion),
+          (saved) =>
+            saved
+              ? {
+                  matchId: saved.matchId,
+                  holeNumber: saved.holeNumber,
+                  playerId: saved.playerId,
+                  kind: "player",
+                  action: "update",
+                  previousValue: previousPlayerScore ? { score: previousPlayerScore.score } : null,
+                  newValue: { score: saved.score },
+                }
+              : null,
+        );
+      } catch (error) {
+        if (!(error instanceof StaleScoreError)) throw error;
+        const current = await storage.getPlayerScoreById(playerScoreId);
+        const stale = await staleGolferScore(current.matchId, current.holeNumber, current.playerId, current);
+        return res.status(409).json({ message: STALE_SCORE_MESSAGE, conflicts: [stale] });
+      }
       
       if (!updatedPlayerScore) {
         return res.status(404).json({ message: "Player score not found" });
@@ -603,7 +1328,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/player-scores/:id", async (req, res) => {
+  app.delete("/api/player-scores/:id", isAuthenticated, canScoreMatch(matchIdOfPlayerScore), unlockedMatch(matchIdOfPlayerScore), async (req, res) => {
     try {
       const playerScoreId = parseInt(req.params.id);
       
@@ -617,7 +1342,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const matchId = playerScore.matchId;
       
       // Delete the player score
-      const result = await storage.deletePlayerScore(playerScoreId);
+      const result = await saveAudited(
+        req,
+        () => storage.deletePlayerScore(playerScoreId),
+        (deleted) =>
+          deleted
+            ? {
+                matchId,
+                holeNumber: playerScore.holeNumber,
+                playerId: playerScore.playerId,
+                kind: "player",
+                action: "delete",
+                previousValue: { score: playerScore.score },
+                newValue: null,
+              }
+            : null,
+      );
       
       if (!result) {
         return res.status(500).json({ message: "Failed to delete player score" });
@@ -633,35 +1373,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/scores", async (req, res) => {
+  app.post("/api/scores", isAuthenticated, canScoreMatch(matchIdFromBody), unlockedMatch(matchIdFromBody), async (req, res) => {
     try {
-      // Flexible validation
       const schema = z.object({
         matchId: z.number(),
         holeNumber: z.number(),
-        aviatorScore: z.number().nullable(),
-        producerScore: z.number().nullable(),
+        teamScores: teamScoresSchema,
+        expectedVersions: expectedVersionsSchema,
       });
       const scoreData = schema.parse(req.body);
 
+      const match = await storage.getMatch(scoreData.matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      const teamError = teamScoresError(scoreData.teamScores, match);
+      if (teamError) {
+        return res.status(400).json({ message: teamError });
+      }
+
       // Check if score already exists
       const existingScore = await storage.getScore(
         scoreData.matchId,
         scoreData.holeNumber,
       );
 
-      // Use a single variable for result
+      // Saving the scores also brings the match state up to date. A side
+      // changed on another phone since this one read it refuses the write.
+      const clinchedBefore = await clinchedByForMatch(scoreData.matchId);
       let resultScore;
-
-      if (existingScore) {
-        // Update existing score with automatic match state update
-        resultScore = await storage.updateScoreAndMatch(existingScore.id, scoreData);
-        broadcast("score-updated", resultScore);
-      } else {
-        // Create new score with automatic match state update
-        resultScore = await storage.createScoreAndMatch(scoreData);
-        broadcast("score-created", resultScore);
+      try {
+        resultScore = await saveAudited(
+          req,
+          () =>
+            storage.saveHoleScores(
+              scoreData.matchId,
+              scoreData.holeNumber,
+              scoreData.teamScores,
+              scoreData.expectedVersions,
+            ),
+          (saved) => ({
+            matchId: scoreData.matchId,
+            holeNumber: scoreData.holeNumber,
+            kind: "team",
+            action: existingScore ? "update" : "create",
+            previousValue: teamScoreValue(existingScore),
+            newValue: teamScoreValue(saved),
+          }),
+        );
+      } catch (error) {
+        if (!(error instanceof StaleScoreError)) throw error;
+        const conflicts = await staleTeamScores(scoreData.matchId, scoreData.holeNumber, error.subjectIds);
+        return res.status(409).json({ message: STALE_SCORE_MESSAGE, conflicts });
       }
+      broadcast(existingScore ? "score-updated" : "score-created", resultScore);
 
       // Get the updated match after state changes
       const updatedMatch = await storage.getMatch(scoreData.matchId);
@@ -680,11 +1445,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get updated tournament score
-      const tournament = await storage.getTournament();
-      if (tournament) broadcast("tournament-updated", tournament);
+      await broadcastTournamentUpdate(scoreData.matchId, clinchedBefore);
 
       // Fetch and return all scores for the match
-      const allScores = await storage.getScoresByMatch(resultScore.matchId);
+      const allScores = await storage.getScoresByMatch(scoreData.matchId);
       return res.json(allScores);
     } catch (error) {
       console.error("Error processing score update:", error);
@@ -697,29 +1461,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/scores/:id", async (req, res) => {
+  app.put("/api/scores/:id", isAuthenticated, canScoreMatch(matchIdOfScore), unlockedMatch(matchIdOfScore), async (req, res) => {
     try {
       const scoreId = parseInt(req.params.id);
 
-      // Use the same flexible validation approach
       const schema = z.object({
-        matchId: z.number().optional(),
-        holeNumber: z.number().optional(),
-        aviatorScore: z.number().nullable().optional(),
-        producerScore: z.number().nullable().optional(),
+        teamScores: teamScoresSchema,
+        expectedVersions: expectedVersionsSchema,
       });
 
       const scoreData = schema.parse(req.body);
 
-      // Use the updateScoreAndMatch method that automatically updates match state
-      const updatedScore = await storage.updateScoreAndMatch(scoreId, scoreData);
-
-      if (!updatedScore) {
+      const existingScore = await storage.getScoreById(scoreId);
+      if (!existingScore) {
         return res.status(404).json({ message: "Score not found" });
       }
 
+      const scoredMatch = await storage.getMatch(existingScore.matchId);
+      const teamError = scoredMatch ? teamScoresError(scoreData.teamScores, scoredMatch) : null;
+      if (teamError) {
+        return res.status(400).json({ message: teamError });
+      }
+
+      // Saving the scores also brings the match state up to date
+      const clinchedBefore = await clinchedByForMatch(existingScore.matchId);
+      let updatedScore;
+      try {
+        updatedScore = await saveAudited(
+          req,
+          () =>
+            storage.saveHoleScores(
+              existingScore.matchId,
+              existingScore.holeNumber,
+              scoreData.teamScores,
+              scoreData.expectedVersions,
+            ),
+          (saved) => ({
+            matchId: existingScore.matchId,
+            holeNumber: existingScore.holeNumber,
+            kind: "team",
+            action: "update",
+            previousValue: teamScoreValue(existingScore),
+            newValue: teamScoreValue(saved),
+          }),
+        );
+      } catch (error) {
+        if (!(error instanceof StaleScoreError)) throw error;
+        const conflicts = await staleTeamScores(existingScore.matchId, existingScore.holeNumber, error.subjectIds);
+        return res.status(409).json({ message: STALE_SCORE_MESSAGE, conflicts });
+      }
+
       // Get updated match to broadcast
-      const match = await storage.getMatch(updatedScore.matchId);
+      const match = await storage.getMatch(existingScore.matchId);
 
       // Broadcast updates
       broadcast("score-updated", updatedScore);
@@ -736,11 +1529,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get updated tournament score
-      const tournament = await storage.getTournament();
-      if (tournament) broadcast("tournament-updated", tournament);
+      await broadcastTournamentUpdate(existingScore.matchId, clinchedBefore);
 
       // Return the full list of scores for this match to ensure frontend has all data
-      const allScores = await storage.getScoresByMatch(updatedScore.matchId);
+      const allScores = await storage.getScoresByMatch(existingScore.matchId);
       res.json(allScores);
     } catch (error) {
       console.error("Error processing score update:", error);
@@ -753,6 +1545,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Concessions API
+  app.post("/api/matches/:id/concede-hole", isAuthenticated, canScoreMatch(matchIdFromParam("id")), unlockedMatch(matchIdFromParam("id")), async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const schema = z.object({
+        holeNumber: z.number().int().min(1),
+        // null withdraws a concession
+        concededBy: z.number().int().nullable(),
+      });
+      const { holeNumber, concededBy } = schema.parse(req.body);
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (concededBy !== null && !matchTeams(match).includes(concededBy)) {
+        return res.status(400).json({ message: "Team is not playing in this match" });
+      }
+
+      const clinchedBefore = await clinchedByForMatch(matchId);
+      const previousScore = await storage.getScore(matchId, holeNumber);
+      const score = await saveAudited(
+        req,
+        () => storage.setHoleConcession(matchId, holeNumber, concededBy),
+        (saved) => ({
+          matchId,
+          holeNumber,
+          kind: "team",
+          action: previousScore ? "update" : "create",
+          previousValue: teamScoreValue(previousScore),
+          newValue: teamScoreValue(saved),
+        }),
+      );
+      broadcast("score-updated", score);
+
+      const updatedMatch = await storage.getMatch(matchId);
+      if (updatedMatch) {
+        broadcast("match-updated", updatedMatch);
+        const round = await storage.getRound(updatedMatch.roundId);
+        if (round) {
+          const roundScores = await storage.calculateRoundScores(updatedMatch.roundId);
+          broadcast("round-updated", { ...round, ...roundScores });
+        }
+      }
+      await broadcastTournamentUpdate(matchId, clinchedBefore);
+
+      const allScores = await storage.getScoresByMatch(matchId);
+      res.json(allScores);
+    } catch (error) {
+      console.error("Error recording hole concession:", error);
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid concession data", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to record concession" });
+    }
+  });
+
+  app.post("/api/matches/:id/concede", isAuthenticated, canScoreMatch(matchIdFromParam("id")), unlockedMatch(matchIdFromParam("id")), async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const schema = z.object({
+        concededBy: z.number().int(),
+      });
+      const { concededBy } = schema.parse(req.body);
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (!matchTeams(match).includes(concededBy)) {
+        return res.status(400).json({ message: "Team is not playing in this match" });
+      }
+      if (match.status === "completed") {
+        return res.status(400).json({ message: "Match is already complete" });
+      }
+
+      const clinchedBefore = await clinchedByForMatch(matchId);
+      const updatedMatch = await saveAudited(
+        req,
+        () => storage.concedeMatch(matchId, concededBy),
+        () => ({
+          matchId,
+          holeNumber: null,
+          kind: "team",
+          action: "update",
+          previousValue: { concededByTeamId: match.concededByTeamId ?? null },
+          newValue: { concededByTeamId: concededBy },
+        }),
+      );
+      if (updatedMatch) {
+        broadcast("match-updated", updatedMatch);
+        const round = await storage.getRound(updatedMatch.roundId);
+        if (round) {
+          const roundScores = await storage.calculateRoundScores(updatedMatch.roundId);
+          broadcast("round-updated", { ...round, ...roundScores });
+        }
+      }
+      await broadcastTournamentUpdate(matchId, clinchedBefore);
+
+      res.json(updatedMatch);
+    } catch (error) {
+      console.error("Error conceding match:", error);
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid concession data", errors: error.errors });
+      }
+      return res.status(500).json({ message: "Failed to concede match" });
+    }
+  });
+
   // Holes API
   app.get("/api/holes", async (req, res) => {
     const courseId = req.query.courseId
@@ -787,6 +1692,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(team);
   });
 
+  // Adding a team lets a cup or round robin be played between more than two
+  app.post("/api/teams", isAdmin, async (req, res) => {
+    try {
+      const teamData = insertTeamSchema.parse(req.body);
+      const team = await storage.createTeam(teamData);
+      broadcast("team-created", team);
+      res.status(201).json(team);
+    } catch (error) {
+      console.error("Team creation error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid team data", details: error.errors });
+      }
+      return res.status(500).json({ error: "Failed to create team" });
+    }
+  });
+
   // Teams don't have an update feature in this version
   app.put("/api/teams/:id", async (req, res) => {
     return res.status(501).json({ message: "Team update not implemented" });
@@ -903,12 +1824,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/match-players", async (req, res) => {
+  app.post("/api/match-players", isAuthenticated, isAdmin, unlockedMatch(matchIdFromBody), async (req, res) => {
     try {
       const playerData = {
         matchId: req.body.matchId,
         playerId: req.body.playerId,
-        team: req.body.team,
+        teamId: req.body.teamId,
       };
       
       const matchPlayer = await storage.createMatchParticipant(playerData);
@@ -921,21 +1842,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.status(201).json(matchPlayer);
     } catch (error) {
-      console.error("Match player creation error:", error);
-      return res.status(500).json({ message: "Failed to create match player" });
+      console.error("Match player creation error:", error);
+      return res.status(500).json({ message: "Failed to create match player" });
+    }
+  });
+
+  app.delete("/api/match-players/:id", isAuthenticated, isAdmin, unlockedMatch(matchIdOfParticipant), async (req, res) => {
+    try {
+      const matchPlayer = await storage.deleteMatchParticipant(parseInt(req.params.id));
+      if (!matchPlayer) {
+        return res.status(404).json({ error: "Match player not found" });
+      }
+
+      const match = await storage.getMatchWithParticipants(matchPlayer.matchId);
+      if (match) {
+        broadcast("match-updated", match);
+      }
+
+      res.json(matchPlayer);
+    } catch (error) {
+      console.error("Match player deletion error:", error);
+      return res.status(500).json({ error: "Failed to delete match player" });
     }
   });
 
   // Best Ball Score API
-  app.post('/api/best-ball-scores', async (req, res) => {
+  app.post('/api/best-ball-scores', isAuthenticated, canScoreMatch(matchIdFromBody), unlockedMatch(matchIdFromBody), async (req, res) => {
     try {
       const score = insertBestBallScoreSchema.parse(req.body);
-      const result = await storage.saveBestBallScore(score);
+      const { expectedVersion } = expectedVersionSchema.parse(req.body);
+      if (!(await isMatchPlayer(score.matchId, score.playerId))) {
+        return res.status(400).json({ error: 'Player is not in this match' });
+      }
+      const clinchedBefore = await clinchedByForMatch(score.matchId);
+      const findScore = async () =>
+        (await storage.getBestBallScores(score.matchId)).find(
+          (s) => s.playerId === score.playerId && s.holeNumber === score.holeNumber,
+        );
+      const previous = await findScore();
+
+      // Same rule as team scores: refuse to overwrite a score this phone
+      // hasn't seen, unless it is writing the same score
+      let saved;
+      try {
+        saved = await saveAudited(
+          req,
+          () => storage.saveBestBallScoreAndMatch(score, expectedVersion),
+          (result) => ({
+            matchId: score.matchId,
+            holeNumber: score.holeNumber,
+            playerId: score.playerId,
+            kind: "best_ball",
+            action: previous ? "update" : "create",
+            previousValue: bestBallValue(previous),
+            newValue: bestBallValue(result),
+          }),
+        );
+      } catch (error) {
+        if (!(error instanceof StaleScoreError)) throw error;
+        const stale = await staleGolferScore(score.matchId, score.holeNumber, score.playerId, await findScore());
+        return res.status(409).json({ message: STALE_SCORE_MESSAGE, conflicts: [stale] });
+      }
       
       // Broadcast the update
-      broadcast("best-ball-score-updated", result[0]);
+      broadcast("best-ball-score-updated", saved);
+
+      // The team result for the hole is derived on the server, so push it too
+      const updatedMatch = await storage.getMatch(score.matchId);
+      if (updatedMatch) {
+        broadcast("match-updated", updatedMatch);
+        const round = await storage.getRound(updatedMatch.roundId);
+        if (round) broadcast("round-updated", round);
+        await broadcastTournamentUpdate(score.matchId, clinchedBefore);
+      }
       
-      res.json(result[0]);
+      res.json(saved);
     } catch (error) {
       console.error('Error saving best ball score:', error);
       if (error instanceof z.ZodError) {
@@ -959,7 +1940,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/best-ball-scores/:matchId/:playerId/:holeNumber', async (req, res) => {
+  // Whether the requesting user may enter this match's scores
+  app.get("/api/matches/:id/can-score", async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      if (isNaN(matchId)) {
+        return res.status(400).json({ message: "Invalid match ID" });
+      }
+      const userId = await requestUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      const canScore = user ? await storage.canUserScoreMatch(user, matchId) : false;
+      res.json({ canScore });
+    } catch (error) {
+      console.error("Error checking score permissions:", error);
+      res.status(500).json({ message: "Failed to check score permissions" });
+    }
+  });
+
+  app.get("/api/matches/:id/scorers", async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      if (isNaN(matchId)) {
+        return res.status(400).json({ message: "Invalid match ID" });
+      }
+      const scorers = await storage.getMatchScorers(matchId);
+      res.json(scorers);
+    } catch (error) {
+      console.error("Error fetching match scorers:", error);
+      res.status(500).json({ message: "Failed to fetch match scorers" });
+    }
+  });
+
+  app.post("/api/matches/:id/scorers", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const { userId } = z.object({ userId: z.number().int() }).parse(req.body);
+
+      const match = await storage.getMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ error: "Match not found" });
+      }
+      if (!(await storage.getUser(userId))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await storage.addMatchScorer(matchId, userId);
+      res.json(await storage.getMatchScorers(matchId));
+    } catch (error) {
+      console.error("Error assigning match scorer:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid scorer data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to assign scorer" });
+    }
+  });
+
+  app.delete("/api/matches/:id/scorers/:userId", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const userId = parseInt(req.params.userId);
+      if (isNaN(matchId) || isNaN(userId)) {
+        return res.status(400).json({ error: "Invalid match or user ID" });
+      }
+
+      await storage.removeMatchScorer(matchId, userId);
+      res.json(await storage.getMatchScorers(matchId));
+    } catch (error) {
+      console.error("Error removing match scorer:", error);
+      res.status(500).json({ error: "Failed to remove scorer" });
+    }
+  });
+
+  // Every change to the match's scores, newest first
+  app.get("/api/matches/:id/score-history", async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      if (isNaN(matchId)) {
+        return res.status(400).json({ message: "Invalid match ID" });
+      }
+      const events = await storage.getScoreEvents(matchId);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching score history:", error);
+      res.status(500).json({ message: "Failed to fetch score history" });
+    }
+  });
+
+  app.delete('/api/best-ball-scores/:matchId/:playerId/:holeNumber', isAuthenticated, canScoreMatch(matchIdFromParam("matchId")), unlockedMatch(matchIdFromParam("matchId")), async (req, res) => {
     try {
       const matchId = parseInt(req.params.matchId);
       const playerId = parseInt(req.params.playerId);
@@ -969,10 +2036,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Invalid parameters' });
       }
       
-      await storage.deleteBestBallScore(matchId, playerId, holeNumber);
+      const previous = (await storage.getBestBallScores(matchId)).find(
+        (s) => s.playerId === playerId && s.holeNumber === holeNumber,
+      );
+      await saveAudited(
+        req,
+        () => storage.deleteBestBallScoreAndMatch(matchId, playerId, holeNumber),
+        () =>
+          previous
+            ? {
+                matchId,
+                holeNumber,
+                playerId,
+                kind: "best_ball",
+                action: "delete",
+                previousValue: bestBallValue(previous),
+                newValue: null,
+              }
+            : null,
+      );
       
       // Broadcast the deletion
       broadcast("best-ball-score-deleted", { matchId, playerId, holeNumber });
+
+      const updatedMatch = await storage.getMatch(matchId);
+      if (updatedMatch) broadcast("match-updated", updatedMatch);
       
       res.json({ success: true });
     } catch (error) {
@@ -1132,6 +2220,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Round not found" });
       }
 
+      const rangeError = holeRangeError(req.body, round);
+      if (rangeError) {
+        return res.status(400).json({ error: rangeError });
+      }
+
       const updatedRound = await storage.updateRound(roundId, req.body);
       broadcast("round-updated", updatedRound);
       res.json(updatedRound);
@@ -1168,6 +2261,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Match not found" });
       }
 
+      const rangeError = holeRangeError(req.body, match, true);
+      if (rangeError) {
+        return res.status(400).json({ error: rangeError });
+      }
+
       const updatedMatch = await storage.updateMatch(matchId, req.body);
       broadcast("match-updated", updatedMatch);
       res.json(updatedMatch);
@@ -1198,6 +2296,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Import the roster's handicap indices from CSV
+  app.post("/api/admin/handicap-indexes/import", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { csv, effectiveDate } = req.body;
+      if (typeof csv !== "string" || !csv.trim()) {
+        return res.status(400).json({ error: "CSV text is required" });
+      }
+
+      const { rows, errors } = parseHandicapCsv(
+        csv,
+        effectiveDate || new Date().toISOString().split("T")[0],
+      );
+      const result = await storage.importHandicapIndexes(rows);
+
+      broadcast("player-updated", { type: "handicap-import" });
+      res.json({ ...result, errors });
+    } catch (error) {
+      console.error("Handicap import error:", error);
+      res.status(500).json({ error: "Failed to import handicap indexes" });
+    }
+  });
+
   // Delete all players - Must come BEFORE the specific ID endpoint to avoid route conflicts
   app.delete("/api/admin/players/all", isAuthenticated, isAdmin, async (req, res) => {
     try {
@@ -1281,12 +2401,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use the new deleteRound method to fully remove the round from the database
       await storage.deleteRound(roundId);
       
-      // Recalculate tournament scores
-      const tournamentScores = await storage.calculateTournamentScores();
-      const tournament = await storage.getTournament();
-      if (tournament) {
-        await storage.updateTournament(tournament.id, tournamentScores);
-      }
+      // Tournament scores are worked out on read, so clients only need telling
+      const tournament = await storage.getTournament(round.tournamentId);
+      if (tournament) broadcast("tournament-updated", tournament);
       
       broadcast("round-deleted", { id: roundId });
       res.status(200).json({ message: "Round has been deleted" });
@@ -1299,35 +2416,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete all matches
   app.delete("/api/admin/matches/all", isAdmin, async (req, res) => {
     try {
-      // Delete all scores first (cascade delete)
-      const scores = await storage.getScores();
-      for (const score of scores) {
-        await storage.updateScore(score.id, {
-          matchId: score.matchId,
-          aviatorScore: null,
-          producerScore: null,
-          winningTeam: null,
-        });
-      }
-
-      // Delete all matches
+      // Delete all matches along with their scores
       const matches = await storage.getMatches();
       for (const match of matches) {
         await storage.deleteMatch(match.id);
       }
 
-      // Recalculate round scores
+      // Round and tournament totals are worked out from the matches, so
+      // only the completion flags need resetting
       const rounds = await storage.getRounds();
       for (const round of rounds) {
-        const scores = await storage.calculateRoundScores(round.id);
-        await storage.updateRound(round.id, { ...scores, isComplete: false });
-      }
-
-      // Recalculate tournament scores
-      const tournamentScores = await storage.calculateTournamentScores();
-      const tournament = await storage.getTournament();
-      if (tournament) {
-        await storage.updateTournament(tournament.id, tournamentScores);
+        await storage.updateRound(round.id, { isComplete: false });
       }
 
       broadcast("data-reset", { type: "matches-deleted" });
@@ -1341,44 +2440,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete all scores
   app.delete("/api/admin/scores/all", isAdmin, async (req, res) => {
     try {
-      const scores = await storage.getScores();
-      for (const score of scores) {
-        await storage.updateScore(score.id, {
-          matchId: score.matchId,
-          aviatorScore: null,
-          producerScore: null,
-          winningTeam: null,
-        });
-      }
-
-      // Reset match stats
+      // A lock freezes a match's scores, clearing them included
       const matches = await storage.getMatches();
       for (const match of matches) {
-        await storage.updateMatch(match.id, {
-          currentHole: 1,
-          leadingTeam: null,
-          leadAmount: 0,
-          result: null,
-        });
+        if (await storage.isMatchLocked(match.id)) {
+          return res.status(423).json({
+            error: "Some matches are locked. Unlock them before clearing all scores",
+          });
+        }
       }
 
-      // Recalculate round scores
-      const rounds = await storage.getRounds();
-      for (const round of rounds) {
-        const { aviatorScore, producerScore } =
-          await storage.calculateRoundScores(round.id);
-        await storage.updateRound(round.id, {
-          aviatorScore,
-          producerScore,
-        });
-      }
+      // Each cleared hole goes in its match's score history
+      const userId = await requestUserId(req);
+      await inTransaction(async () => {
+        const cleared = await storage.getScores();
+        await storage.clearAllScores();
+        for (const score of cleared) {
+          if (Object.values(score.teamScores).every((value) => value === null)) continue;
+          await storage.recordScoreEvent({
+            matchId: score.matchId,
+            holeNumber: score.holeNumber,
+            kind: "team",
+            action: "delete",
+            previousValue: teamScoreValue(score),
+            newValue: null,
+            userId,
+          });
+        }
 
-      // Recalculate tournament scores
-      const tournamentScores = await storage.calculateTournamentScores();
-      const tournament = await storage.getTournament();
-      if (tournament) {
-        await storage.updateTournament(tournament.id, tournamentScores);
-      }
+        // Reset match stats; round and tournament totals follow from them
+        for (const match of matches) {
+          await storage.updateMatch(match.id, {
+            currentHole: 1,
+            leadingTeamId: null,
+            leadAmount: 0,
+            result: null,
+          });
+        }
+      });
 
       broadcast("data-reset", { type: "scores-deleted" });
       res.status(200).json({ message: "All scores have been deleted" });
@@ -1412,36 +2511,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.updateMatch(match.id, {
           status: "in_progress",
           currentHole: 1,
-          leadingTeam: null,
+          leadingTeamId: null,
           leadAmount: 0,
           result: null,
         });
       }
 
       // Also reset scores
-      const scores = await storage.getScores();
-      for (const score of scores) {
-        await storage.updateScore(score.id, {
-          matchId: score.matchId,
-          aviatorScore: null,
-          producerScore: null,
-          winningTeam: null,
-          matchStatus: null,
-        });
-      }
+      await storage.clearAllScores();
 
-      // Recalculate round scores
       const rounds = await storage.getRounds();
       for (const round of rounds) {
-        const scores = await storage.calculateRoundScores(round.id);
-        await storage.updateRound(round.id, { ...scores, isComplete: false });
-      }
-
-      // Recalculate tournament scores
-      const tournamentScores = await storage.calculateTournamentScores();
-      const tournament = await storage.getTournament();
-      if (tournament) {
-        await storage.updateTournament(tournament.id, tournamentScores);
+        await storage.updateRound(round.id, { isComplete: false });
       }
 
       broadcast("data-reset", { type: "matches-reset" });
@@ -1474,7 +2555,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Handicap System Routes
 
-  // Update player's course handicap for a specific round
+  // Override player's calculated course handicap for a specific round
   app.put("/api/players/:id/course-handicap", isAdmin, async (req, res) => {
     try {
       const playerId = parseInt(req.params.id);
@@ -1501,6 +2582,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Clear a course handicap override so the calculated value applies again
+  app.delete("/api/players/:id/course-handicap", isAdmin, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const roundId = parseInt(req.query.roundId as string);
+
+      if (isNaN(playerId) || isNaN(roundId)) {
+        return res.status(400).json({ error: "Invalid parameters. Require playerId and roundId." });
+      }
+
+      const deleted = await storage.deletePlayerCourseHandicap(playerId, roundId);
+      if (!deleted) {
+        return res.status(404).json({ error: "No course handicap override found" });
+      }
+
+      res.json(await storage.getPlayerCourseHandicap(playerId, roundId));
+    } catch (error) {
+      console.error("Error clearing player course handicap:", error);
+      res.status(500).json({ error: "Failed to clear player course handicap" });
+    }
+  });
+
+  // Get the tee sets a course can be played from
+  app.get("/api/courses/:id/tee-sets", async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      const teeSets = await storage.getTeeSetsByCourse(courseId);
+      res.json(teeSets);
+    } catch (error) {
+      console.error("Error fetching tee sets:", error);
+      res.status(500).json({ error: "Failed to fetch tee sets" });
+    }
+  });
+
+  // Add a tee set to a course
+  app.post("/api/courses/:id/tee-sets", isAdmin, async (req, res) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ error: "Invalid course ID" });
+      }
+
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+
+      const teeSetData = insertTeeSetSchema.parse({
+        ...req.body,
+        courseId,
+        courseRating: req.body.courseRating?.toString(),
+      });
+      const teeSet = await storage.createTeeSet(teeSetData);
+      res.status(201).json(teeSet);
+    } catch (error) {
+      console.error("Error creating tee set:", error);
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid tee set data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create tee set" });
+    }
+  });
+
+  // Update a tee set's name or ratings
+  app.put("/api/tee-sets/:id", isAdmin, async (req, res) => {
+    try {
+      const teeSetId = parseInt(req.params.id);
+      if (isNaN(teeSetId)) {
+        return res.status(400).json({ error: "Invalid tee set ID" });
+      }
+
+      const teeSetData = insertTeeSetSchema
+        .omit({ id: true, courseId: true })
+        .partial()
+        .parse({
+          ...req.body,
+          courseRating: req.body.courseRating?.toString(),
+        });
+      const teeSet = await storage.updateTeeSet(teeSetId, teeSetData);
+      if (!teeSet) {
+        return res.status(404).json({ error: "Tee set not found" });
+      }
+
+      res.json(teeSet);
+    } catch (error) {
+      console.error("Error updating tee set:", error);
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid tee set data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update tee set" });
+    }
+  });
+
+  // Remove a tee set; rounds using it fall back to the course's ratings
+  app.delete("/api/tee-sets/:id", isAdmin, async (req, res) => {
+    try {
+      const teeSetId = parseInt(req.params.id);
+      if (isNaN(teeSetId)) {
+        return res.status(400).json({ error: "Invalid tee set ID" });
+      }
+
+      const deleted = await storage.deleteTeeSet(teeSetId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Tee set not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting tee set:", error);
+      res.status(500).json({ error: "Failed to delete tee set" });
+    }
+  });
+
   // Update course ratings
   app.put("/api/courses/:id/ratings", isAdmin, async (req, res) => {
     try {
@@ -1559,6 +2761,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get a player's handicap index revisions, oldest first
+  app.get("/api/players/:id/handicap-history", async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      
+      if (isNaN(playerId)) {
+        return res.status(400).json({ error: "Invalid playerId" });
+      }
+      
+      const history = await storage.getHandicapIndexHistory(playerId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error getting handicap index history:", error);
+      res.status(500).json({ error: "Failed to get handicap index history" });
+    }
+  });
+
+  // Record a handicap index revision for a player
+  app.post("/api/players/:id/handicap-history", isAdmin, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      
+      if (isNaN(playerId)) {
+        return res.status(400).json({ error: "Invalid playerId" });
+      }
+      
+      const player = await storage.getPlayer(playerId);
+      if (!player) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      
+      const revision = insertHandicapIndexHistorySchema.parse({
+        ...req.body,
+        playerId,
+        handicapIndex: req.body.handicapIndex?.toString(),
+      });
+      const created = await storage.addHandicapIndexRevision(revision);
+      broadcast("player-updated", await storage.getPlayer(playerId));
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error adding handicap index revision:", error);
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ error: "Invalid handicap index revision", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to add handicap index revision" });
+    }
+  });
+
+  // Remove a handicap index revision
+  app.delete("/api/handicap-history/:id", isAdmin, async (req, res) => {
+    try {
+      const revisionId = parseInt(req.params.id);
+      
+      if (isNaN(revisionId)) {
+        return res.status(400).json({ error: "Invalid revision ID" });
+      }
+      
+      const deleted = await storage.deleteHandicapIndexRevision(revisionId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Handicap index revision not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting handicap index revision:", error);
+      res.status(500).json({ error: "Failed to delete handicap index revision" });
+    }
+  });
+
   // Get all player handicaps for a specific round
   app.get("/api/round-handicaps/:roundId", async (req, res) => {
     try {
@@ -1574,7 +2846,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Round not found" });
       }
       
-      // Get all player handicaps for this round
+      // Get every player's course handicap for this round, with its source
+      // ("override", "calculated" from index and tees, or "none")
       const handicaps = await storage.getAllPlayerCourseHandicaps(roundId);
       res.json(handicaps);
     } catch (error) {
@@ -1583,6 +2856,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the allowance-adjusted playing handicaps for everyone in a match
+  app.get("/api/matches/:id/playing-handicaps", async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      
+      if (isNaN(matchId)) {
+        return res.status(400).json({ error: "Invalid matchId" });
+      }
+      
+      const playingHandicaps = await storage.getMatchPlayingHandicaps(matchId);
+      if (!playingHandicaps) {
+        return res.status(404).json({ error: "Match not found" });
+      }
+      res.json(playingHandicaps);
+    } catch (error) {
+      console.error("Error getting match playing handicaps:", error);
+      res.status(500).json({ error: "Failed to get match playing handicaps" });
+    }
+  });
+
   // Get player's handicap strokes for a specific hole in a round
   app.get("/api/rounds/:roundId/players/:playerId/holes/:holeNumber/strokes", async (req, res) => {
     try {
@@ -1594,7 +2887,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid parameters" });
       }
       
-      const strokes = await storage.getHoleHandicapStrokes(playerId, roundId, holeNumber);
+      // Strokes are for the player's match in this round; pass matchId to pick one
+      const matchId = req.query.matchId ? parseInt(req.query.matchId as string) : undefined;
+      if (matchId !== undefined && isNaN(matchId)) {
+        return res.status(400).json({ error: "Invalid matchId" });
+      }
+      
+      const strokes = await storage.getHoleHandicapStrokes(playerId, roundId, holeNumber, matchId);
       res.json({ strokes });
     } catch (error) {
       console.error("Error getting hole handicap strokes:", error);
@@ -1699,6 +2998,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get a player's scoring breakdown for one tournament, or their career without ?tournamentId
+  app.get("/api/players/:playerId/scoring-stats", async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.playerId);
+      const tournamentId = tournamentIdParam(req);
+
+      if (isNaN(playerId) || Number.isNaN(tournamentId)) {
+        return res.status(400).json({ error: "Invalid player ID or tournament ID" });
+      }
+
+      const player = await storage.getPlayer(playerId);
+      if (!player) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+
+      const stats = await storage.getPlayerScoringStats(playerId, tournamentId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error getting player scoring stats:", error);
+      res.status(500).json({ error: "Failed to get player scoring stats" });
+    }
+  });
+
   // Get player's matchups against other players
   app.get("/api/players/:playerId/matchups", async (req, res) => {
     try {
@@ -1736,7 +3058,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin: Update tournament history (recalculate and store current tournament statistics)
   app.post("/api/admin/tournament-history/update", isAdmin, async (req, res) => {
     try {
-      const tournament = await storage.getTournament();
+      const tournamentId = tournamentIdParam(req);
+      if (Number.isNaN(tournamentId)) {
+        return res.status(400).json({ error: "Invalid tournament id" });
+      }
+
+      const tournament = await storage.getTournament(tournamentId);
       
       if (!tournament) {
         return res.status(404).json({ error: "Tournament not found" });
@@ -1754,6 +3081,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: Replay every score to regenerate match states, player stats and
+  // tournament history. Safe to run repeatedly.
+  app.post("/api/admin/rebuild", isAdmin, async (req, res) => {
+    try {
+      const report = await storage.rebuildDerivedData();
+      broadcast("data-rebuilt", { matchesReplayed: report.matchesReplayed, changes: report.changes.length });
+      res.json(report);
+    } catch (error) {
+      console.error("Error rebuilding derived data:", error);
+      res.status(500).json({ error: "Failed to rebuild" });
+    }
+  });
+
   // Sportsbook API endpoints
   
   // Bet Types API
@@ -1,19 +1,22 @@
 // server/storage.ts
 
-import { db } from "./db";
-import { eq, and, isNull, not, sql, or, desc, count } from "drizzle-orm";
+import { db, inTransaction } from "./db";
+import { eq, and, isNull, not, sql, or, desc, asc, count, lt, lte, inArray } from "drizzle-orm";
 import {
   users,
   players,
   teams,
   matches,
   scores,
+  team_scores,
   match_players,
   rounds,
   tournament,
   holes,
   courses,
+  tee_sets,
   player_course_handicaps,
+  handicap_index_history,
   tournament_player_stats,
   tournament_history,
   player_career_stats,
@@ -26,9 +29,18 @@ import {
   betting_ledger,
   player_scores,
   best_ball_player_scores,
+  score_events,
+  match_scorers,
+  match_lock_events,
   InsertPlayerMatchup,
   InsertBestBallScore,
+  HoleScore,
+  Score,
   BestBallScore,
+  TeeSet,
+  InsertTeeSet,
+  HandicapIndexHistory,
+  InsertHandicapIndexHistory,
   Bet,
   InsertBet,
   BetType,
@@ -38,8 +50,92 @@ import {
   BetSettlement,
   InsertBetSettlement,
   LedgerEntry,
-  InsertLedgerEntry
+  InsertLedgerEntry,
+  ScoreEvent,
+  InsertScoreEvent,
+  MatchLockEvent,
+  MatchScorer,
+  Round
 } from "@shared/schema";
+import {
+  allowanceFor,
+  calculateHandicapStrokes,
+  calculateMatchState,
+  calculateNassauState,
+  concedeMatchState,
+  concedeNassauState,
+  courseHandicapFromIndex,
+  hasTeeRating,
+  getMatchFormat,
+  isPlayoffHole,
+  matchTeams,
+  matchStatusThroughHole,
+  opposingTeam,
+  pointsAvailableForResult,
+  pointsForResult,
+  playingHandicaps,
+  pointValuesFor,
+  PLAYOFF_START_HOLE,
+  playoffCourseHole,
+  resolveHoleRange,
+  resolvePlayoff,
+  scoreHoles,
+  sidePlayingHandicaps,
+  toNassauLegResults,
+  withSideStrokes,
+  CourseHandicapSource,
+  MatchGolfer,
+  MatchTeams,
+  NassauLegResult,
+  PlayerHoleScore,
+  TeamHoleScore,
+  TeamId,
+  TeamPoints,
+  TeamStanding,
+  rankStandings,
+  holeCount,
+  nassauLegRanges,
+  projectCup,
+  projectMatchOdds,
+  remainingStrokeEdge,
+  calculateCupStatus,
+  CupProjection,
+  CupStatus,
+  HoleRange,
+  MatchOdds,
+  NassauLeg,
+  NASSAU_LEGS,
+  OpenResult,
+  ProjectedResult,
+  combineStrokePlayEntries,
+  isHoleInRange,
+  rankLeaderboard,
+  strokePlayEntry,
+  LeaderboardEntry,
+  LeaderboardType,
+  StrokePlayHole,
+  calculateSkins,
+  RoundSkins,
+  SkinsHoleScore,
+  SkinsType,
+  calculateScoringStats,
+  ScoringHole,
+  ScoringStats
+} from "@shared/scoring";
+import { diffSnapshots, type DerivedSnapshot, type RebuildReport } from "./lib/rebuild";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * A score write made against a version another phone has since replaced.
+ * Nothing from the write is kept.
+ */
+export class StaleScoreError extends Error {
+  // The teams or golfers whose score had moved on
+  constructor(readonly subjectIds: number[]) {
+    super("Score was changed since it was read");
+  }
+}
 
 export interface IStorage {
   // Course methods
@@ -51,6 +147,13 @@ export interface IStorage {
   getHoles(): Promise<any[]>;
   getHolesByCourse(courseId: number): Promise<any[]>;
   createHole(data: any): Promise<any>;
+
+  // Tee set methods
+  getTeeSetsByCourse(courseId: number): Promise<TeeSet[]>;
+  getTeeSet(id: number): Promise<TeeSet | undefined>;
+  createTeeSet(data: InsertTeeSet): Promise<TeeSet>;
+  updateTeeSet(id: number, data: Partial<InsertTeeSet>): Promise<TeeSet | undefined>;
+  deleteTeeSet(id: number): Promise<boolean>;
   
   // User methods
   getUsers(): Promise<any[]>;
@@ -71,17 +174,19 @@ export interface IStorage {
   // Team methods
   getTeams(): Promise<any[]>;
   getTeam(id: number): Promise<any | undefined>;
+  createTeam(data: any): Promise<any>;
 
   // Round methods
-  getRounds(): Promise<any[]>;
+  getRounds(tournamentId?: number): Promise<any[]>;
   getRound(id: number): Promise<any | undefined>;
   createRound(data: any): Promise<any>;
   updateRound(id: number, data: Partial<any>): Promise<any | undefined>;
+  updateRoundAndMatches(id: number, data: Partial<any>): Promise<any | undefined>;
   deleteRound(id: number): Promise<void>;
   deleteAllRounds(): Promise<void>;
 
   // Match methods
-  getMatches(): Promise<any[]>;
+  getMatches(tournamentId?: number): Promise<any[]>;
   getMatch(id: number): Promise<any | undefined>;
   getMatchWithParticipants(id: number): Promise<any | undefined>;
   getMatchesByRound(roundId: number): Promise<any[]>;
@@ -92,15 +197,25 @@ export interface IStorage {
   // Match participant methods
   getMatchParticipants(matchId: number): Promise<any[]>;
   createMatchParticipant(data: any): Promise<any>;
+  getMatchParticipant(id: number): Promise<any | undefined>;
+  deleteMatchParticipant(id: number): Promise<any | undefined>;
 
   // Score methods
-  getScores(): Promise<any[]>;
-  getScore(matchId: number, holeNumber: number): Promise<any | undefined>;
-  getScoresByMatch(matchId: number): Promise<any[]>;
+  getScores(): Promise<HoleScore[]>;
+  getScore(matchId: number, holeNumber: number): Promise<HoleScore | undefined>;
+  getScoreById(id: number): Promise<HoleScore | undefined>;
+  getScoresByMatch(matchId: number): Promise<HoleScore[]>;
   createScore(data: any): Promise<any>;
   updateScore(id: number, data: Partial<any>): Promise<any | undefined>;
-  updateScoreAndMatch(id: number, data: Partial<any>): Promise<any>;
-  createScoreAndMatch(data: any): Promise<any>;
+  clearAllScores(): Promise<void>;
+  saveHoleScores(
+    matchId: number,
+    holeNumber: number,
+    teamScores: Record<TeamId, number | null>,
+    expectedVersions?: Record<TeamId, number>,
+  ): Promise<HoleScore | undefined>;
+  setHoleConcession(matchId: number, holeNumber: number, concededBy: TeamId | null): Promise<any>;
+  concedeMatch(matchId: number, concededBy: TeamId): Promise<any>;
   
   // Player Score methods
   getPlayerScores(): Promise<any[]>;
@@ -110,29 +225,58 @@ export interface IStorage {
   getPlayerScoresByPlayer(playerId: number): Promise<any[]>;
   getPlayerScoresByPlayerAndMatch(playerId: number, matchId: number): Promise<any[]>;
   createPlayerScore(data: any): Promise<any>;
-  updatePlayerScore(id: number, data: Partial<any>): Promise<any | undefined>;
+  updatePlayerScore(id: number, data: Partial<any>, expectedVersion?: number): Promise<any | undefined>;
   deletePlayerScore(id: number): Promise<boolean>;
 
   // Tournament methods
-  getTournament(): Promise<any | undefined>;
+  getTournaments(): Promise<any[]>;
+  getTournament(id?: number): Promise<any | undefined>;
   createTournament(data: any): Promise<any>;
   updateTournament(id: number, data: Partial<any>): Promise<any | undefined>;
+  setActiveTournament(id: number): Promise<any | undefined>;
 
   // Calculation methods
+  getTournamentTeamIds(tournamentId: number): Promise<TeamId[]>;
   calculateRoundScores(roundId: number): Promise<{
-    aviatorScore: number;
-    producerScore: number;
-    pendingAviatorScore: number;
-    pendingProducerScore: number;
+    teamScores: TeamPoints[];
+    pointsAvailable: number;
   }>;
 
-  calculateTournamentScores(): Promise<{
-    aviatorScore: number;
-    producerScore: number;
-    pendingAviatorScore: number;
-    pendingProducerScore: number;
+  calculateTournamentScores(tournamentId?: number): Promise<{
+    teamIds: TeamId[];
+    teamScores: TeamPoints[];
+    pointsAvailable: number;
+    standings: TeamStanding[];
   }>;
 
+  calculateCupStatus(tournamentId?: number): Promise<CupStatus & { tournamentId: number }>;
+
+  calculateTournamentProjection(tournamentId?: number): Promise<
+    CupProjection & {
+      tournamentId: number;
+      matches: { matchId: number; roundId: number; leg: NassauLeg | null; teams: MatchTeams; odds: MatchOdds }[];
+    }
+  >;
+
+  // Individual stroke-play leaderboards
+  getRoundLeaderboard(roundId: number, type: LeaderboardType): Promise<(LeaderboardEntry & { playerName: string })[]>;
+  getTournamentLeaderboard(
+    type: LeaderboardType,
+    tournamentId?: number,
+  ): Promise<(LeaderboardEntry & { playerName: string })[]>;
+
+  // Scoring breakdowns from each golfer's own gross scores: one tournament,
+  // or a whole career when no tournament is given
+  getPlayerScoringStats(
+    playerId: number,
+    tournamentId?: number,
+  ): Promise<ScoringStats & { playerId: number; tournamentId: number | null }>;
+  getTournamentScoringStats(tournamentId?: number): Promise<(ScoringStats & { playerId: number; playerName: string })[]>;
+
+  // Skins across the round's field, and paying them into the betting ledger
+  getRoundSkins(roundId: number): Promise<RoundSkins>;
+  payRoundSkins(roundId: number): Promise<Bet[]>;
+
   calculatePlayerStats(
     tournamentId: number,
     playerId: number,
@@ -168,14 +312,25 @@ export interface IStorage {
   calculateAndUpdatePlayerStats(playerId: number, tournamentId: number): Promise<any>;
   calculateAndUpdateAllPlayerStats(tournamentId: number): Promise<any[]>;
   updateTournamentHistory(tournamentId: number): Promise<any>;
+  // Replays every score to regenerate match states, player stats and
+  // tournament history, reporting what changed
+  rebuildDerivedData(): Promise<RebuildReport>;
 
   // Handicap system methods
   updateCourseRatings(courseId: number, data: { courseRating: number, slopeRating: number, par: number }): Promise<any>;
   updateHoleHandicapRank(holeId: number, handicapRank: number): Promise<any>;
   calculateCourseHandicap(playerId: number, roundId: number): Promise<number>;
   getPlayerCourseHandicap(playerId: number, roundId: number): Promise<any>;
-  getHoleHandicapStrokes(playerId: number, roundId: number, holeNumber: number): Promise<number>;
+  getMatchPlayingHandicaps(matchId: number): Promise<any | undefined>;
+  getHoleHandicapStrokes(playerId: number, roundId: number, holeNumber: number, matchId?: number): Promise<number>;
   storePlayerCourseHandicap(playerId: number, roundId: number, courseHandicap: number): Promise<any>;
+  deletePlayerCourseHandicap(playerId: number, roundId: number): Promise<boolean>;
+  getHandicapIndexHistory(playerId: number): Promise<HandicapIndexHistory[]>;
+  addHandicapIndexRevision(data: InsertHandicapIndexHistory): Promise<HandicapIndexHistory>;
+  deleteHandicapIndexRevision(id: number): Promise<boolean>;
+  importHandicapIndexes(
+    rows: { name: string; handicapIndex: number; effectiveDate: string }[],
+  ): Promise<{ imported: number; skipped: { name: string; reason: string }[] }>;
   getAllPlayerCourseHandicaps(roundId: number): Promise<any[]>;
   
   // Sportsbook methods - Bet Types
@@ -218,9 +373,33 @@ export interface IStorage {
   getUserBalance(userId: number): Promise<{ owed: number, owing: number, net: number }>;
   
   // Best Ball Score methods
-  saveBestBallScore(score: InsertBestBallScore): Promise<any>;
+  saveBestBallScore(score: InsertBestBallScore, expectedVersion?: number): Promise<any>;
   getBestBallScores(matchId: number): Promise<any[]>;
   deleteBestBallScore(matchId: number, playerId: number, holeNumber: number): Promise<any>;
+  saveBestBallScoreAndMatch(score: InsertBestBallScore, expectedVersion?: number): Promise<any>;
+  deleteBestBallScoreAndMatch(matchId: number, playerId: number, holeNumber: number): Promise<any>;
+
+  // Who may enter a match's scores besides its players and the admins
+  getMatchScorers(matchId: number): Promise<{ userId: number; username: string }[]>;
+  addMatchScorer(matchId: number, userId: number): Promise<MatchScorer>;
+  removeMatchScorer(matchId: number, userId: number): Promise<boolean>;
+  canUserScoreMatch(user: { id: number; isAdmin: boolean; playerId: number | null }, matchId: number): Promise<boolean>;
+
+  // Score audit trail, newest first
+  recordScoreEvent(data: InsertScoreEvent): Promise<ScoreEvent>;
+  getScoreEvents(matchId: number): Promise<(ScoreEvent & { username: string | null })[]>;
+  getLastScoreEditor(
+    matchId: number,
+    holeNumber: number,
+    playerId?: number,
+  ): Promise<{ username: string | null; teamId: number | null } | undefined>;
+
+  // Locked matches take no score changes; unlocking needs a reason
+  isMatchLocked(matchId: number): Promise<boolean>;
+  lockMatch(matchId: number, userId: number | null): Promise<any>;
+  unlockMatch(matchId: number, userId: number | null, reason: string): Promise<any>;
+  autoLockCompletedMatches(): Promise<number[]>;
+  getMatchLockEvents(matchId: number): Promise<(MatchLockEvent & { username: string | null })[]>;
   
   initializeData(): Promise<void>;
 }
@@ -327,7 +506,10 @@ export class DBStorage implements IStorage {
       const playerData = { ...data };
       
       // Ensure handicapIndex is properly typed for database
-      if (playerData.handicapIndex !== undefined && playerData.handicapIndex !== null) {
+      if (playerData.handicapIndex === "") {
+        // A cleared field means the player has no index
+        playerData.handicapIndex = null;
+      } else if (playerData.handicapIndex !== undefined && playerData.handicapIndex !== null) {
         // Make sure it's saved as a number in the database
         playerData.handicapIndex = typeof playerData.handicapIndex === 'string' 
           ? parseFloat(playerData.handicapIndex) 
@@ -340,6 +522,15 @@ export class DBStorage implements IStorage {
         userId: user.id // Link player to user
       }).returning();
 
+      // Start the player's index history
+      if (player.handicapIndex !== null && player.handicapIndex !== undefined) {
+        await tx.insert(handicap_index_history).values({
+          playerId: player.id,
+          handicapIndex: player.handicapIndex,
+          effectiveDate: new Date().toISOString().split('T')[0],
+        });
+      }
+
       // Update the user with the player reference to create bi-directional link
       await tx.update(users)
         .set({ playerId: player.id })
@@ -356,19 +547,38 @@ export class DBStorage implements IStorage {
     const playerData = { ...data };
     
     // Ensure handicapIndex is properly typed for database
-    if (playerData.handicapIndex !== undefined && playerData.handicapIndex !== null) {
+    if (playerData.handicapIndex === "") {
+      // A cleared field means the player has no index
+      playerData.handicapIndex = null;
+    } else if (playerData.handicapIndex !== undefined && playerData.handicapIndex !== null) {
       // Make sure it's saved as a number in the database
       playerData.handicapIndex = typeof playerData.handicapIndex === 'string' 
         ? parseFloat(playerData.handicapIndex) 
         : Number(playerData.handicapIndex);
     }
     
+    const previous = playerData.handicapIndex !== undefined ? await this.getPlayer(id) : undefined;
+
     const [updatedPlayer] = await db
       .update(players)
       .set(playerData)
       .where(eq(players.id, id))
       .returning();
 
+    // A changed index is recorded as a revision effective today
+    if (
+      updatedPlayer &&
+      updatedPlayer.handicapIndex !== null &&
+      previous &&
+      (previous.handicapIndex === null || Number(previous.handicapIndex) !== Number(updatedPlayer.handicapIndex))
+    ) {
+      await db.insert(handicap_index_history).values({
+        playerId: id,
+        handicapIndex: updatedPlayer.handicapIndex,
+        effectiveDate: new Date().toISOString().split('T')[0],
+      });
+    }
+
     // If player name has changed, update the associated user's name too
     if (data.name && updatedPlayer.userId) {
       const username = data.name.toLowerCase().replace(/\s+/g, '');
@@ -401,6 +611,11 @@ export class DBStorage implements IStorage {
           .delete(match_players)
           .where(eq(match_players.playerId, id));
 
+        // Delete the player's handicap index history
+        await db
+          .delete(handicap_index_history)
+          .where(eq(handicap_index_history.playerId, id));
+
         // Delete the player
         await db
           .delete(players)
@@ -444,6 +659,9 @@ export class DBStorage implements IStorage {
         // Delete all match participants (foreign key constraint)
         await tx.delete(match_players);
 
+        // Delete all handicap index history (foreign key constraint)
+        await tx.delete(handicap_index_history);
+
         // Then delete all players
         await tx.delete(players);
 
@@ -477,13 +695,20 @@ export class DBStorage implements IStorage {
     return row;
   }
 
+  async createTeam(data: any) {
+    const [row] = await db.insert(teams).values(data).returning();
+    return row;
+  }
+
   // Rounds
-  async getRounds() {
+  async getRounds(tournamentId?: number) {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+
     // First get the basic rounds data
     const roundsData = await db
       .select()
       .from(rounds)
-      .where(isNull(rounds.status));
+      .where(and(isNull(rounds.status), eq(rounds.tournamentId, scopedTournamentId)));
       
     // For each round, calculate and add pending scores
     const enhancedRounds = await Promise.all(
@@ -491,8 +716,8 @@ export class DBStorage implements IStorage {
         const scores = await this.calculateRoundScores(round.id);
         return {
           ...round,
-          pendingAviatorScore: scores.pendingAviatorScore || 0,
-          pendingProducerScore: scores.pendingProducerScore || 0
+          teamScores: scores.teamScores,
+          pointsAvailable: scores.pointsAvailable
         };
       })
     );
@@ -506,7 +731,9 @@ export class DBStorage implements IStorage {
   }
 
   async createRound(data: any) {
-    const [row] = await db.insert(rounds).values(data).returning();
+    // New rounds go into the active tournament unless one is named
+    const tournamentId = await this.resolveTournamentId(data.tournamentId);
+    const [row] = await db.insert(rounds).values({ ...data, tournamentId }).returning();
     return row;
   }
 
@@ -519,6 +746,18 @@ export class DBStorage implements IStorage {
     return row;
   }
   
+  // Change settings its matches are scored by, and work each of them out
+  // again under the new ones
+  async updateRoundAndMatches(id: number, data: Partial<any>) {
+    return inTransaction(async () => {
+      const row = await this.updateRound(id, data);
+      for (const match of await this.getMatchesByRound(id)) {
+        await this.updateMatchState(match.id);
+      }
+      return row;
+    });
+  }
+  
   async deleteRound(id: number) {
     try {
       // Start transaction for deletion operations
@@ -532,9 +771,21 @@ export class DBStorage implements IStorage {
         // For each match, delete scores and participants
         for (const match of roundMatches) {
           // Delete scores first
+          await tx
+            .delete(team_scores)
+            .where(eq(team_scores.matchId, match.id));
           await tx
             .delete(scores)
             .where(eq(scores.matchId, match.id));
+          await tx
+            .delete(score_events)
+            .where(eq(score_events.matchId, match.id));
+          await tx
+            .delete(match_scorers)
+            .where(eq(match_scorers.matchId, match.id));
+          await tx
+            .delete(match_lock_events)
+            .where(eq(match_lock_events.matchId, match.id));
           
           // Delete match participants
           await tx
@@ -561,6 +812,7 @@ export class DBStorage implements IStorage {
       // Reset sequences using direct SQL
       await db.execute(`SELECT SETVAL('matches_id_seq', COALESCE((SELECT MAX(id) FROM matches), 0) + 1, false)`);
       await db.execute(`SELECT SETVAL('scores_id_seq', COALESCE((SELECT MAX(id) FROM scores), 0) + 1, false)`);
+      await db.execute(`SELECT SETVAL('team_scores_id_seq', COALESCE((SELECT MAX(id) FROM team_scores), 0) + 1, false)`);
       await db.execute(`SELECT SETVAL('match_participants_id_seq', COALESCE((SELECT MAX(id) FROM match_participants), 0) + 1, false)`);
       await db.execute(`SELECT SETVAL('player_course_handicaps_id_seq', COALESCE((SELECT MAX(id) FROM player_course_handicaps), 0) + 1, false)`);
       await db.execute(`SELECT SETVAL('rounds_id_seq', COALESCE((SELECT MAX(id) FROM rounds), 0) + 1, false)`);
@@ -576,7 +828,11 @@ export class DBStorage implements IStorage {
     // Start transaction for deletion operations
     await db.transaction(async (tx) => {
       // Delete all scores first (foreign key constraint)
+      await tx.delete(team_scores);
       await tx.delete(scores);
+      await tx.delete(score_events);
+      await tx.delete(match_scorers);
+      await tx.delete(match_lock_events);
       
       // Delete all match participants
       await tx.delete(match_players);
@@ -594,22 +850,17 @@ export class DBStorage implements IStorage {
     // Reset sequences
     await this.resetSequence('matches');
     await this.resetSequence('scores');
+    await this.resetSequence('team_scores');
     await this.resetSequence('match_participants');
     await this.resetSequence('rounds');
     await this.resetSequence('player_course_handicaps');
-    
-    // Update tournament scores to zero
-    const tournament = await this.getTournament();
-    if (tournament) {
-      await this.updateTournament(tournament.id, {
-        aviatorScore: 0,
-        producerScore: 0
-      });
-    }
   }
 
   // Matches
-  async getMatches() {
+  async getMatches(tournamentId?: number) {
+    const roundIds = await this.getTournamentRoundIds(tournamentId);
+    if (roundIds.length === 0) return [];
+
     return db
       .select({
         id: matches.id,
@@ -617,12 +868,24 @@ export class DBStorage implements IStorage {
         name: matches.name,
         status: matches.status,
         currentHole: matches.currentHole,
-        leadingTeam: matches.leadingTeam,
+        teamAId: matches.teamAId,
+        teamBId: matches.teamBId,
+        leadingTeamId: matches.leadingTeamId,
         leadAmount: matches.leadAmount,
         result: matches.result,
         locked: matches.locked,
+        dormie: matches.dormie,
+        closedOutHole: matches.closedOutHole,
+        startHole: matches.startHole,
+        endHole: matches.endHole,
+        nassauResults: matches.nassauResults,
+        playoffEnabled: matches.playoffEnabled,
+        concededByTeamId: matches.concededByTeamId,
+        completedAt: matches.completedAt,
+        unlockedAt: matches.unlockedAt,
       })
-      .from(matches);
+      .from(matches)
+      .where(inArray(matches.roundId, roundIds));
   }
 
   async getMatch(id: number) {
@@ -633,10 +896,21 @@ export class DBStorage implements IStorage {
         name: matches.name,
         status: matches.status,
         currentHole: matches.currentHole,
-        leadingTeam: matches.leadingTeam,
+        teamAId: matches.teamAId,
+        teamBId: matches.teamBId,
+        leadingTeamId: matches.leadingTeamId,
         leadAmount: matches.leadAmount,
         result: matches.result,
         locked: matches.locked,
+        dormie: matches.dormie,
+        closedOutHole: matches.closedOutHole,
+        startHole: matches.startHole,
+        endHole: matches.endHole,
+        nassauResults: matches.nassauResults,
+        playoffEnabled: matches.playoffEnabled,
+        concededByTeamId: matches.concededByTeamId,
+        completedAt: matches.completedAt,
+        unlockedAt: matches.unlockedAt,
       })
       .from(matches)
       .where(eq(matches.id, id));
@@ -652,10 +926,21 @@ export class DBStorage implements IStorage {
         name: matches.name,
         status: matches.status,
         currentHole: matches.currentHole,
-        leadingTeam: matches.leadingTeam,
+        teamAId: matches.teamAId,
+        teamBId: matches.teamBId,
+        leadingTeamId: matches.leadingTeamId,
         leadAmount: matches.leadAmount,
         result: matches.result,
         locked: matches.locked,
+        dormie: matches.dormie,
+        closedOutHole: matches.closedOutHole,
+        startHole: matches.startHole,
+        endHole: matches.endHole,
+        nassauResults: matches.nassauResults,
+        playoffEnabled: matches.playoffEnabled,
+        concededByTeamId: matches.concededByTeamId,
+        completedAt: matches.completedAt,
+        unlockedAt: matches.unlockedAt,
       })
       .from(matches)
       .where(eq(matches.roundId, roundId));
@@ -676,22 +961,10 @@ export class DBStorage implements IStorage {
           })
         );
         
-        // Group players by team
-        const aviatorPlayers = detailedPlayers
-          .filter(mp => mp.team === 'aviators')
-          .map(mp => mp.playerName)
-          .join(', ');
-          
-        const producerPlayers = detailedPlayers
-          .filter(mp => mp.team === 'producers')
-          .map(mp => mp.playerName)
-          .join(', ');
-          
         // Return enhanced match with player names
         return {
           ...match,
-          aviatorPlayers,
-          producerPlayers
+          teamPlayers: this.playerNamesByTeam(match, detailedPlayers)
         };
       })
     );
@@ -699,8 +972,28 @@ export class DBStorage implements IStorage {
     return enhancedMatches;
   }
 
+  // Comma-separated names of each side's golfers, keyed by team id
+  private playerNamesByTeam(
+    match: { teamAId: number; teamBId: number },
+    participants: { teamId: number; playerName: string }[],
+  ): Record<TeamId, string> {
+    const names: Record<TeamId, string> = {};
+    matchTeams(match).forEach((teamId) => {
+      names[teamId] = participants
+        .filter((mp) => mp.teamId === teamId)
+        .map((mp) => mp.playerName)
+        .join(', ');
+    });
+    return names;
+  }
+
   async createMatch(data: any) {
-    const [row] = await db.insert(matches).values(data).returning();
+    // A match belongs to its round's tournament
+    const round = await this.getRound(data.roundId);
+    const [row] = await db
+      .insert(matches)
+      .values({ ...data, tournamentId: round?.tournamentId ?? data.tournamentId })
+      .returning();
     return row;
   }
 
@@ -730,8 +1023,16 @@ export class DBStorage implements IStorage {
     try {
       await db.transaction(async (tx) => {
         // Delete all scores for this match
+        await tx.delete(team_scores)
+          .where(eq(team_scores.matchId, id));
         await tx.delete(scores)
           .where(eq(scores.matchId, id));
+        await tx.delete(score_events)
+          .where(eq(score_events.matchId, id));
+        await tx.delete(match_scorers)
+          .where(eq(match_scorers.matchId, id));
+        await tx.delete(match_lock_events)
+          .where(eq(match_lock_events.matchId, id));
 
         // Delete all match participants
         await tx.delete(match_players)
@@ -744,6 +1045,7 @@ export class DBStorage implements IStorage {
 
       // Reset sequences
       await db.execute(`SELECT SETVAL('scores_id_seq', COALESCE((SELECT MAX(id) FROM scores), 0) + 1, false)`);
+      await db.execute(`SELECT SETVAL('team_scores_id_seq', COALESCE((SELECT MAX(id) FROM team_scores), 0) + 1, false)`);
       await db.execute(`SELECT SETVAL('match_participants_id_seq', COALESCE((SELECT MAX(id) FROM match_participants), 0) + 1, false)`);
       await db.execute(`SELECT SETVAL('matches_id_seq', COALESCE((SELECT MAX(id) FROM matches), 0) + 1, false)`);
 
@@ -758,9 +1060,10 @@ export class DBStorage implements IStorage {
   async getMatchParticipants(matchId: number) {
     return db
       .select({
+        id: match_players.id,
         matchId: match_players.matchId,
         playerId: match_players.playerId,
-        team: match_players.team,
+        teamId: match_players.teamId,
         result: match_players.result,
       })
       .from(match_players)
@@ -773,6 +1076,9 @@ export class DBStorage implements IStorage {
     if (!match) {
       throw new Error("Match not found");
     }
+    if (!matchTeams(match).includes(data.teamId)) {
+      throw new Error("Team is not playing in this match");
+    }
     
     const roundId = match.roundId;
     
@@ -801,6 +1107,16 @@ export class DBStorage implements IStorage {
     return row;
   }
 
+  async getMatchParticipant(id: number) {
+    const [row] = await db.select().from(match_players).where(eq(match_players.id, id));
+    return row;
+  }
+
+  async deleteMatchParticipant(id: number) {
+    const [row] = await db.delete(match_players).where(eq(match_players.id, id)).returning();
+    return row;
+  }
+
   // Get match with players info
   async getMatchWithParticipants(id: number) {
     const match = await this.getMatch(id);
@@ -811,7 +1127,7 @@ export class DBStorage implements IStorage {
       .select({
         matchId: match_players.matchId,
         playerId: match_players.playerId,
-        team: match_players.team,
+        teamId: match_players.teamId,
       })
       .from(match_players)
       .where(eq(match_players.matchId, id));
@@ -827,29 +1143,17 @@ export class DBStorage implements IStorage {
       })
     );
 
-    // Group players by team for backward compatibility
-    const aviatorPlayers = detailedPlayers
-      .filter(mp => mp.team === 'aviators')
-      .map(mp => mp.playerName)
-      .join(', ');
-
-    const producerPlayers = detailedPlayers
-      .filter(mp => mp.team === 'producers')
-      .map(mp => mp.playerName)
-      .join(', ');
-
     // Return enhanced match with player info
     return {
       ...match,
-      aviatorPlayers,
-      producerPlayers,
+      teamPlayers: this.playerNamesByTeam(match, detailedPlayers),
       participants: detailedPlayers
     };
   }
 
   // Scores
   async getScores() {
-    return db.select().from(scores);
+    return this.withTeamScores(await db.select().from(scores));
   }
 
   async getScore(matchId: number, holeNumber: number) {
@@ -859,11 +1163,92 @@ export class DBStorage implements IStorage {
       .where(
         and(eq(scores.matchId, matchId), eq(scores.holeNumber, holeNumber)),
       );
-    return row;
+    if (!row) return undefined;
+    const [withSides] = await this.withTeamScores([row]);
+    return withSides;
+  }
+
+  async getScoreById(id: number) {
+    const [row] = await db.select().from(scores).where(eq(scores.id, id));
+    if (!row) return undefined;
+    const [withSides] = await this.withTeamScores([row]);
+    return withSides;
   }
 
   async getScoresByMatch(matchId: number) {
-    return db.select().from(scores).where(eq(scores.matchId, matchId));
+    return this.withTeamScores(
+      await db.select().from(scores).where(eq(scores.matchId, matchId)),
+    );
+  }
+
+  // Attach each side's score from team_scores to the hole rows
+  private async withTeamScores(rows: Score[]): Promise<HoleScore[]> {
+    if (rows.length === 0) return [];
+    const matchIds = Array.from(new Set(rows.map((row) => row.matchId)));
+    const sideRows = await db
+      .select()
+      .from(team_scores)
+      .where(inArray(team_scores.matchId, matchIds));
+
+    return rows.map((row) => {
+      const teamScores: Record<TeamId, number | null> = {};
+      const teamScoreVersions: Record<TeamId, number> = {};
+      sideRows
+        .filter((side) => side.matchId === row.matchId && side.holeNumber === row.holeNumber)
+        .forEach((side) => {
+          teamScores[side.teamId] = side.score;
+          teamScoreVersions[side.teamId] = side.version;
+        });
+      return { ...row, teamScores, teamScoreVersions };
+    });
+  }
+
+  // Writes one side's score, returning false if `expectedVersion` is given
+  // and the stored score has moved on from it. The check is part of the
+  // update, so two phones can't both pass it.
+  private async setTeamScore(
+    matchId: number,
+    holeNumber: number,
+    teamId: TeamId,
+    score: number | null,
+    tournamentId?: number | null,
+    expectedVersion?: number,
+  ): Promise<boolean> {
+    const [existing] = await db
+      .select()
+      .from(team_scores)
+      .where(
+        and(
+          eq(team_scores.matchId, matchId),
+          eq(team_scores.holeNumber, holeNumber),
+          eq(team_scores.teamId, teamId),
+        ),
+      );
+    if (!existing) {
+      const inserted = await db
+        .insert(team_scores)
+        .values({ matchId, holeNumber, teamId, score, tournamentId, version: 1 })
+        .onConflictDoNothing()
+        .returning({ id: team_scores.id });
+      // Another phone added the side's score first
+      return inserted.length > 0 || this.setTeamScore(matchId, holeNumber, teamId, score, tournamentId, expectedVersion);
+    }
+
+    // Only a real change moves the version, so re-deriving a counting ball
+    // doesn't make a phone's next write look stale. Writing the score that
+    // is already there is never a conflict.
+    if (existing.score === score) return true;
+    const updated = await db
+      .update(team_scores)
+      .set({ score, version: sql`${team_scores.version} + 1` })
+      .where(
+        and(
+          eq(team_scores.id, existing.id),
+          expectedVersion !== undefined ? eq(team_scores.version, expectedVersion) : undefined,
+        ),
+      )
+      .returning({ id: team_scores.id });
+    return updated.length > 0;
   }
 
   async createScore(data: any) {
@@ -880,26 +1265,71 @@ export class DBStorage implements IStorage {
     return row;
   }
 
-  async updateScoreAndMatch(id: number, data: Partial<any>) {
-    const [updatedScore] = await db
-      .update(scores)
-      .set(data)
-      .where(eq(scores.id, id))
-      .returning();
-
-    // After updating the score, update the match state
-    await this.updateMatchState(updatedScore.matchId);
+  // Blank every hole's scores and outcome, keeping the rows
+  async clearAllScores() {
+    await db.update(team_scores).set({ score: null, version: sql`${team_scores.version} + 1` });
+    await db.update(scores).set({ winningTeamId: null, halved: false, matchStatus: null });
+  }
+
+  // Record the sides' scores for a hole, then bring the match state up to
+  // date. If any side's score has moved on from the version in
+  // `expectedVersions`, none of them are written.
+  async saveHoleScores(
+    matchId: number,
+    holeNumber: number,
+    teamScores: Record<TeamId, number | null>,
+    expectedVersions?: Record<TeamId, number>,
+  ) {
+    return inTransaction(async () => {
+      await this.assertMatchUnlocked(matchId);
+      const match = await this.getMatch(matchId);
+      const round = match ? await this.getRound(match.roundId) : undefined;
+
+      if (!(await this.getScore(matchId, holeNumber))) {
+        await this.createScore({ matchId, holeNumber, tournamentId: round?.tournamentId });
+      }
+      const stale: TeamId[] = [];
+      for (const [teamId, score] of Object.entries(teamScores)) {
+        const side = Number(teamId);
+        if (!(await this.setTeamScore(matchId, holeNumber, side, score, round?.tournamentId, expectedVersions?.[side]))) {
+          stale.push(side);
+        }
+      }
+      if (stale.length > 0) throw new StaleScoreError(stale);
 
-    return updatedScore;
+      await this.updateMatchState(matchId);
+      return this.getScore(matchId, holeNumber);
+    });
   }
 
-  async createScoreAndMatch(data: any) {
-    const [newScore] = await db.insert(scores).values(data).returning();
+  // Record (or with null, withdraw) one side conceding a hole
+  async setHoleConcession(matchId: number, holeNumber: number, concededBy: TeamId | null) {
+    await this.assertMatchUnlocked(matchId);
+    const concession = { conceded: concededBy !== null, concededByTeamId: concededBy };
+    const existing = await this.getScore(matchId, holeNumber);
+    if (existing) {
+      await this.updateScore(existing.id, concession);
+    } else {
+      const match = await this.getMatch(matchId);
+      const round = match ? await this.getRound(match.roundId) : undefined;
+      await this.createScore({ matchId, holeNumber, tournamentId: round?.tournamentId, ...concession });
+    }
+
+    await this.updateMatchState(matchId);
+    return this.getScore(matchId, holeNumber);
+  }
 
-    // After creating the score, update the match state
-    await this.updateMatchState(newScore.matchId);
+  // Conceding a match hands it to the other side straight away, whatever
+  // the score, and in a Nassau every leg still open with it. The holes not
+  // played stay unplayed.
+  async concedeMatch(matchId: number, concededBy: TeamId) {
+    await this.assertMatchUnlocked(matchId);
+    const match = await this.getMatch(matchId);
+    if (!match) return undefined;
 
-    return newScore;
+    await this.updateMatch(matchId, { concededByTeamId: concededBy });
+    await this.updateMatchState(matchId);
+    return this.getMatch(matchId);
   }
 
   // Player Score methods implementation
@@ -957,23 +1387,34 @@ export class DBStorage implements IStorage {
   }
 
   async createPlayerScore(data: any) {
-    const [row] = await db.insert(player_scores).values(data).returning();
+    await this.assertMatchUnlocked(data.matchId);
+    const [row] = await db.insert(player_scores).values({ ...data, version: 1 }).returning();
     return row;
   }
 
-  async updatePlayerScore(id: number, data: Partial<any>) {
+  // Same rule as team scores: with `expectedVersion`, a score another phone
+  // has changed since is refused, unless this writes the same score
+  async updatePlayerScore(id: number, data: Partial<any>, expectedVersion?: number) {
+    const existing = await this.getPlayerScoreById(id);
+    if (!existing) return undefined;
+    await this.assertMatchUnlocked(existing.matchId);
+    const checkVersion = expectedVersion !== undefined && data.score !== undefined && data.score !== existing.score;
     const [row] = await db
       .update(player_scores)
       .set({
         ...data,
+        version: sql`${player_scores.version} + 1`,
         updatedAt: new Date().toISOString()
       })
-      .where(eq(player_scores.id, id))
+      .where(and(eq(player_scores.id, id), checkVersion ? eq(player_scores.version, expectedVersion) : undefined))
       .returning();
+    if (!row) throw new StaleScoreError([existing.playerId]);
     return row;
   }
 
   async deletePlayerScore(id: number) {
+    const existing = await this.getPlayerScoreById(id);
+    if (existing) await this.assertMatchUnlocked(existing.matchId);
     try {
       await db.delete(player_scores).where(eq(player_scores.id, id));
       return true;
@@ -984,16 +1425,73 @@ export class DBStorage implements IStorage {
   }
 
   // Tournament
-  async getTournament() {
-    const [row] = await db.select().from(tournament);
-    return row;
+  async getTournaments() {
+    return db.select().from(tournament).orderBy(desc(tournament.year), desc(tournament.id));
+  }
+
+  // The named tournament, or the active one when no id is given. Falls back
+  // to the most recent tournament if none is marked active.
+  async getTournament(id?: number) {
+    if (id !== undefined) {
+      const [row] = await db.select().from(tournament).where(eq(tournament.id, id));
+      return row;
+    }
+
+    const [active] = await db
+      .select()
+      .from(tournament)
+      .where(eq(tournament.isActive, true))
+      .orderBy(desc(tournament.year), desc(tournament.id))
+      .limit(1);
+    if (active) return active;
+
+    const [latest] = await this.getTournaments();
+    return latest;
   }
 
   async createTournament(data: any) {
-    const [row] = await db.insert(tournament).values(data).returning();
+    // Only one tournament is active at a time, and a new one starts active
+    // unless told otherwise
+    if (data.isActive !== false) {
+      await db.update(tournament).set({ isActive: false }).where(eq(tournament.isActive, true));
+    }
+    const [row] = await db.insert(tournament).values({ ...data, isActive: data.isActive !== false }).returning();
     return row;
   }
 
+  async setActiveTournament(id: number) {
+    return db.transaction(async (tx) => {
+      const [row] = await tx.select().from(tournament).where(eq(tournament.id, id));
+      if (!row) return undefined;
+
+      await tx.update(tournament).set({ isActive: false }).where(not(eq(tournament.id, id)));
+      const [activated] = await tx
+        .update(tournament)
+        .set({ isActive: true })
+        .where(eq(tournament.id, id))
+        .returning();
+      return activated;
+    });
+  }
+
+  // Scoped reads default to the active tournament. Throws when there is no
+  // tournament at all, since nothing can be scoped to it.
+  private async resolveTournamentId(tournamentId?: number | null): Promise<number> {
+    if (tournamentId) return tournamentId;
+    const active = await this.getTournament();
+    if (!active) throw new Error("No tournament found");
+    return active.id;
+  }
+
+  private async getTournamentRoundIds(tournamentId?: number): Promise<number[]> {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+    const rows = await db
+      .select({ id: rounds.id })
+      .from(rounds)
+      .where(eq(rounds.tournamentId, scopedTournamentId));
+    return rows.map((r) => r.id);
+  }
+
   async updateTournament(id: number, data: Partial<any>) {
     const [row] = await db
       .update(tournament)
@@ -1004,317 +1502,918 @@ export class DBStorage implements IStorage {
   }
 
   // Match state update - Crucial for scoring
-  private async updateMatchState(matchId: number) {
+  // `replay` rebuilds the match from its scores alone, without taking back
+  // results the stats no longer hold
+  private async updateMatchState(matchId: number, replay = false) {
     const match = await this.getMatch(matchId);
     if (!match) return;
 
+    const round = await this.getRound(match.roundId);
+    const matchType = round?.matchType || "unknown";
+    const format = getMatchFormat(matchType);
+
+    const teams = matchTeams(match);
     const matchScores = await this.getScoresByMatch(matchId);
+    const range = resolveHoleRange(match, round);
+    const playoff = resolvePlayoff(match, round, range);
+
+    // Strokes come from the round's allowance applied within this match;
+    // extra holes take the strokes of the course hole they replay
+    const matchHandicaps = await this.getMatchPlayingHandicaps(matchId);
+    const courseHoles = round?.courseId ? await this.getHolesByCourse(round.courseId) : [];
+    const strokesOn = (handicap: number, holeNumber: number) => {
+      const courseHole = playoffCourseHole(holeNumber, playoff);
+      return calculateHandicapStrokes(handicap, courseHoles.find((h) => h.number === courseHole)?.handicapRank);
+    };
 
-    // Sort scores by hole number
-    matchScores.sort((a, b) => a.holeNumber - b.holeNumber);
-
-    let aviatorWins = 0;
-    let producerWins = 0;
-    let lastHoleScored = 0;
-
-    for (const score of matchScores) {
-      if (score.aviatorScore !== null && score.producerScore !== null) {
-        // Use Number() to convert to numeric without type errors
-        const aviatorNum = Number(score.aviatorScore);
-        const producerNum = Number(score.producerScore);
-        if (aviatorNum < producerNum) {
-          aviatorWins += 1;
-        } else if (producerNum < aviatorNum) {
-          producerWins += 1;
-        }
+    // Player-level formats are scored from each golfer's ball; the team rows
+    // are only used for older matches that were entered at team level
+    let playerHoleScores: PlayerHoleScore[] = [];
+    if (format.scoreEntry === "player") {
+      const participants = await this.getMatchParticipants(matchId);
+      const individualScores = await this.getBestBallScores(matchId);
+      playerHoleScores = individualScores
+        .map((s): PlayerHoleScore | null => {
+          const participant = participants.find((p) => p.playerId === s.playerId);
+          if (!participant) return null;
+          const golfer = matchHandicaps?.golfers.find((g: { playerId: number }) => g.playerId === s.playerId);
+          return {
+            playerId: s.playerId,
+            teamId: participant.teamId,
+            holeNumber: s.holeNumber,
+            score: s.score,
+            handicapStrokes: golfer ? strokesOn(golfer.playingHandicap, s.holeNumber) : s.handicapStrokes || 0,
+          };
+        })
+        .filter((s): s is PlayerHoleScore => s !== null);
+    }
+
+    // Conceded holes are decided by the concession in every format
+    const concededBy = (s: HoleScore) => (s.conceded ? s.concededByTeamId : null);
+    const teamHoleScores: TeamHoleScore[] =
+      playerHoleScores.length > 0
+        ? matchScores
+            .filter((s) => s.conceded)
+            .map((s) => ({ holeNumber: s.holeNumber, scores: {}, concededBy: concededBy(s) }))
+        : withSideStrokes(
+            matchScores.map((s) => ({
+              holeNumber: s.holeNumber,
+              scores: s.teamScores,
+              concededBy: concededBy(s),
+            })),
+            matchHandicaps?.sides ?? {},
+            courseHoles,
+            playoff,
+          );
 
-        if (score.holeNumber > lastHoleScored) {
-          lastHoleScored = score.holeNumber;
+    // In a Nassau the match row mirrors the overall leg, and the match only
+    // finishes once front, back and overall are all decided
+    // A conceded match is over, won by the other side whatever the holes say
+    const concessionWinner =
+      match.concededByTeamId && teams.includes(match.concededByTeamId)
+        ? opposingTeam(teams, match.concededByTeamId)
+        : null;
+    let nassauResults: NassauLegResult[] | null = null;
+    let state = calculateMatchState(matchType, teams, teamHoleScores, playerHoleScores, range, playoff);
+    if (concessionWinner !== null) state = concedeMatchState(state, concessionWinner);
+    let isComplete = state.isComplete;
+    if (round?.isNassau) {
+      let nassau = calculateNassauState(matchType, teams, teamHoleScores, playerHoleScores, range, playoff);
+      if (concessionWinner !== null) nassau = concedeNassauState(nassau, concessionWinner);
+      state = nassau.legs.overall;
+      isComplete = nassau.isComplete;
+      nassauResults = toNassauLegResults(nassau);
+    }
+    const { leadingTeam, leadAmount, lastHoleScored, dormie, closedOutHole, inPlayoff } = state;
+
+    // Record the official per-hole outcome on the scores rows. Team-ball rows
+    // keep the gross scores that were entered; the net only decides the hole.
+    const shortNames = new Map((await this.getTeams()).map((t) => [t.id, t.shortName]));
+    const scoredHoles = scoreHoles(matchType, teams, teamHoleScores, playerHoleScores, range, playoff);
+    for (const hole of scoredHoles) {
+      const running = matchStatusThroughHole(scoredHoles, teams, hole.holeNumber);
+      const holeData = {
+        winningTeamId: hole.winningTeam === "tie" ? null : hole.winningTeam,
+        halved: hole.winningTeam === "tie",
+        matchStatus: running
+          ? running.leadingTeam
+            ? `${shortNames.get(running.leadingTeam)} ${running.leadAmount} UP`
+            : "AS"
+          : null,
+      };
+      const existing = matchScores.find((s) => s.holeNumber === hole.holeNumber);
+      if (existing) {
+        await this.updateScore(existing.id, holeData);
+      } else {
+        await this.createScore({
+          matchId,
+          holeNumber: hole.holeNumber,
+          tournamentId: round?.tournamentId,
+          ...holeData,
+        });
+      }
+      // Player formats keep the counting ball of each side as its score
+      if (format.scoreEntry === "player") {
+        for (const teamId of teams) {
+          await this.setTeamScore(matchId, hole.holeNumber, teamId, hole.scores[teamId], round?.tournamentId);
         }
       }
     }
 
-    // Update match status
-    let leadingTeam: string | null = null;
-    let leadAmount = 0;
+    let result: string | null = null;
+    if (isComplete) result = state.result;
 
-    if (aviatorWins > producerWins) {
-      leadingTeam = "aviators";
-      leadAmount = aviatorWins - producerWins;
-    } else if (producerWins > aviatorWins) {
-      leadingTeam = "producers";
-      leadAmount = producerWins - aviatorWins;
-    }
+    // The stats and bet flags depend on the status the match had before this
+    // change, so that row is locked first: when two phones save the closing
+    // hole at once, the second waits and finds the match already completed
+    // rather than crediting the result a second time.
+    await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(matches).where(eq(matches.id, matchId)).for("update");
+      if (!previous) return;
+
+      let status = previous.status;
+      if (isComplete) {
+        status = "completed";
+      } else if (lastHoleScored > 0) {
+        status = "in_progress";
+      } else if (status === "completed" || status === "in_progress") {
+        // Every score was deleted: the match hasn't started after all
+        status = "not_started";
+      }
 
-    // Check if match is completed
-    let status = match.status;
-    let result: string | null = null;
+      const matchState = {
+        leadingTeamId: leadingTeam,
+        leadAmount,
+        status,
+        result,
+        dormie: isComplete ? false : dormie,
+        closedOutHole: isComplete ? closedOutHole : null,
+        nassauResults,
+        currentHole: inPlayoff && !isComplete
+          ? Math.max(lastHoleScored + 1, PLAYOFF_START_HOLE)
+          : lastHoleScored > 0 ? lastHoleScored + 1 : range.startHole,
+        // Kept from when the match first finished, so a replay doesn't restart the auto-lock clock
+        completedAt: status === "completed" ? sql`coalesce(${matches.completedAt}, now())` : null,
+      };
 
-    // Count completed holes
-    const completedHoles = matchScores.filter(
-      (s) => s.aviatorScore !== null && s.producerScore !== null,
-    ).length;
+      // The player stats hold each completed match's result once. A correction
+      // that reopens a match or changes its winner takes the old result back
+      // and applies the new one alongside the match update, and bets already
+      // settled on the old result are flagged for review. A replay has cleared
+      // the stats, so every completed match counts again, but still flags bets
+      // when it changes a winner.
+      const wasCompleted = previous.status === "completed";
+      const isCompleted = status === "completed";
+      const resultChanged = wasCompleted && (!isCompleted || previous.leadingTeamId !== leadingTeam);
 
-    // Determine if the match should be complete
-    const remainingHoles = 18 - lastHoleScored;
+      await tx.update(matches).set(matchState).where(eq(matches.id, matchId));
 
-    if (completedHoles === 18) {
-      // All 18 holes completed
-      status = "completed";
-      if (leadingTeam) {
-        result = `1UP`; // If someone won after 18 holes, it's "1 UP"
-      } else {
-        result = "AS"; // All square
+      if (resultChanged && !replay) {
+        await this.applyMatchResult(tx, matchId, previous.leadingTeamId, matchType, round?.tournamentId, -1);
+      }
+      if (resultChanged) {
+        await tx
+          .update(bets)
+          .set({
+            needsReview: true,
+            reviewReason: isCompleted
+              ? `Match result changed from "${previous.result}" to "${result}"`
+              : `Match reopened after finishing "${previous.result}"`,
+          })
+          .where(and(eq(bets.matchId, matchId), inArray(bets.status, ["won", "lost", "push"])));
+      }
+      if (isCompleted && (replay || resultChanged || !wasCompleted)) {
+        await this.applyMatchResult(tx, matchId, leadingTeam, matchType, round?.tournamentId, 1);
       }
-    } else if (leadAmount > remainingHoles) {
-      // Match is decided if lead is greater than remaining holes
-      status = "completed";
-      result = `${leadAmount} UP`; // Format as "3 UP", "2 UP", etc.
-    } else if (lastHoleScored > 0) {
-      status = "in_progress";
-      result = null;
-    }
-
-    // Update match
-    await this.updateMatch(matchId, {
-      leadingTeam,
-      leadAmount,
-      status,
-      result,
-      currentHole: lastHoleScored + 1,
     });
+  }
 
-    // If the match was just completed, update player stats
-    if (status === "completed" && match.status !== "completed") {
-      // Get all participants in this match
-      const participants = await this.getMatchParticipants(matchId);
-      
-      // Get the match type for this match
-      const round = await this.getRound(match.roundId);
-      const matchType = round?.matchType || "unknown";
-      
-      // Update each player's stats
-      for (const participant of participants) {
-        const player = await this.getPlayer(participant.playerId);
-        if (player) {
-          let wins = player.wins || 0;
-          let losses = player.losses || 0;
-          let ties = player.ties || 0;
-          
-          let matchResult: "win" | "loss" | "tie" = "tie";
-          
-          if (leadingTeam === participant.team) {
-            // Player's team won
-            wins++;
-            matchResult = "win";
-          } else if (leadingTeam === null) {
-            // Match was tied
-            ties++;
-            matchResult = "tie";
-          } else {
-            // Player's team lost
-            losses++;
-            matchResult = "loss";
-          }
-          
-          // Update player stats
-          await this.updatePlayer(player.id, { wins, losses, ties });
-          
-          // Update player match type stats
-          await this.updatePlayerMatchTypeStats(player.id, matchType, matchResult);
-          
-          // Create player matchups against all opponents
-          for (const opponent of participants) {
-            // Skip self
-            if (opponent.playerId === participant.playerId) continue;
-            
-            // Skip teammates
-            if (opponent.team === participant.team) continue;
-            
-            // Get tournament id from round
-            const tournamentId = round?.tournamentId;
-            
-            // Create individual matchup record
-            await this.createPlayerMatchup({
-              playerId: player.id,
-              opponentId: opponent.playerId,
-              matchId,
-              tournamentId: tournamentId || undefined,
-              result: matchResult,
-              matchType
-            });
-          }
+  // Credits a completed match to each golfer's record, match-type stats and
+  // head-to-head matchups against every opponent, or with `direction` -1
+  // takes back a result credited earlier
+  private async applyMatchResult(
+    tx: DbTransaction,
+    matchId: number,
+    winningTeam: TeamId | null,
+    matchType: string,
+    tournamentId: number | null | undefined,
+    direction: 1 | -1,
+  ) {
+    const participants = await tx.select().from(match_players).where(eq(match_players.matchId, matchId));
+
+    for (const participant of participants) {
+      const matchResult: "win" | "loss" | "tie" =
+        winningTeam === null ? "tie" : winningTeam === participant.teamId ? "win" : "loss";
+      const column = matchResult === "win" ? "wins" : matchResult === "loss" ? "losses" : "ties";
+
+      await tx
+        .update(players)
+        .set({ [column]: sql`GREATEST(COALESCE(${players[column]}, 0) + ${direction}, 0)` })
+        .where(eq(players.id, participant.playerId));
+
+      const [typeStats] = await tx
+        .select()
+        .from(player_match_type_stats)
+        .where(
+          and(
+            eq(player_match_type_stats.playerId, participant.playerId),
+            eq(player_match_type_stats.matchType, matchType),
+          ),
+        );
+      if (typeStats) {
+        await tx
+          .update(player_match_type_stats)
+          .set({
+            [column]: Math.max((typeStats[column] || 0) + direction, 0),
+            lastUpdated: new Date().toISOString(),
+          })
+          .where(eq(player_match_type_stats.id, typeStats.id));
+      } else if (direction === 1) {
+        await tx.insert(player_match_type_stats).values({
+          playerId: participant.playerId,
+          matchType,
+          wins: matchResult === "win" ? 1 : 0,
+          losses: matchResult === "loss" ? 1 : 0,
+          ties: matchResult === "tie" ? 1 : 0,
+          lastUpdated: new Date().toISOString(),
+        });
+      }
+
+      // Teammates aren't opponents
+      if (direction === 1) {
+        for (const opponent of participants) {
+          if (opponent.teamId === participant.teamId) continue;
+          await tx.insert(player_matchups).values({
+            playerId: participant.playerId,
+            opponentId: opponent.playerId,
+            matchId,
+            tournamentId: tournamentId || undefined,
+            result: matchResult,
+            matchType,
+          });
         }
       }
     }
 
-    // Update round scores
-    await this.updateRoundScores(match.roundId);
-
-    // Update tournament scores
-    await this.updateTournamentScores();
+    if (direction === -1) {
+      await tx.delete(player_matchups).where(eq(player_matchups.matchId, matchId));
+    }
   }
 
-  // Update round scores based on matches
-  private async updateRoundScores(roundId: number) {
-    const roundScores = await this.calculateRoundScores(roundId);
-    await this.updateRound(roundId, roundScores);
+  // The teams taking part in a tournament are the ones its matches are
+  // between, so a team added for a later event never appears in an earlier
+  // one. Until a match has been set up, every team may still take part.
+  async getTournamentTeamIds(tournamentId: number): Promise<TeamId[]> {
+    const sides = await db
+      .select({ teamAId: matches.teamAId, teamBId: matches.teamBId })
+      .from(matches)
+      .innerJoin(rounds, eq(matches.roundId, rounds.id))
+      .where(eq(rounds.tournamentId, tournamentId));
+    const allTeams = await this.getTeams();
+    if (sides.length === 0) return allTeams.map((t) => t.id);
+    const playing = new Set(sides.flatMap(matchTeams));
+    return allTeams.map((t) => t.id).filter((id) => playing.has(id));
   }
 
-  // Update tournament scores
-  private async updateTournamentScores() {
-    const tournamentScores = await this.calculateTournamentScores();
-    const tournament = await this.getTournament();
-    if (tournament) {
-      await this.updateTournament(tournament.id, tournamentScores);
-    }
+  // Every team in the tournament starts each tally on zero, whether or not it
+  // has played yet
+  private async emptyTeamPoints(tournamentId: number | null | undefined): Promise<Map<TeamId, TeamPoints>> {
+    const teamIds = tournamentId
+      ? await this.getTournamentTeamIds(tournamentId)
+      : (await this.getTeams()).map((t) => t.id);
+    return new Map(teamIds.map((teamId) => [teamId, { teamId, score: 0, pendingScore: 0 }]));
   }
 
-  // Calculate scores
+  // Calculate scores. Round and tournament totals are not stored; they are
+  // worked out from the match results whenever they are read.
   async calculateRoundScores(roundId: number) {
+    const round = await this.getRound(roundId);
+
     // Only select the specific columns we need to avoid issues with missing columns
     const matchesByRound = await db
       .select({
         id: matches.id,
         status: matches.status,
-        leadingTeam: matches.leadingTeam,
+        teamAId: matches.teamAId,
+        teamBId: matches.teamBId,
+        leadingTeamId: matches.leadingTeamId,
+        nassauResults: matches.nassauResults,
       })
       .from(matches)
       .where(eq(matches.roundId, roundId));
 
-    let aviatorScore = 0;
-    let producerScore = 0;
-    let pendingAviatorScore = 0;
-    let pendingProducerScore = 0;
+    const totals = await this.emptyTeamPoints(round?.tournamentId);
+    let pointsAvailable = 0;
+    const pointValues = pointValuesFor(round);
+
+    // Each scored result (a whole match, or one Nassau leg) is scaled by `weight`
+    const award = (teams: MatchTeams, leadingTeam: TeamId | null, weight: number, pending: boolean) => {
+      const points = pointsForResult(teams, leadingTeam, pointValues, weight);
+      for (const teamId of teams) {
+        const total = totals.get(teamId);
+        if (!total) continue;
+        if (pending) {
+          total.pendingScore += points[teamId];
+        } else {
+          total.score += points[teamId];
+        }
+      }
+    };
+
+    const legPoints: Record<string, number> = {
+      front: Number(round?.nassauFrontPoints ?? 1),
+      back: Number(round?.nassauBackPoints ?? 1),
+      overall: Number(round?.nassauOverallPoints ?? 1),
+    };
 
     for (const match of matchesByRound) {
-      if (match.status === "completed") {
-        if (match.leadingTeam === "aviators") {
-          aviatorScore += 1;
-        } else if (match.leadingTeam === "producers") {
-          producerScore += 1;
-        } else {
-          // Tied match
-          aviatorScore += 0.5;
-          producerScore += 0.5;
+      const teams = matchTeams(match);
+      pointsAvailable += round?.isNassau
+        ? Object.values(legPoints).reduce((sum, w) => sum + pointsAvailableForResult(pointValues, w), 0)
+        : pointsAvailableForResult(pointValues);
+
+      if (round?.isNassau && Array.isArray(match.nassauResults)) {
+        for (const leg of match.nassauResults as NassauLegResult[]) {
+          if (leg.isComplete) {
+            award(teams, leg.leadingTeam, legPoints[leg.leg], false);
+          } else if (leg.holesPlayed > 0) {
+            award(teams, leg.leadingTeam, legPoints[leg.leg], true);
+          }
         }
+      } else if (match.status === "completed") {
+        award(teams, match.leadingTeamId, 1, false);
       } else if (match.status === "in_progress") {
-        if (match.leadingTeam === "aviators") {
-          pendingAviatorScore += 1;
-        } else if (match.leadingTeam === "producers") {
-          pendingProducerScore += 1;
-        } else {
-          // In progress but currently tied
-          pendingAviatorScore += 0.5;
-          pendingProducerScore += 0.5;
-        }
+        award(teams, match.leadingTeamId, 1, true);
       }
     }
 
     return {
-      aviatorScore,
-      producerScore,
-      pendingAviatorScore,
-      pendingProducerScore,
+      teamScores: Array.from(totals.values()),
+      pointsAvailable,
     };
   }
 
-  async calculateTournamentScores() {
-    const allRounds = await db.select().from(rounds);
+  async calculateTournamentScores(tournamentId?: number) {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+    const allRounds = await db.select().from(rounds).where(eq(rounds.tournamentId, scopedTournamentId));
 
-    let aviatorScore = 0;
-    let producerScore = 0;
-    let pendingAviatorScore = 0;
-    let pendingProducerScore = 0;
+    const totals = await this.emptyTeamPoints(scopedTournamentId);
+    let pointsAvailable = 0;
 
+    // Round scores are already weighted by each round's point values
     for (const round of allRounds) {
       const roundScores = await this.calculateRoundScores(round.id);
-      aviatorScore += roundScores.aviatorScore;
-      producerScore += roundScores.producerScore;
-      pendingAviatorScore += roundScores.pendingAviatorScore;
-      pendingProducerScore += roundScores.pendingProducerScore;
+      for (const roundTotal of roundScores.teamScores) {
+        const total = totals.get(roundTotal.teamId);
+        if (!total) continue;
+        total.score += roundTotal.score;
+        total.pendingScore += roundTotal.pendingScore;
+      }
+      pointsAvailable += roundScores.pointsAvailable;
     }
 
     return {
-      aviatorScore,
-      producerScore,
-      pendingAviatorScore,
-      pendingProducerScore,
+      teamIds: Array.from(totals.keys()),
+      teamScores: Array.from(totals.values()),
+      pointsAvailable,
+      standings: await this.calculateStandings(totals, allRounds.map((r) => r.id)),
     };
   }
 
-  async calculatePlayerStats(tournamentId: number, playerId: number) {
-    const player = await this.getPlayer(playerId);
-    if (!player) throw new Error("Player not found");
-
-    // Find all matches the player participated in
-    const playerMatches = await db
-      .select({
-        matchId: match_players.matchId,
-        team: match_players.team,
-      })
-      .from(match_players)
-      .where(eq(match_players.playerId, playerId));
-      
-    let wins = 0;
-    let losses = 0;
-    let ties = 0;
-    
-    // Go through each match and check the result
-    for (const participation of playerMatches) {
-      const match = await this.getMatch(participation.matchId);
-      
-      // Only count completed matches
-      if (match && match.status === "completed") {
-        if (match.leadingTeam === participation.team) {
-          // Player's team won
-          wins++;
-        } else if (match.leadingTeam === null) {
-          // Match was tied
-          ties++;
+  // Every result in a tournament still to be decided: unfinished matches, or
+  // the undecided legs of a Nassau, with how each one stands
+  private async getOpenResults(tournamentId: number) {
+    const tournamentRounds = await db.select().from(rounds).where(eq(rounds.tournamentId, tournamentId));
+    const open: Array<OpenResult & {
+      matchId: number;
+      roundId: number;
+      leg: NassauLeg | null;
+      range: HoleRange;
+      holesPlayed: number;
+      leadingTeam: TeamId | null;
+      leadAmount: number;
+      playoff: boolean;
+    }> = [];
+
+    for (const round of tournamentRounds) {
+      const values = pointValuesFor(round);
+      const legPoints: Record<NassauLeg, number> = {
+        front: Number(round.nassauFrontPoints ?? 1),
+        back: Number(round.nassauBackPoints ?? 1),
+        overall: Number(round.nassauOverallPoints ?? 1),
+      };
+      const roundMatches = await db.select().from(matches).where(eq(matches.roundId, round.id));
+
+      for (const match of roundMatches) {
+        if (match.status === "completed") continue;
+
+        const teams = matchTeams(match);
+        const range = resolveHoleRange(match, round);
+        const playoff = resolvePlayoff(match, round, range);
+        const base = { matchId: match.id, roundId: round.id, teams, values };
+
+        if (round.isNassau) {
+          const legs = Array.isArray(match.nassauResults) ? (match.nassauResults as NassauLegResult[]) : [];
+          const legRanges = nassauLegRanges(range);
+          for (const leg of NASSAU_LEGS) {
+            const current = legs.find((l) => l.leg === leg);
+            if (current?.isComplete) continue;
+            open.push({
+              ...base,
+              leg,
+              weight: legPoints[leg],
+              range: legRanges[leg],
+              holesPlayed: current?.holesPlayed ?? 0,
+              leadingTeam: current?.leadingTeam ?? null,
+              leadAmount: current?.leadAmount ?? 0,
+              playoff: leg === "overall" && playoff.enabled,
+            });
+          }
         } else {
-          // Player's team lost
-          losses++;
+          // The match row only records the next hole to play; extra holes
+          // mean every regulation hole is done
+          const currentHole = match.currentHole ?? range.startHole;
+          const holesPlayed = currentHole >= PLAYOFF_START_HOLE
+            ? holeCount(range)
+            : Math.min(Math.max(currentHole - range.startHole, 0), holeCount(range));
+          open.push({
+            ...base,
+            leg: null,
+            weight: 1,
+            range,
+            holesPlayed,
+            leadingTeam: match.leadingTeamId,
+            leadAmount: match.leadAmount ?? 0,
+            playoff: playoff.enabled,
+          });
         }
       }
     }
-    
-    return { wins, losses, draws: ties };
-  }
-  
-  // Tournament history methods
-  async getTournamentHistory() {
-    return db.select().from(tournament_history);
+
+    return open;
   }
-  
-  async getTournamentHistoryEntry(id: number) {
-    const [row] = await db
-      .select()
+
+  // Last year's winner keeps the cup on a tie. Only cups are retained; a
+  // round robin breaks level points on the points table instead.
+  private async getDefendingChampion(tournamentId: number): Promise<TeamId | null> {
+    const current = await this.getTournament(tournamentId);
+    if (!current || (current.format ?? "cup") !== "cup") return null;
+
+    const [previous] = await db
+      .select({ winningTeamId: tournament_history.winningTeamId })
       .from(tournament_history)
-      .where(eq(tournament_history.id, id));
-    return row;
+      .where(and(lt(tournament_history.year, current.year), not(eq(tournament_history.tournamentId, tournamentId))))
+      .orderBy(desc(tournament_history.year), desc(tournament_history.id))
+      .limit(1);
+    return previous?.winningTeamId ?? null;
   }
-  
-  async createTournamentHistoryEntry(data: any) {
-    const [row] = await db
-      .insert(tournament_history)
-      .values(data)
-      .returning();
-    return row;
+
+  async calculateCupStatus(tournamentId?: number) {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+    const { teamIds, teamScores } = await this.calculateTournamentScores(scopedTournamentId);
+    const open = await this.getOpenResults(scopedTournamentId);
+    const defendingChampionId = await this.getDefendingChampion(scopedTournamentId);
+
+    return {
+      tournamentId: scopedTournamentId,
+      ...calculateCupStatus(teamScores, teamIds, open, defendingChampionId),
+    };
   }
-  
-  // Tournament player stats methods
-  async getTournamentPlayerStats(tournamentId: number) {
-    return db
-      .select()
-      .from(tournament_player_stats)
-      .where(eq(tournament_player_stats.tournamentId, tournamentId));
+
+  // How the unfinished matches are expected to end and what that means for
+  // the cup. Decided results (including finished Nassau legs) are banked as
+  // they stand; everything else is projected from the current margin, the
+  // holes left and where the remaining handicap strokes fall.
+  async calculateTournamentProjection(tournamentId?: number) {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+    const { teamScores } = await this.calculateTournamentScores(scopedTournamentId);
+    const open = await this.getOpenResults(scopedTournamentId);
+    const defendingChampionId = await this.getDefendingChampion(scopedTournamentId);
+
+    const courseHolesByRound = new Map<number, Array<{ number: number; handicapRank?: number | null }>>();
+    const sidesByMatch = new Map<number, Record<TeamId, number>>();
+    const results: ProjectedResult[] = [];
+    const matchProjections: {
+      matchId: number;
+      roundId: number;
+      leg: NassauLeg | null;
+      teams: MatchTeams;
+      odds: MatchOdds;
+    }[] = [];
+
+    for (const result of open) {
+      if (!courseHolesByRound.has(result.roundId)) {
+        const round = await this.getRound(result.roundId);
+        courseHolesByRound.set(result.roundId, round?.courseId ? await this.getHolesByCourse(round.courseId) : []);
+      }
+      if (!sidesByMatch.has(result.matchId)) {
+        sidesByMatch.set(result.matchId, (await this.getMatchPlayingHandicaps(result.matchId))?.sides ?? {});
+      }
+
+      const { teams, leadingTeam, leadAmount } = result;
+      const holesRemaining = Math.max(0, holeCount(result.range) - result.holesPlayed);
+      const odds = projectMatchOdds({
+        lead: leadingTeam === null ? 0 : leadingTeam === teams[0] ? leadAmount : -leadAmount,
+        holesRemaining,
+        strokeEdge: remainingStrokeEdge(
+          teams,
+          sidesByMatch.get(result.matchId) ?? {},
+          courseHolesByRound.get(result.roundId) ?? [],
+          result.range,
+          holesRemaining,
+        ),
+        playoff: result.playoff,
+      });
+      results.push({ teams, values: result.values, weight: result.weight, odds });
+      matchProjections.push({ matchId: result.matchId, roundId: result.roundId, leg: result.leg, teams, odds });
+    }
+
+    return {
+      tournamentId: scopedTournamentId,
+      ...projectCup(teamScores, results, defendingChampionId),
+      matches: matchProjections,
+    };
   }
-  
-  async getPlayerTournamentStats(playerId: number, tournamentId: number) {
-    const [row] = await db
+
+  // Each golfer's own ball over a round, hole by hole. A best-ball score
+  // for a hole wins over a plain player score; team-ball formats have
+  // neither, so their golfers don't appear. Conceded holes and scores with
+  // a conceded putt weren't holed out, so they are left out.
+  private async getRoundPlayerHoles(roundId: number) {
+    const field: {
+      playerId: number;
+      teamId: TeamId;
+      courseHandicap: number;
+      range: HoleRange;
+      holes: StrokePlayHole[];
+    }[] = [];
+
+    const round = await this.getRound(roundId);
+    if (!round) return field;
+
+    const roundMatches = await db.select().from(matches).where(eq(matches.roundId, roundId));
+    const matchIds = roundMatches.map((m) => m.id);
+    if (matchIds.length === 0) return field;
+
+    const participants = await db.select().from(match_players).where(inArray(match_players.matchId, matchIds));
+    const playerRows = await db.select().from(player_scores).where(inArray(player_scores.matchId, matchIds));
+    const bestBallRows = await db
       .select()
-      .from(tournament_player_stats)
+      .from(best_ball_player_scores)
+      .where(inArray(best_ball_player_scores.matchId, matchIds));
+    const concededHoles = new Set(
+      (
+        await db
+          .select({ matchId: scores.matchId, holeNumber: scores.holeNumber })
+          .from(scores)
+          .where(and(inArray(scores.matchId, matchIds), eq(scores.conceded, true)))
+      ).map((row) => `${row.matchId}-${row.holeNumber}`),
+    );
+    const courseHoles = round.courseId ? await this.getHolesByCourse(round.courseId) : [];
+    const courseHandicaps = await this.getAllPlayerCourseHandicaps(roundId);
+
+    for (const participant of participants) {
+      if (field.some((golfer) => golfer.playerId === participant.playerId)) continue;
+      const match = roundMatches.find((m) => m.id === participant.matchId);
+      if (!match) continue;
+      const range = resolveHoleRange(match, round);
+
+      const grossByHole = new Map<number, number>();
+      const isMine = (row: { playerId: number; matchId: number }) =>
+        row.playerId === participant.playerId && row.matchId === participant.matchId;
+      playerRows.filter(isMine).forEach((row) => grossByHole.set(row.holeNumber, row.score));
+      bestBallRows.filter(isMine).forEach((row) => {
+        if (row.puttConceded) grossByHole.delete(row.holeNumber);
+        else if (row.score !== null) grossByHole.set(row.holeNumber, row.score);
+      });
+      grossByHole.forEach((_, holeNumber) => {
+        if (concededHoles.has(`${participant.matchId}-${holeNumber}`)) grossByHole.delete(holeNumber);
+      });
+
+      const holesPlayed: StrokePlayHole[] = [];
+      grossByHole.forEach((gross, holeNumber) => {
+        const courseHole = courseHoles.find((h) => h.number === holeNumber);
+        if (!courseHole || !isHoleInRange(holeNumber, range)) return;
+        holesPlayed.push({ holeNumber, gross, par: courseHole.par, handicapRank: courseHole.handicapRank });
+      });
+      holesPlayed.sort((a, b) => a.holeNumber - b.holeNumber);
+
+      const courseHandicap =
+        courseHandicaps.find((h) => h.playerId === participant.playerId)?.courseHandicap ?? 0;
+      field.push({ playerId: participant.playerId, teamId: participant.teamId, courseHandicap, range, holes: holesPlayed });
+    }
+    return field;
+  }
+
+  // Each golfer's own ball over a round as an unranked stroke-play line
+  private async getStrokePlayLines(roundId: number): Promise<Omit<LeaderboardEntry, "rank">[]> {
+    const field = await this.getRoundPlayerHoles(roundId);
+    return field.map((golfer) =>
+      strokePlayEntry(golfer.playerId, golfer.teamId, golfer.courseHandicap, golfer.holes, holeCount(golfer.range)),
+    );
+  }
+
+  private async withPlayerNames(entries: LeaderboardEntry[]) {
+    const names = new Map((await this.getPlayers()).map((p) => [p.id, p.name as string]));
+    return entries.map((entry) => ({ ...entry, playerName: names.get(entry.playerId) ?? "Unknown" }));
+  }
+
+  async getRoundLeaderboard(roundId: number, type: LeaderboardType) {
+    return this.withPlayerNames(rankLeaderboard(await this.getStrokePlayLines(roundId), type));
+  }
+
+  async getTournamentLeaderboard(type: LeaderboardType, tournamentId?: number) {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+    const tournamentRounds = await db
+      .select()
+      .from(rounds)
+      .where(eq(rounds.tournamentId, scopedTournamentId))
+      .orderBy(asc(rounds.date), asc(rounds.id));
+
+    // Each player's round lines, oldest round first
+    const linesByPlayer = new Map<number, Omit<LeaderboardEntry, "rank">[]>();
+    for (const round of tournamentRounds) {
+      for (const line of await this.getStrokePlayLines(round.id)) {
+        linesByPlayer.set(line.playerId, [...(linesByPlayer.get(line.playerId) ?? []), line]);
+      }
+    }
+
+    const totals = Array.from(linesByPlayer.values()).map(combineStrokePlayEntries);
+    return this.withPlayerNames(rankLeaderboard(totals, type));
+  }
+
+  async getRoundSkins(roundId: number): Promise<RoundSkins> {
+    const round = await this.getRound(roundId);
+    if (!round) throw new Error(`Round with ID ${roundId} not found`);
+
+    const type: SkinsType = round.skinsType === "net" ? "net" : "gross";
+    const field = await this.getRoundPlayerHoles(roundId);
+    const range = resolveHoleRange(null, round);
+
+    // The round's holes in playing order, each with the field's scores
+    const holes: { holeNumber: number; scores: SkinsHoleScore[] }[] = [];
+    for (let holeNumber = range.startHole; holeNumber <= range.endHole; holeNumber++) {
+      const scores: SkinsHoleScore[] = [];
+      for (const golfer of field) {
+        const hole = golfer.holes.find((h) => h.holeNumber === holeNumber);
+        if (!hole) continue;
+        const strokes = type === "net" ? calculateHandicapStrokes(golfer.courseHandicap, hole.handicapRank) : 0;
+        scores.push({ playerId: golfer.playerId, score: hole.gross - strokes });
+      }
+      holes.push({ holeNumber, scores });
+    }
+
+    const result = calculateSkins(holes, field.length, round.skinsValidation ?? false);
+    const names = new Map((await this.getPlayers()).map((p) => [p.id, p.name as string]));
+    const value = round.skinsValue ? Number(round.skinsValue) : null;
+
+    return {
+      roundId,
+      type,
+      validation: round.skinsValidation ?? false,
+      value,
+      holes: result.holes.map((hole) => ({
+        ...hole,
+        winnerName: hole.winnerId !== null ? names.get(hole.winnerId) ?? "Unknown" : null,
+      })),
+      players: field
+        .map((golfer) => {
+          const skins = result.skinsByPlayer[golfer.playerId] ?? 0;
+          return {
+            playerId: golfer.playerId,
+            playerName: names.get(golfer.playerId) ?? "Unknown",
+            teamId: golfer.teamId,
+            skins,
+            // Each skin is paid by every other golfer in the field
+            winnings: value !== null ? skins * value * (field.length - 1) : null,
+          };
+        })
+        .sort((a, b) => b.skins - a.skins),
+      carryover: result.carryover,
+      complete: result.holes.every((hole) => hole.status !== "pending"),
+    };
+  }
+
+  // Every hole each golfer has played on their own ball across the given
+  // rounds, keyed by player id
+  private async getScoringHoles(roundRows: Round[]) {
+    const holesByPlayer = new Map<number, ScoringHole[]>();
+    for (const round of roundRows) {
+      for (const golfer of await this.getRoundPlayerHoles(round.id)) {
+        const played = golfer.holes.map((hole) => ({ ...hole, courseId: round.courseId ?? null }));
+        holesByPlayer.set(golfer.playerId, [...(holesByPlayer.get(golfer.playerId) ?? []), ...played]);
+      }
+    }
+    return holesByPlayer;
+  }
+
+  async getPlayerScoringStats(playerId: number, tournamentId?: number) {
+    const roundRows = tournamentId
+      ? await db.select().from(rounds).where(eq(rounds.tournamentId, tournamentId))
+      : await db.select().from(rounds);
+    const holesByPlayer = await this.getScoringHoles(roundRows);
+    return {
+      playerId,
+      tournamentId: tournamentId ?? null,
+      ...calculateScoringStats(holesByPlayer.get(playerId) ?? []),
+    };
+  }
+
+  async getTournamentScoringStats(tournamentId?: number) {
+    const scopedTournamentId = await this.resolveTournamentId(tournamentId);
+    const roundRows = await db.select().from(rounds).where(eq(rounds.tournamentId, scopedTournamentId));
+    const holesByPlayer = await this.getScoringHoles(roundRows);
+    const names = new Map((await this.getPlayers()).map((p) => [p.id, p.name as string]));
+
+    return Array.from(holesByPlayer.entries())
+      .map(([playerId, holes]) => ({
+        playerId,
+        playerName: names.get(playerId) ?? "Unknown",
+        ...calculateScoringStats(holes),
+      }))
+      .sort((a, b) => a.playerName.localeCompare(b.playerName));
+  }
+
+  // Records each skins winner's haul as a won bet, with a ledger entry from
+  // every other golfer's user account. A golfer without a user account is
+  // left out of the ledger.
+  async payRoundSkins(roundId: number) {
+    const skins = await this.getRoundSkins(roundId);
+    if (skins.value === null) throw new Error("This round has no skins value set");
+
+    const skinsType = await this.getBetTypeByName("skins");
+    if (!skinsType) throw new Error("The skins bet type is missing");
+
+    const round = await this.getRound(roundId);
+    const playerUsers = new Map<number, number>();
+    (await this.getUsers()).forEach((user) => {
+      if (user.playerId) playerUsers.set(user.playerId, user.id);
+    });
+
+    return db.transaction(async (tx) => {
+      const paid = await tx
+        .select()
+        .from(bets)
+        .where(and(eq(bets.roundId, roundId), eq(bets.betTypeId, skinsType.id)));
+      if (paid.length > 0) throw new Error("Skins have already been paid out for this round");
+
+      const payouts: Bet[] = [];
+      for (const winner of skins.players.filter((p) => p.skins > 0)) {
+        const winnerUserId = playerUsers.get(winner.playerId);
+        if (!winnerUserId) continue;
+
+        const [bet] = await tx
+          .insert(bets)
+          .values({
+            userId: winnerUserId,
+            betTypeId: skinsType.id,
+            description: `${winner.playerName} won ${winner.skins} ${winner.skins === 1 ? "skin" : "skins"}`,
+            amount: String(skins.value),
+            potentialPayout: String(winner.winnings),
+            status: "won",
+            settledAt: new Date().toISOString(),
+            tournamentId: round?.tournamentId ?? null,
+            roundId,
+            playerId: winner.playerId,
+            selectedOption: String(winner.playerId),
+            actualResult: `${winner.skins} ${skins.type} skins`,
+          })
+          .returning();
+        payouts.push(bet);
+
+        for (const loser of skins.players) {
+          const debtorId = playerUsers.get(loser.playerId);
+          if (loser.playerId === winner.playerId || !debtorId) continue;
+          await tx.insert(betting_ledger).values({
+            creditorId: winnerUserId,
+            debtorId,
+            amount: String(winner.skins * skins.value!),
+            betId: bet.id,
+          });
+        }
+      }
+      return payouts;
+    });
+  }
+
+  // The points table: each team's points plus the match record used to
+  // break ties between teams level on points
+  private async calculateStandings(
+    totals: Map<TeamId, TeamPoints>,
+    roundIds: number[],
+  ): Promise<TeamStanding[]> {
+    const records = new Map<TeamId, Omit<TeamStanding, "rank">>(
+      Array.from(totals.values()).map((total) => [
+        total.teamId,
+        { ...total, played: 0, wins: 0, losses: 0, halves: 0, holesUp: 0 },
+      ]),
+    );
+
+    const completedMatches = roundIds.length === 0 ? [] : await db
+      .select({
+        teamAId: matches.teamAId,
+        teamBId: matches.teamBId,
+        leadingTeamId: matches.leadingTeamId,
+        leadAmount: matches.leadAmount,
+      })
+      .from(matches)
+      .where(and(eq(matches.status, "completed"), inArray(matches.roundId, roundIds)));
+
+    for (const match of completedMatches) {
+      const margin = match.leadAmount ?? 0;
+      for (const teamId of matchTeams(match)) {
+        const record = records.get(teamId);
+        if (!record) continue;
+        record.played++;
+        if (match.leadingTeamId === null) {
+          record.halves++;
+        } else if (match.leadingTeamId === teamId) {
+          record.wins++;
+          record.holesUp += margin;
+        } else {
+          record.losses++;
+          record.holesUp -= margin;
+        }
+      }
+    }
+
+    return rankStandings(Array.from(records.values()));
+  }
+
+  async calculatePlayerStats(tournamentId: number, playerId: number) {
+    const player = await this.getPlayer(playerId);
+    if (!player) throw new Error("Player not found");
+
+    const roundIds = new Set(await this.getTournamentRoundIds(tournamentId));
+
+    // Find all matches the player participated in
+    const playerMatches = await db
+      .select({
+        matchId: match_players.matchId,
+        teamId: match_players.teamId,
+      })
+      .from(match_players)
+      .where(eq(match_players.playerId, playerId));
+      
+    let wins = 0;
+    let losses = 0;
+    let ties = 0;
+    
+    // Go through each match and check the result
+    for (const participation of playerMatches) {
+      const match = await this.getMatch(participation.matchId);
+      
+      // Only count completed matches from this tournament
+      if (match && match.status === "completed" && roundIds.has(match.roundId)) {
+        if (match.leadingTeamId === participation.teamId) {
+          // Player's team won
+          wins++;
+        } else if (match.leadingTeamId === null) {
+          // Match was tied
+          ties++;
+        } else {
+          // Player's team lost
+          losses++;
+        }
+      }
+    }
+    
+    return { wins, losses, draws: ties };
+  }
+  
+  // Tournament history methods
+  async getTournamentHistory() {
+    return db.select().from(tournament_history);
+  }
+  
+  async getTournamentHistoryEntry(id: number) {
+    const [row] = await db
+      .select()
+      .from(tournament_history)
+      .where(eq(tournament_history.id, id));
+    return row;
+  }
+  
+  async createTournamentHistoryEntry(data: any) {
+    const [row] = await db
+      .insert(tournament_history)
+      .values(data)
+      .returning();
+    return row;
+  }
+  
+  // Tournament player stats methods
+  async getTournamentPlayerStats(tournamentId: number) {
+    return db
+      .select()
+      .from(tournament_player_stats)
+      .where(eq(tournament_player_stats.tournamentId, tournamentId));
+  }
+  
+  async getPlayerTournamentStats(playerId: number, tournamentId: number) {
+    const [row] = await db
+      .select()
+      .from(tournament_player_stats)
       .where(
         and(
           eq(tournament_player_stats.playerId, playerId),
@@ -1605,12 +2704,22 @@ export class DBStorage implements IStorage {
   }
   
   async calculateAndUpdateAllPlayerStats(tournamentId: number) {
-    // Get all players
-    const allPlayers = await this.getPlayers();
+    // Only players who played in the tournament get a row for it, or their
+    // career would count tournaments they sat out
+    const roundIds = await this.getTournamentRoundIds(tournamentId);
+    const participantIds = roundIds.length
+      ? await db
+          .selectDistinct({ playerId: match_players.playerId })
+          .from(match_players)
+          .innerJoin(matches, eq(match_players.matchId, matches.id))
+          .where(inArray(matches.roundId, roundIds))
+          .then((rows) => new Set(rows.map((row) => row.playerId)))
+      : new Set<number>();
+    const tournamentPlayers = (await this.getPlayers()).filter((player) => participantIds.has(player.id));
     
     // Calculate and update stats for each player
     const results = [];
-    for (const player of allPlayers) {
+    for (const player of tournamentPlayers) {
       const result = await this.calculateAndUpdatePlayerStats(player.id, tournamentId);
       results.push({
         playerId: player.id,
@@ -1624,7 +2733,7 @@ export class DBStorage implements IStorage {
   
   async updateTournamentHistory(tournamentId: number) {
     // Get tournament data
-    const tournamentData = await this.getTournament();
+    const tournamentData = await this.getTournament(tournamentId);
     if (!tournamentData) {
       throw new Error("Tournament not found");
     }
@@ -1635,26 +2744,24 @@ export class DBStorage implements IStorage {
       .from(tournament_history)
       .where(eq(tournament_history.tournamentId, tournamentId));
     
-    const currentYear = new Date().getFullYear();
-    
-    // Determine winning team
-    let winningTeam = null;
-    // Convert scores to numbers for safe comparison
-    const aviatorScore = Number(tournamentData.aviatorScore || 0);
-    const producerScore = Number(tournamentData.producerScore || 0);
-    
-    if (aviatorScore > producerScore) {
-      winningTeam = "aviators";
-    } else if (producerScore > aviatorScore) {
-      winningTeam = "producers";
-    }
+    // Determine winning team; a tie at the top is retained by the defending
+    // champion if they are among the leaders, and otherwise has no winner
+    const { teamScores } = await this.calculateTournamentScores(tournamentId);
+    const top = Math.max(...teamScores.map((t) => t.score));
+    const leaders = teamScores.filter((t) => t.score === top).map((t) => t.teamId);
+    const defendingChampionId = await this.getDefendingChampion(tournamentId);
+    const winningTeamId =
+      leaders.length === 1
+        ? leaders[0]
+        : defendingChampionId !== null && leaders.includes(defendingChampionId)
+          ? defendingChampionId
+          : null;
     
     const historyData = {
-      year: currentYear,
+      year: tournamentData.year,
       tournamentName: tournamentData.name,
-      winningTeam,
-      aviatorScore: aviatorScore.toString(),
-      producerScore: producerScore.toString(),
+      winningTeamId,
+      teamScores: teamScores.map(({ teamId, score }) => ({ teamId, score })),
       tournamentId
       // location field removed as it's not part of Tournament schema
     };
@@ -1677,6 +2784,108 @@ export class DBStorage implements IStorage {
     }
   }
 
+  // Everything a rebuild regenerates, for diffing before and after
+  private async snapshotDerivedData(): Promise<DerivedSnapshot> {
+    const snapshot: DerivedSnapshot = new Map();
+
+    for (const match of await db.select().from(matches)) {
+      snapshot.set(`match:${match.id}`, {
+        status: match.status,
+        result: match.result,
+        leadingTeamId: match.leadingTeamId,
+        leadAmount: match.leadAmount,
+        currentHole: match.currentHole,
+        closedOutHole: match.closedOutHole,
+      });
+    }
+    for (const player of await this.getPlayers()) {
+      snapshot.set(`player:${player.id}`, { wins: player.wins, losses: player.losses, ties: player.ties });
+    }
+    for (const row of await db.select().from(player_match_type_stats)) {
+      snapshot.set(`match_type_stats:${row.playerId}:${row.matchType}`, {
+        wins: row.wins,
+        losses: row.losses,
+        ties: row.ties,
+      });
+    }
+    for (const row of await db.select().from(player_matchups)) {
+      snapshot.set(`matchup:${row.matchId}:${row.playerId}:${row.opponentId}`, { result: row.result });
+    }
+    for (const row of await db.select().from(tournament_player_stats)) {
+      snapshot.set(`tournament_stats:${row.tournamentId}:${row.playerId}`, {
+        wins: row.wins,
+        losses: row.losses,
+        ties: row.ties,
+        points: Number(row.points),
+        matchesPlayed: row.matchesPlayed,
+      });
+    }
+    for (const row of await db.select().from(player_career_stats)) {
+      snapshot.set(`career_stats:${row.playerId}`, {
+        totalWins: row.totalWins,
+        totalLosses: row.totalLosses,
+        totalTies: row.totalTies,
+        totalPoints: Number(row.totalPoints),
+        matchesPlayed: row.matchesPlayed,
+        tournamentsPlayed: row.tournamentsPlayed,
+      });
+    }
+    for (const row of await this.getTournamentHistory()) {
+      snapshot.set(`history:${row.tournamentId}`, {
+        year: row.year,
+        winningTeamId: row.winningTeamId,
+        teamScores: row.teamScores,
+      });
+    }
+
+    // Round and tournament totals are computed on demand from the matches
+    for (const round of await db.select().from(rounds)) {
+      const { teamScores } = await this.calculateRoundScores(round.id);
+      snapshot.set(`round:${round.id}`, { teamScores });
+    }
+    for (const t of await this.getTournaments()) {
+      const { teamScores } = await this.calculateTournamentScores(t.id);
+      snapshot.set(`tournament:${t.id}`, { teamScores });
+    }
+    return snapshot;
+  }
+
+  // One transaction, so a rebuild that fails partway leaves the old stats
+  // in place rather than empty or half-built ones
+  async rebuildDerivedData(): Promise<RebuildReport> {
+    return inTransaction(async () => {
+      const before = await this.snapshotDerivedData();
+
+      // Clear everything that is only ever built up from match results
+      await db.delete(player_matchups);
+      await db.delete(player_match_type_stats);
+      await db.delete(tournament_player_stats);
+      await db.delete(player_career_stats);
+      await db.update(players).set({ wins: 0, losses: 0, ties: 0 });
+
+      const allMatches = await db.select().from(matches).orderBy(asc(matches.id));
+      for (const match of allMatches) {
+        await this.updateMatchState(match.id, true);
+      }
+
+      // Oldest first, so each history row sees its defending champion's
+      // rebuilt result. Only tournaments already in the history are recorded.
+      const allTournaments = (await this.getTournaments()).sort((a, b) => a.year - b.year || a.id - b.id);
+      const recorded = new Set((await this.getTournamentHistory()).map((row) => row.tournamentId));
+      for (const t of allTournaments) {
+        await this.calculateAndUpdateAllPlayerStats(t.id);
+        if (recorded.has(t.id)) await this.updateTournamentHistory(t.id);
+      }
+
+      const after = await this.snapshotDerivedData();
+      return {
+        matchesReplayed: allMatches.length,
+        tournamentsRebuilt: allTournaments.length,
+        changes: diffSnapshots(before, after),
+      };
+    });
+  }
+
   async initializeData() {
     // Create default course if it doesn't exist
     const existingCourses = await this.getCourses();
@@ -1718,10 +2927,6 @@ export class DBStorage implements IStorage {
     if (!existingTournament) {
       await this.createTournament({
         name: "Rowdy Cup 2025",
-        aviatorScore: 0,
-        producerScore: 0,
-        pendingAviatorScore: 0,
-        pendingProducerScore: 0,
         year: new Date().getFullYear(),
       });
     }
@@ -1732,13 +2937,15 @@ export class DBStorage implements IStorage {
       await db.insert(teams).values({
         name: "The Aviators",
         shortName: "aviators",
-        colorCode: "#004A7F", // Dark blue
+        colorCode: "#00214D", // Navy
+        logoUrl: "/team-logos/aviators-logo.svg",
       });
       
       await db.insert(teams).values({
         name: "The Producers",
         shortName: "producers",
-        colorCode: "#800000", // Maroon
+        colorCode: "#BF1238", // Crimson
+        logoUrl: "/team-logos/producers-logo.svg",
       });
     }
     
@@ -1816,10 +3023,49 @@ export class DBStorage implements IStorage {
     return row;
   }
 
+  // Tee set methods
+  async getTeeSetsByCourse(courseId: number) {
+    return db.select().from(tee_sets).where(eq(tee_sets.courseId, courseId));
+  }
+
+  async getTeeSet(id: number) {
+    const [row] = await db.select().from(tee_sets).where(eq(tee_sets.id, id));
+    return row;
+  }
+
+  async createTeeSet(data: InsertTeeSet) {
+    const [row] = await db.insert(tee_sets).values(data).returning();
+    return row;
+  }
+
+  async updateTeeSet(id: number, data: Partial<InsertTeeSet>) {
+    const [row] = await db
+      .update(tee_sets)
+      .set(data)
+      .where(eq(tee_sets.id, id))
+      .returning();
+    return row;
+  }
+
+  async deleteTeeSet(id: number) {
+    return await db.transaction(async (tx) => {
+      // Rounds played from these tees fall back to the course's ratings
+      await tx
+        .update(rounds)
+        .set({ teeSetId: null })
+        .where(eq(rounds.teeSetId, id));
+
+      const result = await tx
+        .delete(tee_sets)
+        .where(eq(tee_sets.id, id))
+        .returning({ id: tee_sets.id });
+      return result.length > 0;
+    });
+  }
+
   // Handicap system methods
-  // Method removed: updatePlayerHandicapIndex 
-  // We no longer store handicap index in the players table
-  // Instead, we directly store course handicaps in the player_course_handicaps table
+  // Course handicaps are calculated from the player's handicap index and the
+  // round's tees. Rows in player_course_handicaps are admin overrides.
 
   async updateCourseRatings(courseId: number, data: { courseRating: number, slopeRating: number, par: number }) {
     try {
@@ -1848,28 +3094,131 @@ export class DBStorage implements IStorage {
     return row;
   }
 
-  async calculateCourseHandicap(playerId: number, roundId: number): Promise<number> {
-    // This method is now simplified since handicaps are manually entered
-    // and stored directly in player_course_handicaps table
-    
-    // Check if we already have a stored handicap with the roundId
-    const [storedHandicap] = await db
-      .select()
-      .from(player_course_handicaps)
-      .where(
-        and(
-          eq(player_course_handicaps.playerId, playerId),
-          eq(player_course_handicaps.roundId, roundId)
+  // Ratings of the tees a round is played from: its tee set, else the course's own ratings
+  private async getRoundTeeRating(round: { teeSetId?: number | null; courseId?: number | null } | undefined) {
+    if (!round) return null;
+
+    if (round.teeSetId) {
+      const teeSet = await this.getTeeSet(round.teeSetId);
+      if (teeSet) {
+        return { teeSetId: teeSet.id, teeName: teeSet.name, courseRating: teeSet.courseRating, slopeRating: teeSet.slopeRating, par: teeSet.par };
+      }
+    }
+
+    if (round.courseId) {
+      const course = await this.getCourse(round.courseId);
+      if (hasTeeRating(course)) {
+        return { teeSetId: null, teeName: null, courseRating: course.courseRating, slopeRating: course.slopeRating, par: course.par };
+      }
+    }
+
+    return null;
+  }
+
+  // Describe a player's course handicap for a round and where the number came from
+  private describeCourseHandicap(
+    playerId: number,
+    roundId: number,
+    roundIndex: { handicapIndex: string | number | null; effectiveDate: string | null },
+    tee: Awaited<ReturnType<DBStorage["getRoundTeeRating"]>>,
+    override?: { id: number; courseHandicap: number },
+  ) {
+    const { handicapIndex } = roundIndex;
+    const index = handicapIndex === null || handicapIndex === undefined ? null : Number(handicapIndex);
+    const calculatedHandicap = index !== null && !isNaN(index) && tee
+      ? courseHandicapFromIndex(index, tee)
+      : null;
+
+    let source: CourseHandicapSource = "none";
+    if (override) source = "override";
+    else if (calculatedHandicap !== null) source = "calculated";
+
+    return {
+      id: override?.id,
+      playerId,
+      roundId,
+      courseHandicap: override ? override.courseHandicap : calculatedHandicap ?? 0,
+      source,
+      calculatedHandicap,
+      handicapIndex: index,
+      indexEffectiveDate: roundIndex.effectiveDate,
+      teeSetId: tee?.teeSetId ?? null,
+      teeName: tee?.teeName ?? null,
+      courseRating: tee ? Number(tee.courseRating) : null,
+      slopeRating: tee?.slopeRating ?? null,
+      par: tee?.par ?? null,
+    };
+  }
+
+  // Latest index revision on or before `asOf`. Players whose history starts
+  // after that date use their earliest revision, and players with no history
+  // fall back to the index on their player record.
+  private async getHandicapIndexAsOf(
+    player: { id: number; handicapIndex: string | null } | undefined,
+    asOf: string | null,
+  ): Promise<{ handicapIndex: string | null; effectiveDate: string | null }> {
+    if (!player) return { handicapIndex: null, effectiveDate: null };
+
+    if (asOf) {
+      const [revision] = await db
+        .select()
+        .from(handicap_index_history)
+        .where(
+          and(
+            eq(handicap_index_history.playerId, player.id),
+            lte(handicap_index_history.effectiveDate, asOf)
+          )
         )
-      );
-      
-    if (storedHandicap) {
-      return storedHandicap.courseHandicap;
+        .orderBy(desc(handicap_index_history.effectiveDate), desc(handicap_index_history.id))
+        .limit(1);
+      if (revision) {
+        return { handicapIndex: revision.handicapIndex, effectiveDate: revision.effectiveDate };
+      }
     }
-    
-    // If no handicap is found, return 0 (no handicap)
-    // The admin will need to manually enter course handicaps
-    return 0;
+
+    // Earliest revision when the history starts after the cutoff, else the latest
+    const [fallback] = await db
+      .select()
+      .from(handicap_index_history)
+      .where(eq(handicap_index_history.playerId, player.id))
+      .orderBy(asOf ? asc(handicap_index_history.effectiveDate) : desc(handicap_index_history.effectiveDate))
+      .limit(1);
+    if (fallback) {
+      return { handicapIndex: fallback.handicapIndex, effectiveDate: fallback.effectiveDate };
+    }
+
+    return { handicapIndex: player.handicapIndex, effectiveDate: null };
+  }
+
+  // Indices are read as of the round date, or the tournament's lock date if earlier
+  private async getHandicapCutoff(round: { date?: string | null; tournamentId?: number | null } | undefined) {
+    if (!round) return null;
+    let cutoff = round.date || null;
+    if (round.tournamentId) {
+      const [roundTournament] = await db
+        .select({ handicapLockDate: tournament.handicapLockDate })
+        .from(tournament)
+        .where(eq(tournament.id, round.tournamentId));
+      const lockDate = roundTournament?.handicapLockDate;
+      if (lockDate && (!cutoff || lockDate < cutoff)) {
+        cutoff = lockDate;
+      }
+    }
+    return cutoff;
+  }
+
+  async calculateCourseHandicap(playerId: number, roundId: number): Promise<number> {
+    const player = await this.getPlayer(playerId);
+    const round = await this.getRound(roundId);
+    const tee = await this.getRoundTeeRating(round);
+    const { handicapIndex } = await this.getHandicapIndexAsOf(player, await this.getHandicapCutoff(round));
+
+    if (handicapIndex === null || handicapIndex === undefined || !tee) {
+      // No index or no ratings to calculate from
+      return 0;
+    }
+
+    return courseHandicapFromIndex(Number(handicapIndex), tee);
   }
 
   async getPlayerCourseHandicap(playerId: number, roundId: number) {
@@ -1885,13 +3234,17 @@ export class DBStorage implements IStorage {
           )
         );
       
+      const round = await this.getRound(roundId);
+      const player = await this.getPlayer(playerId);
+      const tee = await this.getRoundTeeRating(round);
+      const roundIndex = await this.getHandicapIndexAsOf(player, await this.getHandicapCutoff(round));
+
       if (storedHandicap) {
-        return storedHandicap;
+        return this.describeCourseHandicap(playerId, roundId, roundIndex, tee, storedHandicap);
       }
       
       // If not found with roundId, check if exists with courseId
       // This is for backward compatibility during migration
-      const round = await this.getRound(roundId);
       if (round && round.courseId) {
         const [legacyHandicap] = await db
           .select()
@@ -1910,56 +3263,101 @@ export class DBStorage implements IStorage {
             .set({ roundId: roundId })
             .where(eq(player_course_handicaps.id, legacyHandicap.id));
             
-          return {
-            ...legacyHandicap,
-            roundId: roundId
-          };
+          return this.describeCourseHandicap(playerId, roundId, roundIndex, tee, legacyHandicap);
         }
       }
   
-      // If no handicap is stored, calculate it
-      const calculatedHandicap = await this.calculateCourseHandicap(playerId, roundId);
-      return { 
-        playerId, 
-        roundId, 
-        courseHandicap: calculatedHandicap 
-      };
+      // If no override is stored, calculate it
+      return this.describeCourseHandicap(playerId, roundId, roundIndex, tee);
     } catch (error) {
       console.error("Error in getPlayerCourseHandicap:", error);
       return { 
         playerId, 
         roundId, 
-        courseHandicap: 0 
+        courseHandicap: 0,
+        source: "none" as CourseHandicapSource
       };
     }
   }
 
-  async getHoleHandicapStrokes(playerId: number, roundId: number, holeNumber: number): Promise<number> {
-    // Get the player's course handicap
-    const handicapData = await this.getPlayerCourseHandicap(playerId, roundId);
-    const courseHandicap = handicapData.courseHandicap || 0;
+  async getMatchPlayingHandicaps(matchId: number) {
+    const match = await this.getMatch(matchId);
+    if (!match) return undefined;
+
+    const round = await this.getRound(match.roundId);
+    const allowance = allowanceFor(round?.matchType, round);
+    const participants = await this.getMatchParticipants(matchId);
+    const courseHandicaps = await this.getAllPlayerCourseHandicaps(match.roundId);
+
+    const golfers: MatchGolfer[] = participants.map((p) => ({
+      playerId: p.playerId,
+      teamId: p.teamId,
+      courseHandicap: courseHandicaps.find((h) => h.playerId === p.playerId)?.courseHandicap ?? 0,
+    }));
+    const playing = playingHandicaps(allowance, golfers);
+
+    return {
+      matchId,
+      roundId: match.roundId,
+      allowance,
+      // What each side plays off in team-ball formats
+      sides: sidePlayingHandicaps(allowance, golfers),
+      golfers: golfers.map((g) => ({ ...g, playingHandicap: playing.get(g.playerId) ?? 0 })),
+    };
+  }
+
+  async getHoleHandicapStrokes(playerId: number, roundId: number, holeNumber: number, matchId?: number): Promise<number> {
+    // Get the round to find the course and format
+    const courseRound = await this.getRound(roundId);
+
+    // Strokes depend on who the player is playing, so find their match
+    let playerMatchId = matchId;
+    if (!playerMatchId) {
+      const [entry] = await db
+        .select({ matchId: match_players.matchId })
+        .from(match_players)
+        .innerJoin(matches, eq(match_players.matchId, matches.id))
+        .where(and(eq(match_players.playerId, playerId), eq(matches.roundId, roundId)));
+      playerMatchId = entry?.matchId;
+    }
+
+    // Outside a match the player plays off their full course handicap
+    let playingHandicap = (await this.getPlayerCourseHandicap(playerId, roundId)).courseHandicap || 0;
+    if (playerMatchId) {
+      const matchHandicaps = await this.getMatchPlayingHandicaps(playerMatchId);
+      const golfer = matchHandicaps?.golfers.find((g) => g.playerId === playerId);
+      if (matchHandicaps && golfer) {
+        playingHandicap = getMatchFormat(courseRound?.matchType).scoreEntry === "team"
+          ? matchHandicaps.sides[golfer.teamId] ?? 0
+          : golfer.playingHandicap;
+      }
+    }
     
-    if (courseHandicap <= 0) {
-      return 0; // No strokes given if handicap is 0 or negative
+    if (playingHandicap === 0) {
+      return 0; // Scratch players neither get nor give strokes
     }
     
-    // Get the round to find the course
-    const courseRound = await this.getRound(roundId);
     if (!courseRound || !courseRound.courseId) {
       return 0;
     }
     
-    // Get the hole details including its handicap rank
+    // Get the hole details including its handicap rank; an extra hole
+    // plays off the course hole it replays
+    let courseHoleNumber = holeNumber;
+    if (isPlayoffHole(holeNumber)) {
+      const playerMatch = playerMatchId ? await this.getMatch(playerMatchId) : undefined;
+      const playoff = resolvePlayoff(playerMatch, courseRound, resolveHoleRange(playerMatch, courseRound));
+      courseHoleNumber = playoffCourseHole(holeNumber, playoff);
+    }
     const courseHoles = await this.getHolesByCourse(courseRound.courseId);
-    const hole = courseHoles.find(h => h.number === holeNumber);
+    const hole = courseHoles.find(h => h.number === courseHoleNumber);
     
     if (!hole || hole.handicapRank === null) {
       return 0; // No strokes if hole has no handicap ranking
     }
     
-    // Determine if player gets a stroke on this hole
-    // If course handicap is 9, player gets strokes on holes ranked 1-9
-    return hole.handicapRank <= courseHandicap ? 1 : 0;
+    // Full allocation: extra strokes past 18, give-backs for plus handicaps
+    return calculateHandicapStrokes(playingHandicap, hole.handicapRank);
   }
 
   async storePlayerCourseHandicap(playerId: number, roundId: number, courseHandicap: number) {
@@ -2001,25 +3399,127 @@ export class DBStorage implements IStorage {
     }
   }
 
+  async deletePlayerCourseHandicap(playerId: number, roundId: number) {
+    const result = await db
+      .delete(player_course_handicaps)
+      .where(
+        and(
+          eq(player_course_handicaps.playerId, playerId),
+          eq(player_course_handicaps.roundId, roundId)
+        )
+      )
+      .returning({ id: player_course_handicaps.id });
+    return result.length > 0;
+  }
+
   async getAllPlayerCourseHandicaps(roundId: number) {
     try {
-      // Get all handicaps for this round
-      const handicaps = await db
+      const round = await this.getRound(roundId);
+      const tee = await this.getRoundTeeRating(round);
+      const cutoff = await this.getHandicapCutoff(round);
+
+      // Admin overrides for this round
+      const overrides = await db
         .select()
         .from(player_course_handicaps)
         .where(eq(player_course_handicaps.roundId, roundId));
-      
-      // With the new approach, handicaps are manually entered
-      // So we simply return what's in the database
-      return handicaps;
+
+      // Everyone playing in the round, plus anyone with an override
+      const participants = await db
+        .select({ playerId: match_players.playerId })
+        .from(match_players)
+        .innerJoin(matches, eq(match_players.matchId, matches.id))
+        .where(eq(matches.roundId, roundId));
+
+      const playerIds = new Set([
+        ...participants.map((p) => p.playerId),
+        ...overrides.map((o) => o.playerId),
+      ]);
+      const roundPlayers = (await this.getPlayers()).filter((p) => playerIds.has(p.id));
+
+      return Promise.all(
+        roundPlayers.map(async (player) =>
+          this.describeCourseHandicap(
+            player.id,
+            roundId,
+            await this.getHandicapIndexAsOf(player, cutoff),
+            tee,
+            overrides.find((o) => o.playerId === player.id),
+          ),
+        ),
+      );
     } catch (error) {
       console.error("Error getting all player course handicaps:", error);
       return [];
     }
   }
 
+  async getHandicapIndexHistory(playerId: number) {
+    return db
+      .select()
+      .from(handicap_index_history)
+      .where(eq(handicap_index_history.playerId, playerId))
+      .orderBy(asc(handicap_index_history.effectiveDate), asc(handicap_index_history.id));
+  }
+
+  // Keep the player record's index in step with their latest revision
+  private async syncCurrentHandicapIndex(playerId: number) {
+    const [latest] = await db
+      .select()
+      .from(handicap_index_history)
+      .where(eq(handicap_index_history.playerId, playerId))
+      .orderBy(desc(handicap_index_history.effectiveDate), desc(handicap_index_history.id))
+      .limit(1);
+    await db
+      .update(players)
+      .set({ handicapIndex: latest ? latest.handicapIndex : null })
+      .where(eq(players.id, playerId));
+  }
+
+  async addHandicapIndexRevision(data: InsertHandicapIndexHistory) {
+    const [row] = await db.insert(handicap_index_history).values(data).returning();
+    await this.syncCurrentHandicapIndex(data.playerId);
+    return row;
+  }
+
+  async deleteHandicapIndexRevision(id: number) {
+    const [row] = await db
+      .delete(handicap_index_history)
+      .where(eq(handicap_index_history.id, id))
+      .returning();
+    if (!row) return false;
+    await this.syncCurrentHandicapIndex(row.playerId);
+    return true;
+  }
+
+  async importHandicapIndexes(rows: { name: string; handicapIndex: number; effectiveDate: string }[]) {
+    const roster = await this.getPlayers();
+    const skipped: { name: string; reason: string }[] = [];
+    let imported = 0;
+
+    for (const row of rows) {
+      const player = roster.find((p) => p.name.trim().toLowerCase() === row.name.trim().toLowerCase());
+      if (!player) {
+        skipped.push({ name: row.name, reason: "No player with this name" });
+        continue;
+      }
+      await this.addHandicapIndexRevision({
+        playerId: player.id,
+        handicapIndex: row.handicapIndex.toString(),
+        effectiveDate: row.effectiveDate,
+        source: "csv",
+      });
+      imported++;
+    }
+
+    return { imported, skipped };
+  }
+
   // Best Ball Score methods
-  async saveBestBallScore(score: InsertBestBallScore) {
+  // With `expectedVersion`, a score another phone has changed since is
+  // refused, unless this writes the same score
+  async saveBestBallScore(score: InsertBestBallScore, expectedVersion?: number) {
+    await this.assertMatchUnlocked(score.matchId);
     const existingScore = await db
       .select()
       .from(best_ball_player_scores)
@@ -2034,21 +3534,31 @@ export class DBStorage implements IStorage {
 
     if (existingScore.length > 0) {
       // Update existing score
-      return db
+      const checkVersion = expectedVersion !== undefined && existingScore[0].score !== score.score;
+      const updated = await db
         .update(best_ball_player_scores)
         .set({
           score: score.score,
           handicapStrokes: score.handicapStrokes,
           netScore: score.netScore,
+          ...(score.puttConceded !== undefined ? { puttConceded: score.puttConceded } : {}),
+          version: sql`${best_ball_player_scores.version} + 1`,
           updatedAt: new Date().toISOString()
         })
-        .where(eq(best_ball_player_scores.id, existingScore[0].id))
+        .where(
+          and(
+            eq(best_ball_player_scores.id, existingScore[0].id),
+            checkVersion ? eq(best_ball_player_scores.version, expectedVersion) : undefined,
+          ),
+        )
         .returning();
+      if (updated.length === 0) throw new StaleScoreError([score.playerId]);
+      return updated;
     } else {
       // Insert new score
       return db
         .insert(best_ball_player_scores)
-        .values(score)
+        .values({ ...score, version: 1 })
         .returning();
     }
   }
@@ -2062,6 +3572,7 @@ export class DBStorage implements IStorage {
   }
 
   async deleteBestBallScore(matchId: number, playerId: number, holeNumber: number) {
+    await this.assertMatchUnlocked(matchId);
     return db
       .delete(best_ball_player_scores)
       .where(
@@ -2073,6 +3584,196 @@ export class DBStorage implements IStorage {
       );
   }
 
+  // Match scorers
+  async getMatchScorers(matchId: number) {
+    return db
+      .select({ userId: match_scorers.userId, username: users.username })
+      .from(match_scorers)
+      .innerJoin(users, eq(match_scorers.userId, users.id))
+      .where(eq(match_scorers.matchId, matchId));
+  }
+
+  async addMatchScorer(matchId: number, userId: number) {
+    const existing = await db
+      .select()
+      .from(match_scorers)
+      .where(and(eq(match_scorers.matchId, matchId), eq(match_scorers.userId, userId)));
+    if (existing.length > 0) return existing[0];
+
+    const [row] = await db.insert(match_scorers).values({ matchId, userId }).returning();
+    return row;
+  }
+
+  async removeMatchScorer(matchId: number, userId: number) {
+    await db
+      .delete(match_scorers)
+      .where(and(eq(match_scorers.matchId, matchId), eq(match_scorers.userId, userId)));
+    return true;
+  }
+
+  // Admins can score any match; anyone else must be playing in it, through
+  // their linked player, or be one of its assigned scorers
+  async canUserScoreMatch(user: { id: number; isAdmin: boolean; playerId: number | null }, matchId: number) {
+    if (user.isAdmin) return true;
+
+    if (user.playerId !== null) {
+      const [participant] = await db
+        .select({ id: match_players.id })
+        .from(match_players)
+        .where(and(eq(match_players.matchId, matchId), eq(match_players.playerId, user.playerId)));
+      if (participant) return true;
+    }
+
+    const [scorer] = await db
+      .select({ id: match_scorers.id })
+      .from(match_scorers)
+      .where(and(eq(match_scorers.matchId, matchId), eq(match_scorers.userId, user.id)));
+    return !!scorer;
+  }
+
+  // Score audit trail
+  async recordScoreEvent(data: InsertScoreEvent) {
+    const [row] = await db.insert(score_events).values(data).returning();
+    return row;
+  }
+
+  async getScoreEvents(matchId: number) {
+    return db
+      .select({
+        event: score_events,
+        username: users.username,
+      })
+      .from(score_events)
+      .leftJoin(users, eq(score_events.userId, users.id))
+      .where(eq(score_events.matchId, matchId))
+      .orderBy(desc(score_events.createdAt), desc(score_events.id))
+      .then((rows) => rows.map(({ event, username }) => ({ ...event, username })));
+  }
+
+  // Who made the latest change to a hole's team scores, or to one golfer's
+  // score on it, and the team they play for if they are linked to a player
+  async getLastScoreEditor(matchId: number, holeNumber: number, playerId?: number) {
+    const [row] = await db
+      .select({ username: users.username, teamId: players.teamId })
+      .from(score_events)
+      .leftJoin(users, eq(score_events.userId, users.id))
+      .leftJoin(players, eq(users.playerId, players.id))
+      .where(
+        and(
+          eq(score_events.matchId, matchId),
+          eq(score_events.holeNumber, holeNumber),
+          playerId !== undefined
+            ? eq(score_events.playerId, playerId)
+            : eq(score_events.kind, "team"),
+        ),
+      )
+      .orderBy(desc(score_events.createdAt), desc(score_events.id))
+      .limit(1);
+    return row;
+  }
+
+  // Match locks
+  private async assertMatchUnlocked(matchId: number) {
+    if (await this.isMatchLocked(matchId)) {
+      throw new Error("Match is locked");
+    }
+  }
+
+  // A completed match past its tournament's auto-lock time is locked on
+  // the spot, so the check never waits on the next sweep
+  async isMatchLocked(matchId: number) {
+    const [row] = await db
+      .select({ locked: matches.locked, status: matches.status })
+      .from(matches)
+      .where(eq(matches.id, matchId));
+    if (!row) return false;
+    if (row.locked) return true;
+    return row.status === "completed" && (await this.lockDueMatches(matchId)).length > 0;
+  }
+
+  private async setMatchLock(
+    matchId: number,
+    locked: boolean,
+    event: { action: MatchLockEvent["action"]; userId: number | null; reason?: string | null },
+  ) {
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(matches)
+        // Unlocking restarts the auto-lock clock, or a completed match
+        // would lock again straight away
+        .set(locked ? { locked } : { locked, unlockedAt: sql`now()` })
+        .where(eq(matches.id, matchId))
+        .returning();
+      if (row) {
+        await tx.insert(match_lock_events).values({ matchId, ...event, reason: event.reason ?? null });
+      }
+      return row;
+    });
+  }
+
+  async lockMatch(matchId: number, userId: number | null) {
+    return this.setMatchLock(matchId, true, { action: "lock", userId });
+  }
+
+  async unlockMatch(matchId: number, userId: number | null, reason: string) {
+    return this.setMatchLock(matchId, false, { action: "unlock", userId, reason });
+  }
+
+  // Completed, unlocked matches whose tournament's auto-lock time has run
+  // out since they finished or were last unlocked, optionally just the one match
+  private async lockDueMatches(matchId?: number) {
+    const due = await db
+      .select({ id: matches.id })
+      .from(matches)
+      .innerJoin(rounds, eq(matches.roundId, rounds.id))
+      .innerJoin(tournament, eq(rounds.tournamentId, tournament.id))
+      .where(
+        and(
+          matchId !== undefined ? eq(matches.id, matchId) : undefined,
+          eq(matches.status, "completed"),
+          or(isNull(matches.locked), eq(matches.locked, false)),
+          sql`greatest(${matches.completedAt}, ${matches.unlockedAt}) + make_interval(mins => ${tournament.autoLockMinutes}) <= now()`,
+        ),
+      );
+
+    for (const { id } of due) {
+      await this.setMatchLock(id, true, { action: "auto_lock", userId: null });
+    }
+    return due.map(({ id }) => id);
+  }
+
+  async autoLockCompletedMatches() {
+    return this.lockDueMatches();
+  }
+
+  async getMatchLockEvents(matchId: number) {
+    return db
+      .select({
+        event: match_lock_events,
+        username: users.username,
+      })
+      .from(match_lock_events)
+      .leftJoin(users, eq(match_lock_events.userId, users.id))
+      .where(eq(match_lock_events.matchId, matchId))
+      .orderBy(desc(match_lock_events.createdAt), desc(match_lock_events.id))
+      .then((rows) => rows.map(({ event, username }) => ({ ...event, username })));
+  }
+
+  async saveBestBallScoreAndMatch(score: InsertBestBallScore, expectedVersion?: number) {
+    const [saved] = await this.saveBestBallScore(score, expectedVersion);
+
+    // Individual scores drive the team result in player-level formats
+    await this.updateMatchState(score.matchId);
+
+    return saved;
+  }
+
+  async deleteBestBallScoreAndMatch(matchId: number, playerId: number, holeNumber: number) {
+    const result = await this.deleteBestBallScore(matchId, playerId, holeNumber);
+    await this.updateMatchState(matchId);
+    return result;
+  }
+
   // Sportsbook methods - Bet Types
   async getBetTypes(): Promise<BetType[]> {
     return db.select().from(bet_types);
@@ -2181,6 +3882,8 @@ export class DBStorage implements IStorage {
           status: status,
           actualResult: actualResult,
           settledAt: new Date().toISOString(),
+          needsReview: false,
+          reviewReason: null,
         })
         .where(eq(bets.id, id))
         .returning();
@@ -7,9 +7,11 @@ import {
   numeric,
   foreignKey,
   timestamp,
+  jsonb,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isAllowanceMethod, isSkinsType, isSupportedHoleRange, parsePlayoffHoleOrder } from "./scoring";
 
 // Courses table
 export const courses = pgTable("courses", {
@@ -31,6 +33,7 @@ export const teams = pgTable("teams", {
   name: text("name").notNull(),
   shortName: text("short_name").notNull(),
   colorCode: text("color_code").notNull(),
+  logoUrl: text("logo_url"), // Shown in place of the team's initial when set
 });
 export const insertTeamSchema = createInsertSchema(teams);
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
@@ -48,7 +51,7 @@ export const players = pgTable(
     losses: integer("losses").default(0),
     ties: integer("ties").default(0),
     status: text("status"),
-    // handicapIndex removed - now using player_course_handicaps table
+    handicapIndex: numeric("handicap_index"), // WHS handicap index (e.g., 12.4)
   },
   (table) => {
     return {
@@ -70,7 +73,7 @@ export const insertPlayerSchema = z.object({
   losses: z.number().optional().default(0),
   ties: z.number().optional().default(0),
   status: z.string().optional(),
-  // handicapIndex removed - now using player_course_handicaps table
+  handicapIndex: z.union([z.number(), z.string()]).nullable().optional(),
 });
 export type InsertPlayer = z.infer<typeof insertPlayerSchema>;
 export type Player = typeof players.$inferSelect;
@@ -133,18 +136,42 @@ export const insertHoleSchema = createInsertSchema(holes);
 export type InsertHole = z.infer<typeof insertHoleSchema>;
 export type Hole = typeof holes.$inferSelect;
 
+// Tee Sets table - each course can be played from several tees with their own ratings
+export const tee_sets = pgTable(
+  "tee_sets",
+  {
+    id: serial("id").primaryKey(),
+    courseId: integer("course_id").notNull(),
+    name: text("name").notNull(), // e.g., "Blue", "White"
+    courseRating: numeric("course_rating").notNull(), // Course rating (e.g., 72.4)
+    slopeRating: integer("slope_rating").notNull(), // Slope rating (e.g., 135)
+    par: integer("par").notNull(),
+  },
+  (table) => {
+    return {
+      courseIdFk: foreignKey({
+        columns: [table.courseId],
+        foreignColumns: [courses.id],
+        name: "tee_sets_course_id_fk",
+      }),
+    };
+  },
+);
+export const insertTeeSetSchema = createInsertSchema(tee_sets);
+export type InsertTeeSet = z.infer<typeof insertTeeSetSchema>;
+export type TeeSet = typeof tee_sets.$inferSelect;
+
 // Tournament table (multiple tournaments over time)
 export const tournament = pgTable("tournament", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  aviatorScore: numeric("aviator_score"),
-  producerScore: numeric("producer_score"),
-  pendingAviatorScore: numeric("pending_aviator_score"),
-  pendingProducerScore: numeric("pending_producer_score"),
   year: integer("year").notNull(), // Keep for backward compatibility
   isActive: boolean("is_active").default(true),
   startDate: timestamp("start_date", { mode: 'string' }),
   endDate: timestamp("end_date", { mode: 'string' }),
+  handicapLockDate: text("handicap_lock_date"), // Indices revised after this date (YYYY-MM-DD) are ignored
+  format: text("format").default("cup"), // "cup" or "round_robin"
+  autoLockMinutes: integer("auto_lock_minutes"), // Completed matches lock this long after finishing; null never
 });
 export const insertTournamentSchema = createInsertSchema(tournament);
 export type InsertTournament = z.infer<typeof insertTournamentSchema>;
@@ -162,10 +189,30 @@ export const rounds = pgTable(
     startTime: text("start_time").notNull(),
     isComplete: boolean("is_complete").default(false),
     status: text("status"),
-    aviatorScore: numeric("aviator_score"),
-    producerScore: numeric("producer_score"),
     courseId: integer("course_id"),
+    teeSetId: integer("tee_set_id"), // Tees played; falls back to the course's ratings
     tournamentId: integer("tournament_id").notNull(),
+    startHole: integer("start_hole").default(1), // First hole played in the round's matches
+    endHole: integer("end_hole").default(18), // Last hole played in the round's matches
+    isNassau: boolean("is_nassau").default(false), // Score front, back and overall separately
+    nassauFrontPoints: numeric("nassau_front_points").default("1"),
+    nassauBackPoints: numeric("nassau_back_points").default("1"),
+    nassauOverallPoints: numeric("nassau_overall_points").default("1"),
+    pointsForWin: numeric("points_for_win").default("1"),
+    pointsForHalve: numeric("points_for_halve").default("0.5"),
+    pointsForLoss: numeric("points_for_loss").default("0"),
+    // Handicap allowance; null falls back to the match format's default
+    allowanceMethod: text("allowance_method"), // "individual", "combined" or "weighted"
+    allowancePercent: numeric("allowance_percent"), // e.g., 90 for four-ball
+    allowanceTeamPercents: text("allowance_team_percents"), // e.g., "35,15", lowest handicap first
+    allowanceOffLow: boolean("allowance_off_low"), // Strokes off the lowest handicap in the match
+    playoffEnabled: boolean("playoff_enabled").default(false), // Halved matches go to sudden-death extra holes
+    playoffHoleOrder: text("playoff_hole_order"), // e.g., "1,2,18"; null replays the match's holes in order
+    // Skins across every player's own ball in the round
+    skinsEnabled: boolean("skins_enabled").default(false),
+    skinsType: text("skins_type").default("gross"), // "gross" or "net"
+    skinsValidation: boolean("skins_validation").default(false), // A skin must be tied or beaten on the next hole
+    skinsValue: numeric("skins_value"), // Paid to the winner per skin by each other player
   },
   (table) => {
     return {
@@ -174,6 +221,11 @@ export const rounds = pgTable(
         foreignColumns: [courses.id],
         name: "rounds_course_id_fk",
       }),
+      teeSetIdFk: foreignKey({
+        columns: [table.teeSetId],
+        foreignColumns: [tee_sets.id],
+        name: "rounds_tee_set_id_fk",
+      }),
       tournamentIdFk: foreignKey({
         columns: [table.tournamentId],
         foreignColumns: [tournament.id],
@@ -182,7 +234,29 @@ export const rounds = pgTable(
     };
   },
 );
-export const insertRoundSchema = createInsertSchema(rounds);
+export const insertRoundSchema = createInsertSchema(rounds)
+  .refine(
+    (r) => isSupportedHoleRange(r.startHole ?? 1, r.endHole ?? 18),
+    { message: "Hole range must be 1-18, 1-9 or 10-18", path: ["startHole"] },
+  )
+  .refine(
+    (r) => !r.isNassau || ((r.startHole ?? 1) === 1 && (r.endHole ?? 18) === 18),
+    { message: "Nassau rounds must be played over 18 holes", path: ["isNassau"] },
+  )
+  .refine(
+    (r) => !r.allowanceMethod || isAllowanceMethod(r.allowanceMethod),
+    { message: "Allowance method must be individual, combined or weighted", path: ["allowanceMethod"] },
+  )
+  .refine(
+    (r) =>
+      !r.playoffHoleOrder ||
+      parsePlayoffHoleOrder(r.playoffHoleOrder).length === r.playoffHoleOrder.split(",").length,
+    { message: "Playoff holes must be a comma-separated list of holes 1-18", path: ["playoffHoleOrder"] },
+  )
+  .refine(
+    (r) => !r.skinsType || isSkinsType(r.skinsType),
+    { message: "Skins must be gross or net", path: ["skinsType"] },
+  );
 export type InsertRound = z.infer<typeof insertRoundSchema>;
 export type Round = typeof rounds.$inferSelect;
 
@@ -195,11 +269,22 @@ export const matches = pgTable(
     name: text("name").notNull(),
     status: text("status").notNull(),
     currentHole: integer("current_hole").default(1),
-    leadingTeam: text("leading_team"),
+    teamAId: integer("team_a_id").notNull(), // The two teams playing the match
+    teamBId: integer("team_b_id").notNull(),
+    leadingTeamId: integer("leading_team_id"),
     leadAmount: integer("lead_amount").default(0),
     result: text("result"),
     locked: boolean("locked").default(false),
     tournamentId: integer("tournament_id"),
+    dormie: boolean("dormie").default(false), // Leader is up by exactly the holes remaining
+    closedOutHole: integer("closed_out_hole"), // Hole the match was decided on
+    startHole: integer("start_hole"), // Overrides the round's hole range when set
+    endHole: integer("end_hole"),
+    nassauResults: jsonb("nassau_results"), // Per-leg results for Nassau rounds
+    playoffEnabled: boolean("playoff_enabled"), // Overrides the round's playoff setting when set
+    concededByTeamId: integer("conceded_by_team_id"), // Team that conceded the match, if it was conceded
+    completedAt: timestamp("completed_at", { mode: 'string' }), // When the match last became completed
+    unlockedAt: timestamp("unlocked_at", { mode: 'string' }), // When an admin last unlocked it; restarts the auto-lock clock
   },
   (table) => {
     return {
@@ -208,6 +293,16 @@ export const matches = pgTable(
         foreignColumns: [rounds.id],
         name: "matches_round_id_fk",
       }),
+      teamAIdFk: foreignKey({
+        columns: [table.teamAId],
+        foreignColumns: [teams.id],
+        name: "matches_team_a_id_fk",
+      }),
+      teamBIdFk: foreignKey({
+        columns: [table.teamBId],
+        foreignColumns: [teams.id],
+        name: "matches_team_b_id_fk",
+      }),
       tournamentIdFk: foreignKey({
         columns: [table.tournamentId],
         foreignColumns: [tournament.id],
@@ -216,7 +311,17 @@ export const matches = pgTable(
     };
   },
 );
-export const insertMatchSchema = createInsertSchema(matches);
+export const insertMatchSchema = createInsertSchema(matches)
+  .refine(
+    (m) =>
+      (m.startHole == null && m.endHole == null) ||
+      (m.startHole != null && m.endHole != null && isSupportedHoleRange(m.startHole, m.endHole)),
+    { message: "Hole range must be 1-18, 1-9 or 10-18", path: ["startHole"] },
+  )
+  .refine((m) => m.teamAId !== m.teamBId, {
+    message: "A match must be between two different teams",
+    path: ["teamBId"],
+  });
 export type InsertMatch = z.infer<typeof insertMatchSchema>;
 export type Match = typeof matches.$inferSelect;
 
@@ -227,7 +332,7 @@ export const match_players = pgTable(
     id: serial("id").primaryKey(),
     matchId: integer("match_id").notNull(),
     playerId: integer("user_id").notNull(),
-    team: text("team").notNull(),
+    teamId: integer("team_id").notNull(),
     result: text("result"),
     tournamentId: integer("tournament_id"),
   },
@@ -243,6 +348,11 @@ export const match_players = pgTable(
         foreignColumns: [players.id],
         name: "match_participants_player_id_fk",
       }),
+      teamIdFk: foreignKey({
+        columns: [table.teamId],
+        foreignColumns: [teams.id],
+        name: "match_participants_team_id_fk",
+      }),
       tournamentIdFk: foreignKey({
         columns: [table.tournamentId],
         foreignColumns: [tournament.id],
@@ -255,18 +365,45 @@ export const insertMatchPlayerSchema = createInsertSchema(match_players);
 export type InsertMatchPlayer = z.infer<typeof insertMatchPlayerSchema>;
 export type MatchPlayer = typeof match_players.$inferSelect;
 
-// Scores table
+// Match Scorers table - users allowed to enter a match's scores without playing in it
+export const match_scorers = pgTable(
+  "match_scorers",
+  {
+    id: serial("id").primaryKey(),
+    matchId: integer("match_id").notNull(),
+    userId: integer("user_id").notNull(),
+  },
+  (table) => {
+    return {
+      matchIdFk: foreignKey({
+        columns: [table.matchId],
+        foreignColumns: [matches.id],
+        name: "match_scorers_match_id_fk",
+      }),
+      userIdFk: foreignKey({
+        columns: [table.userId],
+        foreignColumns: [users.id],
+        name: "match_scorers_user_id_fk",
+      }),
+    };
+  },
+);
+export type MatchScorer = typeof match_scorers.$inferSelect;
+
+// Scores table - the outcome of each hole of a match; the sides' scores
+// are kept in team_scores
 export const scores = pgTable(
   "scores",
   {
     id: serial("id").primaryKey(),
     matchId: integer("match_id").notNull(),
     holeNumber: integer("hole_number").notNull(),
-    aviatorScore: integer("aviator_score"),
-    producerScore: integer("producer_score"),
-    winningTeam: text("winning_team"),
+    winningTeamId: integer("winning_team_id"),
+    halved: boolean("halved").default(false), // Both sides scored the same
     matchStatus: text("match_status"),
     tournamentId: integer("tournament_id"),
+    conceded: boolean("conceded").default(false), // Hole given up; its scores don't count as played
+    concededByTeamId: integer("conceded_by_team_id"), // Team that conceded the hole
   },
   (table) => {
     return {
@@ -287,7 +424,60 @@ export const insertScoreSchema = createInsertSchema(scores);
 export type InsertScore = z.infer<typeof insertScoreSchema>;
 export type Score = typeof scores.$inferSelect;
 
-// Player Course Handicaps table - stores calculated course handicaps for players in specific rounds
+// Team scores table - one side's score for one hole of a match
+export const team_scores = pgTable(
+  "team_scores",
+  {
+    id: serial("id").primaryKey(),
+    matchId: integer("match_id").notNull(),
+    holeNumber: integer("hole_number").notNull(),
+    teamId: integer("team_id").notNull(),
+    score: integer("score"),
+    tournamentId: integer("tournament_id"),
+    version: integer("version").notNull().default(0), // Bumped on every change, so stale writes can be refused
+  },
+  (table) => {
+    return {
+      matchIdFk: foreignKey({
+        columns: [table.matchId],
+        foreignColumns: [matches.id],
+        name: "team_scores_match_id_fk",
+      }),
+      teamIdFk: foreignKey({
+        columns: [table.teamId],
+        foreignColumns: [teams.id],
+        name: "team_scores_team_id_fk",
+      }),
+      tournamentIdFk: foreignKey({
+        columns: [table.tournamentId],
+        foreignColumns: [tournament.id],
+        name: "team_scores_tournament_id_fk",
+      }),
+    };
+  },
+);
+export const insertTeamScoreSchema = createInsertSchema(team_scores);
+export type InsertTeamScore = z.infer<typeof insertTeamScoreSchema>;
+export type TeamScore = typeof team_scores.$inferSelect;
+
+// A hole as the API returns it: the scores row with each side's score
+// keyed by team id, and the version of each side's score
+export type HoleScore = Score & {
+  teamScores: Record<number, number | null>;
+  teamScoreVersions: Record<number, number>;
+};
+
+// A score a write would have overwritten without having seen it: what it is
+// now, and who entered it. Score routes answer 409 with a list of these.
+export interface StaleScore {
+  teamId?: number;
+  playerId?: number;
+  score: number | null;
+  version: number;
+  enteredBy: { username: string | null; teamId: number | null } | null;
+}
+
+// Player Course Handicaps table - stores admin overrides of the calculated course handicap for a round
 export const player_course_handicaps = pgTable(
   "player_course_handicaps",
   {
@@ -325,6 +515,35 @@ export type InsertPlayerCourseHandicap = z.infer<
 >;
 export type PlayerCourseHandicap = typeof player_course_handicaps.$inferSelect;
 
+// Handicap Index History table - every revision of a player's handicap index
+export const handicap_index_history = pgTable(
+  "handicap_index_history",
+  {
+    id: serial("id").primaryKey(),
+    playerId: integer("player_id").notNull(),
+    handicapIndex: numeric("handicap_index").notNull(),
+    effectiveDate: text("effective_date").notNull(), // Date the revision took effect (YYYY-MM-DD)
+    source: text("source").default("manual"), // "manual" or "csv"
+    createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
+  },
+  (table) => {
+    return {
+      playerIdFk: foreignKey({
+        columns: [table.playerId],
+        foreignColumns: [players.id],
+        name: "handicap_index_history_player_id_fk",
+      }),
+    };
+  },
+);
+export const insertHandicapIndexHistorySchema = createInsertSchema(handicap_index_history)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date must be YYYY-MM-DD"),
+  });
+export type InsertHandicapIndexHistory = z.infer<typeof insertHandicapIndexHistorySchema>;
+export type HandicapIndexHistory = typeof handicap_index_history.$inferSelect;
+
 // Tournament Player Stats table - stores player statistics for each tournament
 export const tournament_player_stats = pgTable(
   "tournament_player_stats",
@@ -368,9 +587,8 @@ export const tournament_history = pgTable(
     id: serial("id").primaryKey(),
     year: integer("year").notNull(),
     tournamentName: text("tournament_name").notNull(),
-    winningTeam: text("winning_team"),
-    aviatorScore: numeric("aviator_score"),
-    producerScore: numeric("producer_score"),
+    winningTeamId: integer("winning_team_id"), // Cup holder; null when tied with no defending champion
+    teamScores: jsonb("team_scores"), // Final points for each team: [{ teamId, score }]
     tournamentId: integer("tournament_id").notNull(),
     location: text("location"),
   },
@@ -381,6 +599,11 @@ export const tournament_history = pgTable(
         foreignColumns: [tournament.id],
         name: "tournament_history_tournament_id_fk",
       }),
+      winningTeamIdFk: foreignKey({
+        columns: [table.winningTeamId],
+        foreignColumns: [teams.id],
+        name: "tournament_history_winning_team_id_fk",
+      }),
     };
   },
 );
@@ -500,6 +723,7 @@ export const player_scores = pgTable(
     holeNumber: integer("hole_number").notNull(),
     score: integer("score").notNull(),
     tournamentId: integer("tournament_id"),
+    version: integer("version").notNull().default(0), // Bumped on every change, so stale writes can be refused
     createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
     updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow(),
   },
@@ -560,9 +784,11 @@ export const bets = pgTable(
     matchId: integer("match_id"), // For match-based bets
     playerId: integer("player_id"), // For player prop bets
     // Store bet parameters in standardized fields
-    selectedOption: text("selected_option").notNull(), // 'aviators', 'producers', 'tie', 'over', 'under', etc.
+    selectedOption: text("selected_option").notNull(), // team short name, 'tie', 'over', 'under', etc.
     line: numeric("line"), // For over/under bets (e.g., 2.5 matches)
     actualResult: text("actual_result"), // Actual outcome when bet is settled
+    needsReview: boolean("needs_review").default(false), // Settled on a match result that has since changed
+    reviewReason: text("review_reason"),
   },
   (table) => {
     return {
@@ -735,6 +961,8 @@ export const best_ball_player_scores = pgTable(
     score: integer("score"),
     handicapStrokes: integer("handicap_strokes").default(0),
     netScore: integer("net_score"),
+    puttConceded: boolean("putt_conceded").default(false), // Score includes a conceded putt
+    version: integer("version").notNull().default(0), // Bumped on every change, so stale writes can be refused
     createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
     updatedAt: timestamp("updated_at", { mode: 'string' }).defaultNow(),
   },
@@ -762,7 +990,73 @@ export const insertBestBallScoreSchema = z.object({
   score: z.number().nullable(),
   handicapStrokes: z.number().default(0),
   netScore: z.number().nullable(),
+  puttConceded: z.boolean().optional(),
 });
 
 export type InsertBestBallScore = z.infer<typeof insertBestBallScoreSchema>;
 export type BestBallScore = typeof best_ball_player_scores.$inferSelect;
+
+// Score events table - every change to a hole's scores, with who made it
+export const score_events = pgTable(
+  "score_events",
+  {
+    id: serial("id").primaryKey(),
+    matchId: integer("match_id").notNull(),
+    holeNumber: integer("hole_number"), // Null for a whole-match concession
+    playerId: integer("player_id"), // Set for a golfer's own score
+    kind: text("kind").notNull().$type<'team' | 'player' | 'best_ball'>(), // Which score was changed
+    action: text("action").notNull().$type<'create' | 'update' | 'delete'>(),
+    userId: integer("user_id"), // Null when entered without signing in
+    previousValue: jsonb("previous_value"),
+    newValue: jsonb("new_value"),
+    createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
+  },
+  (table) => {
+    return {
+      matchIdFk: foreignKey({
+        columns: [table.matchId],
+        foreignColumns: [matches.id],
+        name: "score_events_match_id_fk",
+      }),
+      userIdFk: foreignKey({
+        columns: [table.userId],
+        foreignColumns: [users.id],
+        name: "score_events_user_id_fk",
+      }),
+    };
+  },
+);
+export const insertScoreEventSchema = createInsertSchema(score_events, {
+  kind: z.enum(["team", "player", "best_ball"]),
+  action: z.enum(["create", "update", "delete"]),
+}).omit({ id: true, createdAt: true });
+export type InsertScoreEvent = z.infer<typeof insertScoreEventSchema>;
+export type ScoreEvent = typeof score_events.$inferSelect;
+
+// Match lock events table - every lock and unlock, with who did it and why
+export const match_lock_events = pgTable(
+  "match_lock_events",
+  {
+    id: serial("id").primaryKey(),
+    matchId: integer("match_id").notNull(),
+    action: text("action").notNull().$type<'lock' | 'unlock' | 'auto_lock'>(),
+    userId: integer("user_id"), // Null for an automatic lock
+    reason: text("reason"), // Required to unlock
+    createdAt: timestamp("created_at", { mode: 'string' }).defaultNow(),
+  },
+  (table) => {
+    return {
+      matchIdFk: foreignKey({
+        columns: [table.matchId],
+        foreignColumns: [matches.id],
+        name: "match_lock_events_match_id_fk",
+      }),
+      userIdFk: foreignKey({
+        columns: [table.userId],
+        foreignColumns: [users.id],
+        name: "match_lock_events_user_id_fk",
+      }),
+    };
+  },
+);
+export type MatchLockEvent = typeof match_lock_events.$inferSelect;
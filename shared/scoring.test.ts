@@ -0,0 +1,545 @@
+import { describe, expect, it } from "vitest";
+import {
+  FULL_ROUND,
+  allowanceFor,
+  calculateCupStatus,
+  calculateHandicapStrokes,
+  calculateMatchState,
+  calculateNassauState,
+  calculateScoringStats,
+  calculateSkins,
+  concedeMatchState,
+  concedeNassauState,
+  courseHandicapFromIndex,
+  findCountingScore,
+  formatPlayoffResult,
+  hasTeeRating,
+  isAllowanceMethod,
+  isSkinsType,
+  playingHandicaps,
+  pointValuesFor,
+  pointsAvailableForResult,
+  pointsForResult,
+  projectCup,
+  projectMatchOdds,
+  rankLeaderboard,
+  rankStandings,
+  sidePlayingHandicaps,
+  stablefordPoints,
+  strokePlayEntry,
+  toNassauLegResults,
+  withSideStrokes,
+  type HandicapAllowance,
+  type MatchTeams,
+  type OpenResult,
+  type PlayerHoleScore,
+  type TeamHoleScore,
+} from "./scoring";
+
+const AVIATORS = 1;
+const PRODUCERS = 2;
+const teams: MatchTeams = [AVIATORS, PRODUCERS];
+
+// Team rows for consecutive holes from `startHole`, each as [aviators, producers]
+function teamHoles(scores: Array<[number, number]>, startHole = 1): TeamHoleScore[] {
+  return scores.map(([a, p], i) => ({ holeNumber: startHole + i, scores: { [AVIATORS]: a, [PRODUCERS]: p } }));
+}
+
+const won = (): [number, number] => [3, 4];
+const lost = (): [number, number] => [4, 3];
+const halved = (): [number, number] => [4, 4];
+const repeat = (count: number, hole: () => [number, number]) => Array.from({ length: count }, hole);
+
+describe("handicaps", () => {
+  it("works out a course handicap the WHS way", () => {
+    expect(courseHandicapFromIndex(10, { courseRating: 72.5, slopeRating: 130, par: 72 })).toBe(12);
+    expect(courseHandicapFromIndex(18.4, { courseRating: "70", slopeRating: 113, par: 72 })).toBe(16);
+    expect(courseHandicapFromIndex(-2, { courseRating: 73.1, slopeRating: 125, par: 72 })).toBe(-1);
+  });
+
+  it("only counts a tee as rated with a rating, slope and par", () => {
+    expect(hasTeeRating({ courseRating: "71.2", slopeRating: 128, par: 72 })).toBe(true);
+    expect(hasTeeRating({ courseRating: "71.2", slopeRating: null, par: 72 })).toBe(false);
+    expect(hasTeeRating({ courseRating: "n/a", slopeRating: 128, par: 72 })).toBe(false);
+    expect(hasTeeRating(null)).toBe(false);
+  });
+
+  it("goes round the stroke index as many times as the handicap needs", () => {
+    expect(calculateHandicapStrokes(24, 6)).toBe(2);
+    expect(calculateHandicapStrokes(24, 7)).toBe(1);
+    expect(calculateHandicapStrokes(5, 5)).toBe(1);
+    expect(calculateHandicapStrokes(5, 6)).toBe(0);
+    expect(calculateHandicapStrokes(0, 1)).toBe(0);
+    expect(calculateHandicapStrokes(10, null)).toBe(0);
+  });
+
+  it("gives strokes back from the easiest holes for a plus handicap", () => {
+    expect(calculateHandicapStrokes(-2, 18)).toBe(-1);
+    expect(calculateHandicapStrokes(-2, 17)).toBe(-1);
+    expect(calculateHandicapStrokes(-2, 16)).toBe(0);
+  });
+
+  it("allocates over a nine-hole index", () => {
+    expect(calculateHandicapStrokes(5, 5, 9)).toBe(1);
+    expect(calculateHandicapStrokes(10, 1, 9)).toBe(2);
+    expect(calculateHandicapStrokes(10, 2, 9)).toBe(1);
+  });
+});
+
+describe("allowances", () => {
+  const allowance = (
+    method: HandicapAllowance["method"],
+    percent: number,
+    teamPercents: number[] = [],
+    offLow = true,
+  ): HandicapAllowance => ({ method, percent, teamPercents, offLow });
+
+  it("only accepts the known allowance methods", () => {
+    expect(isAllowanceMethod("weighted")).toBe(true);
+    expect(isAllowanceMethod("bogus")).toBe(false);
+    expect(isAllowanceMethod(null)).toBe(false);
+  });
+
+  it("lays a round's settings over the format's allowance", () => {
+    expect(allowanceFor("2-man Team Best Ball")).toEqual(allowance("individual", 90));
+    expect(allowanceFor("Singles Match", { allowanceMethod: "combined", allowancePercent: "50" })).toEqual(
+      allowance("combined", 50),
+    );
+    expect(allowanceFor("Singles Match", { allowanceMethod: "bogus", allowanceOffLow: false })).toEqual(
+      allowance("individual", 100, [], false),
+    );
+    expect(allowanceFor("Singles Match", { allowanceMethod: "weighted", allowanceTeamPercents: "35, 15" })).toEqual(
+      allowance("weighted", 100, [35, 15]),
+    );
+  });
+
+  it("takes each golfer's share and plays off the low man", () => {
+    const golfers = [
+      { playerId: 1, teamId: AVIATORS, courseHandicap: 10 },
+      { playerId: 2, teamId: PRODUCERS, courseHandicap: 20 },
+    ];
+    expect(Array.from(playingHandicaps(allowance("individual", 90), golfers))).toEqual([
+      [1, 0],
+      [2, 9],
+    ]);
+    expect(Array.from(playingHandicaps(allowance("individual", 90, [], false), golfers))).toEqual([
+      [1, 9],
+      [2, 18],
+    ]);
+  });
+
+  it("gives every golfer on a side the side's handicap", () => {
+    const golfers = [
+      { playerId: 1, teamId: AVIATORS, courseHandicap: 10 },
+      { playerId: 2, teamId: AVIATORS, courseHandicap: 20 },
+      { playerId: 3, teamId: PRODUCERS, courseHandicap: 4 },
+      { playerId: 4, teamId: PRODUCERS, courseHandicap: 6 },
+    ];
+    // Combined: 50% of 30 and of 10
+    expect(Object.fromEntries(playingHandicaps(allowance("combined", 50), golfers))).toEqual({ 1: 10, 2: 10, 3: 0, 4: 0 });
+    // Weighted: 35% of the lower handicap and 15% of the higher
+    expect(
+      Object.fromEntries(playingHandicaps(allowance("weighted", 100, [35, 15], false), golfers)),
+    ).toEqual({ 1: 7, 2: 7, 3: 2, 4: 2 });
+  });
+
+  it("plays a team ball off the side's lowest playing handicap", () => {
+    const golfers = [
+      { playerId: 1, teamId: AVIATORS, courseHandicap: 8 },
+      { playerId: 2, teamId: AVIATORS, courseHandicap: 12 },
+      { playerId: 3, teamId: PRODUCERS, courseHandicap: 4 },
+      { playerId: 4, teamId: PRODUCERS, courseHandicap: 20 },
+    ];
+    expect(sidePlayingHandicaps(allowance("individual", 100), golfers)).toEqual({ [AVIATORS]: 4, [PRODUCERS]: 0 });
+  });
+
+  it("puts each side's strokes on the holes, replaying the course hole on extra holes", () => {
+    const holes = [
+      { number: 1, handicapRank: 1 },
+      { number: 2, handicapRank: 5 },
+    ];
+    const rows = withSideStrokes(
+      teamHoles([halved(), halved(), halved()]).map((row, i) => (i === 2 ? { ...row, holeNumber: 19 } : row)),
+      { [AVIATORS]: 2, [PRODUCERS]: 0 },
+      holes,
+      { enabled: true, holeOrder: [1] },
+    );
+    expect(rows.map((r) => r.strokes)).toEqual([
+      { [AVIATORS]: 1, [PRODUCERS]: 0 },
+      { [AVIATORS]: 0, [PRODUCERS]: 0 },
+      { [AVIATORS]: 1, [PRODUCERS]: 0 },
+    ]);
+  });
+});
+
+describe("match play", () => {
+  it("is dormie when up by the holes left, and closes out on the next", () => {
+    const dormie = calculateMatchState("Singles Match", teams, teamHoles([...repeat(5, won), ...repeat(8, halved)]));
+    expect(dormie).toMatchObject({ leadingTeam: AVIATORS, leadAmount: 5, dormie: true, isComplete: false });
+
+    const closed = calculateMatchState("Singles Match", teams, teamHoles([...repeat(5, won), ...repeat(9, halved)]));
+    expect(closed).toMatchObject({ isComplete: true, result: "5&4", closedOutHole: 14, dormie: false });
+  });
+
+  it("reads a match decided on the last hole as UP, and a level one as AS", () => {
+    const upOne = calculateMatchState("Singles Match", teams, teamHoles([lost(), ...repeat(15, halved), won(), won()]));
+    expect(upOne).toMatchObject({ isComplete: true, leadingTeam: AVIATORS, result: "1 UP" });
+
+    const level = calculateMatchState("Singles Match", teams, teamHoles(repeat(18, halved)));
+    expect(level).toMatchObject({ isComplete: true, leadingTeam: null, result: "AS" });
+  });
+
+  it("plays a front nine over its own range", () => {
+    const state = calculateMatchState("Singles Match", teams, teamHoles(repeat(5, won)), [], { startHole: 1, endHole: 9 });
+    expect(state).toMatchObject({ isComplete: true, result: "5&4", closedOutHole: 5 });
+  });
+
+  it("nets a side's strokes off its team ball", () => {
+    const rows = withSideStrokes(teamHoles([[5, 4]]), { [AVIATORS]: 1, [PRODUCERS]: 0 }, [{ number: 1, handicapRank: 1 }]);
+    expect(calculateMatchState("Singles Match", teams, rows).holes[0].winningTeam).toBe("tie");
+  });
+
+  it("gives a conceded hole to the other side whatever was scored", () => {
+    const rows = [{ ...teamHoles([[6, 3]])[0], concededBy: PRODUCERS }];
+    expect(calculateMatchState("Singles Match", teams, rows).holes[0].winningTeam).toBe(AVIATORS);
+  });
+
+  it("counts each side's best net ball in best ball", () => {
+    const players: PlayerHoleScore[] = [
+      { playerId: 1, teamId: AVIATORS, holeNumber: 1, score: 5, handicapStrokes: 1 },
+      { playerId: 2, teamId: AVIATORS, holeNumber: 1, score: 6 },
+      { playerId: 3, teamId: PRODUCERS, holeNumber: 1, score: 4 },
+      { playerId: 4, teamId: PRODUCERS, holeNumber: 1, score: 5 },
+    ];
+    expect(findCountingScore(players.slice(0, 2))?.playerId).toBe(1);
+    const state = calculateMatchState("2-man Team Best Ball", teams, [], players);
+    expect(state.holes[0]).toMatchObject({ scores: { [AVIATORS]: 4, [PRODUCERS]: 4 }, winningTeam: "tie" });
+  });
+
+  it("settles a halved match on the first extra hole won", () => {
+    const playoff = { enabled: true, holeOrder: [1] };
+    const level = calculateMatchState("Singles Match", teams, teamHoles(repeat(18, halved)), [], FULL_ROUND, playoff);
+    expect(level).toMatchObject({ inPlayoff: true, isComplete: false, result: null });
+
+    const decided = calculateMatchState(
+      "Singles Match",
+      teams,
+      teamHoles([...repeat(18, halved), halved(), lost()]),
+      [],
+      FULL_ROUND,
+      playoff,
+    );
+    expect(decided).toMatchObject({
+      isComplete: true,
+      leadingTeam: PRODUCERS,
+      leadAmount: 1,
+      result: "1 UP (20th)",
+      closedOutHole: 20,
+    });
+  });
+
+  it("names extra holes in ordinals", () => {
+    expect([19, 21, 22, 23].map(formatPlayoffResult)).toEqual([
+      "1 UP (19th)",
+      "1 UP (21st)",
+      "1 UP (22nd)",
+      "1 UP (23rd)",
+    ]);
+  });
+
+  it("gives a conceded match to the other side, and leaves a decided one alone", () => {
+    const live = calculateMatchState("Singles Match", teams, teamHoles([...repeat(2, lost), ...repeat(8, halved)]));
+    expect(concedeMatchState(live, AVIATORS)).toMatchObject({
+      leadingTeam: AVIATORS,
+      leadAmount: 0,
+      isComplete: true,
+      result: "by concession",
+      closedOutHole: 10,
+    });
+
+    const finished = calculateMatchState("Singles Match", teams, teamHoles(repeat(5, won)), [], { startHole: 1, endHole: 9 });
+    expect(concedeMatchState(finished, PRODUCERS)).toBe(finished);
+  });
+});
+
+describe("Nassau", () => {
+  const frontWonBackLost = [won(), ...repeat(8, halved), lost(), ...repeat(8, halved)];
+
+  it("scores front, back and overall as separate matches", () => {
+    const nassau = calculateNassauState("Singles Match", teams, teamHoles(frontWonBackLost));
+    const legs = toNassauLegResults(nassau);
+    expect(legs.map((l) => [l.leg, l.leadingTeam, l.result])).toEqual([
+      ["front", AVIATORS, "1 UP"],
+      ["back", PRODUCERS, "1 UP"],
+      ["overall", null, "AS"],
+    ]);
+    expect(nassau.isComplete).toBe(true);
+  });
+
+  it("only takes the overall leg to a playoff", () => {
+    const nassau = calculateNassauState(
+      "Singles Match",
+      teams,
+      teamHoles(frontWonBackLost),
+      [],
+      FULL_ROUND,
+      { enabled: true, holeOrder: [1] },
+    );
+    expect(nassau.legs.front.isComplete).toBe(true);
+    expect(nassau.legs.overall.inPlayoff).toBe(true);
+    expect(nassau.isComplete).toBe(false);
+  });
+
+  it("gives the other side every open leg when conceded", () => {
+    const nassau = calculateNassauState("Singles Match", teams, teamHoles(repeat(9, won)));
+    const conceded = concedeNassauState(nassau, PRODUCERS);
+    expect(conceded.isComplete).toBe(true);
+    expect(conceded.legs.front.leadingTeam).toBe(AVIATORS);
+    expect(conceded.legs.back.leadingTeam).toBe(PRODUCERS);
+    expect(conceded.legs.overall.leadingTeam).toBe(PRODUCERS);
+  });
+});
+
+describe("points", () => {
+  it("reads a round's point values, falling back to the defaults", () => {
+    expect(pointValuesFor({ pointsForWin: "2", pointsForHalve: null, pointsForLoss: "" })).toEqual({
+      win: 2,
+      halve: 0.5,
+      loss: 0,
+    });
+  });
+
+  it("scales a result's points by its weight", () => {
+    const values = { win: 1, halve: 0.5, loss: 0 };
+    expect(pointsForResult(teams, AVIATORS, values, 2)).toEqual({ [AVIATORS]: 2, [PRODUCERS]: 0 });
+    expect(pointsForResult(teams, PRODUCERS, values)).toEqual({ [AVIATORS]: 0, [PRODUCERS]: 1 });
+    expect(pointsForResult(teams, null, values, 2)).toEqual({ [AVIATORS]: 1, [PRODUCERS]: 1 });
+  });
+
+  it("counts the most a result can put on the board", () => {
+    expect(pointsAvailableForResult({ win: 1, halve: 0.5, loss: 0 })).toBe(1);
+    expect(pointsAvailableForResult({ win: 2, halve: 1.5, loss: 0 }, 2)).toBe(6);
+  });
+});
+
+describe("standings", () => {
+  const line = (teamId: number, score: number, wins: number, holesUp: number) => ({
+    teamId,
+    score,
+    pendingScore: 0,
+    played: 4,
+    wins,
+    losses: 0,
+    halves: 0,
+    holesUp,
+  });
+
+  it("ranks on points, then matches won, then holes up, and shares a rank when still level", () => {
+    const ranked = rankStandings([line(1, 4, 3, 2), line(2, 4, 4, 0), line(3, 4, 3, 2), line(4, 5, 1, -3)]);
+    expect(ranked.map((s) => [s.teamId, s.rank])).toEqual([
+      [4, 1],
+      [2, 2],
+      [1, 3],
+      [3, 3],
+    ]);
+  });
+});
+
+describe("projections", () => {
+  it("is certain of a result with no holes left", () => {
+    expect(projectMatchOdds({ lead: 1, holesRemaining: 0 })).toEqual({ win: 1, halve: 0, loss: 0 });
+    expect(projectMatchOdds({ lead: 0, holesRemaining: 0 })).toEqual({ win: 0, halve: 1, loss: 0 });
+  });
+
+  it("splits an even hole between a win, a halve and a loss", () => {
+    const odds = projectMatchOdds({ lead: 0, holesRemaining: 1 });
+    expect(odds.win).toBeCloseTo(0.3);
+    expect(odds.halve).toBeCloseTo(0.4);
+    expect(odds.loss).toBeCloseTo(0.3);
+  });
+
+  it("decides a level match on extra holes when there is a playoff", () => {
+    const odds = projectMatchOdds({ lead: 0, holesRemaining: 0, playoff: true });
+    expect(odds.win).toBeCloseTo(0.5);
+    expect(odds.halve).toBe(0);
+    expect(odds.loss).toBeCloseTo(0.5);
+  });
+
+  it("favours the side getting strokes", () => {
+    const odds = projectMatchOdds({ lead: 0, holesRemaining: 4, strokeEdge: 0.5 });
+    expect(odds.win).toBeGreaterThan(odds.loss);
+    expect(odds.win + odds.halve + odds.loss).toBeCloseTo(1);
+  });
+
+  it("works through every way the open results land", () => {
+    const banked = [
+      { teamId: AVIATORS, score: 2, pendingScore: 0 },
+      { teamId: PRODUCERS, score: 1, pendingScore: 0 },
+    ];
+    const results = [{ teams, values: { win: 1, halve: 0.5, loss: 0 }, weight: 1, odds: { win: 0.5, halve: 0, loss: 0.5 } }];
+
+    const open = projectCup(banked, results);
+    expect(open.teams.map((t) => [t.teamId, t.expectedScore, t.winProbability])).toEqual([
+      [AVIATORS, 2.5, 0.5],
+      [PRODUCERS, 1.5, 0],
+    ]);
+    expect(open.tieProbability).toBe(0.5);
+
+    // Finishing level is enough for the defending champion
+    const defended = projectCup(banked, results, PRODUCERS);
+    expect(defended.teams.find((t) => t.teamId === PRODUCERS)?.winProbability).toBe(0.5);
+    expect(defended.tieProbability).toBe(0);
+  });
+});
+
+describe("cup status", () => {
+  const values = { win: 1, halve: 0.5, loss: 0 };
+  const openMatches = (count: number, between: MatchTeams = teams): OpenResult[] =>
+    Array.from({ length: count }, () => ({ teams: between, values, weight: 1 }));
+
+  it("needs just over half the gap to the other side's best finish", () => {
+    const banked = [
+      { teamId: AVIATORS, score: 5, pendingScore: 0 },
+      { teamId: PRODUCERS, score: 3, pendingScore: 0 },
+    ];
+    const status = calculateCupStatus(banked, teams, openMatches(4));
+    expect(status.teams.map((t) => [t.teamId, t.needs])).toEqual([
+      [AVIATORS, 1.5],
+      [PRODUCERS, 3.5],
+    ]);
+    expect(status.clinchedBy).toBeNull();
+  });
+
+  it("lets the defending champion retain on a tie", () => {
+    const banked = [
+      { teamId: AVIATORS, score: 5, pendingScore: 0 },
+      { teamId: PRODUCERS, score: 3, pendingScore: 0 },
+    ];
+    const status = calculateCupStatus(banked, teams, openMatches(4), AVIATORS);
+    expect(status.teams[0]).toMatchObject({ needs: 1, toRetain: true });
+  });
+
+  it("clinches once the other side can't catch up", () => {
+    const banked = [
+      { teamId: AVIATORS, score: 7, pendingScore: 0 },
+      { teamId: PRODUCERS, score: 3, pendingScore: 0 },
+    ];
+    const status = calculateCupStatus(banked, teams, openMatches(2));
+    expect(status.clinchedBy).toBe(AVIATORS);
+    expect(status.teams[1]).toMatchObject({ needs: null, eliminated: true });
+  });
+
+  it("leaves out a team that isn't in the tournament", () => {
+    // A third team set up for a later event, on no points here
+    const banked = [
+      { teamId: AVIATORS, score: 5, pendingScore: 0 },
+      { teamId: PRODUCERS, score: 3, pendingScore: 0 },
+      { teamId: 3, score: 0, pendingScore: 0 },
+    ];
+    const status = calculateCupStatus(banked, teams, openMatches(4));
+    expect(status.teams.map((t) => [t.teamId, t.needs])).toEqual([
+      [AVIATORS, 1.5],
+      [PRODUCERS, 3.5],
+    ]);
+  });
+
+  it("needs the full gap with more than two teams", () => {
+    const banked = [
+      { teamId: 1, score: 4, pendingScore: 0 },
+      { teamId: 2, score: 3, pendingScore: 0 },
+      { teamId: 3, score: 2, pendingScore: 0 },
+    ];
+    const status = calculateCupStatus(banked, [1, 2, 3], [...openMatches(1, [1, 2]), ...openMatches(2, [2, 3])]);
+    // Team 2 can still reach 6, and team 1 has only one point left to play for
+    expect(status.teams[0]).toMatchObject({ teamId: 1, needs: null, clinched: false });
+  });
+});
+
+describe("stroke play", () => {
+  it("scores net Stableford off the strokes on each hole", () => {
+    expect(stablefordPoints(4, 4, 0)).toBe(2);
+    expect(stablefordPoints(3, 4, 0)).toBe(3);
+    expect(stablefordPoints(6, 4, 1)).toBe(1);
+    expect(stablefordPoints(8, 4, 0)).toBe(0);
+  });
+
+  it("adds up a round against par", () => {
+    const entry = strokePlayEntry(1, AVIATORS, 18, [
+      { holeNumber: 1, gross: 5, par: 4, handicapRank: 1 },
+      { holeNumber: 2, gross: 3, par: 3, handicapRank: 18 },
+    ]);
+    expect(entry).toMatchObject({ thru: 2, gross: 8, grossToPar: 1, net: 6, netToPar: -1, stableford: 5 });
+  });
+
+  it("ranks on score to par, shares level positions and leaves out players yet to start", () => {
+    const entry = (playerId: number, netToPar: number, holesPlayed: number) => ({
+      ...strokePlayEntry(playerId, AVIATORS, 0, []),
+      netToPar,
+      holesPlayed,
+    });
+    const ranked = rankLeaderboard([entry(1, -1, 2), entry(2, -1, 3), entry(3, 0, 0), entry(4, 2, 4)], "net");
+    expect(ranked.map((e) => [e.playerId, e.rank])).toEqual([
+      [2, 1],
+      [1, 1],
+      [4, 3],
+    ]);
+  });
+});
+
+describe("skins", () => {
+  const hole = (holeNumber: number, ...scores: number[]) => ({
+    holeNumber,
+    scores: scores.map((score, i) => ({ playerId: i + 1, score })),
+  });
+
+  it("is played gross or net", () => {
+    expect(isSkinsType("net")).toBe(true);
+    expect(isSkinsType("stableford")).toBe(false);
+  });
+
+  it("carries a tied hole's skin on to the next", () => {
+    const result = calculateSkins([hole(1, 4, 5, 5), hole(2, 4, 4, 5), hole(3, 4, 3, 4)], 3);
+    expect(result.holes.map((h) => [h.status, h.winnerId, h.skins])).toEqual([
+      ["won", 1, 1],
+      ["carried", null, 1],
+      ["won", 2, 2],
+    ]);
+    expect(result.skinsByPlayer).toEqual({ 1: 1, 2: 2 });
+    expect(result.carryover).toBe(0);
+  });
+
+  it("leaves skins tied on the last hole unclaimed", () => {
+    expect(calculateSkins([hole(1, 4, 4), hole(2, 3, 3)], 2).carryover).toBe(2);
+  });
+
+  it("settles nothing after a hole the field hasn't finished", () => {
+    const result = calculateSkins([hole(1, 4, 5, 5), hole(2, 4), hole(3, 3, 4, 4)], 3);
+    expect(result.holes.map((h) => h.status)).toEqual(["won", "pending", "pending"]);
+    expect(result.skinsByPlayer).toEqual({ 1: 1 });
+  });
+
+  it("carries a skin on when the winner doesn't validate it on the next hole", () => {
+    const result = calculateSkins([hole(1, 3, 4), hole(2, 5, 4)], 2, true);
+    expect(result.holes.map((h) => [h.status, h.winnerId, h.skins])).toEqual([
+      ["unvalidated", null, 1],
+      ["won", 2, 2],
+    ]);
+    expect(result.skinsByPlayer).toEqual({ 2: 2 });
+  });
+});
+
+describe("scoring stats", () => {
+  it("counts scores against par and averages by par and by nine", () => {
+    const stats = calculateScoringStats([
+      { courseId: 1, holeNumber: 1, gross: 3, par: 4 },
+      { courseId: 1, holeNumber: 2, gross: 4, par: 4 },
+      { courseId: 1, holeNumber: 10, gross: 7, par: 5 },
+      { courseId: 1, holeNumber: 11, gross: 3, par: 5 },
+    ]);
+    expect(stats).toMatchObject({ eagles: 1, birdies: 1, pars: 1, bogeys: 0, doublesPlus: 1 });
+    expect(stats.averageByPar).toEqual({ 3: null, 4: 3.5, 5: 5 });
+    expect(stats.frontNineAverage).toBe(3.5);
+    expect(stats.bestHole?.holeNumber).toBe(11);
+    expect(stats.worstHole?.holeNumber).toBe(10);
+  });
+});
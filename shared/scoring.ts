@@ -0,0 +1,1395 @@
+// shared/scoring.ts
+//
+// Match-format scoring engine. The server uses it to decide official match
+// state in updateMatchState, and the scorecard uses it to render the same
+// numbers while scores are being entered.
+
+// Teams are identified by teams.id
+export type TeamId = number;
+
+// The two teams playing a match, in the order the match lists them
+export type MatchTeams = [TeamId, TeamId];
+
+export function matchTeams(match: { teamAId: TeamId; teamBId: TeamId }): MatchTeams {
+  return [match.teamAId, match.teamBId];
+}
+
+export function opposingTeam(teams: MatchTeams, team: TeamId): TeamId {
+  return team === teams[0] ? teams[1] : teams[0];
+}
+
+// The side-level scores for one hole of a match
+export interface TeamHoleScore {
+  holeNumber: number;
+  // Each side's score, keyed by team id
+  scores: Record<TeamId, number | null>;
+  // Strokes each side receives on the hole in team-ball formats
+  strokes?: Record<TeamId, number>;
+  // Side that conceded the hole, whatever was scored
+  concededBy?: TeamId | null;
+}
+
+// An individual golfer's score for a hole
+export interface PlayerHoleScore {
+  playerId: number;
+  teamId: TeamId;
+  holeNumber: number;
+  score: number | null;
+  handicapStrokes?: number;
+}
+
+// What a strategy sees for one side on one hole
+export interface SideHoleInput {
+  teamScore: number | null;
+  players: PlayerHoleScore[];
+  // Handicap strokes the side receives on the hole
+  strokes?: number;
+}
+
+// How course handicaps become playing handicaps for a match.
+// "individual": each golfer plays off `percent` of their own handicap
+// "combined": a side plays off `percent` of its golfers' handicaps added up
+// "weighted": a side plays off `teamPercents` of its handicaps, lowest first
+export interface HandicapAllowance {
+  method: "individual" | "combined" | "weighted";
+  percent: number;
+  teamPercents: number[];
+  // Strokes are given off the lowest playing handicap in the match
+  offLow: boolean;
+}
+
+export const ALLOWANCE_METHODS: HandicapAllowance["method"][] = ["individual", "combined", "weighted"];
+
+export type AllowanceMethod = HandicapAllowance["method"];
+
+export function isAllowanceMethod(value: unknown): value is AllowanceMethod {
+  return typeof value === "string" && (ALLOWANCE_METHODS as readonly string[]).includes(value);
+}
+
+export interface MatchFormatStrategy {
+  matchType: string;
+  // "player" formats record a score per golfer, "team" formats one ball per side
+  scoreEntry: "player" | "team";
+  // Whether handicap strokes are taken off player scores
+  useNet: boolean;
+  // Default handicap allowance; rounds may override it
+  allowance: HandicapAllowance;
+  // Reduce one side's hole input to the score that counts for the side
+  teamHoleScore(side: SideHoleInput): number | null;
+}
+
+export interface HoleOutcome {
+  holeNumber: number;
+  // Counting score for each side, keyed by team id
+  scores: Record<TeamId, number | null>;
+  // null until both sides have a score
+  winningTeam: TeamId | "tie" | null;
+  concededBy?: TeamId | null;
+}
+
+export interface MatchState {
+  holes: HoleOutcome[];
+  // Holes won by each side, keyed by team id
+  wins: Record<TeamId, number>;
+  holesPlayed: number;
+  lastHoleScored: number;
+  remainingHoles: number;
+  leadingTeam: TeamId | null;
+  leadAmount: number;
+  isComplete: boolean;
+  result: string | null;
+  // Leading side is up by exactly the holes left to play
+  dormie: boolean;
+  // Hole on which the match was decided, null while it is still live
+  closedOutHole: number | null;
+  // Halved after the last hole and now playing sudden-death extra holes
+  inPlayoff: boolean;
+}
+
+// Inclusive range of holes a match is played over
+export interface HoleRange {
+  startHole: number;
+  endHole: number;
+}
+
+export const FULL_ROUND: HoleRange = { startHole: 1, endHole: 18 };
+
+// Ranges a round or match may be set up with
+export const HOLE_RANGES: Array<HoleRange & { label: string }> = [
+  { label: "18 holes (1-18)", startHole: 1, endHole: 18 },
+  { label: "Front 9 (1-9)", startHole: 1, endHole: 9 },
+  { label: "Back 9 (10-18)", startHole: 10, endHole: 18 },
+];
+
+export function isSupportedHoleRange(startHole: number, endHole: number): boolean {
+  return HOLE_RANGES.some((r) => r.startHole === startHole && r.endHole === endHole);
+}
+
+export function holeCount(range: HoleRange): number {
+  return range.endHole - range.startHole + 1;
+}
+
+export function isHoleInRange(holeNumber: number, range: HoleRange): boolean {
+  return holeNumber >= range.startHole && holeNumber <= range.endHole;
+}
+
+// Extra holes are numbered on from 19 whatever range the match was played over
+export const PLAYOFF_START_HOLE = 19;
+
+// Sudden-death settings for halved matches
+export interface PlayoffConfig {
+  enabled: boolean;
+  // Course holes replayed for holes 19, 20, ...; starts over once used up
+  holeOrder: number[];
+}
+
+export const NO_PLAYOFF: PlayoffConfig = { enabled: false, holeOrder: [] };
+
+export function isPlayoffHole(holeNumber: number): boolean {
+  return holeNumber >= PLAYOFF_START_HOLE;
+}
+
+export function parsePlayoffHoleOrder(order: string | null | undefined): number[] {
+  if (!order) return [];
+  return order
+    .split(",")
+    .map((h) => Number(h.trim()))
+    .filter((h) => Number.isInteger(h) && h >= 1 && h <= 18);
+}
+
+// A match's own playoff setting wins over its round's. Without a configured
+// order the extra holes replay the match's holes from its first tee.
+export function resolvePlayoff(
+  match?: { playoffEnabled?: boolean | null } | null,
+  round?: { playoffEnabled?: boolean | null; playoffHoleOrder?: string | null } | null,
+  range: HoleRange = FULL_ROUND,
+): PlayoffConfig {
+  const enabled = match?.playoffEnabled ?? round?.playoffEnabled ?? false;
+  if (!enabled) return NO_PLAYOFF;
+  const configured = parsePlayoffHoleOrder(round?.playoffHoleOrder);
+  const holeOrder = configured.length > 0
+    ? configured
+    : Array.from({ length: holeCount(range) }, (_, i) => range.startHole + i);
+  return { enabled: true, holeOrder };
+}
+
+// The course hole played as a given hole of the match
+export function playoffCourseHole(holeNumber: number, playoff: PlayoffConfig): number {
+  if (!isPlayoffHole(holeNumber) || playoff.holeOrder.length === 0) return holeNumber;
+  return playoff.holeOrder[(holeNumber - PLAYOFF_START_HOLE) % playoff.holeOrder.length];
+}
+
+// A match's own range wins over its round's; both fall back to 18 holes
+export function resolveHoleRange(
+  match?: { startHole?: number | null; endHole?: number | null } | null,
+  round?: { startHole?: number | null; endHole?: number | null } | null,
+): HoleRange {
+  if (match?.startHole && match?.endHole) {
+    return { startHole: match.startHole, endHole: match.endHole };
+  }
+  if (round?.startHole && round?.endHole) {
+    return { startHole: round.startHole, endHole: round.endHole };
+  }
+  return FULL_ROUND;
+}
+
+// Net score for a player on a hole, never below zero
+export function netScore(score: PlayerHoleScore): number | null {
+  if (score.score === null) return null;
+  return Math.max(0, score.score - (score.handicapStrokes || 0));
+}
+
+// Handicap strokes a player receives on a hole given their course handicap.
+// Strokes go round the stroke index as many times as needed, so a 24 gets two
+// on the six hardest holes. Plus handicaps give strokes back from the easiest
+// hole up, which comes out negative.
+export function calculateHandicapStrokes(
+  courseHandicap: number,
+  handicapRank: number | null | undefined,
+  holesInIndex = 18,
+): number {
+  if (!handicapRank || handicapRank <= 0) return 0;
+  const strokes = Math.round(courseHandicap);
+  if (strokes === 0) return 0;
+
+  const fullRounds = Math.floor(Math.abs(strokes) / holesInIndex);
+  const remainder = Math.abs(strokes) % holesInIndex;
+
+  if (strokes > 0) {
+    return fullRounds + (handicapRank <= remainder ? 1 : 0);
+  }
+  const givenBack = fullRounds + (handicapRank > holesInIndex - remainder ? 1 : 0);
+  return givenBack === 0 ? 0 : -givenBack;
+}
+
+// Rating, slope and par of the tees a round is played from
+export interface TeeRating {
+  courseRating: number | string | null;
+  slopeRating: number | null;
+  par: number | null;
+}
+
+// Where a player's course handicap for a round came from
+export type CourseHandicapSource = "override" | "calculated" | "none";
+
+export function hasTeeRating(tee?: Partial<TeeRating> | null): tee is TeeRating {
+  return (
+    !!tee &&
+    tee.courseRating !== null && tee.courseRating !== undefined && !isNaN(Number(tee.courseRating)) &&
+    !!tee.slopeRating &&
+    !!tee.par
+  );
+}
+
+// World Handicap System: Index × Slope / 113 + (Course Rating − Par), rounded
+export function courseHandicapFromIndex(handicapIndex: number, tee: TeeRating): number {
+  const slope = tee.slopeRating ?? 113;
+  const par = tee.par ?? 0;
+  return Math.round((handicapIndex * slope) / 113 + (Number(tee.courseRating) - par));
+}
+
+// A golfer's course handicap going into a match
+export interface MatchGolfer {
+  playerId: number;
+  teamId: TeamId;
+  courseHandicap: number;
+}
+
+// The format's allowance with any of the round's own settings laid over it
+export function allowanceFor(
+  matchType: string | null | undefined,
+  round?: {
+    allowanceMethod?: string | null;
+    allowancePercent?: unknown;
+    allowanceTeamPercents?: string | null;
+    allowanceOffLow?: boolean | null;
+  } | null,
+): HandicapAllowance {
+  const base = getMatchFormat(matchType).allowance;
+  const method = ALLOWANCE_METHODS.find((m) => m === round?.allowanceMethod) ?? base.method;
+  const percent = round?.allowancePercent === null || round?.allowancePercent === undefined || round.allowancePercent === ""
+    ? base.percent
+    : Number(round.allowancePercent);
+  const teamPercents = round?.allowanceTeamPercents
+    ? round.allowanceTeamPercents.split(",").map((p) => Number(p.trim())).filter((p) => !isNaN(p))
+    : base.teamPercents;
+  return {
+    method,
+    percent: isNaN(percent) ? base.percent : percent,
+    teamPercents,
+    offLow: round?.allowanceOffLow ?? base.offLow,
+  };
+}
+
+// Playing handicap of each side before strokes are taken off the low man
+function rawSideHandicap(allowance: HandicapAllowance, side: MatchGolfer[]): number {
+  const handicaps = side.map((g) => g.courseHandicap);
+  if (allowance.method === "combined") {
+    return Math.round((handicaps.reduce((sum, h) => sum + h, 0) * allowance.percent) / 100);
+  }
+  // weighted: lowest handicap takes the first percentage
+  return Math.round(
+    [...handicaps]
+      .sort((a, b) => a - b)
+      .reduce((sum, h, i) => sum + (h * (allowance.teamPercents[i] ?? 0)) / 100, 0),
+  );
+}
+
+// Playing handicap of every golfer in the match, keyed by player id. Side-based
+// allowances give each golfer on a side the side's handicap.
+export function playingHandicaps(allowance: HandicapAllowance, golfers: MatchGolfer[]): Map<number, number> {
+  const playing = new Map<number, number>();
+  if (allowance.method === "individual") {
+    golfers.forEach((g) => playing.set(g.playerId, Math.round((g.courseHandicap * allowance.percent) / 100)));
+  } else {
+    Array.from(new Set(golfers.map((g) => g.teamId))).forEach((teamId) => {
+      const side = golfers.filter((g) => g.teamId === teamId);
+      const handicap = rawSideHandicap(allowance, side);
+      side.forEach((g) => playing.set(g.playerId, handicap));
+    });
+  }
+
+  if (allowance.offLow && playing.size > 0) {
+    const low = Math.min(...Array.from(playing.values()));
+    playing.forEach((h, playerId) => playing.set(playerId, h - low));
+  }
+  return playing;
+}
+
+// Handicap each side plays off in a team-ball format: the side's handicap, or
+// the lowest of its golfers' when each plays off their own. Keyed by team id.
+export function sidePlayingHandicaps(
+  allowance: HandicapAllowance,
+  golfers: MatchGolfer[],
+): Record<TeamId, number> {
+  const playing = playingHandicaps(allowance, golfers);
+  const sides: Record<TeamId, number> = {};
+  golfers.forEach((g) => {
+    const handicap = playing.get(g.playerId) ?? 0;
+    sides[g.teamId] = g.teamId in sides ? Math.min(sides[g.teamId], handicap) : handicap;
+  });
+  return sides;
+}
+
+// Attach each side's strokes on every hole to the team score rows. Extra
+// holes take the strokes of the course hole they replay.
+export function withSideStrokes(
+  teamScores: TeamHoleScore[],
+  sideHandicaps: Record<TeamId, number>,
+  holes: Array<{ number: number; handicapRank?: number | null }>,
+  playoff: PlayoffConfig = NO_PLAYOFF,
+): TeamHoleScore[] {
+  return teamScores.map((row) => {
+    const courseHole = holes.find((h) => h.number === row.holeNumber)
+      ?? holes.find((h) => h.number === playoffCourseHole(row.holeNumber, playoff));
+    const rank = courseHole?.handicapRank;
+    const strokes: Record<TeamId, number> = {};
+    Object.entries(sideHandicaps).forEach(([teamId, handicap]) => {
+      strokes[Number(teamId)] = calculateHandicapStrokes(handicap, rank);
+    });
+    return { ...row, strokes };
+  });
+}
+
+// The player whose ball counts for the side, or undefined if nobody has scored
+export function findCountingScore(players: PlayerHoleScore[], useNet = true): PlayerHoleScore | undefined {
+  const valueOf = (p: PlayerHoleScore) => (useNet ? netScore(p) : p.score);
+  let best: PlayerHoleScore | undefined;
+  for (const player of players) {
+    const value = valueOf(player);
+    if (value === null) continue;
+    if (!best || value < (valueOf(best) as number)) {
+      best = player;
+    }
+  }
+  return best;
+}
+
+const allowance = (
+  method: HandicapAllowance["method"],
+  percent: number,
+  teamPercents: number[] = [],
+): HandicapAllowance => ({ method, percent, teamPercents, offLow: true });
+
+// A side's ball less the strokes it receives, never below zero
+function netTeamScore(score: number | null, strokes = 0): number | null {
+  if (score === null) return null;
+  return Math.max(0, score - strokes);
+}
+
+// One ball per side: the team row is the score
+const teamBall = (
+  matchType: string,
+  defaultAllowance: HandicapAllowance = allowance("individual", 100),
+): MatchFormatStrategy => ({
+  matchType,
+  scoreEntry: "team",
+  useNet: false,
+  allowance: defaultAllowance,
+  teamHoleScore: (side) => netTeamScore(side.teamScore, side.strokes),
+});
+
+// Every golfer plays their own ball and the lowest net counts
+const bestNetBall = (matchType: string): MatchFormatStrategy => ({
+  matchType,
+  scoreEntry: "player",
+  useNet: true,
+  allowance: allowance("individual", 90),
+  teamHoleScore: (side) => {
+    const counting = findCountingScore(side.players, true);
+    return counting ? netScore(counting) : side.teamScore;
+  },
+});
+
+const singles: MatchFormatStrategy = {
+  matchType: "Singles Match",
+  scoreEntry: "team",
+  useNet: false,
+  allowance: allowance("individual", 100),
+  teamHoleScore: (side) => {
+    if (side.teamScore !== null) return netTeamScore(side.teamScore, side.strokes);
+    const counting = findCountingScore(side.players, false);
+    return counting ? counting.score : null;
+  },
+};
+
+const strategies: Record<string, MatchFormatStrategy> = {
+  "Singles Match": singles,
+  "2-man Team Best Ball": bestNetBall("2-man Team Best Ball"),
+  "2-man Team Shamble": bestNetBall("2-man Team Shamble"),
+  "2-man Team Scramble": teamBall("2-man Team Scramble", allowance("weighted", 100, [35, 15])),
+  "4-man Team Scramble": teamBall("4-man Team Scramble", allowance("weighted", 100, [25, 20, 15, 10])),
+  "Alternate Shot": teamBall("Alternate Shot", allowance("combined", 50)),
+};
+
+export const MATCH_TYPES = Object.keys(strategies);
+
+// Unknown formats fall back to comparing the team rows directly
+export function getMatchFormat(matchType: string | null | undefined): MatchFormatStrategy {
+  return (matchType && strategies[matchType]) || teamBall(matchType || "unknown");
+}
+
+export function holeWinner(teams: MatchTeams, scores: Record<TeamId, number | null>): TeamId | "tie" | null {
+  const [a, b] = teams.map((teamId) => scores[teamId] ?? null);
+  if (a === null || b === null) return null;
+  if (a < b) return teams[0];
+  if (b < a) return teams[1];
+  return "tie";
+}
+
+// Resolve the counting score for each side on each hole in the range, plus
+// any extra holes when the match has a playoff
+export function scoreHoles(
+  matchType: string | null | undefined,
+  teams: MatchTeams,
+  teamScores: TeamHoleScore[],
+  playerScores: PlayerHoleScore[] = [],
+  range: HoleRange = FULL_ROUND,
+  playoff: PlayoffConfig = NO_PLAYOFF,
+): HoleOutcome[] {
+  const strategy = getMatchFormat(matchType);
+  const holeNumbers = new Set<number>();
+  teamScores.forEach((s) => holeNumbers.add(s.holeNumber));
+  if (strategy.scoreEntry === "player") {
+    playerScores.forEach((s) => holeNumbers.add(s.holeNumber));
+  }
+
+  return Array.from(holeNumbers)
+    .filter((holeNumber) => isHoleInRange(holeNumber, range) || (playoff.enabled && isPlayoffHole(holeNumber)))
+    .sort((a, b) => a - b)
+    .map((holeNumber) => {
+      const row = teamScores.find((s) => s.holeNumber === holeNumber);
+      const onHole = playerScores.filter((s) => s.holeNumber === holeNumber);
+      const scores: Record<TeamId, number | null> = {};
+      teams.forEach((teamId) => {
+        scores[teamId] = strategy.teamHoleScore({
+          teamScore: row?.scores[teamId] ?? null,
+          players: onHole.filter((s) => s.teamId === teamId),
+          strokes: row?.strokes?.[teamId],
+        });
+      });
+      // A conceded hole goes to the other side whatever was scored
+      const concededBy = row?.concededBy ?? null;
+      return {
+        holeNumber,
+        scores,
+        winningTeam: concededBy ? opposingTeam(teams, concededBy) : holeWinner(teams, scores),
+        concededBy,
+      };
+    });
+}
+
+// Standard match play notation: "4&3" when closed out early, "2 UP" when
+// decided on the last hole, "AS" for a halved match
+export function formatMatchResult(leadAmount: number, remainingHoles: number): string {
+  if (leadAmount === 0) return "AS";
+  if (remainingHoles > 0) return `${leadAmount}&${remainingHoles}`;
+  return `${leadAmount} UP`;
+}
+
+// A sudden-death win is a one-hole win on the extra hole that decided it
+export function formatPlayoffResult(holeNumber: number): string {
+  const suffix = holeNumber % 10 === 1 && holeNumber % 100 !== 11
+    ? "st"
+    : holeNumber % 10 === 2 && holeNumber % 100 !== 12
+      ? "nd"
+      : holeNumber % 10 === 3 && holeNumber % 100 !== 13
+        ? "rd"
+        : "th";
+  return `1 UP (${holeNumber}${suffix})`;
+}
+
+// Live status as golfers say it: "2 UP", "DORMIE", "AS"
+export function formatLiveStatus(leadAmount: number, dormie: boolean): string {
+  if (leadAmount === 0) return "AS";
+  if (dormie) return `${leadAmount} UP (DORMIE)`;
+  return `${leadAmount} UP`;
+}
+
+// Match play state after every completed hole in the input
+export function calculateMatchState(
+  matchType: string | null | undefined,
+  teams: MatchTeams,
+  teamScores: TeamHoleScore[],
+  playerScores: PlayerHoleScore[] = [],
+  range: HoleRange = FULL_ROUND,
+  playoff: PlayoffConfig = NO_PLAYOFF,
+): MatchState {
+  const holes = scoreHoles(matchType, teams, teamScores, playerScores, range, playoff);
+  return summarizeHoles(holes, teams, range, playoff);
+}
+
+// Match play state for a set of already-resolved holes. A match halved over
+// its range goes on to extra holes when it has a playoff, and is decided by
+// the first extra hole either side wins.
+export function summarizeHoles(
+  allHoles: HoleOutcome[],
+  teams: MatchTeams,
+  range: HoleRange,
+  playoff: PlayoffConfig = NO_PLAYOFF,
+): MatchState {
+  const holes = allHoles.filter((h) => isHoleInRange(h.holeNumber, range));
+  const totalHoles = holeCount(range);
+
+  const [teamA, teamB] = teams;
+  const wins: Record<TeamId, number> = { [teamA]: 0, [teamB]: 0 };
+  let holesPlayed = 0;
+  let lastHoleScored = 0;
+
+  for (const hole of holes) {
+    if (hole.winningTeam === null) continue;
+    if (hole.winningTeam !== "tie") wins[hole.winningTeam]++;
+    holesPlayed++;
+    lastHoleScored = Math.max(lastHoleScored, hole.holeNumber);
+  }
+
+  let leadingTeam: TeamId | null = null;
+  if (wins[teamA] > wins[teamB]) leadingTeam = teamA;
+  if (wins[teamB] > wins[teamA]) leadingTeam = teamB;
+  const leadAmount = Math.abs(wins[teamA] - wins[teamB]);
+  const remainingHoles = lastHoleScored > 0
+    ? range.endHole - lastHoleScored
+    : totalHoles;
+
+  let isComplete = false;
+  let result: string | null = null;
+
+  if (holesPlayed >= totalHoles) {
+    isComplete = true;
+    result = formatMatchResult(leadAmount, 0);
+  } else if (leadAmount > remainingHoles) {
+    isComplete = true;
+    result = formatMatchResult(leadAmount, remainingHoles);
+  }
+
+  const dormie = !isComplete && leadAmount > 0 && leadAmount === remainingHoles;
+  let closedOutHole = isComplete ? lastHoleScored : null;
+
+  const inPlayoff = playoff.enabled && isComplete && leadAmount === 0;
+  const extraHoles = inPlayoff
+    ? allHoles.filter((h) => isPlayoffHole(h.holeNumber)).sort((a, b) => a.holeNumber - b.holeNumber)
+    : [];
+  if (inPlayoff) {
+    isComplete = false;
+    result = null;
+    closedOutHole = null;
+    for (const hole of extraHoles) {
+      if (hole.winningTeam === null) continue;
+      holesPlayed++;
+      lastHoleScored = hole.holeNumber;
+      if (hole.winningTeam !== "tie") {
+        wins[hole.winningTeam]++;
+        leadingTeam = hole.winningTeam;
+        isComplete = true;
+        result = formatPlayoffResult(hole.holeNumber);
+        closedOutHole = hole.holeNumber;
+        break;
+      }
+    }
+  }
+
+  return {
+    holes: [...holes, ...extraHoles],
+    wins,
+    holesPlayed,
+    lastHoleScored,
+    remainingHoles,
+    leadingTeam,
+    leadAmount: inPlayoff && isComplete ? 1 : leadAmount,
+    isComplete,
+    result,
+    dormie,
+    closedOutHole,
+    inPlayoff,
+  };
+}
+
+// Running lead after a given hole, or null before the first completed hole
+export function matchStatusThroughHole(
+  holes: HoleOutcome[],
+  teams: MatchTeams,
+  holeNumber: number,
+): { leadingTeam: TeamId | null; leadAmount: number } | null {
+  const played = holes.filter((h) => h.holeNumber <= holeNumber && h.winningTeam !== null);
+  if (played.length === 0) return null;
+  const diff = played.reduce(
+    (acc, h) => acc + (h.winningTeam === teams[0] ? 1 : h.winningTeam === teams[1] ? -1 : 0),
+    0,
+  );
+  return {
+    leadingTeam: diff > 0 ? teams[0] : diff < 0 ? teams[1] : null,
+    leadAmount: Math.abs(diff),
+  };
+}
+
+export type NassauLeg = "front" | "back" | "overall";
+
+export const NASSAU_LEGS: NassauLeg[] = ["front", "back", "overall"];
+
+// What gets stored on matches.nassau_results for each leg
+export interface NassauLegResult {
+  leg: NassauLeg;
+  leadingTeam: TeamId | null;
+  leadAmount: number;
+  holesPlayed: number;
+  isComplete: boolean;
+  result: string | null;
+  closedOutHole: number | null;
+}
+
+export interface NassauState {
+  legs: Record<NassauLeg, MatchState>;
+  isComplete: boolean;
+}
+
+// Split a range into the front and back halves scored by a Nassau
+export function nassauLegRanges(range: HoleRange = FULL_ROUND): Record<NassauLeg, HoleRange> {
+  const frontEnd = range.startHole + Math.floor(holeCount(range) / 2) - 1;
+  return {
+    front: { startHole: range.startHole, endHole: frontEnd },
+    back: { startHole: frontEnd + 1, endHole: range.endHole },
+    overall: range,
+  };
+}
+
+// Front, back and overall are separate matches over the same hole results;
+// the Nassau is only over once all three are decided. Only the overall leg
+// goes to a playoff.
+export function calculateNassauState(
+  matchType: string | null | undefined,
+  teams: MatchTeams,
+  teamScores: TeamHoleScore[],
+  playerScores: PlayerHoleScore[] = [],
+  range: HoleRange = FULL_ROUND,
+  playoff: PlayoffConfig = NO_PLAYOFF,
+): NassauState {
+  const holes = scoreHoles(matchType, teams, teamScores, playerScores, range, playoff);
+  const ranges = nassauLegRanges(range);
+  const legs = {
+    front: summarizeHoles(holes, teams, ranges.front),
+    back: summarizeHoles(holes, teams, ranges.back),
+    overall: summarizeHoles(holes, teams, ranges.overall, playoff),
+  };
+  return {
+    legs,
+    isComplete: NASSAU_LEGS.every((leg) => legs[leg].isComplete),
+  };
+}
+
+export function toNassauLegResults(state: NassauState): NassauLegResult[] {
+  return NASSAU_LEGS.map((leg) => {
+    const s = state.legs[leg];
+    return {
+      leg,
+      leadingTeam: s.leadingTeam,
+      leadAmount: s.leadAmount,
+      holesPlayed: s.holesPlayed,
+      isComplete: s.isComplete,
+      result: s.result,
+      closedOutHole: s.closedOutHole,
+    };
+  });
+}
+
+// How a conceded match's result reads: "Aviators win by concession"
+export const CONCEDED_RESULT = "by concession";
+
+// A conceded match goes to the other side whatever the holes played say.
+// One already decided keeps its result.
+export function concedeMatchState(state: MatchState, winner: TeamId): MatchState {
+  if (state.isComplete) return state;
+  return {
+    ...state,
+    leadingTeam: winner,
+    leadAmount: state.leadingTeam === winner ? state.leadAmount : 0,
+    isComplete: true,
+    result: CONCEDED_RESULT,
+    dormie: false,
+    closedOutHole: state.lastHoleScored || null,
+    inPlayoff: false,
+  };
+}
+
+// Conceding a Nassau gives the other side every leg still open
+export function concedeNassauState(state: NassauState, winner: TeamId): NassauState {
+  return {
+    legs: {
+      front: concedeMatchState(state.legs.front, winner),
+      back: concedeMatchState(state.legs.back, winner),
+      overall: concedeMatchState(state.legs.overall, winner),
+    },
+    isComplete: true,
+  };
+}
+
+// Points a round awards for each match result
+export interface PointValues {
+  win: number;
+  halve: number;
+  loss: number;
+}
+
+export const DEFAULT_POINT_VALUES: PointValues = { win: 1, halve: 0.5, loss: 0 };
+
+export function pointValuesFor(
+  round?: { pointsForWin?: unknown; pointsForHalve?: unknown; pointsForLoss?: unknown } | null,
+): PointValues {
+  const read = (value: unknown, fallback: number) =>
+    value === null || value === undefined || value === "" || isNaN(Number(value)) ? fallback : Number(value);
+  return {
+    win: read(round?.pointsForWin, DEFAULT_POINT_VALUES.win),
+    halve: read(round?.pointsForHalve, DEFAULT_POINT_VALUES.halve),
+    loss: read(round?.pointsForLoss, DEFAULT_POINT_VALUES.loss),
+  };
+}
+
+// Points each side takes from one result, keyed by team id. `weight` scales
+// the values, e.g. a Nassau leg worth 2 doubles the round's win, halve and
+// loss points.
+export function pointsForResult(
+  teams: MatchTeams,
+  leadingTeam: TeamId | null,
+  values: PointValues,
+  weight = 1,
+): Record<TeamId, number> {
+  const [teamA, teamB] = teams;
+  if (leadingTeam === teamA) {
+    return { [teamA]: values.win * weight, [teamB]: values.loss * weight };
+  }
+  if (leadingTeam === teamB) {
+    return { [teamA]: values.loss * weight, [teamB]: values.win * weight };
+  }
+  return { [teamA]: values.halve * weight, [teamB]: values.halve * weight };
+}
+
+// A team's points on the board, and the points it is taking from results
+// that are still being played
+export interface TeamPoints {
+  teamId: TeamId;
+  score: number;
+  pendingScore: number;
+}
+
+// Most points one result can put on the board across both sides
+export function pointsAvailableForResult(values: PointValues, weight = 1): number {
+  return Math.max(values.win + values.loss, values.halve * 2) * weight;
+}
+
+// "cup": any two teams can be paired and the first past half the points wins.
+// "round_robin": every team plays every other and the points table decides it.
+export type TournamentFormat = "cup" | "round_robin";
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ["cup", "round_robin"];
+
+export function isTournamentFormat(value: unknown): value is TournamentFormat {
+  return typeof value === "string" && (TOURNAMENT_FORMATS as readonly string[]).includes(value);
+}
+
+// A team's line in the points table
+export interface TeamStanding extends TeamPoints {
+  played: number;
+  wins: number;
+  losses: number;
+  halves: number;
+  // Winning margins minus losing margins over completed matches
+  holesUp: number;
+  // 1 for the leader; teams still level after every tiebreaker share a rank
+  rank: number;
+}
+
+// Order the points table: points, then matches won, then holes up. Pending
+// points are left out so the table only moves on final results.
+export function rankStandings(standings: Omit<TeamStanding, "rank">[]): TeamStanding[] {
+  const compare = (a: Omit<TeamStanding, "rank">, b: Omit<TeamStanding, "rank">) =>
+    b.score - a.score || b.wins - a.wins || b.holesUp - a.holesUp;
+  const sorted = [...standings].sort((a, b) => compare(a, b) || a.teamId - b.teamId);
+  const ranked: TeamStanding[] = [];
+  sorted.forEach((standing, index) => {
+    const previous = ranked[index - 1];
+    const rank = previous && compare(previous, standing) === 0 ? previous.rank : index + 1;
+    ranked.push({ ...standing, rank });
+  });
+  return ranked;
+}
+
+// Share of holes halved between evenly matched sides
+export const HOLE_HALVE_RATE = 0.4;
+
+// How much one net stroke on a hole moves the chance of winning it
+const STROKE_EDGE_WEIGHT = 0.25;
+
+// How an unfinished result is expected to end, from the first team's side
+export interface MatchOdds {
+  win: number;
+  halve: number;
+  loss: number;
+}
+
+// Chances of a match (or Nassau leg) ending won, halved or lost for the first
+// team. Each remaining hole is played independently: halved at the base rate,
+// with the rest split by `strokeEdge`, the net strokes per hole the first team
+// is ahead on the holes left. With `playoff`, a halved match is decided on
+// extra holes instead.
+export function projectMatchOdds({
+  lead,
+  holesRemaining,
+  strokeEdge = 0,
+  playoff = false,
+}: {
+  lead: number;
+  holesRemaining: number;
+  strokeEdge?: number;
+  playoff?: boolean;
+}): MatchOdds {
+  const decisive = 1 - HOLE_HALVE_RATE;
+  const shift = Math.max(-decisive / 2, Math.min(decisive / 2, strokeEdge * STROKE_EDGE_WEIGHT));
+  const holeWin = decisive / 2 + shift;
+  const holeLoss = decisive / 2 - shift;
+
+  // Chance of each final margin, stepping through the holes left
+  let margins = new Map<number, number>([[lead, 1]]);
+  for (let hole = 0; hole < holesRemaining; hole++) {
+    const next = new Map<number, number>();
+    const add = (margin: number, p: number) => next.set(margin, (next.get(margin) ?? 0) + p);
+    margins.forEach((p, margin) => {
+      add(margin + 1, p * holeWin);
+      add(margin, p * HOLE_HALVE_RATE);
+      add(margin - 1, p * holeLoss);
+    });
+    margins = next;
+  }
+
+  const odds: MatchOdds = { win: 0, halve: 0, loss: 0 };
+  margins.forEach((p, margin) => {
+    if (margin > 0) odds.win += p;
+    else if (margin < 0) odds.loss += p;
+    else odds.halve += p;
+  });
+
+  // Sudden death keeps going until a hole is won, so only the split matters
+  if (playoff && odds.halve > 0) {
+    const playoffWin = decisive > 0 ? holeWin / decisive : 0.5;
+    odds.win += odds.halve * playoffWin;
+    odds.loss += odds.halve * (1 - playoffWin);
+    odds.halve = 0;
+  }
+  return odds;
+}
+
+// Net strokes per hole the first team is ahead on the last `holesRemaining`
+// holes of the range. Handicaps level the sides over the whole match, so what
+// counts is whether the strokes still to come favour one side more than an
+// even share would.
+export function remainingStrokeEdge(
+  teams: MatchTeams,
+  sideHandicaps: Record<TeamId, number>,
+  holes: Array<{ number: number; handicapRank?: number | null }>,
+  range: HoleRange,
+  holesRemaining: number,
+): number {
+  const total = holeCount(range);
+  if (holesRemaining <= 0 || total === 0) return 0;
+
+  const [teamA, teamB] = teams;
+  const netStrokes = (holeNumber: number) => {
+    const rank = holes.find((h) => h.number === holeNumber)?.handicapRank;
+    return (
+      calculateHandicapStrokes(sideHandicaps[teamA] ?? 0, rank) -
+      calculateHandicapStrokes(sideHandicaps[teamB] ?? 0, rank)
+    );
+  };
+
+  let overMatch = 0;
+  let stillToCome = 0;
+  for (let hole = range.startHole; hole <= range.endHole; hole++) {
+    const strokes = netStrokes(hole);
+    overMatch += strokes;
+    if (hole > range.endHole - holesRemaining) stillToCome += strokes;
+  }
+  return (stillToCome - (overMatch * holesRemaining) / total) / holesRemaining;
+}
+
+// A result still to be decided, with the points it is worth
+export interface OpenResult {
+  teams: MatchTeams;
+  values: PointValues;
+  weight: number;
+}
+
+export interface ProjectedResult extends OpenResult {
+  odds: MatchOdds;
+}
+
+export interface TeamProjection {
+  teamId: TeamId;
+  // Points already decided
+  score: number;
+  // Decided points plus what the unfinished results are expected to add
+  expectedScore: number;
+  // Chance of finishing alone on top, or level on top as defending champion
+  winProbability: number;
+}
+
+export interface CupProjection {
+  teams: TeamProjection[];
+  // Chance two or more teams finish level on top with nobody to retain
+  tieProbability: number;
+}
+
+// Expected final points and each team's chance of winning, working through
+// every way the unfinished results could land
+export function projectCup(
+  banked: TeamPoints[],
+  results: ProjectedResult[],
+  defendingChampionId: TeamId | null = null,
+): CupProjection {
+  const teamIds = banked.map((t) => t.teamId);
+  const expected = new Map(banked.map((t) => [t.teamId, t.score]));
+
+  // Final points for every team, keyed by the points joined in teamIds order
+  let outcomes = new Map<string, { scores: number[]; p: number }>();
+  const start = banked.map((t) => t.score);
+  outcomes.set(start.join(","), { scores: start, p: 1 });
+
+  for (const result of results) {
+    const [teamA, teamB] = result.teams;
+    const branches: Array<[TeamId | null, number]> = [
+      [teamA, result.odds.win],
+      [null, result.odds.halve],
+      [teamB, result.odds.loss],
+    ];
+
+    const next = new Map<string, { scores: number[]; p: number }>();
+    for (const [leadingTeam, chance] of branches) {
+      if (chance <= 0) continue;
+      const points = pointsForResult(result.teams, leadingTeam, result.values, result.weight);
+      for (const teamId of result.teams) {
+        expected.set(teamId, (expected.get(teamId) ?? 0) + points[teamId] * chance);
+      }
+      outcomes.forEach(({ scores, p }) => {
+        const updated = scores.map((score, i) => score + (points[teamIds[i]] ?? 0));
+        const key = updated.join(",");
+        const existing = next.get(key);
+        if (existing) existing.p += p * chance;
+        else next.set(key, { scores: updated, p: p * chance });
+      });
+    }
+    outcomes = next;
+  }
+
+  const wins = new Map<TeamId, number>(teamIds.map((id) => [id, 0]));
+  let tieProbability = 0;
+  outcomes.forEach(({ scores, p }) => {
+    const top = Math.max(...scores);
+    const leaders = scores.flatMap((score, i) => (score === top ? [teamIds[i]] : []));
+    const holder = leaders.length === 1
+      ? leaders[0]
+      : defendingChampionId !== null && leaders.includes(defendingChampionId) ? defendingChampionId : null;
+    if (holder !== null) wins.set(holder, (wins.get(holder) ?? 0) + p);
+    else tieProbability += p;
+  });
+
+  return {
+    teams: banked.map((t) => ({
+      teamId: t.teamId,
+      score: t.score,
+      expectedScore: expected.get(t.teamId) ?? t.score,
+      winProbability: wins.get(t.teamId) ?? 0,
+    })),
+    tieProbability,
+  };
+}
+
+// Points are won in halves, so "more than x" means the next half point up
+const nextHalfAbove = (points: number) => Math.floor(points * 2 + 1e-9) / 2 + 0.5;
+const halfAtLeast = (points: number) => Math.ceil(points * 2 - 1e-9) / 2;
+
+export interface TeamCupStatus {
+  teamId: TeamId;
+  // Further points that make the cup certain whatever else happens; null
+  // once it can no longer be won outright
+  needs: number | null;
+  // Finishing level is enough, because the team is defending champion
+  toRetain: boolean;
+  clinched: boolean;
+  eliminated: boolean;
+}
+
+export interface CupStatus {
+  teams: TeamCupStatus[];
+  defendingChampionId: TeamId | null;
+  // The team that has won or retained the cup, once no result can change it
+  clinchedBy: TeamId | null;
+}
+
+// What each team still needs to be sure of the cup. The defending champion
+// keeps it on a tie, so it only needs to draw level. With two teams every
+// point one side takes is a point the other can't, so a team needs just over
+// half of the gap between itself and the other side's best finish; with more
+// teams that is not guaranteed, and the full gap is needed. Only the teams
+// taking part in the tournament count, not every team ever set up.
+export function calculateCupStatus(
+  allBanked: TeamPoints[],
+  teamIds: TeamId[],
+  open: OpenResult[],
+  defendingChampionId: TeamId | null = null,
+): CupStatus {
+  const banked = allBanked.filter((t) => teamIds.includes(t.teamId));
+  const remaining = new Map(banked.map((t) => [t.teamId, 0]));
+  for (const result of open) {
+    const best = Math.max(result.values.win, result.values.halve, result.values.loss) * result.weight;
+    for (const teamId of result.teams) {
+      remaining.set(teamId, (remaining.get(teamId) ?? 0) + best);
+    }
+  }
+  const bestFinish = (t: TeamPoints) => t.score + (remaining.get(t.teamId) ?? 0);
+
+  const teams = banked.map((team): TeamCupStatus => {
+    const others = banked.filter((t) => t.teamId !== team.teamId);
+    const toRetain = team.teamId === defendingChampionId;
+
+    // Someone is already out of reach, or level with a champion who retains
+    const eliminated = others.some(
+      (other) =>
+        other.score > bestFinish(team) ||
+        (other.score === bestFinish(team) && other.teamId === defendingChampionId),
+    );
+    if (eliminated || others.length === 0) {
+      return { teamId: team.teamId, needs: eliminated ? null : 0, toRetain, clinched: !eliminated, eliminated };
+    }
+
+    const gap = Math.max(...others.map(bestFinish)) - team.score;
+    const toCover = others.length === 1 ? gap / 2 : gap;
+    const needs = Math.max(0, toRetain ? halfAtLeast(toCover) : nextHalfAbove(toCover));
+    // More than is left to play: the cup can still be shared, but not won
+    if (needs > (remaining.get(team.teamId) ?? 0)) {
+      return { teamId: team.teamId, needs: null, toRetain, clinched: false, eliminated: false };
+    }
+    return { teamId: team.teamId, needs, toRetain, clinched: needs === 0, eliminated: false };
+  });
+
+  return {
+    teams,
+    defendingChampionId,
+    clinchedBy: teams.find((t) => t.clinched)?.teamId ?? null,
+  };
+}
+
+// Individual stroke play, run alongside the team matches from each golfer's
+// own ball. Net plays off the full course handicap, not a match allowance.
+export type LeaderboardType = "gross" | "net" | "stableford";
+
+export const LEADERBOARD_TYPES: LeaderboardType[] = ["gross", "net", "stableford"];
+
+export interface StrokePlayHole {
+  holeNumber: number;
+  gross: number;
+  par: number;
+  handicapRank?: number | null;
+}
+
+// Net Stableford: two points for a net par, one more for each stroke under
+// and one fewer for each over, never below zero
+export function stablefordPoints(gross: number, par: number, strokes: number): number {
+  return Math.max(0, 2 + par + strokes - gross);
+}
+
+export interface LeaderboardEntry {
+  playerId: number;
+  teamId: TeamId | null;
+  // Holes completed in the latest round played, and how many it has
+  thru: number;
+  roundHoles: number;
+  holesPlayed: number;
+  roundsPlayed: number;
+  gross: number;
+  grossToPar: number;
+  net: number;
+  netToPar: number;
+  stableford: number;
+  // Level players share a position
+  rank: number;
+}
+
+export function strokePlayEntry(
+  playerId: number,
+  teamId: TeamId | null,
+  courseHandicap: number,
+  holes: StrokePlayHole[],
+  roundHoles = 18,
+): Omit<LeaderboardEntry, "rank"> {
+  const entry = {
+    playerId,
+    teamId,
+    thru: holes.length,
+    roundHoles,
+    holesPlayed: holes.length,
+    roundsPlayed: holes.length > 0 ? 1 : 0,
+    gross: 0,
+    grossToPar: 0,
+    net: 0,
+    netToPar: 0,
+    stableford: 0,
+  };
+  for (const hole of holes) {
+    const strokes = calculateHandicapStrokes(courseHandicap, hole.handicapRank);
+    entry.gross += hole.gross;
+    entry.grossToPar += hole.gross - hole.par;
+    entry.net += hole.gross - strokes;
+    entry.netToPar += hole.gross - strokes - hole.par;
+    entry.stableford += stablefordPoints(hole.gross, hole.par, strokes);
+  }
+  return entry;
+}
+
+// A player's tournament line from their round lines, oldest round first
+export function combineStrokePlayEntries(
+  rounds: Omit<LeaderboardEntry, "rank">[],
+): Omit<LeaderboardEntry, "rank"> {
+  const played = rounds.filter((r) => r.holesPlayed > 0);
+  return rounds.reduce(
+    (total, round) => ({
+      ...total,
+      holesPlayed: total.holesPlayed + round.holesPlayed,
+      roundsPlayed: total.roundsPlayed + round.roundsPlayed,
+      gross: total.gross + round.gross,
+      grossToPar: total.grossToPar + round.grossToPar,
+      net: total.net + round.net,
+      netToPar: total.netToPar + round.netToPar,
+      stableford: total.stableford + round.stableford,
+    }),
+    {
+      playerId: rounds[0].playerId,
+      teamId: played[played.length - 1]?.teamId ?? rounds[0].teamId,
+      thru: played[played.length - 1]?.thru ?? 0,
+      roundHoles: played[played.length - 1]?.roundHoles ?? rounds[0].roundHoles,
+      holesPlayed: 0,
+      roundsPlayed: 0,
+      gross: 0,
+      grossToPar: 0,
+      net: 0,
+      netToPar: 0,
+      stableford: 0,
+    },
+  );
+}
+
+// Stroke play is ranked against par so players part-way round compare
+// fairly; Stableford is ranked on points, most first
+export function rankLeaderboard(
+  entries: Omit<LeaderboardEntry, "rank">[],
+  type: LeaderboardType,
+): LeaderboardEntry[] {
+  const valueOf = (e: Omit<LeaderboardEntry, "rank">) =>
+    type === "gross" ? e.grossToPar : type === "net" ? e.netToPar : -e.stableford;
+  const sorted = entries
+    .filter((e) => e.holesPlayed > 0)
+    .sort((a, b) => valueOf(a) - valueOf(b) || b.holesPlayed - a.holesPlayed || a.playerId - b.playerId);
+
+  const ranked: LeaderboardEntry[] = [];
+  sorted.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    const rank = previous && valueOf(previous) === valueOf(entry) ? previous.rank : index + 1;
+    ranked.push({ ...entry, rank });
+  });
+  return ranked;
+}
+
+// Skins: the lowest score on a hole alone wins it, and a tied hole carries
+// its skin on to the next
+export type SkinsType = "gross" | "net";
+
+export const SKINS_TYPES: SkinsType[] = ["gross", "net"];
+
+export function isSkinsType(value: unknown): value is SkinsType {
+  return typeof value === "string" && (SKINS_TYPES as readonly string[]).includes(value);
+}
+
+export interface SkinsHoleScore {
+  playerId: number;
+  score: number;
+}
+
+export interface SkinsHoleResult {
+  holeNumber: number;
+  // Null while the hole is tied, still being played or awaiting validation
+  winnerId: number | null;
+  score: number | null;
+  // Skins at stake on the hole, including any carried in
+  skins: number;
+  status: "won" | "carried" | "pending" | "unvalidated";
+}
+
+export interface SkinsResult {
+  holes: SkinsHoleResult[];
+  // Skins won by each player, keyed by player id
+  skinsByPlayer: Record<number, number>;
+  // Skins tied on the last hole, left unclaimed
+  carryover: number;
+}
+
+// A round's skins as served to the skins page
+export interface RoundSkins {
+  roundId: number;
+  type: SkinsType;
+  validation: boolean;
+  // What each other golfer pays per skin, or null when not played for money
+  value: number | null;
+  holes: Array<SkinsHoleResult & { winnerName: string | null }>;
+  players: Array<{ playerId: number; playerName: string; teamId: TeamId; skins: number; winnings: number | null }>;
+  carryover: number;
+  // Every hole settled
+  complete: boolean;
+}
+
+// `holes` is the round's holes in playing order, each with the score of
+// every player in the field that has played it. A hole is only settled once
+// the whole field has a score, and nothing after an unsettled hole can be.
+// With `validation`, a winner must tie or beat the best score on the next
+// hole too, or the skins carry on; the last hole needs no validation.
+export function calculateSkins(
+  holes: Array<{ holeNumber: number; scores: SkinsHoleScore[] }>,
+  fieldSize: number,
+  validation = false,
+): SkinsResult {
+  const results: SkinsHoleResult[] = [];
+  const skinsByPlayer: Record<number, number> = {};
+  let pot = 0;
+  let settling = true;
+  // A winner waiting on the next hole to validate their skins
+  let awaiting: { result: SkinsHoleResult; playerId: number } | null = null;
+
+  holes.forEach((hole, index) => {
+    pot += 1;
+    const complete = fieldSize > 0 && hole.scores.length >= fieldSize;
+    if (!settling || !complete) {
+      settling = false;
+      results.push({ holeNumber: hole.holeNumber, winnerId: null, score: null, skins: pot, status: "pending" });
+      return;
+    }
+
+    const best = Math.min(...hole.scores.map((s) => s.score));
+
+    if (awaiting) {
+      const validated = hole.scores.some((s) => s.playerId === awaiting!.playerId && s.score <= best);
+      if (validated) {
+        skinsByPlayer[awaiting.playerId] = (skinsByPlayer[awaiting.playerId] ?? 0) + awaiting.result.skins;
+        awaiting.result.status = "won";
+      } else {
+        awaiting.result.status = "unvalidated";
+        awaiting.result.winnerId = null;
+        pot += awaiting.result.skins;
+      }
+      awaiting = null;
+    }
+
+    const leaders = hole.scores.filter((s) => s.score === best);
+    if (leaders.length > 1) {
+      results.push({ holeNumber: hole.holeNumber, winnerId: null, score: best, skins: pot, status: "carried" });
+      return;
+    }
+
+    const result: SkinsHoleResult = {
+      holeNumber: hole.holeNumber,
+      winnerId: leaders[0].playerId,
+      score: best,
+      skins: pot,
+      status: "won",
+    };
+    results.push(result);
+    pot = 0;
+
+    if (validation && index < holes.length - 1) {
+      result.status = "pending";
+      awaiting = { result, playerId: leaders[0].playerId };
+    } else {
+      skinsByPlayer[leaders[0].playerId] = (skinsByPlayer[leaders[0].playerId] ?? 0) + result.skins;
+    }
+  });
+
+  const last = results[results.length - 1];
+  return {
+    holes: results,
+    skinsByPlayer,
+    carryover: settling && last?.status === "carried" ? last.skins : 0,
+  };
+}
+
+// Bragging-rights numbers from a golfer's own gross scores
+export interface ScoringHole extends StrokePlayHole {
+  courseId: number | null;
+}
+
+export interface HoleScoringAverage {
+  courseId: number | null;
+  holeNumber: number;
+  par: number;
+  played: number;
+  average: number;
+  toPar: number;
+}
+
+export interface ScoringStats {
+  holesPlayed: number;
+  // Eagles include anything better, doubles-plus anything worse
+  eagles: number;
+  birdies: number;
+  pars: number;
+  bogeys: number;
+  doublesPlus: number;
+  // Average gross per hole, null until one has been played
+  averageByPar: Record<3 | 4 | 5, number | null>;
+  frontNineAverage: number | null;
+  backNineAverage: number | null;
+  // The course holes played best and worst against par on average
+  bestHole: HoleScoringAverage | null;
+  worstHole: HoleScoringAverage | null;
+}
+
+const averageOf = (values: number[]) =>
+  values.length === 0 ? null : Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+
+export function calculateScoringStats(holes: ScoringHole[]): ScoringStats {
+  const toPar = holes.map((hole) => hole.gross - hole.par);
+
+  const byCourseHole = new Map<string, ScoringHole[]>();
+  holes.forEach((hole) => {
+    const key = `${hole.courseId}:${hole.holeNumber}`;
+    byCourseHole.set(key, [...(byCourseHole.get(key) ?? []), hole]);
+  });
+  // Better against par first, then the hole played more often
+  const holeAverages: HoleScoringAverage[] = Array.from(byCourseHole.values())
+    .map((played) => {
+      const average = averageOf(played.map((h) => h.gross))!;
+      return {
+        courseId: played[0].courseId,
+        holeNumber: played[0].holeNumber,
+        par: played[0].par,
+        played: played.length,
+        average,
+        toPar: Math.round((average - played[0].par) * 100) / 100,
+      };
+    })
+    .sort((a, b) => a.toPar - b.toPar || b.played - a.played);
+
+  const averageWhere = (include: (hole: ScoringHole) => boolean) =>
+    averageOf(holes.filter(include).map((hole) => hole.gross));
+
+  return {
+    holesPlayed: holes.length,
+    eagles: toPar.filter((d) => d <= -2).length,
+    birdies: toPar.filter((d) => d === -1).length,
+    pars: toPar.filter((d) => d === 0).length,
+    bogeys: toPar.filter((d) => d === 1).length,
+    doublesPlus: toPar.filter((d) => d >= 2).length,
+    averageByPar: {
+      3: averageWhere((hole) => hole.par === 3),
+      4: averageWhere((hole) => hole.par === 4),
+      5: averageWhere((hole) => hole.par === 5),
+    },
+    frontNineAverage: averageWhere((hole) => hole.holeNumber <= 9),
+    backNineAverage: averageWhere((hole) => hole.holeNumber > 9),
+    bestHole: holeAverages[0] ?? null,
+    worstHole: holeAverages.length > 1 ? holeAverages[holeAverages.length - 1] : null,
+  };
+}